@@ -38,7 +38,9 @@ async function main() {
 		external: [
 			'vscode',
 			'onnxruntime-node',
-			'sharp'
+			'sharp',
+			'sqlite3',
+			'typescript'
 		],
 		logLevel: 'silent',
 		plugins: [
@@ -177,6 +177,7 @@
         chatMessagesClass: chatMessages?.className
     });
     const sendIcon = document.getElementById('send-icon');
+    const stopIcon = document.getElementById('stop-icon');
     const hamburgerMenu = document.getElementById('hamburger-menu');
     const dropdownContainer = document.getElementById('dropdown-container');
     const threadListMenu = document.getElementById('thread-list-menu');
@@ -379,6 +380,23 @@
         }
     }, 100);
 
+    /**
+     * Swap the send icon for the Stop button while the active thread is generating.
+     * @param {boolean} busy
+     */
+    function setGenerating(busy) {
+        if (sendIcon) { sendIcon.style.display = busy ? 'none' : ''; }
+        if (stopIcon) { stopIcon.classList.toggle('visible', busy); }
+    }
+
+    if (stopIcon) {
+        stopIcon.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            vscode.postMessage({ type: 'stopGeneration', sessionId: activeThreadId });
+        });
+    }
+
     // Also add event delegation as a fallback
     document.addEventListener('click', (e) => {
         const target = e.target;
@@ -910,6 +928,7 @@
 
     function clearMessages() {
         if (chatMessages) { chatMessages.innerHTML = ''; }
+        streamingElement = null;
     }
 
     /** @param {any} history */
@@ -1308,6 +1327,41 @@
         persistState();
     }
 
+    /**
+     * Bot message element currently receiving streamed text (null when no answer is streaming).
+     * @type {HTMLElement | null}
+     */
+    let streamingElement = null;
+
+    /**
+     * Render the accumulated partial answer into the streaming bubble, creating it on the first chunk.
+     * @param {string} text
+     */
+    function updateStreamingMessage(text) {
+        if (!chatMessages) { return; }
+        if (!streamingElement || !streamingElement.isConnected) {
+            streamingElement = buildMessageElement('Bot', '', undefined);
+            streamingElement.classList.add('streaming');
+            chatMessages.appendChild(streamingElement);
+        }
+        streamingElement.innerHTML = md.render(text || '');
+        chatMessages.scrollTop = chatMessages.scrollHeight;
+    }
+
+    /**
+     * Replace the streaming bubble with the final message (or just remove it when the turn failed).
+     * @param {string | undefined} message
+     */
+    function finishStreamingMessage(message) {
+        if (streamingElement) {
+            streamingElement.remove();
+            streamingElement = null;
+        }
+        if (typeof message === 'string') {
+            addMessage('Bot', message, undefined);
+        }
+    }
+
     /**
      * Enhance a freshly built message element: render Mermaid diagrams with controls.
      * Shared between addMessage() and setFullHistory() so diagrams persist after sidebar reopen.
@@ -1514,6 +1568,20 @@
                 console.log('[NaruhoDocs] Received addMessage:', message.sender, message.message);
                 addMessage(message.sender, message.message, message.messageType);
                 break;
+            case 'streamChunk':
+                if (!message.sessionId || message.sessionId === activeThreadId) {
+                    updateStreamingMessage(message.text);
+                }
+                break;
+            case 'generationState':
+                if (!message.sessionId || message.sessionId === activeThreadId) {
+                    setGenerating(!!message.busy);
+                }
+                break;
+            case 'streamEnd':
+                // Thread switched mid-stream: drop the bubble, the full history resend covers the other thread
+                finishStreamingMessage(!message.sessionId || message.sessionId === activeThreadId ? message.message : undefined);
+                break;
             case 'clearMessages':
                 clearMessages();
                 break;
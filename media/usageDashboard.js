@@ -0,0 +1,150 @@
+// @ts-check
+
+// This script will be run within the webview itself for the LLM usage dashboard
+(function () {
+    /**
+     * @typedef {Object} BreakdownRow
+     * @property {string} key
+     * @property {number} requests
+     * @property {number} errors
+     * @property {number} errorRate
+     * @property {number} p50Ms
+     * @property {number} p95Ms
+     * @property {number} inputTokens
+     * @property {number} outputTokens
+     * @property {number} estimatedInputTokens
+     * @property {number} estimatedOutputTokens
+     */
+    /**
+     * @typedef {Object} DayRow
+     * @property {string} day
+     * @property {number} requests
+     * @property {number} errors
+     * @property {number} inputTokens
+     * @property {number} outputTokens
+     * @property {number} estimatedInputTokens
+     * @property {number} estimatedOutputTokens
+     */
+    // @ts-ignore: acquireVsCodeApi is provided by VS Code webview
+    const vscode = acquireVsCodeApi();
+
+    const range = /** @type {HTMLSelectElement} */ (document.getElementById('range'));
+    const cards = /** @type {HTMLElement} */ (document.getElementById('cards'));
+    const trend = /** @type {HTMLElement} */ (document.getElementById('trend'));
+    const perTask = /** @type {HTMLTableElement} */ (document.getElementById('per-task'));
+    const perModel = /** @type {HTMLTableElement} */ (document.getElementById('per-model'));
+    const footnote = /** @type {HTMLElement} */ (document.getElementById('footnote'));
+
+    /** @param {string} tag @param {string=} text @param {string=} className */
+    function el(tag, text, className) {
+        const node = document.createElement(tag);
+        if (text !== undefined) { node.textContent = text; }
+        if (className) { node.className = className; }
+        return node;
+    }
+
+    /** @param {number} n */
+    const fmt = n => n.toLocaleString();
+    /** @param {number} ms */
+    const fmtMs = ms => ms >= 1000 ? (ms / 1000).toFixed(1) + ' s' : ms + ' ms';
+    /** @param {number} rate */
+    const fmtRate = rate => (rate * 100).toFixed(1) + '%';
+
+    /** @param {BreakdownRow} totals */
+    function renderCards(totals) {
+        cards.replaceChildren();
+        const items = [
+            ['Requests', fmt(totals.requests)],
+            ['Tokens reported', fmt(totals.inputTokens + totals.outputTokens)],
+            ['Tokens estimated', fmt(totals.estimatedInputTokens + totals.estimatedOutputTokens)],
+            ['Error rate', fmtRate(totals.errorRate)],
+            ['p50 latency', fmtMs(totals.p50Ms)],
+            ['p95 latency', fmtMs(totals.p95Ms)]
+        ];
+        for (const [label, value] of items) {
+            const card = el('div', undefined, 'card');
+            card.append(el('div', value, 'card-value'), el('div', label, 'card-label'));
+            cards.append(card);
+        }
+    }
+
+    /** @param {DayRow[]} daily */
+    function renderTrend(daily) {
+        trend.replaceChildren();
+        const max = Math.max(1, ...daily.map(d => d.requests));
+        for (const day of daily) {
+            const column = el('div', undefined, 'trend-day');
+            column.title = `${day.day}: ${day.requests} requests, ${day.errors} failed, ${fmt(day.inputTokens + day.outputTokens)} tokens reported, `
+                + `${fmt(day.estimatedInputTokens + day.estimatedOutputTokens)} estimated`;
+            const bar = el('div', undefined, 'trend-bar');
+            bar.style.height = `${Math.round(day.requests / max * 100)}%`;
+            if (day.errors) {
+                const errors = el('div', undefined, 'trend-errors');
+                errors.style.height = `${Math.round(day.errors / day.requests * 100)}%`;
+                bar.append(errors);
+            }
+            column.append(bar);
+            trend.append(column);
+        }
+    }
+
+    /** @param {HTMLTableElement} table @param {string} keyLabel @param {BreakdownRow[]} rows */
+    function renderTable(table, keyLabel, rows) {
+        table.replaceChildren();
+        const head = el('tr');
+        for (const label of [keyLabel, 'Requests', 'Errors', 'Error rate', 'p50', 'p95', 'Input tokens', 'Output tokens', 'Est. input', 'Est. output']) {
+            head.append(el('th', label));
+        }
+        table.append(head);
+        if (!rows.length) {
+            const empty = el('td', 'No requests in this range', 'empty');
+            empty.setAttribute('colspan', '10');
+            const tr = el('tr');
+            tr.append(empty);
+            table.append(tr);
+            return;
+        }
+        for (const row of rows) {
+            const tr = el('tr');
+            tr.append(
+                el('td', row.key),
+                el('td', fmt(row.requests), 'num'),
+                el('td', fmt(row.errors), 'num'),
+                el('td', fmtRate(row.errorRate), row.errorRate > 0.1 ? 'num warn' : 'num'),
+                el('td', fmtMs(row.p50Ms), 'num'),
+                el('td', fmtMs(row.p95Ms), 'num'),
+                el('td', fmt(row.inputTokens), 'num'),
+                el('td', fmt(row.outputTokens), 'num'),
+                el('td', fmt(row.estimatedInputTokens), 'num'),
+                el('td', fmt(row.estimatedOutputTokens), 'num')
+            );
+            table.append(tr);
+        }
+    }
+
+    range.addEventListener('change', () => vscode.postMessage({ type: 'setRange', days: Number(range.value) }));
+    document.getElementById('export-csv')?.addEventListener('click', () => vscode.postMessage({ type: 'export', format: 'csv' }));
+    document.getElementById('export-json')?.addEventListener('click', () => vscode.postMessage({ type: 'export', format: 'json' }));
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type !== 'usage') { return; }
+        const summary = message.summary;
+        if (!range.options.length) {
+            for (const days of message.ranges) {
+                const option = el('option', `Last ${days} days`);
+                option.setAttribute('value', String(days));
+                range.append(option);
+            }
+        }
+        range.value = String(summary.days);
+        renderCards(summary.totals);
+        renderTrend(summary.daily);
+        renderTable(perTask, 'Task', summary.perTask);
+        renderTable(perModel, 'Model (provider)', summary.perModel);
+        footnote.textContent = `${summary.from} to ${summary.to} (UTC). Latency percentiles cover successful requests; `
+            + `tokens of requests without provider-reported usage are chars/4 estimates, counted apart. ${fmt(message.recordCount)} records kept.`;
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import { ChatSession } from './langchain-backend/llm';
 import { LLMService } from './managers/LLMService';
-import { SystemMessages } from './SystemMessages';
+import { getPrompt, PromptChangeEvent } from './managers/PromptRegistry';
 import { LLMProviderManager } from './llm-providers/manager';
+import { isCancellationError, LLMCancelledError } from './llm-providers/base';
 import { HumanMessage, AIMessage } from '@langchain/core/messages';
 import { DocumentSuggestion } from './general-purpose/DocumentSuggestion';
 import { generateDocument } from './general-purpose/GenerateDocument';
@@ -27,6 +28,67 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 	private lastSentHistorySignatures: Map<string, string> = new Map();
 	// Track last sent diagram count per thread so we can force resend when diagrams appear/disappear
 	private lastSentDiagramCounts: Map<string, number> = new Map();
+	// In-flight chat turns per thread, aborted by the webview Stop button
+	private activeRequests: Map<string, AbortController> = new Map();
+
+	/**
+	 * Run a chat turn through LLMService.trackedChatStream, posting the accumulated partial answer to the
+	 * webview (throttled). Resolves with the final answer once the stream completes.
+	 */
+	private async streamChatTurn(sessionId: string, systemMessage: string, prompt: string, signal?: AbortSignal): Promise<string> {
+		let raw = '';
+		let lastFlush = 0;
+		let pending: NodeJS.Timeout | undefined;
+		const flush = () => {
+			pending = undefined;
+			lastFlush = Date.now();
+			this._view?.webview.postMessage({ type:'streamChunk', sessionId, text: this.visibleStreamText(raw) });
+		};
+		try {
+			return await this.llmService.trackedChatStream({
+				sessionId,
+				systemMessage,
+				prompt,
+				task: 'chat',
+				signal,
+				onChunk: chunk => {
+					raw += chunk;
+					if (Date.now() - lastFlush >= ChatViewProvider.STREAM_FLUSH_MS) {
+						flush();
+					} else if (!pending) {
+						pending = setTimeout(flush, ChatViewProvider.STREAM_FLUSH_MS);
+					}
+				}
+			});
+		} finally {
+			if (pending) { clearTimeout(pending); }
+		}
+	}
+
+	// <think> reasoning stays hidden while streaming; the final message renders it as a collapsible section
+	private visibleStreamText(raw: string): string {
+		return raw.replace(/<think>[\s\S]*?(<\/think>|$)/gi, '').trimStart();
+	}
+
+	/**
+	 * Record a stopped chat turn. The session rolled the turn back, so append the question together with
+	 * whatever was streamed (marked as stopped) to keep the thread history in human/ai pairs.
+	 */
+	private async recordStoppedTurn(sessionId: string, userMessage: string, partialText: string): Promise<string> {
+		const partial = this.visibleStreamText(partialText).trim();
+		const stoppedMsg = partial ? `${partial}\n\n_⏹ Response stopped._` : '_⏹ Response stopped._';
+		try {
+			const canonicalSession = await this.llmService.getSession(sessionId, this.threadManager.getSystemMessage(sessionId) || getPrompt('general'), { taskType:'chat' });
+			this.threadManager.setSession(sessionId, canonicalSession);
+			const existing = canonicalSession.getHistory();
+			const serialized = existing.map((m: any) => ({ type: (m.type || (typeof m._getType === 'function' ? m._getType() : 'unknown')), text: (m as any).text || (typeof m.content === 'string' ? m.content : JSON.stringify(m.content)) }));
+			serialized.push({ type:'human', text: userMessage });
+			serialized.push({ type:'ai', text: stoppedMsg });
+			(canonicalSession as any).setHistory(serialized as any);
+			await this.threadManager.saveThreadHistory(sessionId);
+		} catch { /* ignore */ }
+		return stoppedMsg;
+	}
 
 	// Compute a simple signature of a session's current normalized history
 	private computeHistorySignature(session: ChatSession): string {
@@ -48,6 +110,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 	}
 
 	public static readonly viewType = 'naruhodocs.chatView';
+	// Minimum interval between streamed partial-answer posts to the webview (each post re-renders markdown)
+	private static readonly STREAM_FLUSH_MS = 50;
 
 	private _view?: vscode.WebviewView;
 
@@ -163,7 +227,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 					}
 					case 'setGeneralBeginnerMode': {
 						const sessionId = 'naruhodocs-general-thread';
-						const sys = SystemMessages.GENERAL_BEGINNER as string;
+						const sys = getPrompt('general-beginner');
 						const session = this.threadManager.getSession(sessionId);
 						if (session && typeof (session as any).setCustomSystemMessage === 'function') { try { (session as any).setCustomSystemMessage(sys); } catch {} }
 						this.threadManager.setSystemMessage(sessionId, sys);
@@ -171,7 +235,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 					}
 					case 'setGeneralDeveloperMode': {
 						const sessionId = 'naruhodocs-general-thread';
-						const sys = SystemMessages.GENERAL_PURPOSE;
+						const sys = getPrompt('general');
 						const session = this.threadManager.getSession(sessionId);
 						if (session && typeof (session as any).setCustomSystemMessage === 'function') { try { (session as any).setCustomSystemMessage(sys); } catch {} }
 						this.threadManager.setSystemMessage(sessionId, sys);
@@ -187,6 +251,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 							try { this._sendFullHistory(activeThreadId); } catch {}
 						}
 						const activeSession = this.threadManager.getSession(activeThreadId);
+						const controller = new AbortController();
+						this.activeRequests.set(activeThreadId, controller);
+						this._view?.webview.postMessage({ type:'generationState', sessionId: activeThreadId, busy: true });
 						try {
 							if (!activeSession) { throw new Error('No active thread'); }
 							// Instrumentation: capture pre-chat history length
@@ -210,12 +277,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 									return { type: role || 'unknown', text };
 								});
 							} catch { /* ignore */ }
-							const botResponse = await this.llmService.trackedChat({ sessionId: activeThreadId, systemMessage: systemMsg || SystemMessages.GENERAL_PURPOSE, prompt: userMessage, task:'chat' });
+							const streaming = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('llm.streaming', true);
+							const botResponse = streaming
+								? await this.streamChatTurn(activeThreadId, systemMsg || getPrompt('general'), userMessage, controller.signal)
+								: await this.llmService.trackedChat({ sessionId: activeThreadId, systemMessage: systemMsg || getPrompt('general'), prompt: userMessage, task:'chat', signal: controller.signal });
 							// Always re-sync the ThreadManager session reference with the canonical LLMService session.
 							// Root cause: after provider/model changes LLMService may recreate its session while ThreadManager
 							// still points at an old (now inert) instance. This produced zero-length histories and caused
 							// _sendFullHistory to clear UI messages. We now pull the canonical session every send.
-							const canonicalSession = await this.llmService.getSession(activeThreadId, systemMsg || SystemMessages.GENERAL_PURPOSE, { taskType:'chat' });
+							const canonicalSession = await this.llmService.getSession(activeThreadId, systemMsg || getPrompt('general'), { taskType:'chat' });
 							// Merge old history if it vanished due to session recreation (common with local model switch)
 							try {
 								const newHist = canonicalSession.getHistory();
@@ -274,14 +344,25 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 									OutputLogger.history(`afterRebuildFallback length=${postLen} session=${activeThreadId}`);
 								} catch { /* ignore */ }
 							}
-							this._view?.webview.postMessage({ type:'addMessage', sender:'Bot', message: botResponse });
+							if (streaming) {
+								// Final formatted answer replaces the live streaming bubble
+								this._view?.webview.postMessage({ type:'streamEnd', sessionId: activeThreadId, message: botResponse });
+							} else {
+								this._view?.webview.postMessage({ type:'addMessage', sender:'Bot', message: botResponse });
+							}
 							await this.threadManager.saveThreadHistory(activeThreadId);
 							this._sendFullHistory(activeThreadId);
 						} catch (error:any) {
+							if (isCancellationError(error)) {
+								const stoppedMsg = await this.recordStoppedTurn(activeThreadId, userMessage, error instanceof LLMCancelledError ? error.partialText : '');
+								this._view?.webview.postMessage({ type:'streamEnd', sessionId: activeThreadId, message: stoppedMsg });
+								this._sendFullHistory(activeThreadId);
+								break;
+							}
 							const errMsg = `Error: ${error.message || 'Unable to connect to LLM.'}`;
 							try {
 								// Re-sync canonical session on error as well
-								const canonicalSession = await this.llmService.getSession(activeThreadId!, this.threadManager.getSystemMessage(activeThreadId!) || SystemMessages.GENERAL_PURPOSE, { taskType:'chat' });
+								const canonicalSession = await this.llmService.getSession(activeThreadId!, this.threadManager.getSystemMessage(activeThreadId!) || getPrompt('general'), { taskType:'chat' });
 								this.threadManager.setSession(activeThreadId!, canonicalSession);
 								const existing = canonicalSession.getHistory();
 								const serialized = existing.map((m: any) => ({ type: (m.type || (typeof m._getType === 'function' ? m._getType() : 'unknown')), text: (m as any).text || (typeof m.content === 'string' ? m.content : JSON.stringify(m.content)) }));
@@ -289,10 +370,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 								(canonicalSession as any).setHistory(serialized as any);
 								await this.threadManager.saveThreadHistory(activeThreadId!);
 							} catch { /* ignore */ }
+							// Drop any partially streamed bubble before showing the error
+							this._view?.webview.postMessage({ type:'streamEnd', sessionId: activeThreadId });
 							this._view?.webview.postMessage({ type:'addMessage', sender:'Bot', message: errMsg });
+						} finally {
+							if (this.activeRequests.get(activeThreadId) === controller) {
+								this.activeRequests.delete(activeThreadId);
+							}
+							this._view?.webview.postMessage({ type:'generationState', sessionId: activeThreadId, busy: false });
 						}
 						break;
 					}
+					case 'stopGeneration': {
+						const sessionId = (data.sessionId as string | undefined) || this.threadManager.getActiveThreadId();
+						if (sessionId) { this.activeRequests.get(sessionId)?.abort(); }
+						break;
+					}
 					case 'resetSession': {
 						const activeThreadId = this.threadManager.getActiveThreadId();
 						if (activeThreadId) { try { await this.threadManager.resetSession(activeThreadId); } catch { } }
@@ -311,6 +404,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 						this.threadManager.setActiveThread(sessionId);
 						// Force resend on thread change so UI always updates even if signature unchanged
 						this._sendFullHistory(sessionId, undefined, true);
+						this._view?.webview.postMessage({ type:'generationState', sessionId, busy: this.activeRequests.has(sessionId) });
 						break;
 					}
 					case 'showVisualizationMenu': {
@@ -370,7 +464,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 						const generalThreadId = 'naruhodocs-general-thread';
 						let aiFilename = '';
 						const templateType = (data.docType || data.templateType || 'generic').toLowerCase();
-						try { const suggestedName = await this.llmService.trackedChat({ sessionId: 'chatview:filename-suggest', systemMessage:'You suggest concise filesystem-friendly markdown filenames.', prompt:`Suggest a concise, filesystem-friendly filename (with .md extension) for a ${templateType} documentation file. Do not include the word 'template' in the filename. Respond with only the filename, no explanation.`, task:'generate_doc', forceNew:true }); aiFilename = (suggestedName||'').trim(); } catch { aiFilename=''; }
+						try { const suggestedName = await this.llmService.trackedChat({ sessionId: 'chatview:filename-suggest', systemMessage: getPrompt('filename-suggestion'), prompt:`Suggest a concise, filesystem-friendly filename (with .md extension) for a ${templateType} documentation file. Do not include the word 'template' in the filename. Respond with only the filename, no explanation.`, task:'generate_doc', forceNew:true }); aiFilename = (suggestedName||'').trim(); } catch { aiFilename=''; }
 						let fileName = '';
 						if (aiFilename && /^(?![. ]).+\.md$/i.test(aiFilename) && !/[\\/:*?"<>|]/.test(aiFilename)) { fileName = aiFilename.replace(/(_template)?\.md$/i, '') + '_template.md'; }
 						else { fileName = templateType.trim().replace(/\s+/g,'_').replace(/[^\w\-]/g,'') + '_template.md'; }
@@ -486,6 +580,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 		this.threadManager.createThread(sessionId, initialContext, title);
 	}
 
+	/**
+	 * Hot reload of .naruhodocs/prompts: the general thread takes the edited general / general-beginner prompt when it
+	 * still runs the previous text of that prompt. Document threads keep the prompt they were opened with.
+	 */
+	public applyPromptChange(event: PromptChangeEvent) {
+		const sessionId = 'naruhodocs-general-thread';
+		let current: string | undefined;
+		try { current = this.threadManager.getSystemMessage(sessionId); } catch { return; }
+		for (const id of ['general', 'general-beginner'] as const) {
+			if (event.ids.includes(id) && current === event.previous[id]) {
+				this.threadManager.setSystemMessage(sessionId, getPrompt(id));
+				return;
+			}
+		}
+	}
+
 	/** Hydrate any previously persisted threads (including general) before creating new sessions. */
 	public async restorePersistedThreads(): Promise<void> {
 		try {
@@ -521,6 +631,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 		} catch (e) {
 			console.warn('[NaruhoDocs] Failed to send full history after setActiveThread:', e);
 		}
+		this._view?.webview.postMessage({ type:'generationState', sessionId, busy: this.activeRequests.has(sessionId) });
 	}
 
 	// Reset current active chat session
@@ -600,6 +711,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 			}
 				const normalized: Array<{ sender: string; message: string; messageType?: string; rawMermaid?: string }> = raw
 				.filter((msg: any) => {
+					// The conversation memory entry (summary of compacted turns) is not a chat message
+					if ((msg.type || (typeof msg._getType === 'function' ? msg._getType() : undefined)) === 'system') {
+						return false;
+					}
 					// Filter out RAG Query system/context messages
 					// You can adjust this filter as needed for your app
 					// Example: skip if message contains 'Prompt-engineered RAG Query' or 'Retrieved Context:'
@@ -666,6 +781,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 				this._view.webview.postMessage({ type: 'clearMessages' });
 				for (const msg of raw) {
 					let role: string | undefined = (msg as any).type || (typeof (msg as any)._getType === 'function' ? (msg as any)._getType() : undefined);
+					// Skip the conversation memory entry, as the normalized path does
+					if (role === 'system') { continue; }
 					if (!role || role === 'unknown') {
 						const ctor = msg.constructor?.name?.toLowerCase?.() || '';
 						if (ctor.includes('human')) { role = 'human'; }
@@ -767,6 +884,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 							<span id="send-icon" class="send-icon-class">
 								<img src="${sendIconUri}" width="18" height="18" alt="Send">
 							</span>
+							<span id="stop-icon" class="stop-icon-class" title="Stop generating" role="button" aria-label="Stop generating">
+								<span class="stop-square"></span>
+							</span>
 						</div>
 						<!--<button id="create-file-btn">Create Default File</button>-->
 					</div>
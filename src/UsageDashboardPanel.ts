@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import { UsageHistory, summarizeUsage, usageToCsv, utcDay } from './managers/UsageHistory';
+import { getNonce } from './utils/utils';
+
+const RANGES = [7, 30, 90];
+
+/**
+ * "Show LLM Usage Stats" dashboard: daily trend, per task / per model breakdowns with p50/p95 latency and error
+ * rates, read from the persisted usage history. A single panel is reused and refreshed as new requests complete.
+ */
+export class UsageDashboardPanel {
+    public static readonly viewType = 'naruhodocs.usageDashboard';
+    private static current: UsageDashboardPanel | undefined;
+    private days = 30;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    public static show(extensionUri: vscode.Uri, history: UsageHistory): void {
+        if (UsageDashboardPanel.current) {
+            UsageDashboardPanel.current.panel.reveal();
+            UsageDashboardPanel.current.update();
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(UsageDashboardPanel.viewType, 'LLM Usage', vscode.ViewColumn.One, {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+        });
+        UsageDashboardPanel.current = new UsageDashboardPanel(panel, extensionUri, history);
+    }
+
+    private constructor(private readonly panel: vscode.WebviewPanel, private readonly extensionUri: vscode.Uri, private readonly history: UsageHistory) {
+        panel.webview.html = this.getHtml(panel.webview);
+        this.disposables.push(
+            panel.onDidDispose(() => this.dispose()),
+            panel.onDidChangeViewState(() => { if (panel.visible) { this.update(); } }),
+            history.onDidChange(() => { if (panel.visible) { this.update(); } }),
+            panel.webview.onDidReceiveMessage(message => this.onMessage(message))
+        );
+    }
+
+    private async onMessage(message: { type: string; days?: number; format?: 'csv' | 'json' }) {
+        switch (message.type) {
+            case 'ready':
+                this.update();
+                break;
+            case 'setRange':
+                if (message.days && RANGES.includes(message.days)) {
+                    this.days = message.days;
+                    this.update();
+                }
+                break;
+            case 'export':
+                try {
+                    await this.export(message.format === 'json' ? 'json' : 'csv');
+                } catch (e) {
+                    vscode.window.showErrorMessage('Export usage: ' + (e instanceof Error ? e.message : String(e)));
+                }
+                break;
+        }
+    }
+
+    private update() {
+        this.panel.webview.postMessage({
+            type: 'usage',
+            summary: summarizeUsage(this.history.getRecords(), this.days),
+            ranges: RANGES,
+            recordCount: this.history.size
+        });
+    }
+
+    /** Write the records of the selected range to a file the user picks */
+    private async export(format: 'csv' | 'json') {
+        const records = this.history.getRecords(this.days);
+        const name = `naruhodocs-usage-${utcDay(Date.now())}.${format}`;
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: ws ? vscode.Uri.joinPath(ws.uri, name) : undefined,
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] },
+            saveLabel: 'Export Usage'
+        });
+        if (!target) { return; }
+        const content = format === 'csv' ? usageToCsv(records) : JSON.stringify(records, null, 2) + '\n';
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`Exported ${records.length} usage record${records.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(target)}.`);
+    }
+
+    private dispose() {
+        UsageDashboardPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'usageDashboard.js'));
+        const styleResetUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'reset.css'));
+        const styleVSCodeUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'vscode.css'));
+        const styleMainUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'usageDashboard.css'));
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<link href="${styleResetUri}" rel="stylesheet">
+				<link href="${styleVSCodeUri}" rel="stylesheet">
+				<link href="${styleMainUri}" rel="stylesheet">
+				<title>LLM Usage</title>
+			</head>
+			<body>
+				<div class="header">
+					<h1>LLM Usage</h1>
+					<div class="controls">
+						<select id="range"></select>
+						<button id="export-csv" class="secondary-button">Export CSV</button>
+						<button id="export-json" class="secondary-button">Export JSON</button>
+					</div>
+				</div>
+				<div id="cards" class="cards"></div>
+				<h2>Daily requests</h2>
+				<div id="trend" class="trend"></div>
+				<h2>Per task</h2>
+				<table id="per-task"></table>
+				<h2>Per model</h2>
+				<table id="per-model"></table>
+				<p id="footnote" class="footnote"></p>
+				<script nonce="${nonce}" src="${scriptUri}"></script>
+			</body>
+			</html>`;
+    }
+}
@@ -8,6 +8,7 @@ import { FolderStructureAnalyzer, FolderNode } from './analyzers/FolderStructure
 import { D3TreeRenderer, TreeNode } from './renderers/D3TreeRenderer';
 import { VisualizationViewProvider } from './VisualizationViewProvider';
 import { OutputLogger } from './utils/OutputLogger';
+import { toAbortSignal } from './utils/utils';
 
 export interface VisualizationOption {
     id: string;
@@ -98,17 +99,20 @@ export class VisualizationProvider {
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Generating visualization...',
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 progress.report({ increment: 0, message: 'Initializing...' });
 
                 try {
                     progress.report({ increment: 25, message: 'Analyzing...' });
-                    const result = await this.performVisualizationGeneration(type, documentUri, progress);
+                    const result = await this.performVisualizationGeneration(type, documentUri, progress, toAbortSignal(token));
+                    if (token.isCancellationRequested) { return; }
                     progress.report({ increment: 90, message: 'Finalizing...' });
                     this.sendVisualizationToChat(result);
                     progress.report({ increment: 100, message: 'Complete!' });
                 } catch (analysisError) {
+                    // User pressed Cancel: no fallback diagram, no warning
+                    if (token.isCancellationRequested) { return; }
                     console.error('Analysis error:', analysisError);
                     progress.report({ increment: 60, message: 'Using fallback...' });
                     const fallbackResult = this.generateFallbackVisualization(type, analysisError as Error);
@@ -135,14 +139,14 @@ export class VisualizationProvider {
      * Core generation logic used by both command palette flow and view provider direct calls.
      * Ensures a single path for producing the final VisualizationResult (no placeholders).
      */
-    private async performVisualizationGeneration(type: string, documentUri?: vscode.Uri, progress?: vscode.Progress<{message?: string; increment?: number}>): Promise<VisualizationResult> {
+    private async performVisualizationGeneration(type: string, documentUri?: vscode.Uri, progress?: vscode.Progress<{message?: string; increment?: number}>, signal?: AbortSignal): Promise<VisualizationResult> {
         switch (type) {
             case 'architecture':
                 progress?.report({ message: 'Analyzing project architecture...' });
-                return await this.generateArchitectureVisualization(documentUri);
+                return await this.generateArchitectureVisualization(documentUri, signal);
             case 'folderStructure':
                 progress?.report({ message: 'Scanning folder structure...' });
-                return await this.generateFolderStructureListVisualization();
+                return await this.generateFolderStructureListVisualization(signal);
             // document relations case removed
             default:
                 throw new Error(`Unknown visualization type: ${type}`);
@@ -370,10 +374,10 @@ export class VisualizationProvider {
             const result = await vscode.window.withProgress<VisualizationResult>({
                 location: vscode.ProgressLocation.Notification,
                 title: 'Generating visualization...',
-                cancellable: false
-            }, async (progress) => {
+                cancellable: true
+            }, async (progress, token) => {
                 try {
-                    return await this.performVisualizationGeneration(type, documentUri, progress);
+                    return await this.performVisualizationGeneration(type, documentUri, progress, toAbortSignal(token));
                 } catch (e) {
                     return this.generateFallbackVisualization(type, e as Error);
                 }
@@ -385,7 +389,7 @@ export class VisualizationProvider {
         }
     }
 
-    private async generateArchitectureVisualization(documentUri?: vscode.Uri): Promise<VisualizationResult> {
+    private async generateArchitectureVisualization(documentUri?: vscode.Uri, signal?: AbortSignal): Promise<VisualizationResult> {
         try {
             const workspaceFolders = vscode.workspace.workspaceFolders;
             if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -405,7 +409,7 @@ export class VisualizationProvider {
 
             // Perform architecture analysis via analyzer
             const analyzer = new ArchitectureAnalyzer(this.llmManager);
-            const analysis = await analyzer.analyzeProjectArchitecture();
+            const analysis = await analyzer.analyzeProjectArchitecture(signal);
             const content = analyzer.generateMermaidDiagram(analysis);
 
             return {
@@ -420,7 +424,7 @@ export class VisualizationProvider {
         }
     }
 
-    private async generateFolderStructureListVisualization(): Promise<VisualizationResult> {
+    private async generateFolderStructureListVisualization(signal?: AbortSignal): Promise<VisualizationResult> {
         try {
             // Get workspace folder
             const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -434,7 +438,7 @@ export class VisualizationProvider {
             // while developing the extension (and so the copy button appears consistently).
 
             const folderAnalyzer = new FolderStructureAnalyzer(this.llmManager);
-            const aiAnalysis = await folderAnalyzer.analyzeFolderStructure();
+            const aiAnalysis = await folderAnalyzer.analyzeFolderStructure(signal);
             let root: FolderNode | null = aiAnalysis ? aiAnalysis.structure : null;
             if (!root) {
                 // Minimal fallback root if analyzer failed
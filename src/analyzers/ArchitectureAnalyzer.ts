@@ -2,6 +2,9 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { LLMProviderManager } from '../llm-providers/manager';
 import { LLMService } from '../managers/LLMService';
+import { getPrompt } from '../managers/PromptRegistry';
+import { isCancellationError, StructuredOutputError } from '../llm-providers/base';
+import { z } from 'zod';
 
 export interface ArchitectureComponent {
     name: string;
@@ -21,16 +24,73 @@ export interface ArchitectureAnalysis {
     recommendations: string[];
 }
 
+interface ProjectOverview {
+    type: string;
+    language: string;
+    framework?: string;
+    description?: string;
+}
+
+interface FileStructureInsights {
+    architecturePattern: string;
+    functionalAreas: string[];
+    configFiles: string[];
+    entryPoints: string[];
+}
+
+const projectOverviewSchema: z.ZodType<ProjectOverview> = z.object({
+    type: z.string().describe('web-app, api, library, cli-tool, desktop-app, mobile-app, extension or other'),
+    language: z.string().describe('Main programming language, e.g. typescript or python'),
+    framework: z.string().optional().describe('Main framework (react, express, fastapi, ...); omit when there is none'),
+    description: z.string().optional().describe('Brief description of what this project does')
+});
+
+const fileStructureSchema: z.ZodType<FileStructureInsights> = z.object({
+    architecturePattern: z.string(),
+    functionalAreas: z.array(z.string()),
+    configFiles: z.array(z.string()),
+    entryPoints: z.array(z.string())
+});
+
+const dependenciesSchema = z.object({
+    external: z.array(z.string()).describe('External libraries and frameworks in use')
+});
+
+const componentSchema: z.ZodType<ArchitectureComponent> = z.object({
+    name: z.string(),
+    type: z.enum(['module', 'service', 'controller', 'model', 'view', 'utility', 'config', 'api', 'database', 'external']),
+    description: z.string().describe('What this component does'),
+    dependencies: z.array(z.string()).describe('Names of other components it depends on'),
+    files: z.array(z.string()),
+    layer: z.enum(['presentation', 'business', 'data', 'infrastructure', 'cross-cutting'])
+});
+
+const componentsSchema = z.object({ components: z.array(componentSchema) });
+
+const patternsSchema = z.object({ patterns: z.array(z.string()) });
+
+const dataFlowSchema = z.object({
+    flows: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+        description: z.string().describe('What data or control flows')
+    }))
+});
+
+const recommendationsSchema = z.object({ recommendations: z.array(z.string()) });
+
 export class ArchitectureAnalyzer {
     private sessionId = 'analyzer:architecture';
     private llmService: LLMService;
     private analysisContext: Map<string, any> = new Map();
+    private signal?: AbortSignal; // cancels in-flight LLM calls (progress notification Cancel)
     
     constructor(private llmManager: LLMProviderManager) {
         this.llmService = LLMService.getOrCreate(llmManager);
     }
 
-    public async analyzeProjectArchitecture(): Promise<ArchitectureAnalysis> {
+    public async analyzeProjectArchitecture(signal?: AbortSignal): Promise<ArchitectureAnalysis> {
+        this.signal = signal;
         try {
             // Initialize AI session for architecture analysis
             await this.initializeAISession();
@@ -65,67 +125,33 @@ export class ArchitectureAnalyzer {
             
             return analysis;
         } catch (error) {
+            if (isCancellationError(error) || error instanceof StructuredOutputError) { throw error; }
             console.error('Architecture analysis failed:', error);
             throw new Error(`Failed to analyze project architecture: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     private async initializeAISession(): Promise<void> {
-        const systemMessage = `You are an expert software architect and code analyst. Your role is to analyze project structures and understand software architecture.
-
-Your capabilities:
-- Identify architectural patterns and design principles
-- Understand component relationships and dependencies  
-- Recognize different types of software projects (web apps, APIs, libraries, etc.)
-- Analyze code structure and organization
-- Generate clear, accurate architectural diagrams
-
-When analyzing files, focus on:
-- Import/export statements to understand dependencies
-- Class/function/component structure
-- Configuration files to understand project setup
-- Entry points and main application files
-- Database connections and external service integrations
-
-Be precise and factual. Base your analysis on actual code content, not assumptions.`;
+        const systemMessage = getPrompt('architecture-analysis');
 
         // Use centralized LLMService
-        await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', temperatureOverride: 0.1, forceNew: true });
+        await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', forceNew: true });
     }
 
-    private async discoverProjectType(): Promise<{ type: string; framework?: string; language: string }> {
+    private async discoverProjectType(): Promise<ProjectOverview> {
         // Get key project files
         const keyFiles = await this.getKeyProjectFiles();
         
         const prompt = `Analyze these project files and identify the project type, main programming language, and framework if applicable:
 
-${keyFiles.map(f => `=== ${f.path} ===\n${f.content.substring(0, 2000)}`).join('\n\n')}
-
-Respond in JSON format:
-{
-    "type": "web-app|api|library|cli-tool|desktop-app|mobile-app|extension|other",
-    "language": "javascript|typescript|python|java|etc",
-    "framework": "react|vue|angular|express|fastapi|spring|etc or null",
-    "description": "brief description of what this project does"
-}`;
+${keyFiles.map(f => `=== ${f.path} ===\n${f.content.substring(0, 2000)}`).join('\n\n')}`;
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
-        try {
-            const analysis = JSON.parse(this.extractJSON(response));
-            this.analysisContext.set('projectType', analysis);
-            return analysis;
-        } catch (error) {
-            // Fallback analysis
-            return {
-                type: 'web-app',
-                language: 'typescript',
-                framework: 'unknown'
-            };
-        }
+        const analysis = await this.requestJSON(prompt, projectOverviewSchema);
+        this.analysisContext.set('projectType', analysis);
+        return analysis;
     }
 
-    private async analyzeFileStructure(): Promise<any> {
+    private async analyzeFileStructure(): Promise<FileStructureInsights | {}> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
             return {};
@@ -142,12 +168,9 @@ Based on the folder names and file organization, identify:
 1. What architectural pattern is being used (MVC, layered, microservices, etc.)
 2. Main functional areas/modules
 3. Configuration and build files
-4. Entry points and main application files
+4. Entry points and main application files`;
 
-Respond in JSON format with your analysis.`;
-
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        const analysis = JSON.parse(this.extractJSON(response));
+        const analysis = await this.requestJSON(prompt, fileStructureSchema);
         this.analysisContext.set('fileStructure', analysis);
         return analysis;
     }
@@ -163,41 +186,24 @@ ${depFiles.map(f => `=== ${f.path} ===\n${f.content}`).join('\n\n')}
 Identify:
 1. External libraries and frameworks being used
 2. Their purposes (database, UI, testing, build tools, etc.)
-3. Any notable architectural implications
-
-Respond in JSON format:
-{
-    "external": ["library1", "library2"],
-    "categories": {
-        "ui": ["react", "material-ui"],
-        "database": ["prisma", "mongodb"],
-        "testing": ["jest", "cypress"],
-        "build": ["webpack", "babel"]
-    }
-}`;
+3. Any notable architectural implications`;
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
-        try {
-            const deps = JSON.parse(this.extractJSON(response));
-            this.analysisContext.set('dependencies', deps);
-            return {
-                internal: [],
-                external: deps.external || []
-            };
-        } catch (error) {
-            return { internal: [], external: [] };
-        }
+        const deps = await this.optionalPhase('dependencies', () => this.requestJSON(prompt, dependenciesSchema));
+        this.analysisContext.set('dependencies', deps);
+        return {
+            internal: [],
+            external: deps?.external ?? []
+        };
     }
 
-    private async identifyComponents(projectOverview: any, fileStructure: any, dependencies: any): Promise<ArchitectureComponent[]> {
+    private async identifyComponents(projectOverview: ProjectOverview, fileStructure: FileStructureInsights | {}, dependencies: { external: string[] }): Promise<ArchitectureComponent[]> {
         // Get main source files for analysis
         const sourceFiles = await this.getMainSourceFiles();
         
         const prompt = `Based on the project analysis so far:
 - Project Type: ${projectOverview.type} (${projectOverview.framework || 'no framework'})
 - File Structure: ${JSON.stringify(fileStructure, null, 2)}
-- Dependencies: ${dependencies.external?.join(', ') || 'none identified'}
+- Dependencies: ${dependencies.external.join(', ') || 'none identified'}
 
 Now analyze these key source files to identify architectural components:
 
@@ -207,31 +213,10 @@ Identify the main architectural components, their types, and relationships. For
 1. Name and purpose
 2. Type (controller, service, model, view, utility, etc.)
 3. Dependencies on other components  
-4. Architectural layer (presentation, business, data, etc.)
-
-Respond in JSON format:
-{
-    "components": [
-        {
-            "name": "ComponentName",
-            "type": "controller|service|model|view|utility|config|api|database|external",
-            "description": "what this component does",
-            "dependencies": ["other", "components"],
-            "files": ["file1.ts", "file2.ts"],
-            "layer": "presentation|business|data|infrastructure|cross-cutting"
-        }
-    ]
-}`;
+4. Architectural layer (presentation, business, data, etc.)`;
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
-        try {
-            const analysis = JSON.parse(this.extractJSON(response));
-            return analysis.components || [];
-        } catch (error) {
-            console.error('Failed to parse component analysis:', error);
-            return [];
-        }
+        const analysis = await this.requestJSON(prompt, componentsSchema);
+        return analysis.components;
     }
 
     private async recognizeArchitecturePatterns(components: ArchitectureComponent[]): Promise<string[]> {
@@ -246,17 +231,10 @@ What architectural patterns and design principles are being used? Consider:
 - Repository pattern
 - Dependency injection
 - Event-driven architecture
-- Clean architecture principles
-
-Respond with a JSON array of identified patterns: ["pattern1", "pattern2"]`;
+- Clean architecture principles`;
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
-        try {
-            return JSON.parse(this.extractJSON(response));
-        } catch (error) {
-            return ['layered-architecture'];
-        }
+        const analysis = await this.optionalPhase('patterns', () => this.requestJSON(prompt, patternsSchema));
+        return analysis?.patterns ?? [];
     }
 
     private async analyzeDataFlow(components: ArchitectureComponent[]): Promise<Array<{ from: string; to: string; description: string }>> {
@@ -269,27 +247,10 @@ Identify the main data flows - how information moves through the system. Conside
 - Database operations
 - API calls
 - Event flows
-- Component communication
-
-Respond in JSON format:
-{
-    "flows": [
-        {
-            "from": "ComponentA",
-            "to": "ComponentB", 
-            "description": "description of what data/control flows"
-        }
-    ]
-}`;
+- Component communication`;
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
-        try {
-            const analysis = JSON.parse(this.extractJSON(response));
-            return analysis.flows || [];
-        } catch (error) {
-            return [];
-        }
+        const analysis = await this.optionalPhase('data flow', () => this.requestJSON(prompt, dataFlowSchema));
+        return analysis?.flows ?? [];
     }
 
     private async generateRecommendations(components: ArchitectureComponent[], patterns: string[]): Promise<string[]> {
@@ -301,16 +262,24 @@ Provide 3-5 brief architectural recommendations for improving this codebase:
 - Code organization improvements
 - Design pattern suggestions
 - Scalability considerations
-- Maintainability improvements
+- Maintainability improvements`;
+
+        const analysis = await this.optionalPhase('recommendations', () => this.requestJSON(prompt, recommendationsSchema));
+        return analysis?.recommendations ?? [];
+    }
 
-Respond as a JSON array of recommendation strings.`;
+    private requestJSON<T>(prompt: string, schema: z.ZodType<T>): Promise<T> {
+        return this.llmService.requestStructured({ sessionId: this.sessionId, prompt, task: 'analyze', signal: this.signal }, schema);
+    }
 
-    const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: 'architecture analysis', prompt, task: 'analyze' });
-        
+    /** Phases the diagram can do without: an unusable answer leaves them empty instead of failing the analysis */
+    private async optionalPhase<T>(phase: string, run: () => Promise<T>): Promise<T | undefined> {
         try {
-            return JSON.parse(this.extractJSON(response));
+            return await run();
         } catch (error) {
-            return ['Consider implementing dependency injection', 'Separate concerns into distinct layers'];
+            if (!(error instanceof StructuredOutputError)) { throw error; }
+            console.warn(`Architecture analysis: skipping ${phase}:`, error.message);
+            return undefined;
         }
     }
 
@@ -512,20 +481,4 @@ Respond as a JSON array of recommendation strings.`;
             return {};
         }
     }
-
-    private extractJSON(text: string): string {
-        // Try to find JSON in the response
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            return jsonMatch[0];
-        }
-        
-        // Try to find JSON array
-        const arrayMatch = text.match(/\[[\s\S]*\]/);
-        if (arrayMatch) {
-            return arrayMatch[0];
-        }
-        
-        throw new Error('No JSON found in response');
-    }
 }
@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { LLMProviderManager } from '../llm-providers/manager';
 import { LLMService } from '../managers/LLMService';
+import { getPrompt } from '../managers/PromptRegistry';
+import { z } from 'zod';
 
 export interface DocumentNode {
     name: string;
@@ -46,6 +48,21 @@ export interface DocumentCluster {
     completeness: number;
 }
 
+const clusteringSchema = z.object({
+    clusters: z.array(z.object({
+        name: z.string(),
+        documents: z.array(z.string()),
+        purpose: z.string(),
+        completeness: z.number().min(0).max(100).describe('Estimated completeness in percent')
+    })),
+    insights: z.object({
+        documentationHealth: z.string().describe('Overall assessment'),
+        orphanedDocuments: z.array(z.string()).describe('Isolated documents'),
+        missingDocumentation: z.array(z.string()).describe('Suggested missing documents'),
+        improvementSuggestions: z.array(z.string())
+    })
+});
+
 export class DocumentRelationsAnalyzer {
     private llmService: LLMService;
     private sessionId = 'analyzer:document-relations';
@@ -95,17 +112,9 @@ export class DocumentRelationsAnalyzer {
     }
 
     private async initializeAISession(): Promise<void> {
-    const systemMessage = `You are an expert technical documentation analyst and information architect. You analyze documentation relationships to understand information flow, identify gaps, and suggest improvements. Focus on:
-
-1. **Documentation Structure**: Understand how documents relate to each other
-2. **Information Flow**: Track how information flows between documents
-3. **Coverage Analysis**: Identify gaps in documentation coverage
-4. **User Journey**: Understand how users navigate through documentation
-5. **Quality Assessment**: Evaluate documentation completeness and usefulness
-
-Provide actionable insights about documentation organization and quality.`;
+    const systemMessage = getPrompt('document-relations');
     this.systemMessageText = systemMessage;
-    await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', temperatureOverride: 0.1, forceNew: true });
+    await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', forceNew: true });
     }
 
     private async discoverDocuments(rootPath: string): Promise<DocumentNode[]> {
@@ -297,47 +306,18 @@ Links (${links.length} total):
 ${linksSummary.slice(0, 20).map(link => `- ${link.from} → ${link.to} (${link.type})`).join('\n')}
 ${links.length > 20 ? `... and ${links.length - 20} more links` : ''}
 
-Provide analysis in JSON format:
-{
-  "clusters": [
-    {
-      "name": "cluster name",
-      "documents": ["doc1.md", "doc2.md"],
-      "purpose": "purpose description",
-      "completeness": 85
-    }
-  ],
-  "insights": {
-    "documentationHealth": "overall assessment",
-    "orphanedDocuments": ["isolated docs"],
-    "missingDocumentation": ["suggested missing docs"],
-    "improvementSuggestions": ["specific improvements"]
-  }
-}
+Group the documents into topic clusters, then assess the overall documentation health, orphaned documents, missing documentation and specific improvements.
 
 Focus on practical insights about documentation organization.`;
 
-            const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze' });
-            
-            try {
-                const jsonMatch = response.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                    const analysis = JSON.parse(jsonMatch[0]);
-                    
-                    return {
-                        clusters: Array.isArray(analysis.clusters) ? analysis.clusters : [],
-                        insights: {
-                            documentationHealth: analysis.insights?.documentationHealth || 'Unable to assess',
-                            orphanedDocuments: Array.isArray(analysis.insights?.orphanedDocuments) ? analysis.insights.orphanedDocuments : [],
-                            brokenLinks: links.filter(link => link.isBroken),
-                            missingDocumentation: Array.isArray(analysis.insights?.missingDocumentation) ? analysis.insights.missingDocumentation : [],
-                            improvementSuggestions: Array.isArray(analysis.insights?.improvementSuggestions) ? analysis.insights.improvementSuggestions : []
-                        }
-                    };
+            const analysis = await this.llmService.requestStructured({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze' }, clusteringSchema);
+            return {
+                clusters: analysis.clusters,
+                insights: {
+                    ...analysis.insights,
+                    brokenLinks: links.filter(link => link.isBroken)
                 }
-            } catch (parseError) {
-                console.error('Error parsing AI clustering response:', parseError);
-            }
+            };
         } catch (error) {
             console.error('Error in AI clustering analysis:', error);
         }
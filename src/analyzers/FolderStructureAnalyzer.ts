@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { LLMProviderManager } from '../llm-providers/manager';
 import { LLMService } from '../managers/LLMService';
+import { getPrompt } from '../managers/PromptRegistry';
+import { z } from 'zod';
 
 export interface FolderNode {
     name: string;
@@ -28,17 +30,26 @@ export interface FolderStructureAnalysis {
     mermaidDiagram: string;
 }
 
+const insightsSchema: z.ZodType<FolderStructureAnalysis['insights']> = z.object({
+    organizationPattern: z.string().describe("Brief description of the main organizational pattern (e.g. 'Feature-based organization')"),
+    conventionsUsed: z.array(z.string()),
+    suggestedImprovements: z.array(z.string()),
+    documentationGaps: z.array(z.string()).describe('Missing documentation or README files')
+});
+
 export class FolderStructureAnalyzer {
     private llmService: LLMService;
     private sessionId = 'analyzer:folder-structure';
     private systemMessageText = '';
     private analysisContext: Map<string, any> = new Map();
+    private signal?: AbortSignal; // cancels in-flight LLM calls (progress notification Cancel)
     
     constructor(private llmManager: LLMProviderManager) {
         this.llmService = LLMService.getOrCreate(llmManager);
     }
 
-    public async analyzeFolderStructure(): Promise<FolderStructureAnalysis | null> {
+    public async analyzeFolderStructure(signal?: AbortSignal): Promise<FolderStructureAnalysis | null> {
+        this.signal = signal;
         try {
             // Initialize AI session for folder analysis
             await this.initializeAISession();
@@ -74,17 +85,9 @@ export class FolderStructureAnalyzer {
     }
 
     private async initializeAISession(): Promise<void> {
-    const systemMessage = `You are an expert software architect and project organization specialist. You analyze folder structures to understand project organization patterns, identify best practices, and suggest improvements. Focus on:
-
-1. **Organization Patterns**: Identify architectural patterns (MVC, layered, feature-based, etc.)
-2. **Naming Conventions**: Analyze folder and file naming patterns
-3. **Structure Logic**: Understand the reasoning behind the organization
-4. **Documentation Gaps**: Identify missing documentation or README files
-5. **Improvement Suggestions**: Suggest better organization if needed
-
-Provide concise, actionable insights about project structure and organization.`;
+    const systemMessage = getPrompt('folder-structure');
     this.systemMessageText = systemMessage;
-    await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', temperatureOverride: 0.1, forceNew: true });
+    await this.llmService.getSession(this.sessionId, systemMessage, { taskType: 'analyze', forceNew: true });
     }
 
     private async scanFolderStructure(rootPath: string, rootName: string): Promise<FolderNode> {
@@ -171,33 +174,11 @@ Provide concise, actionable insights about project structure and organization.`;
 
 ${structureDescription}
 
-Please analyze and provide insights in JSON format:
-{
-  "organizationPattern": "Brief description of the main organizational pattern (e.g., 'MVC architecture', 'Feature-based organization', 'Layered architecture')",
-  "conventionsUsed": ["List of naming/organization conventions observed"],
-  "suggestedImprovements": ["List of specific suggestions for better organization"],
-  "documentationGaps": ["List of missing documentation or README files"]
-}
+Identify the main organizational pattern, the naming and organization conventions in use, specific improvements, and missing documentation or README files.
 
 Focus on practical insights about project organization and structure.`;
 
-            const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze' });
-            
-            try {
-                // Extract JSON from response
-                const jsonMatch = response.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                    const insights = JSON.parse(jsonMatch[0]);
-                    return {
-                        organizationPattern: insights.organizationPattern || 'Standard project structure',
-                        conventionsUsed: Array.isArray(insights.conventionsUsed) ? insights.conventionsUsed : [],
-                        suggestedImprovements: Array.isArray(insights.suggestedImprovements) ? insights.suggestedImprovements : [],
-                        documentationGaps: Array.isArray(insights.documentationGaps) ? insights.documentationGaps : []
-                    };
-                }
-            } catch (parseError) {
-                console.error('Error parsing AI response:', parseError);
-            }
+            return await this.llmService.requestStructured({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze', signal: this.signal }, insightsSchema);
         } catch (error) {
             console.error('Error in AI analysis of organization patterns:', error);
         }
@@ -269,7 +250,7 @@ Create a Mermaid flowchart that:
 
 Return only the Mermaid code starting with "graph TD" or "graph LR".`;
 
-            const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze' });
+            const response = await this.llmService.trackedChat({ sessionId: this.sessionId, systemMessage: this.systemMessageText, prompt, task: 'analyze', signal: this.signal });
             
             // Extract mermaid code from response
             const mermaidMatch = response.match(/graph\s+(TD|LR|TB|RL)[\s\S]*?(?=\n\n|\n$|$)/i);
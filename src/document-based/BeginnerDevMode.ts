@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SystemMessages } from '../SystemMessages';
+import { getPrompt } from '../managers/PromptRegistry';
 import { ChatSession } from '../langchain-backend/llm';
 export class BeginnerDevMode {
   /**
@@ -22,7 +22,7 @@ export class BeginnerDevMode {
       initialContext = '';
     }
     if (session) {
-      const sysMessage = SystemMessages.DOCUMENT_SPECIFIC_BEGINNER(title, initialContext);
+      const sysMessage = getPrompt('document-beginner', { title, context: initialContext });
       session.setCustomSystemMessage(sysMessage);
       return sysMessage;
     }
@@ -49,7 +49,7 @@ export class BeginnerDevMode {
       initialContext = '';
     }
     if (session) {
-      const sysMessage = SystemMessages.DOCUMENT_SPECIFIC_DEVELOPER(title, initialContext);
+      const sysMessage = getPrompt('document-developer', { title, context: initialContext });
       session.setCustomSystemMessage(sysMessage);
       return sysMessage;
     }
@@ -3,23 +3,33 @@ import * as vscode from 'vscode';
 import { SummaryCodeLensProvider } from './DocCodeLensProvider.js';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import { SystemMessages } from './SystemMessages';
-import { LocalMemoryVectorStore } from './rag/vectorstore/memory';
+import { getPrompt, PromptRegistry } from './managers/PromptRegistry';
+import { PromptId } from './SystemMessages';
 import { checkGrammar, GrammarIssue } from './external-tools/LanguageTool-integration';
 import { lintMarkdownDocument } from './external-tools/markdownLinter';
 import { LLMProviderManager } from './llm-providers/manager';
 import { ModelConfigManager } from './managers/ModelConfigManager.js';
-import { LLMService } from './managers/LLMService';
+import { LLMService, UsageTotals } from './managers/LLMService';
 import { LocalProvider } from './llm-providers/local';
+import { DEFAULT_OPENAI_COMPATIBLE_MODEL } from './llm-providers/openaiCompatible';
 import { VisualizationProvider } from './VisualizationProvider';
 import { VisualizationViewProvider } from './VisualizationViewProvider';
-import { buildVectorDB } from './rag/vectorstore/chunking_buildVectorDB';
+import { UsageDashboardPanel } from './UsageDashboardPanel';
+import { WorkspaceIndexer } from './rag/vectorstore/indexer';
 import { EmbeddingConfigManager } from './managers/EmbeddingConfigManager';
 import { HuggingFaceEmbeddings } from './rag/embeddings/huggingfaceCloud';
 import { OllamaEmbeddings } from './rag/embeddings/ollama';
 import { getVectorStore, initializeVectorStore } from './rag/vectorstore/vectorStoreSingleton';
-import { initializeEmbeddingModel } from './rag/embeddings/InitializeEmbeddingModel';
+import { embeddingModelId, initializeEmbeddingModel } from './rag/embeddings/InitializeEmbeddingModel';
+import { BatchedEmbeddings } from './rag/embeddings/batching';
 import { ThreadManager } from './managers/ThreadManager';
+import { ConfigDiagnostics } from './managers/ConfigDiagnostics';
+import { LocalModelManager } from './managers/LocalModelManager';
+import { ApiKeyStore } from './managers/ApiKeyStore';
+import { ExchangeAuditLog } from './managers/AuditLog';
+import { Redactor } from './managers/Redactor';
+import { isCancellationError } from './llm-providers/base';
+import { toAbortSignal } from './utils/utils';
 
 let provider: ChatViewProvider;
 
@@ -31,24 +41,54 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') });
 export function activate(context: vscode.ExtensionContext) {
 	const RAGstatus = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('rag.enabled', true);
 	const embeddingConfigManager = new EmbeddingConfigManager(context);
+	// API keys live in SecretStorage; keys still in settings.json are moved there (readers wait for the move)
+	const apiKeys = new ApiKeyStore(context.secrets);
+	apiKeys.register(context);
+
+	// Initialize embedding model config, open the vector index and keep it in sync with the workspace
+	let indexer: WorkspaceIndexer | undefined;
+	context.subscriptions.push({ dispose: () => indexer?.dispose() });
+	// Setups run one at a time, so a rebuild during the activation scan stops that scan before its store is closed
+	let ragSetup: Promise<unknown> = Promise.resolve();
+	async function initializeRAG(rebuild: boolean = false) {
+		const setup = ragSetup.then(() => setupRAG(rebuild));
+		ragSetup = setup.catch(() => undefined);
+		await (await setup).fullScan();
+	}
+	async function setupRAG(rebuild: boolean): Promise<WorkspaceIndexer> {
+		const previous = indexer;
+		indexer = undefined;
+		await previous?.stop();
+		await embeddingConfigManager.scaffoldIfMissing();
+		await embeddingConfigManager.load();
+
+		// Select embedding provider
+		const providerName = vscode.workspace.getConfiguration('naruhodocs').get<string>('embedding.provider', 'local');
+		const embeddingConfig = embeddingConfigManager.resolveProvider(providerName);
+
+		// Initialize embedding model
+		const embeddings = await initializeEmbeddingModel(embeddingConfig, apiKeys);
+		// Open the persistent index for this embedding model (in-memory when SQLite is unavailable)
+		const storeWarning = await initializeVectorStore(embeddings, { storageDir: context.storageUri?.fsPath, modelId: embeddingModelId(embeddingConfig) });
+		if (storeWarning) {
+			vscode.window.showWarningMessage('NaruhoDocs: ' + storeWarning);
+		}
+		if (rebuild) {
+			await getVectorStore().clear();
+		}
+		// Index new and changed workspace files (unchanged ones are loaded from the index), then follow file events
+		indexer = new WorkspaceIndexer(getVectorStore());
+		indexer.register();
+		if (embeddings instanceof BatchedEmbeddings) {
+			indexer.trackEmbeddingProgress(embeddings.onDidProgress);
+		}
+		return indexer;
+	}
 
-	// Initialize embedding model config and build vector database
 	(async () => {
 		if (RAGstatus) {
 			try {
-				await embeddingConfigManager.scaffoldIfMissing();
-				await embeddingConfigManager.load();
-
-				// Select embedding provider
-				const providerName = vscode.workspace.getConfiguration('naruhodocs').get<string>('embedding.provider', 'local');
-				const embeddingConfig = embeddingConfigManager.resolveProvider(providerName);
-
-				// Initialize embedding model
-				const embeddings = await initializeEmbeddingModel(embeddingConfig);
-				// Initialize vector store with embeddings
-				initializeVectorStore(embeddings);
-				// Build vector database from workspace files
-				buildVectorDB(getVectorStore());
+				await initializeRAG();
 			} catch (e) {
 				const action = await vscode.window.showErrorMessage(
 					'Failed to initialize RAG vector database. You can disable RAG in settings (naruhodocs.rag.enabled) if you do not wish to use it. \nError: ' + (e instanceof Error ? e.message : String(e)),
@@ -120,17 +160,14 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('naruhodocs.rebuildVectorDB', async () => {
 			const ragEnabled = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('rag.enabled', true);
 			if (!ragEnabled) {
-				vscode.window.showWarningMessage('RAG is disabled in settings. Enable it then run Rebuild to trigger a full reload.');
+				vscode.window.showWarningMessage('RAG is disabled in settings. Enable it then run Rebuild.');
 				return;
 			}
-			// Instead of manually rebuilding (which can miss edge initialization cases),
-			// perform a full window reload so the standard activation flow reliably
-			// re-runs embedding + vector store initialization.
+			// Re-reads embeddings.json and the API key, so this also applies a changed embedding provider
 			try {
-				vscode.window.showInformationMessage('Reloading window to rebuild NaruhoDocs RAG vector database...');
-				await vscode.commands.executeCommand('workbench.action.reloadWindow');
+				await initializeRAG(true);
 			} catch (e: any) {
-				vscode.window.showErrorMessage('Failed to reload window for vector DB rebuild: ' + (e?.message || String(e)));
+				vscode.window.showErrorMessage('Failed to rebuild NaruhoDocs RAG vector database: ' + (e?.message || String(e)));
 			}
 		})
 	);
@@ -141,11 +178,20 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Initialize LLM Provider Manager
 	const llmManager = new LLMProviderManager();
+	llmManager.setApiKeyStore(apiKeys);
 	const llmService = LLMService.getOrCreate(llmManager);
 	llmService.initializePersistence(context);
 	// Create dedicated output channel for verbose LLM logging
 	const llmOutput = vscode.window.createOutputChannel('NaruhoDocs LLM');
 	llmService.setOutputChannel(llmOutput);
+	// Opt-in full exchange log under .naruhodocs/logs (naruhodocs.logging.auditLog)
+	const auditLog = new ExchangeAuditLog();
+	auditLog.register(context);
+	llmService.setAuditLog(auditLog);
+	// Secrets and emails are replaced before prompts, tool results and indexed chunks leave the extension
+	const redactor = Redactor.getInstance();
+	redactor.register(context);
+	context.subscriptions.push(redactor.onDidRedact(report => llmService.logEvent('content_redacted', { ...report })));
 	llmService.refreshConfig();
 
 	// Status bar: Provider & Model
@@ -156,13 +202,16 @@ export function activate(context: vscode.ExtensionContext) {
 	function updateProviderModelStatus(sessionId: string = 'naruhodocs-general-thread') {
 		try {
 			const provider = llmManager.getCurrentProvider();
-			const providerType = vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud');
+			// Prefer the provider that actually backs the session (failover) over the configured one
+			const sessionInfo = llmService.getSessionProviderInfo(sessionId);
+			const providerType = sessionInfo.providerType || llmManager.getCurrentProviderType() || vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud');
 			const svcAny = llmService as any;
 			let model: string | undefined = svcAny.sessionModelHints?.get(sessionId) || svcAny.sessionModelHints?.get('general');
 			let trace: string[] = [];
 			if (!model) {
 				if (modelConfigManager.isActive()) {
-					const resolved = modelConfigManager.resolveModel(providerType, 'chat', undefined, providerType === 'local' ? 'gemma3:1b' : 'gemini-2.0-flash');
+					const fallbackModel = providerType === 'local' ? 'gemma3:1b' : (providerType === 'openai' ? DEFAULT_OPENAI_COMPATIBLE_MODEL : 'gemini-2.0-flash');
+					const resolved = modelConfigManager.resolveModel(providerType, 'chat', undefined, fallbackModel);
 					model = resolved.model;
 					trace = ['file-active', ...resolved.trace];
 				} else {
@@ -170,6 +219,9 @@ export function activate(context: vscode.ExtensionContext) {
 						const cfg = vscode.workspace.getConfiguration('naruhodocs');
 						model = cfg.get<string>('llm.localModel') || 'gemma3:1b';
 						trace = ['settings-or-fallback'];
+					} else if (providerType === 'openai') {
+						model = DEFAULT_OPENAI_COMPATIBLE_MODEL;
+						trace = ['openai-default'];
 					} else {
 						model = 'gemini-2.0-flash';
 						trace = ['default-flash'];
@@ -178,10 +230,10 @@ export function activate(context: vscode.ExtensionContext) {
 			} else {
 				trace = ['session-hint'];
 			}
-			// Icon mapping: local=server, cloud=key, unknown=robot (legacy 'byok' also maps to key for backward compatibility)
-			const icon = providerType === 'local' ? 'server-environment' : (providerType === 'cloud' || providerType === 'byok' ? 'key' : 'robot');
+			// Icon mapping: local=server, cloud=key, openai=globe, unknown=robot (legacy 'byok' also maps to key for backward compatibility)
+			const icon = providerType === 'local' ? 'server-environment' : (providerType === 'cloud' || providerType === 'byok' ? 'key' : (providerType === 'openai' ? 'globe' : 'robot'));
 			providerModelStatus.text = `$(${icon}) NaruhoDocs: ${model}`;
-			providerModelStatus.tooltip = `Provider: ${provider?.name || providerType}\nModel: ${model}\nTrace: ${trace.join(' > ')}`;
+			providerModelStatus.tooltip = `Provider: ${sessionInfo.provider || provider?.name || providerType}\nModel: ${model}\nTrace: ${trace.join(' > ')}`;
 			providerModelStatus.show();
 		} catch {
 			providerModelStatus.text = '$(robot) NaruhoDocs: unknown';
@@ -189,6 +241,11 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
+	context.subscriptions.push(llmService.onDidFailover(event => {
+		llmOutput.appendLine(`[${new Date().toISOString()}] failover session=${event.sessionKey} ${event.fromProvider} -> ${event.toProvider} (${event.code}: ${event.reason})`);
+		updateProviderModelStatus(activeThreadId);
+	}));
+
 	provider = new ChatViewProvider(context.extensionUri, undefined, context, llmManager);
 	// Attempt early hydration of any previously persisted threads (including general) so we do not
 	// overwrite an existing restored general history with a fresh empty session later in activation.
@@ -199,9 +256,27 @@ export function activate(context: vscode.ExtensionContext) {
 	llmService.setModelConfigManager(modelConfigManager);
 	// Also supply to provider manager so local init can respect models.json
 	try { (llmManager as any).setModelConfigManager?.(modelConfigManager); } catch { /* optional */ }
+	// Schema-independent checks (task names, backends, reachability, installed models) + quick fixes for models.json / embeddings.json
+	new ConfigDiagnostics().register(context);
+	// List / pull / delete Ollama models named in models.json and embeddings.json
+	new LocalModelManager(modelConfigManager, embeddingConfigManager).register(context);
+	// System prompts by id; .naruhodocs/prompts/<id>.md overrides are reloaded on change. The chat view refreshes the
+	// general thread, and task sessions still holding an edited prompt are dropped so their next request picks it up.
+	const promptRegistry = PromptRegistry.getInstance();
+	context.subscriptions.push(promptRegistry.onDidChange(e => {
+		const threadPrompts: PromptId[] = ['general', 'general-beginner', 'document-beginner', 'document-developer'];
+		const cleared = llmService.clearSessionsBySystemMessage(e.ids
+			.filter(id => !threadPrompts.includes(id))
+			.map(id => (e.previous[id] ?? '').split('{{')[0]));
+		llmService.logEvent('prompts_reloaded', { changed: e.ids, overridden: promptRegistry.getOverriddenIds(), clearedSessions: cleared });
+		provider?.applyPromptChange(e);
+	}));
+	promptRegistry.register(context);
 
 	// Provider profile memory removed (deprecated). Models now fully governed by .naruhodocs/models.json and runtime hints.
 	let currentProviderType = vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud');
+	// Set once the activation-time provider initialization finished; key changes before that are picked up by it
+	let providerInitSettled = false;
 
 	// Migration: if user still has legacy 'ootb' value, remap now (prior to initialization)
 	(async () => { // legacy migration path
@@ -209,7 +284,7 @@ export function activate(context: vscode.ExtensionContext) {
 			const cfg = vscode.workspace.getConfiguration('naruhodocs');
 			const raw = cfg.get<string>('llm.provider');
 			if (raw === 'ootb') {
-				const apiKey = cfg.get<string>('llm.apiKey') || cfg.get<string>('geminiApiKey') || '';
+				const apiKey = await apiKeys.get('llm.apiKey');
 				const mapped = apiKey ? 'cloud' : 'local';
 				await cfg.update('llm.provider', mapped, vscode.ConfigurationTarget.Global);
 				currentProviderType = mapped;
@@ -233,7 +308,8 @@ export function activate(context: vscode.ExtensionContext) {
 	(async () => {
 		// Load model config file early
 		await modelConfigManager.load(); // legacy migration path
-		llmService.logEvent(modelConfigManager.isActive() ? 'model_config_loaded' : 'model_config_missing');
+		const modelConfigError = modelConfigManager.getLoadError();
+		llmService.logEvent(modelConfigManager.isActive() ? 'model_config_loaded' : (modelConfigError ? 'model_config_invalid' : 'model_config_missing'), modelConfigError ? { error: modelConfigError } : undefined);
 		// Watch for config file changes once workspace ready
 		const ws = vscode.workspace.workspaceFolders?.[0];
 		if (ws) {
@@ -242,13 +318,15 @@ export function activate(context: vscode.ExtensionContext) {
 			const reload = async () => {
 				await modelConfigManager.load();
 				llmService.setModelConfigManager(modelConfigManager);
+				// Named local endpoints are built when the provider initializes
+				await llmManager.reloadLocalProvider();
 				llmService.clearAllSessions();
-				llmService.logEvent('model_config_reloaded');
+				llmService.logEvent(modelConfigManager.getLoadError() ? 'model_config_invalid' : 'model_config_reloaded', { error: modelConfigManager.getLoadError() });
 				updateProviderModelStatus(activeThreadId);
 			};
 			watcher.onDidChange(reload, undefined, context.subscriptions);
 			watcher.onDidCreate(reload, undefined, context.subscriptions);
-			watcher.onDidDelete(async () => { await modelConfigManager.load(); llmService.setModelConfigManager(modelConfigManager); llmService.clearAllSessions(); llmService.logEvent('model_config_deleted'); updateProviderModelStatus(activeThreadId); });
+			watcher.onDidDelete(async () => { await modelConfigManager.load(); llmService.setModelConfigManager(modelConfigManager); await llmManager.reloadLocalProvider(); llmService.clearAllSessions(); llmService.logEvent('model_config_deleted'); updateProviderModelStatus(activeThreadId); });
 		}
 		try {
 			console.log('[NaruhoDocs] Extension activation: Initializing LLM manager from config');
@@ -258,7 +336,7 @@ export function activate(context: vscode.ExtensionContext) {
 
 			// First-run API key prompt (only if provider=cloud and no key stored)
 			if (providerType === 'cloud') {
-				const key = config.get<string>('llm.apiKey') || config.get<string>('geminiApiKey') || '';
+				const key = await apiKeys.get('llm.apiKey');
 				if (!key) {
 					const entered = await vscode.window.showInputBox({
 						prompt: 'Enter API Key for Cloud provider (Gemini). Press ESC to switch to Local provider',
@@ -266,7 +344,7 @@ export function activate(context: vscode.ExtensionContext) {
 						password: true
 					});
 					if (entered && entered.trim()) {
-						await config.update('llm.apiKey', entered.trim(), vscode.ConfigurationTarget.Global);
+						await apiKeys.set('llm.apiKey', entered);
 						vscode.window.showInformationMessage('Gemini API key saved for Cloud provider.');
 					} else {
 						// Switch to local automatically
@@ -301,8 +379,8 @@ export function activate(context: vscode.ExtensionContext) {
 			const existingGeneral = (provider as any)?.threadManager?.getSession?.(generalThreadId);
 			if (!existingGeneral) {
 				const generalThreadTitle = 'General Purpose';
-				await llmService.getSession(generalThreadId, SystemMessages.GENERAL_PURPOSE, { taskType: 'chat', forceNew: true });
-				provider.createThread(generalThreadId, SystemMessages.GENERAL_PURPOSE, generalThreadTitle);
+				await llmService.getSession(generalThreadId, getPrompt('general'), { taskType: 'chat', forceNew: true });
+				provider.createThread(generalThreadId, getPrompt('general'), generalThreadTitle);
 				activeThreadId = generalThreadId;
 				provider.setActiveThread(generalThreadId);
 			} else {
@@ -330,11 +408,12 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		} catch (error) {
 			console.error('Failed to initialize LLM provider:', error);
-			const settingsKey = vscode.workspace.getConfiguration('naruhodocs').get<string>('geminiApiKey');
-			const apiKey = settingsKey || process.env.GOOGLE_API_KEY || '';
+			const apiKey = (await apiKeys.get('llm.apiKey')) || process.env.GOOGLE_API_KEY || '';
 			if (!apiKey) {
 				vscode.window.showWarningMessage('NaruhoDocs: No LLM provider configured. Set provider in settings (naruhodocs.llm.provider) or edit .naruhodocs/models.json.');
 			}
+		} finally {
+			providerInitSettled = true;
 		}
 	})();
 
@@ -343,8 +422,8 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration(async (event) => {
 			// Check if any of our LLM settings changed
+			// API key settings are not watched here: ApiKeyStore moves them into SecretStorage, which fires onDidChange below
 			if (event.affectsConfiguration('naruhodocs.llm.provider') ||
-				event.affectsConfiguration('naruhodocs.llm.apiKey') ||
 				event.affectsConfiguration('naruhodocs.logging.verbose')) {
 
 				// Debounce configuration changes to avoid multiple rapid updates
@@ -357,7 +436,7 @@ export function activate(context: vscode.ExtensionContext) {
 						const config = vscode.workspace.getConfiguration('naruhodocs');
 						const newProviderType = config.get<string>('llm.provider', 'cloud');
 						const providerChanged = newProviderType !== currentProviderType;
-						if (providerChanged || event.affectsConfiguration('naruhodocs.llm.apiKey')) {
+						if (providerChanged) {
 							await llmManager.initializeFromConfig();
 							llmService.clearAllSessions();
 							llmService.logEvent('provider_reload', { provider: llmManager.getCurrentProvider()?.name, changed: providerChanged });
@@ -380,6 +459,29 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// A stored key changed (Set / Clear API Key, settings migration, another window): re-initialize the provider using it
+	context.subscriptions.push(apiKeys.onDidChange(async id => {
+		if (id === 'huggingface.apiKey') {
+			const cfg = vscode.workspace.getConfiguration('naruhodocs');
+			if (cfg.get<boolean>('rag.enabled', true) && cfg.get<string>('embedding.provider', 'local') === 'cloudHuggingface') {
+				const action = await vscode.window.showInformationMessage('HuggingFace API key updated. Rebuild the vector database to use it.', 'Rebuild');
+				if (action === 'Rebuild') { await vscode.commands.executeCommand('naruhodocs.rebuildVectorDB'); }
+			}
+			return;
+		}
+		const keyProvider = id === 'llm.apiKey' ? 'cloud' : 'openai';
+		if (!providerInitSettled || vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud') !== keyProvider) { return; }
+		try {
+			await llmManager.initializeFromConfig();
+			llmService.clearAllSessions();
+			llmService.logEvent('provider_reload', { provider: llmManager.getCurrentProvider()?.name, changed: false, apiKey: id });
+			provider.updateLLMManager(llmManager);
+			updateProviderModelStatus(activeThreadId);
+		} catch (error) {
+			console.error('Failed to re-initialize LLM provider after an API key change:', error);
+		}
+	}));
+
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider(ChatViewProvider.viewType, provider));
 
@@ -432,12 +534,23 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.commands.registerCommand('naruhodocs.summarizeDocument', async (documentUri: vscode.Uri) => {
 			const doc = await vscode.workspace.openTextDocument(documentUri);
-			const resp = await llmService.request({
-				type: 'summarize',
-				content: doc.getText(),
-				targetId: documentUri.toString(),
-				systemMessage: 'You produce concise technical summaries with key points and clarity.'
-			});
+			let resp;
+			try {
+				resp = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Summarizing ${path.basename(doc.fileName)}...`,
+					cancellable: true
+				}, (_progress, token) => llmService.request({
+					type: 'summarize',
+					content: doc.getText(),
+					targetId: documentUri.toString(),
+					systemMessage: getPrompt('summarize'),
+					signal: toAbortSignal(token)
+				}));
+			} catch (e) {
+				if (isCancellationError(e)) { return; }
+				throw e;
+			}
 			resp.content = resp.content.replace(/<details class="ai-reasoning">[\s\S]*?<\/details>/gi, '');
 			// Show summary in a new ephemeral document
 			const summaryContent = `# Summary of ${path.basename(doc.fileName)}\n\n${resp.content}`;
@@ -447,7 +560,7 @@ export function activate(context: vscode.ExtensionContext) {
 			});
 			await vscode.window.showTextDocument(summaryDoc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
 			// Provide save option similar to translation command
-			vscode.window.showInformationMessage('Summary ready. Save as new file?', 'Save').then(async sel => {
+			vscode.window.showInformationMessage(`Summary ready${resp.meta?.cached ? ' (cached)' : ''}. Save as new file?`, 'Save').then(async sel => {
 				if (sel === 'Save') {
 					const ws = vscode.workspace.workspaceFolders?.[0];
 					if (ws) {
@@ -514,12 +627,23 @@ export function activate(context: vscode.ExtensionContext) {
 			];
 			const picked = await vscode.window.showQuickPick(languages.map(l => l.label), { placeHolder: 'Select target language' });
 			if (!picked) { return; }
-			const resp = await llmService.request({
-				type: 'translate',
-				content: doc.getText(),
-				targetLanguage: picked,
-				systemMessage: 'You are a professional technical translator. Preserve code blocks and formatting.'
-			});
+			let resp;
+			try {
+				resp = await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: `Translating ${path.basename(doc.fileName)} to ${picked}...`,
+					cancellable: true
+				}, (_progress, token) => llmService.request({
+					type: 'translate',
+					content: doc.getText(),
+					targetLanguage: picked,
+					systemMessage: getPrompt('translate'),
+					signal: toAbortSignal(token)
+				}));
+			} catch (e) {
+				if (isCancellationError(e)) { return; }
+				throw e;
+			}
 
 			resp.content = resp.content.replace(/<details class="ai-reasoning">[\s\S]*?<\/details>/gi, '');
 			// Open translation in a side-by-side editor
@@ -529,7 +653,7 @@ export function activate(context: vscode.ExtensionContext) {
 			});
 			await vscode.window.showTextDocument(translationDoc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
 			// Provide save option via notification
-			vscode.window.showInformationMessage('Translation ready. Save as new file?', 'Save').then(async sel => {
+			vscode.window.showInformationMessage(`Translation ready${resp.meta?.cached ? ' (cached)' : ''}. Save as new file?`, 'Save').then(async sel => {
 				if (sel === 'Save') {
 					const ws = vscode.workspace.workspaceFolders?.[0];
 					if (ws) {
@@ -597,7 +721,7 @@ export function activate(context: vscode.ExtensionContext) {
 			try {
 				await modelConfigManager.scaffoldIfMissing();
 				await modelConfigManager.load();
-				const provider = await vscode.window.showQuickPick(['cloud', 'local'], { placeHolder: 'Select provider (Cloud or Local)' });
+				const provider = await vscode.window.showQuickPick(['cloud', 'local', 'openai'], { placeHolder: 'Select provider (Cloud, Local or OpenAI-compatible)' });
 				if (!provider) { return; }
 				const task = await vscode.window.showQuickPick([
 					'chat', 'summarize', 'read_files', 'analyze', 'translate', 'generate_doc', 'visualization_context'
@@ -689,6 +813,52 @@ ${usageInfo ? `Requests Today: ${usageInfo.requestsToday}${!usageInfo.isUnlimite
 		})
 	);
 
+	// Daily usage report: provider-reported tokens next to the chars/4 estimates
+	context.subscriptions.push(
+		vscode.commands.registerCommand('naruhodocs.showLLMStats', () => {
+			const stats = llmService.getStats();
+			const row = (label: string, u: UsageTotals) =>
+				`  ${label.padEnd(24)} req=${u.requests} measured=${u.measuredRequests} in=${u.inputTokens} (est ${u.estimatedInputTokens}) out=${u.outputTokens} (est ${u.estimatedOutputTokens}) toolCalls=${u.toolCallTokens}`;
+			llmOutput.appendLine(`===== LLM usage ${stats.day} (UTC) =====`);
+			llmOutput.appendLine(`Requests: ${stats.requests} (${stats.measuredRequests} with provider-reported usage)`);
+			llmOutput.appendLine(`Input tokens:  actual ${stats.actualInputTokens} | estimated ${stats.estimatedInputTokens}`);
+			llmOutput.appendLine(`Output tokens: actual ${stats.actualOutputTokens} | estimated ${stats.estimatedOutputTokens}`);
+			llmOutput.appendLine(`Tool-call tokens: ${stats.toolCallTokens}`);
+			llmOutput.appendLine(`Response cache hits: ${stats.cacheHits}`);
+			for (const [title, group] of [['Per task', stats.perTaskUsage], ['Per model', stats.perModel], ['Per provider', stats.perProvider]] as const) {
+				llmOutput.appendLine(`${title}:`);
+				const entries = Object.entries(group);
+				if (!entries.length) { llmOutput.appendLine('  (none)'); }
+				entries.forEach(([k, u]) => llmOutput.appendLine(row(k, u)));
+			}
+			const budgets = modelConfigManager.getBudgets();
+			if (budgets) {
+				llmOutput.appendLine(`Budgets (warn at ${Math.round((budgets.warnAt ?? 0.8) * 100)}%):`);
+				for (const [scope, limits, used] of [['provider', budgets.providers, stats.budgetUsage.providers], ['task', budgets.tasks, stats.budgetUsage.tasks]] as const) {
+					for (const [id, limit] of Object.entries(limits || {})) {
+						const u = used[id] || { requests: 0, tokens: 0 };
+						llmOutput.appendLine(`  ${scope} ${id}: requests ${u.requests}/${limit.requestsPerDay ?? '∞'} tokens ${u.tokens}/${limit.tokensPerDay ?? '∞'}`);
+					}
+				}
+			}
+			llmOutput.appendLine('');
+			llmOutput.show(true);
+			vscode.window.showInformationMessage(`LLM usage today: ${stats.requests} requests, ${stats.actualInputTokens + stats.actualOutputTokens} tokens reported (≈${stats.estimatedInputTokens + stats.estimatedOutputTokens} estimated). Details in the "NaruhoDocs LLM" output.`);
+			// Trends across days, latency and error rates live in the dashboard; the output keeps today's details
+			const history = llmService.getUsageHistory();
+			if (history) {
+				UsageDashboardPanel.show(context.extensionUri, history);
+			}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('naruhodocs.clearResponseCache', async () => {
+			const removed = await llmService.clearResponseCache();
+			vscode.window.showInformationMessage(`Cleared ${removed} cached LLM response${removed === 1 ? '' : 's'}.`);
+		})
+	);
+
 	// Command to change provider (status bar click target)
 	context.subscriptions.push(
 		vscode.commands.registerCommand('naruhodocs.changeProvider', async () => { // legacy migration path
@@ -699,6 +869,7 @@ ${usageInfo ? `Requests Today: ${usageInfo.requestsToday}${!usageInfo.isUnlimite
 					const items: Array<{ label: string; value: string; description?: string }> = [
 						{ label: 'Cloud (Gemini API Key)', value: 'cloud', description: 'Use your own Gemini API key' },
 						{ label: 'Local (Runtime)', value: 'local', description: 'Local runtime (Ollama / LM Studio)' },
+						{ label: 'OpenAI-Compatible (Gateway)', value: 'openai', description: 'OpenAI, Azure OpenAI, vLLM, OpenRouter (base URL in models.json)' },
 						{ label: '— Open model configuration (models.json)…', value: '__open_models__' } // legacy migration path
 					];
 					const pick = await vscode.window.showQuickPick(
@@ -729,13 +900,15 @@ ${usageInfo ? `Requests Today: ${usageInfo.requestsToday}${!usageInfo.isUnlimite
 					}
 					await config.update('llm.provider', chosen.value, vscode.ConfigurationTarget.Global);
 					if (chosen.value === 'cloud') {
-						let key = config.get<string>('llm.apiKey') || '';
-						if (!key) {
-							key = await vscode.window.showInputBox({ prompt: 'Enter API key for Cloud provider', password: true }) || '';
-							if (key) {
-								await config.update('llm.apiKey', key, vscode.ConfigurationTarget.Global);
-							}
+						if (!(await apiKeys.get('llm.apiKey'))) {
+							await apiKeys.promptAndSet('llm.apiKey');
+						}
+					} else if (chosen.value === 'openai') {
+						// Keyless gateways (self-hosted vLLM) are valid, so an empty answer is accepted.
+						if (!(await apiKeys.get('llm.openai.apiKey'))) {
+							await apiKeys.promptAndSet('llm.openai.apiKey');
 						}
+						await modelConfigManager.scaffoldIfMissing();
 					}
 					// Config change listener will handle reload & status bar update.
 				} catch (e) {
@@ -1104,7 +1277,7 @@ ${usageInfo ? `Requests Today: ${usageInfo.requestsToday}${!usageInfo.isUnlimite
 							try {
 								const response = await llmService.trackedChat({
 									sessionId: 'naruhodocs-doc-drift',
-									systemMessage: `You are a Documentation Drift Detector AI. Your task is to analyze a set of code changes and the corresponding project documentation. You must identify any inconsistencies or points where the documentation no longer accurately reflects the code. Be precise and provide specific line numbers or sections of the documentation that need to be updated. Your output should be a clear, actionable report.`,
+									systemMessage: getPrompt('doc-drift'),
 									prompt: `
 									Given that the following code changes were made in commit ${newCommitHash}:\n\n${diffMsg}
 									\n\nBased on the code changes, look for current .md and .txt files in the workspace, retrieve their content of these documents, see whether any of them are likely to be affected by the code changes.
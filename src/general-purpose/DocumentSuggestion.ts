@@ -1,5 +1,20 @@
 import { RetrieveWorkspaceFilenamesTool, RetrieveFileContentTool } from '../langchain-backend/features';
 import { LLMService } from '../managers/LLMService';
+import { getPrompt } from '../managers/PromptRegistry';
+import { StructuredOutputError } from '../llm-providers/base';
+import { z } from 'zod';
+
+const FILE_EXCERPT_CHARS = 400;
+const WORKSPACE_EXCERPT_CHARS = 12000;
+
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    displayName: z.string().min(1),
+    fileName: z.string().min(1),
+    description: z.string().optional()
+  }))
+});
+
 // Suggest the documents that are not existing yet
 export class DocumentSuggestion {
   private ongoingSuggestionPromise: Promise<Array<{ displayName: string; fileName: string; description?: string }>> | null = null;
@@ -44,49 +59,44 @@ export class DocumentSuggestion {
   }
 
   async performAISuggestion(llmService: LLMService, filesAndContents: { path: string; content: string }[], currentCallId: number): Promise<Array<{ displayName: string; fileName: string; description?: string }>> {
-    const sys = `You are an expert technical writer and project analyst.
-    Your task is to suggest a list of important documentation files (with .md extension) that are missing from this project but would be valuable for maintainability, onboarding, or API reference. 
-    You may want to use tools like "RetrieveWorkspaceFilenamesTool" and "RetrieveFileContentTool" to read the project files and contents.
-    **You need to make sure that for the suggestion files you suggested, you have enough information to generate the documents as well.**
-    `;
-    const prompt = `
-				Your task is to suggest a list of important documentation files (with .md extension) that are missing from this project but would be valuable for maintainability, onboarding, or API reference. For each suggestion, provide:
-				- displayName: A human-friendly name (e.g., "API Reference")
-				- fileName: The recommended filename (e.g., "API_REFERENCE.md")
-				- description: A short description of what this document should contain.
-
-				Respond with a JSON array of objects with keys displayName, fileName, and description. Only suggest files that are not already present in the workspace. Do not include explanations or extra text.`;
-
-    let llmResponse = '';
+    const sys = getPrompt('document-suggestion');
+    // Structured requests run without tools, so the workspace overview travels in the prompt
+    let budget = WORKSPACE_EXCERPT_CHARS;
+    const overview = filesAndContents.map(f => {
+      const excerpt = f.content.slice(0, Math.min(FILE_EXCERPT_CHARS, Math.max(0, budget)));
+      budget -= excerpt.length;
+      return excerpt ? `=== ${f.path} ===\n${excerpt}` : `=== ${f.path} ===`;
+    }).join('\n\n');
+    const prompt = `Workspace files (with the start of each file):
+
+${overview}
+
+Suggest a list of important documentation files (with .md extension) that are missing from this project but would be valuable for maintainability, onboarding, or API reference. For each suggestion, provide:
+- displayName: A human-friendly name (e.g., "API Reference")
+- fileName: The recommended filename (e.g., "API_REFERENCE.md")
+- description: A short description of what this document should contain.
+
+Only suggest files that are not already present in the workspace.`;
+
     try {
-      llmResponse = await llmService.trackedChat({
+      const { suggestions } = await llmService.requestStructured({
         sessionId: 'doc-suggestion',
         systemMessage: sys,
-        prompt: prompt,
-        task:'chat',
-        forceNew: true
-      });
-      const match = llmResponse.match(/\[.*\]/s);
-      if (match) {
-        // JSON array found in response
-        const suggestions = JSON.parse(match[0]);
-        const filteredSuggestions = Array.isArray(suggestions)
-          ? suggestions.filter(s => s.displayName && s.fileName && s.fileName.endsWith('.md'))
-          : [];
-
-        // Always update with the latest successful suggestions
-        if (filteredSuggestions.length > 0) {
-          this.lastNonEmptySuggestions = filteredSuggestions;
-          // Updated lastNonEmptySuggestions
-        }
-
-        // Return the current suggestions or last known good ones
-        return filteredSuggestions.length > 0 ? filteredSuggestions : this.lastNonEmptySuggestions;
-      } else {
-        // No JSON array found in LLM response
+        prompt,
+        task: 'chat'
+      }, suggestionsSchema);
+      const filteredSuggestions = suggestions.filter(s => s.fileName.toLowerCase().endsWith('.md'));
+
+      // Always update with the latest successful suggestions
+      if (filteredSuggestions.length > 0) {
+        this.lastNonEmptySuggestions = filteredSuggestions;
+        // Updated lastNonEmptySuggestions
       }
+
+      // Return the current suggestions or last known good ones
+      return filteredSuggestions.length > 0 ? filteredSuggestions : this.lastNonEmptySuggestions;
     } catch (e) {
-      console.warn('LLM suggestion failed:', e, llmResponse);
+      console.warn('LLM suggestion failed:', e instanceof StructuredOutputError ? `${e.message}\n${e.lastResponse}` : e);
     }
 
     // Return last known good suggestions or fallback
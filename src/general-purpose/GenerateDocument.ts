@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
 import { RetrieveWorkspaceFilenamesTool, RetrieveFileContentTool } from '../langchain-backend/features';
 import { LLMService } from '../managers/LLMService';
+import { getPrompt } from '../managers/PromptRegistry';
 import { RAGretrievalTool } from '../langchain-backend/tools';
+import { StructuredOutputError } from '../llm-providers/base';
+import { z } from 'zod';
+
+const relevantFilesSchema = z.object({ files: z.array(z.string()).describe('Workspace-relative file paths from the list') });
+
 export async function generateDocument(llmService: LLMService, data: { docType: any; fileName?: any }) {
   // Suggest filename with AI if not provided
   let aiFilename = '';
@@ -51,27 +57,22 @@ export async function generateDocument(llmService: LLMService, data: { docType:
       const extraFiles = fileList.filter((f: string) => metaFiles.includes(f.split(/[/\\]/).pop()?.toLowerCase() || ''));
 
       // Ask AI which files are relevant for documentation
-      const sys = `You are an AI assistant that helps users create project documentation files based on the project files and contents. \nThe output should be in markdown format. Do not include code fences or explanations, just the documentation. \nFirst, select ALL the relevant files from this list for generating documentation of prompt '${instruction}'. You need to select as many files as needed but be concise.\nAlways include project metadata and README/config files if available. Return only a JSON array of file paths, no explanation.`;
-      let relevantFiles = [];
+      const sys = getPrompt('document-select', { instruction });
+      let relevantFiles: string[] = [];
       try {
-        const prompt = `Here is the list of files in the workspace:\n${fileList.join('\n')}\n\nWhich files are most relevant for generating documentation for of prompt '${instruction}'? Always include project metadata and README/config files if available. Return only a JSON array of file paths.`;
-        const aiSuggestRelatedFile = await llmService.trackedChat({
+        const prompt = `Here is the list of files in the workspace:\n${fileList.join('\n')}\n\nWhich files are most relevant for generating documentation for of prompt '${instruction}'? Always include project metadata and README/config files if available.`;
+        ({ files: relevantFiles } = await llmService.requestStructured({
           sessionId: 'read_files',
           systemMessage: sys,
           prompt: prompt,
-          task: 'read_files',
-          forceNew: true
-        });
-        // Try to parse the AI response as JSON array
-        const match = aiSuggestRelatedFile?.match(/\[.*\]/s);
-        if (match) {
-          relevantFiles = JSON.parse(match[0]);
-        }
+          task: 'read_files'
+        }, relevantFilesSchema));
       } catch (e) {
+        console.warn('Document file selection failed, using metadata files only:', e instanceof StructuredOutputError ? e.message : e);
         relevantFiles = [];
       }
       // Always include meta files
-      relevantFiles = Array.isArray(relevantFiles) ? Array.from(new Set([...relevantFiles, ...extraFiles])) : extraFiles;
+      relevantFiles = Array.from(new Set([...relevantFiles, ...extraFiles]));
 
       // Get file contents for relevant files
       const contentTool = new RetrieveFileContentTool();
@@ -86,25 +87,7 @@ export async function generateDocument(llmService: LLMService, data: { docType:
       // Generate the documentation using the general thread session
       let aiGeneratedDoc = '';
       try {
-        let sys2 = `\nYou are an impeccable and meticulous technical documentation specialist. 
-                Your purpose is to produce clear, accurate, and professional technical documents based on the given content.
-                \n\nPrimary Goal: Generate high-quality technical documentation that is comprehensive, logically structured, and easy for the intended audience to understand.
-                \n\nInstructions:\nYou will be given the file name of the documentation to create, along with the relevant files and their contents from the user's project workspace.
-                \nYour task is to analyze these files and generate a well-organized documentation file that thoroughly covers the subject matter implied by the file name.
-                \nYou may use tools (retrieve_workspace_filenames, retrieve_file_content) to retrieve additional file contents if needed without user prompted.
-                \n\nMandatory Rules:\nDo not include private or sensitive information from the provided files. For example, API keys.
-                \nHandling Ambiguity: If a user request is vague or missing critical information (e.g., a technical name, a specific version, or the document's purpose), you must respond by asking for the necessary details. 
-                Never make assumptions or generate generic content.
-                \nClarity and Simplicity: Prioritize clarity and conciseness above all else. 
-                Use plain language, active voice, and short sentences. 
-                Avoid jargon, buzzwords, and redundant phrases unless they are essential for technical accuracy.
-                \nStructured Content: All documents must follow a clear, hierarchical structure using Markdown.
-                \nActionable and Factual: Documents must be useful. For guides, provide clear, step-by-step instructions. 
-                For concepts, provide accurate, verifiable information. Do not include opinions or subjective statements.
-                \nReview and Refine: Before finalizing, internally review the document for consistency, accuracy, and adherence to these rules. 
-                Ensure all headings are descriptive and the flow is logical.
-                \nFormatting: The final output must be in markdown format. 
-                Do not include code fences, explanations, or conversational text.`;
+        let sys2 = getPrompt('document-generate');
         const RAGstatus = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('rag.enabled', );
         if(RAGstatus) {
           sys2 += `You have access to tool ('RAGretrieveContext'). Use it to retrieve relevant code snippets to generate accurate and detailed documentation`;
@@ -1,5 +1,10 @@
 import { LLMService } from "../managers/LLMService";
+import { getPrompt } from "../managers/PromptRegistry";
 import * as vscode from 'vscode';
+import { StructuredOutputError } from '../llm-providers/base';
+import { z } from 'zod';
+
+const relevantFilesSchema = z.object({ files: z.array(z.string()).describe('Workspace-relative file paths from the list') });
 
 export async function generateTemplate(
   llmService: LLMService,
@@ -53,25 +58,18 @@ export async function generateTemplate(
   const extraFiles = fileList.filter((f: string) => metaFiles.includes(f.split(/[/\\]/).pop()?.toLowerCase() || ''));
 
   // Ask AI which files are relevant for documentation
-  const sys = `You are an AI assistant that helps users create project documentation templates based on the project files and contents.\nThe output should be in markdown format. Do not include code fences or explanations, just the template.\nFirst, select ALL the relevant files from this list for generating a template for '${instruction}'. You need to select as many files as needed but be concise.\nAlways include project metadata and README/config files if available. Return only a JSON array of file paths, no explanation.`;
+  const sys = getPrompt('template-select', { instruction });
   let relevantFiles: string[] = [];
   try {
-    const aiResponse = await llmService.trackedChat({
+    ({ files: relevantFiles } = await llmService.requestStructured({
       sessionId: 'chatview:template-select',
       systemMessage: sys,
-      prompt: `Here is the list of files in the workspace:\n${fileList.join('\n')}\n\nWhich files are most relevant for generating a template for '${instruction}'? Always include project metadata and README/config files if available. Return only a JSON array of file paths.`,
-      task: 'analyze',
-      forceNew: true
-    });
-    // Try to parse the AI response as JSON array
-    const matchFiles = aiResponse.match(/\[.*\]/s);
-    if (matchFiles) {
-      relevantFiles = JSON.parse(matchFiles[0]);
-    } else {
-      // fallback: use all files
-      relevantFiles = fileList;
-    }
+      prompt: `Here is the list of files in the workspace:\n${fileList.join('\n')}\n\nWhich files are most relevant for generating a template for '${instruction}'? Always include project metadata and README/config files if available.`,
+      task: 'analyze'
+    }, relevantFilesSchema));
   } catch (err) {
+    // fallback: use all files
+    console.warn('Template file selection failed, using all files:', err instanceof StructuredOutputError ? err.message : err);
     relevantFiles = fileList;
   }
   // Ensure meta files are always included
@@ -92,16 +90,7 @@ export async function generateTemplate(
   // Use AI to generate template content
   let templateContent = '';
   try {
-    const sys2 = `You are a markdown template generator. Your ONLY job is to create EMPTY SKELETON templates for documentation.
-
-CRITICAL RULES:
-- Generate ONLY a generic template structure for the requested documentation type.
-- DO NOT invent, include, or mention any function, tool, or API names.
-- DO NOT include any code, examples, or project-specific information.
-- DO NOT analyze or reference any files or file contents.
-- Use only generic section headings and placeholders (e.g., "Function Name", "Description", etc.).
-
-Generate a template for '${instruction}' using ONLY this placeholder style. Output only the template structure.`;
+    const sys2 = getPrompt('template-generate', { instruction });
 
     // const filesAndContentsString = filesAndContents.map(f => `File: ${f.path}\n${f.content}`).join('\n\n');
     templateContent = await llmService.trackedChat({
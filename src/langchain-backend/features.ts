@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { Tool } from '@langchain/core/tools';
+import { redactSecrets } from '../managers/Redactor';
 
 // Tool to retrieve all filenames in the current workspace
 export class RetrieveWorkspaceFilenamesTool extends Tool {
@@ -69,7 +70,7 @@ export class RetrieveFileContentTool extends Tool {
         return `Content of ${filePath}: [File exists but is empty]`;
       }
       
-      return `Content of ${filePath}:\n${text}`;
+      return `Content of ${filePath}:\n${redactSecrets(text, `tool:${this.name}`)}`;
     } catch (error: any) {
       console.error(`Error reading file ${filePath}:`, error);
       
@@ -0,0 +1,172 @@
+// Token-aware history compaction: keeps the newest turns verbatim within the model's context window and folds
+// older turns into a rolling "conversation memory" that travels with the system message.
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, HumanMessage, BaseMessage, SystemMessage } from '@langchain/core/messages';
+import { CallbackHandlerMethods } from '@langchain/core/callbacks/base';
+
+/** Context window assumed when the caller knows nothing about the model */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const MEMORY_HEADER = 'Conversation memory (summary of earlier turns in this conversation):';
+const TARGET_RATIO = 0.6;        // compact down to this share of the budget so the next turns do not compact again
+const MEMORY_RATIO = 0.2;        // share of the budget the memory may use
+const EXTRACT_CHARS = 300;       // per message, when turns are condensed without a model call
+
+/** Folds dropped turns into the previous memory and returns the new memory text */
+export type HistorySummarizer = (memory: string, dropped: BaseMessage[], signal?: AbortSignal) => Promise<string>;
+
+export interface CompactionOptions {
+  contextWindow: number;        // Model context size in tokens
+  reserveTokens?: number;       // Kept free for the answer and tool rounds (default: a quarter of the window, at most 4096)
+  maxMessages?: number;         // Optional cap on verbatim messages (legacy maxHistoryMessages)
+  summarize?: HistorySummarizer; // Without one, dropped turns are condensed to short excerpts
+  signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+  history: BaseMessage[];
+  memory: string;
+  dropped: number;              // Messages folded into memory by this call
+}
+
+/** Heuristic token count (chars / 4), the same estimate LLMService uses */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageTokens(messages: BaseMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.text) + 4, 0); // + role / framing overhead
+}
+
+function roleOf(message: BaseMessage): string {
+  return message instanceof HumanMessage ? 'User' : message instanceof AIMessage ? 'Assistant' : 'System';
+}
+
+/** Keeps the tail of text within maxTokens (the newest part of a rolling memory matters most) */
+function clip(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens * 4);
+  return text.length <= maxChars ? text : '…' + text.slice(text.length - maxChars + 1);
+}
+
+/** Summary-free fallback: the start of each dropped message, appended to the memory */
+export function extractMemory(memory: string, dropped: BaseMessage[]): string {
+  const lines = dropped.map(m => {
+    const text = m.text.replace(/\s+/g, ' ').trim();
+    return `- ${roleOf(m)}: ${text.length > EXTRACT_CHARS ? text.slice(0, EXTRACT_CHARS) + '…' : text}`;
+  });
+  return [memory, ...lines].filter(Boolean).join('\n');
+}
+
+/**
+ * Leading history entry that carries the memory through getHistory / setHistory, so failover sessions and saved
+ * threads keep the summarized prefix. Chat views skip it like any other system message.
+ */
+export function memoryEntry(memory: string): SystemMessage {
+  return new SystemMessage(`${MEMORY_HEADER}\n${memory}`);
+}
+
+/**
+ * Turns and memory from a history handed to setHistory: serialized { type, text } entries (saved threads) or
+ * message instances (failover). Only human / ai turns are kept; the last memory entry restores the memory.
+ * transform is applied to every kept text (sessions redact restored history with it).
+ */
+export function restoreHistory(entries: unknown[], transform: (text: string) => string = text => text): { turns: BaseMessage[]; memory: string } {
+  const turns: BaseMessage[] = [];
+  let memory = '';
+  for (const entry of entries as any[]) {
+    const type = entry?.type ?? (typeof entry?._getType === 'function' ? entry._getType() : undefined);
+    const text = String(entry?.text ?? '');
+    if (type === 'human') { turns.push(new HumanMessage(transform(text))); }
+    if (type === 'ai') { turns.push(new AIMessage(transform(text))); }
+    if (type === 'system' && text.startsWith(`${MEMORY_HEADER}\n`)) {
+      memory = transform(text.slice(MEMORY_HEADER.length + 1));
+    }
+  }
+  return { turns, memory };
+}
+
+/**
+ * Messages as sent to the model: the memory is appended to the first system message (some APIs only accept a
+ * single leading system message), or becomes one when the history has none.
+ */
+export function withMemory(history: BaseMessage[], memory: string): BaseMessage[] {
+  if (!memory) {
+    return history;
+  }
+  const block = `${MEMORY_HEADER}\n${memory}`;
+  const index = history.findIndex(m => m instanceof SystemMessage);
+  if (index < 0) {
+    return [new SystemMessage(block), ...history];
+  }
+  const merged = history.slice();
+  merged[index] = new SystemMessage(`${history[index].text}\n\n${block}`);
+  return merged;
+}
+
+/**
+ * Compact history when it no longer fits contextWindow - reserveTokens (or exceeds maxMessages). System messages
+ * are always kept; the newest messages are kept verbatim starting on a user turn, and everything older is folded
+ * into memory. Returns the inputs unchanged when nothing needs to go.
+ */
+export async function compactHistory(history: BaseMessage[], memory: string, opts: CompactionOptions): Promise<CompactionResult> {
+  const system = history.filter(m => m instanceof SystemMessage);
+  const turns = history.filter(m => !(m instanceof SystemMessage));
+  const reserve = opts.reserveTokens ?? Math.min(4096, Math.floor(opts.contextWindow / 4));
+  const budget = Math.max(0, opts.contextWindow - reserve);
+  const memoryTokens = memory ? estimateTokens(MEMORY_HEADER + memory) : 0;
+  const fits = messageTokens(system) + memoryTokens + messageTokens(turns) <= budget;
+  if (fits && (!opts.maxMessages || turns.length <= opts.maxMessages)) {
+    return { history, memory, dropped: 0 };
+  }
+
+  const memoryCap = Math.floor(budget * MEMORY_RATIO);
+  const target = Math.floor(budget * TARGET_RATIO) - messageTokens(system) - memoryCap;
+  const maxKept = opts.maxMessages ? Math.max(1, Math.floor(opts.maxMessages * TARGET_RATIO)) : Infinity;
+  // The newest message (the turn being answered) is always kept, even when it alone exceeds the budget
+  let keep = turns.length - 1;
+  let size = messageTokens(turns.slice(keep));
+  while (keep > 0 && turns.length - keep < maxKept) {
+    const next = messageTokens([turns[keep - 1]]);
+    if (size + next > target) { break; }
+    size += next;
+    keep--;
+  }
+  // Start the verbatim part on a user turn so no answer is left without its question
+  while (keep < turns.length - 1 && !(turns[keep] instanceof HumanMessage)) {
+    keep++;
+  }
+  const dropped = turns.slice(0, keep);
+  if (!dropped.length) {
+    return { history, memory, dropped: 0 };
+  }
+
+  let next: string;
+  try {
+    next = opts.summarize ? await opts.summarize(memory, dropped, opts.signal) : extractMemory(memory, dropped);
+  } catch (error) {
+    if (opts.signal?.aborted) { throw error; }
+    console.warn('[NaruhoDocs] History summary failed, keeping excerpts instead:', error);
+    next = extractMemory(memory, dropped);
+  }
+  return { history: [...system, ...turns.slice(keep)], memory: clip(next.trim(), memoryCap), dropped: dropped.length };
+}
+
+/**
+ * Summarizer that asks the session's own model to merge dropped turns into the memory. The transcript is clipped
+ * to maxInputTokens so the summary call itself fits small local context windows.
+ */
+export function createModelSummarizer(model: BaseChatModel, maxInputTokens: number, callbacks?: () => CallbackHandlerMethods[]): HistorySummarizer {
+  return async (memory, dropped, signal) => {
+    const transcript = dropped.map(m => `${roleOf(m)}: ${m.text}`).join('\n\n');
+    const prompt = `Existing memory:\n${memory || '(none)'}\n\nEarlier turns to fold in:\n${clip(transcript, Math.max(256, maxInputTokens))}`;
+    const response = await model.invoke([
+      new SystemMessage('You maintain the memory of a conversation between a user and a documentation assistant. Merge the earlier turns into the existing memory as a concise bullet list: facts established, files and symbols discussed, decisions and open questions. Reply with the updated memory only.'),
+      new HumanMessage(prompt)
+    ], { signal, callbacks: callbacks?.() });
+    const text = typeof response.content === 'string'
+      ? response.content
+      : (response.content as any[]).map(c => typeof c === 'string' ? c : c?.text ?? '').join('');
+    const summary = text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    return summary || extractMemory(memory, dropped);
+  };
+}
@@ -2,72 +2,189 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { AIMessage, HumanMessage, BaseMessage, SystemMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { CallbackHandlerMethods } from '@langchain/core/callbacks/base';
+import { JSONSchema } from '@langchain/core/utils/json_schema';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
-import { tool } from '@langchain/core/tools';
+import { StructuredToolInterface, tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { RetrieveWorkspaceFilenamesTool, RetrieveFileContentTool } from './features';
 import { RAGretrievalTool } from './tools';
-import { SystemMessages } from '../SystemMessages';
 import * as vscode from 'vscode';
+import { LLMCancelledError } from '../llm-providers/base';
+import { compactHistory, createModelSummarizer, memoryEntry, restoreHistory, withMemory, DEFAULT_CONTEXT_WINDOW, HistorySummarizer } from './historyCompaction';
+import { redactSecrets } from '../managers/Redactor';
+
+/** Gemini 2.x input limit; Gemini sessions compact history against it unless contextWindow is set */
+export const GEMINI_CONTEXT_WINDOW = 1_048_576;
 
 export interface CreateChatOptions {
   apiKey?: string;           // Gemini / Google API key
   model?: string;            // Model name
   temperature?: number;      // Sampling temperature
-  maxHistoryMessages?: number; // Cap stored message pairs (human+ai counts as 2)
+  maxOutputTokens?: number;  // Gemini only (custom chatModel instances carry their own parameters)
+  topP?: number;
+  stop?: string[];
+  maxHistoryMessages?: number; // Optional cap on messages kept verbatim; older ones are folded into conversation memory
+  contextWindow?: number;    // Model context size in tokens; history is compacted to fit (default: Gemini limit, else DEFAULT_CONTEXT_WINDOW)
   systemMessage?: string;    // Optional initial system message for context
   chatModel?: BaseChatModel; // Optional custom chat model instance
+  jsonMode?: JsonModeOptions; // Native JSON output for complete() (default: Gemini responseSchema; none for custom models)
 }
 
-export interface ChatSession {
-  chat(userMessage: string): Promise<string>;
-  reset(): void;
-  getHistory(): BaseMessage[]; // optional accessor
-  setHistory(historyArr: BaseMessage[]): void; // new method for restoring history
-  setCustomSystemMessage(msg: string): void;
+export interface ChatCallOptions {
+  signal?: AbortSignal;      // Abort the in-flight model / agent call; history is rolled back to before the turn
+  callbacks?: CallbackHandlerMethods[]; // Extra LangChain handlers for the turn's model and tool runs (e.g. transcript recording)
 }
 
-export function createChat(opts: CreateChatOptions = {}): ChatSession {
-  let model: BaseChatModel;
-  
-  if (opts.chatModel) {
-    // Use provided custom chat model (e.g., local LLM)
-    model = opts.chatModel;
-  } else {
-    // Use Gemini - require API key
-    const apiKey = opts.apiKey || process.env.GOOGLE_API_KEY || '';
-    if (!apiKey) {
-      throw new Error('Gemini API key missing. Set naruhodocs.geminiApiKey in settings or GOOGLE_API_KEY env var.');
+export interface CompleteOptions extends ChatCallOptions {
+  jsonSchema?: JSONSchema;   // Constrain the reply to this schema when the session has a native JSON mode
+}
+
+/** Call options that put a model into its native JSON / schema-constrained output mode for one call */
+export type JsonModeOptions = (schema: JSONSchema) => Record<string, unknown>;
+
+/** Gemini responseSchema takes an OpenAPI subset of JSON Schema and rejects these keywords */
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties' || key === 'default') { continue; }
+    out[key] = toGeminiSchema(value);
+  }
+  return out;
+}
+
+export const geminiJsonMode: JsonModeOptions = schema => ({ responseSchema: toGeminiSchema(schema) });
+export const ollamaJsonMode: JsonModeOptions = schema => ({ format: schema });
+// strict: false because strict mode rejects optional properties; the schema still guides the server's grammar
+export const openAIJsonSchemaMode: JsonModeOptions = schema => ({ response_format: { type: 'json_schema', json_schema: { name: 'response', schema, strict: false } } });
+// JSON without a schema: the lowest common denominator of OpenAI-style gateways (the prompt carries the schema)
+export const openAIJsonObjectMode: JsonModeOptions = () => ({ response_format: { type: 'json_object' } });
+
+/**
+ * Single tool-less model call behind ChatSession.complete. Reasoning blocks are stripped from the reply since
+ * callers parse it rather than show it.
+ */
+export async function completeOnce(model: BaseChatModel, messages: BaseMessage[], jsonMode: JsonModeOptions | undefined, options: CompleteOptions = {}, callbacks: CallbackHandlerMethods[] = []): Promise<string> {
+  const callOptions = options.jsonSchema && jsonMode ? jsonMode(options.jsonSchema) : {};
+  try {
+    const response = await model.invoke(messages, { ...callOptions, signal: options.signal, callbacks: [...callbacks, ...(options.callbacks ?? [])] });
+    return chunkText(response.content).replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw new LLMCancelledError();
     }
-    model = new ChatGoogleGenerativeAI({
-      apiKey,
-      model: opts.model || 'gemini-2.0-flash',
-      temperature: opts.temperature ?? 0,
-    });
+    // The OpenAI client parses json_schema replies itself; a truncated reply is left to the caller's repair turn
+    if (error instanceof SyntaxError && 'response_format' in callOptions) {
+      return '';
+    }
+    throw error;
   }
+}
 
-  const maxHistory = opts.maxHistoryMessages ?? 20;
-  let history: BaseMessage[] = [];
+// Provider-reported token counts (LangChain usage_metadata) summed over every model call made for one turn
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  toolCallTokens: number;    // Part of outputTokens spent on generations that emitted tool calls (agent rounds)
+  totalTokens: number;
+}
 
-  // Add initial SystemMessage if provided, or use default RAG-optimized prompt
-  const defaultSystemMessage = `You are a technical documentation assistant that helps answer questions about code and documentation.
-  
-For each user query, you will receive:
-1. The original question
-2. Retrieved relevant code snippets and documentation
-3. Additional context from the conversation history
+export interface ChatSession {
+  chat(userMessage: string, options?: ChatCallOptions): Promise<string>;
+  // Streaming variant: onChunk receives raw text deltas as they arrive, resolves with the same final text chat() would return
+  chatStream?(userMessage: string, onChunk: (chunk: string) => void, options?: ChatCallOptions): Promise<string>;
+  // Usage of the most recent chat / chatStream call; undefined when the provider reported none
+  getLastUsage?(): TokenUsage | undefined;
+  // Rolling summary of the turns compacted out of the history ('' when nothing has been compacted)
+  getMemory?(): string;
+  // One tool-less call: the session's system message plus the given turns; history is neither read nor changed
+  complete?(messages: BaseMessage[], options?: CompleteOptions): Promise<string>;
+  reset(): void;
+  getHistory(): BaseMessage[]; // optional accessor
+  setHistory(historyArr: BaseMessage[]): void; // new method for restoring history
+  setCustomSystemMessage(msg: string): void;
+}
 
-Your task is to:
-1. Analyze the retrieved context thoroughly
-2. Provide accurate, concise answers based primarily on the retrieved information
-3. If the context is insufficient, you can use additional tools to gather more information
-4. Always cite specific files/locations when referencing code or documentation
+/**
+ * Move <think> blocks (reasoning models) out of the visible answer into a collapsible section,
+ * or drop them entirely when naruhodocs.llm.showReasoning is disabled.
+ */
+export function formatReasoning(text: string): string {
+  const thinkBlocks: string[] = [];
+  let aiText = text.replace(/<think>([\s\S]*?)<\/think>/gi, (_m, inner) => {
+    const cleaned = String(inner).trim();
+    if (cleaned) { thinkBlocks.push(cleaned); }
+    return ''; // remove from visible answer
+  }).trim();
 
-Keep responses focused and technical, using the retrieved context as your primary source of information.`;
+  // Build collapsible reasoning section if any think blocks were present
+  const showReasoning = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('llm.showReasoning', true);
+  if (thinkBlocks.length && showReasoning) {
+    const joined = thinkBlocks.join('\n---\n');
+    // Replace literal \n with actual newlines for proper formatting
+    const normalized = joined.replace(/\\n/g, '\n');
+    // Escape HTML entities to avoid accidental rendering inside code fence
+    const escaped = normalized
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const reasoningSection = `\n\n<details class="ai-reasoning">\n<summary>Show reasoning</summary>\n\n\`\`\`text\n${escaped}\n\`\`\`\n\n</details>\n\n`;
+    aiText = aiText + reasoningSection;
+  }
+  return aiText;
+}
 
-  history.push(new SystemMessage(opts.systemMessage || defaultSystemMessage));
+/** Text of a streamed message chunk; non-text parts (tool call deltas etc.) are skipped */
+export function chunkText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((c: any) => typeof c === 'string' ? c : (c?.type === 'text' && typeof c.text === 'string' ? c.text : '')).join('');
+  }
+  return '';
+}
 
+/**
+ * Collects usage_metadata from every LLM run it is attached to (pass `tracker.handler` in the call's `callbacks`).
+ * Streaming runs report the aggregated chunk, so invoke and stream are counted the same way.
+ */
+export function createUsageTracker() {
+  let usage: TokenUsage | undefined;
+  return {
+    reset() { usage = undefined; },
+    get(): TokenUsage | undefined { return usage ? { ...usage } : undefined; },
+    handler: {
+      handleLLMEnd(output: LLMResult) {
+        for (const generation of output.generations.flat() as ChatGeneration[]) {
+          const message: any = generation.message;
+          const meta = message?.usage_metadata;
+          if (!meta) { continue; }
+          const input = meta.input_tokens ?? 0;
+          const out = meta.output_tokens ?? 0;
+          usage = usage || { inputTokens: 0, outputTokens: 0, toolCallTokens: 0, totalTokens: 0 };
+          usage.inputTokens += input;
+          usage.outputTokens += out;
+          usage.totalTokens += meta.total_tokens ?? input + out;
+          if (message.tool_calls?.length) { usage.toolCallTokens += out; }
+        }
+      }
+    }
+  };
+}
 
+/**
+ * Workspace tools shared by the LangGraph agent (cloud / native tool calling) and the local ReAct loop.
+ * onContextRetrieved receives the RAG-enhanced prompt so the caller can keep it in its history.
+ */
+export function createWorkspaceTools(model: BaseChatModel, onContextRetrieved?: (enhancedMessage: string) => void): StructuredToolInterface[] {
   // Initialize RAG tools
   const RAGretrieval = tool(
     async ({ query }) => {
@@ -95,8 +212,7 @@ Keep responses focused and technical, using the retrieved context as your primar
       // Step 3: Construct the enhanced prompt for the main agent
       const enhancedMessage = `\nQuery: ${query}\n\nPrompt-engineered RAG Query: ${ragQuery}\n\nRetrieved Context:\n${relevantContext}\n\nBased on the above context, please provide a response.`;
 
-      history.push(new HumanMessage(enhancedMessage));
-      prune();
+      onContextRetrieved?.(enhancedMessage);
       return enhancedMessage;
     },
     {
@@ -136,15 +252,78 @@ Keep responses focused and technical, using the retrieved context as your primar
     }
   );
 
-  let tools: any[] = [];
   // check the settings if user enabled RAG or not
   let RAGstatus = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('rag.enabled', );
   if(RAGstatus) {
-    tools = [retrieveFilenames, retrieveFileContent, RAGretrieval];
+    return [retrieveFilenames, retrieveFileContent, RAGretrieval];
+  }
+  return [retrieveFilenames, retrieveFileContent];
+}
+
+/**
+ * Summarizer for dropped history turns, or undefined when naruhodocs.llm.summarizeHistory is off (turns are then
+ * kept as short excerpts without a model call). The summary call counts towards the turn's usage.
+ */
+export function historySummarizer(model: BaseChatModel, contextWindow: number, callbacks: () => CallbackHandlerMethods[]): HistorySummarizer | undefined {
+  let enabled = true;
+  try {
+    enabled = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('llm.summarizeHistory', true);
+  } catch { /* default on */ }
+  return enabled ? createModelSummarizer(model, Math.floor(contextWindow / 2), callbacks) : undefined;
+}
+
+export function createChat(opts: CreateChatOptions = {}): ChatSession {
+  // Document threads put whole files into the system message; it is redacted like every other outbound text
+  const systemMessage = opts.systemMessage ? redactSecrets(opts.systemMessage, 'system_message') : undefined;
+  let model: BaseChatModel;
+  
+  if (opts.chatModel) {
+    // Use provided custom chat model (e.g., local LLM)
+    model = opts.chatModel;
   } else {
-    tools = [retrieveFilenames, retrieveFileContent];
+    // Use Gemini - require API key
+    const apiKey = opts.apiKey || process.env.GOOGLE_API_KEY || '';
+    if (!apiKey) {
+      throw new Error('Gemini API key missing. Run "NaruhoDocs: Set API Key" or set the GOOGLE_API_KEY env var.');
+    }
+    model = new ChatGoogleGenerativeAI({
+      apiKey,
+      model: opts.model || 'gemini-2.0-flash',
+      temperature: opts.temperature ?? 0,
+      maxOutputTokens: opts.maxOutputTokens,
+      topP: opts.topP,
+      stopSequences: opts.stop,
+    });
   }
 
+  const contextWindow = opts.contextWindow ?? (opts.chatModel ? DEFAULT_CONTEXT_WINDOW : GEMINI_CONTEXT_WINDOW);
+  const jsonMode = opts.jsonMode ?? (opts.chatModel ? undefined : geminiJsonMode);
+  let history: BaseMessage[] = [];
+  let memory = '';
+  const usage = createUsageTracker();
+
+  // Add initial SystemMessage if provided, or use default RAG-optimized prompt
+  const defaultSystemMessage = `You are a technical documentation assistant that helps answer questions about code and documentation.
+  
+For each user query, you will receive:
+1. The original question
+2. Retrieved relevant code snippets and documentation
+3. Additional context from the conversation history
+
+Your task is to:
+1. Analyze the retrieved context thoroughly
+2. Provide accurate, concise answers based primarily on the retrieved information
+3. If the context is insufficient, you can use additional tools to gather more information
+4. Always cite specific files/locations when referencing code or documentation
+
+Keep responses focused and technical, using the retrieved context as your primary source of information.`;
+
+  history.push(new SystemMessage(systemMessage || defaultSystemMessage));
+
+
+  const tools = createWorkspaceTools(model, enhancedMessage => {
+    history.push(new HumanMessage(enhancedMessage)); // compacted with the next turn
+  });
 
   // Create LangGraph agent with RAG capabilities
   const agent = createReactAgent({
@@ -152,24 +331,45 @@ Keep responses focused and technical, using the retrieved context as your primar
     tools: tools
   });
 
-  function prune() {
-    if (history.length > maxHistory) {
-      history = history.slice(history.length - maxHistory);
-    }
+  // Fit the history (ending with the new user turn) into the context window before the model sees it
+  async function compact(signal?: AbortSignal) {
+    const result = await compactHistory(history, memory, {
+      contextWindow,
+      maxMessages: opts.maxHistoryMessages,
+      summarize: historySummarizer(model, contextWindow, () => [usage.handler]),
+      signal
+    });
+    history = result.history;
+    memory = result.memory;
+  }
+
+  function agentInput() {
+    return {
+      messages: withMemory(history, memory).map(msg => ({
+        role: msg instanceof SystemMessage ? 'system' : msg instanceof HumanMessage ? 'user' : 'assistant',
+        content: msg.text,
+      })),
+    };
   }
 
   return {
-    async chat(userMessage: string): Promise<string> {
+    async chat(userMessage: string, options?: ChatCallOptions): Promise<string> {
+      const before = { history: history.slice(), memory };
       history.push(new HumanMessage(userMessage));
-      prune();
+      usage.reset();
 
       // Use LangGraph agent for additional tool usage if needed
-      const response = await agent.invoke({
-        messages: history.map(msg => ({
-          role: msg instanceof HumanMessage ? 'user' : 'assistant',
-          content: msg.text,
-        })),
-      });
+      let response;
+      try {
+        await compact(options?.signal);
+        response = await agent.invoke(agentInput(), { signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])] });
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          ({ history, memory } = before); // cancelled turn leaves no trace in history
+          throw new LLMCancelledError();
+        }
+        throw error;
+      }
 
       const lastMessage = response.messages[response.messages.length - 1];
 
@@ -185,64 +385,84 @@ Keep responses focused and technical, using the retrieved context as your primar
         aiText = JSON.stringify(lastMessage.content);
       }
 
-      // Extract all <think> blocks (Gemini style reasoning) before storing final answer
-      const thinkBlocks: string[] = [];
-      aiText = aiText.replace(/<think>([\s\S]*?)<\/think>/gi, (_m, inner) => {
-        const cleaned = String(inner).trim();
-        if (cleaned) { thinkBlocks.push(cleaned); }
-        return ''; // remove from visible answer
-      }).trim();
-
-      // Build collapsible reasoning section if any think blocks were present
-      const showReasoning = vscode.workspace.getConfiguration('naruhodocs').get<boolean>('llm.showReasoning', true);
-      if (thinkBlocks.length && showReasoning) {
-        const joined = thinkBlocks.join('\n---\n');
-        // Replace literal \n with actual newlines for proper formatting
-        const normalized = joined.replace(/\\n/g, '\n');
-        // Escape HTML entities to avoid accidental rendering inside code fence
-        const escaped = normalized
-          .replace(/&/g, '&amp;')
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;');
-        const reasoningSection = `\n\n<details class="ai-reasoning">\n<summary>Show reasoning</summary>\n\n\`\`\`text\n${escaped}\n\`\`\`\n\n</details>\n\n`;
-        aiText = aiText + reasoningSection;
-      }
+      aiText = formatReasoning(aiText);
 
       // Save AI response (with optional collapsible reasoning) to history
       const aiMessage = new AIMessage(aiText);
       history.push(aiMessage);
-      prune();
       return aiText;
     },
+    async chatStream(userMessage: string, onChunk: (chunk: string) => void, options?: ChatCallOptions): Promise<string> {
+      const before = { history: history.slice(), memory };
+      history.push(new HumanMessage(userMessage));
+
+      let currentId: string | undefined;
+      let answer = '';
+      usage.reset();
+      try {
+        await compact(options?.signal);
+        // 'messages' mode yields [chunk, metadata] per LLM token; only the agent node produces answer text
+        const stream = await agent.stream(agentInput(), { streamMode: 'messages', signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])] });
+        for await (const [chunk, metadata] of stream as AsyncIterable<[any, any]>) {
+          if (metadata?.langgraph_node !== 'agent') { continue; }
+          // A new agent message (after a tool round-trip) supersedes any text streamed before it
+          if (chunk?.id && chunk.id !== currentId) {
+            currentId = chunk.id;
+            answer = '';
+          }
+          const delta = chunkText(chunk?.content);
+          if (!delta) { continue; }
+          answer += delta;
+          onChunk(delta);
+        }
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          ({ history, memory } = before);
+          throw new LLMCancelledError(undefined, answer);
+        }
+        throw error;
+      }
+
+      const aiText = formatReasoning(answer);
+      history.push(new AIMessage(aiText));
+      return aiText;
+    },
+    async complete(messages: BaseMessage[], options?: CompleteOptions): Promise<string> {
+      usage.reset();
+      const system = history.filter(msg => msg instanceof SystemMessage).slice(0, 1);
+      return completeOnce(model, [...system, ...messages], jsonMode, options, [usage.handler]);
+    },
+    getLastUsage() {
+      return usage.get();
+    },
+    getMemory() {
+      return memory;
+    },
     reset() {
       history = [];
+      memory = '';
       // Re-add system message after reset if provided
-      if (opts.systemMessage) {
-        history.push(new SystemMessage(opts.systemMessage));
+      if (systemMessage) {
+        history.push(new SystemMessage(systemMessage));
       }
     },
     getHistory() {
-      // Filter out SystemMessage from history for UI display
-      return history.filter(msg => !(msg instanceof SystemMessage));
+      // Filter out SystemMessage from history for UI display; the conversation memory leads as its own entry
+      const turns = history.filter(msg => !(msg instanceof SystemMessage));
+      return memory ? [memoryEntry(memory), ...turns] : turns;
     },
     setHistory(historyArr: BaseMessage[]) {
-      // Restore history directly (excluding system message)
-      history = [];
-      if (opts.systemMessage) {
-        history.push(new SystemMessage(opts.systemMessage));
-      }
-      for (const msg of historyArr) {
-        const type = (msg as any).type;
-        const text = (msg as any).text;
-        if (type === 'human') { history.push(new HumanMessage(text)); }
-        if (type === 'ai') { history.push(new AIMessage(text)); }
-      }
+      // Restore history directly (excluding system message); compacted on the next turn if it does not fit
+      // Saved threads and failover copies may predate redaction
+      const restored = restoreHistory(historyArr, text => redactSecrets(text, 'history'));
+      history = systemMessage ? [new SystemMessage(systemMessage), ...restored.turns] : restored.turns;
+      memory = restored.memory;
     },
     setCustomSystemMessage(msg: string) {
       // Remove any existing SystemMessage
       history = history.filter(m => !(m instanceof SystemMessage));
       // Add new SystemMessage at the start
-      history.unshift(new SystemMessage(msg));
+      history.unshift(new SystemMessage(redactSecrets(msg, 'system_message')));
     }
   };
 }
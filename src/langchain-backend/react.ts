@@ -0,0 +1,145 @@
+// Prompt-based (JSON protocol) ReAct loop for chat models without native tool calling.
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { DynamicStructuredTool, StructuredToolInterface } from '@langchain/core/tools';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { Callbacks } from '@langchain/core/callbacks/manager';
+import { chunkText } from './llm';
+
+export interface ReActOptions {
+  model: BaseChatModel;
+  messages: BaseMessage[];      // Conversation so far (system message first), ending with the user turn
+  tools: StructuredToolInterface[];
+  signal?: AbortSignal;
+  callbacks?: Callbacks;
+  onChunk?: (chunk: string) => void; // When set, answer text is streamed; tool-request steps are never forwarded
+  maxSteps?: number;            // Tool calls allowed before the model is asked to answer, default 5
+}
+
+export type ReActAction = { tool: string; input: unknown } | { final: string };
+
+const MAX_OBSERVATION_CHARS = 12000;
+
+/** Protocol instructions appended to the system message, listing each tool with its JSON arguments */
+export function buildReActInstructions(tools: StructuredToolInterface[]): string {
+  const lines = tools.map(t => {
+    const args: string[] = [];
+    if (t instanceof DynamicStructuredTool) {
+      const schema: any = toJsonSchema(t.schema as any);
+      for (const [name, prop] of Object.entries<any>(schema?.properties || {})) {
+        args.push(`"${name}": ${prop?.type || 'any'}${prop?.description ? ` (${prop.description})` : ''}`);
+      }
+    }
+    return `- ${t.name}: ${t.description} Input: {${args.join(', ')}}`;
+  });
+  return `
+
+## Tool protocol
+You cannot call functions directly. To use a tool, reply with ONLY a JSON object and nothing else:
+{"tool": "<tool name>", "input": { ...arguments }}
+The tool result is sent back to you in a message starting with "Observation". Use one tool per reply, as many times as needed.
+When you have enough information, reply with your final answer as normal text (not JSON).
+
+Available tools:
+${lines.join('\n')}`;
+}
+
+/**
+ * Interpret a model reply. A reply that is (after removing <think> blocks and code fences) a single JSON object
+ * naming one of toolNames is a tool request; {"tool": "final_answer", ...} or anything else is the final answer,
+ * so tasks that legitimately answer in JSON are left alone.
+ */
+export function parseReActAction(text: string, toolNames: string[]): ReActAction {
+  const visible = text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+  const unfenced = visible.replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1').trim();
+  if (!unfenced.startsWith('{') || !unfenced.endsWith('}')) {
+    return { final: text };
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(unfenced);
+  } catch {
+    return { final: text };
+  }
+  const name = parsed?.tool ?? parsed?.action ?? parsed?.name;
+  const input = parsed?.input ?? parsed?.action_input ?? parsed?.arguments ?? parsed?.args ?? {};
+  if (typeof name === 'string' && /^final[_ ]?answer$|^final$/i.test(name)) {
+    return { final: typeof input === 'string' ? input : JSON.stringify(input) };
+  }
+  if (typeof name !== 'string' || !toolNames.includes(name)) {
+    return { final: text };
+  }
+  return { tool: name, input };
+}
+
+async function runTool(opts: ReActOptions, match: StructuredToolInterface, input: unknown): Promise<string> {
+  try {
+    // Schema-less tools take a plain string
+    const arg = match instanceof DynamicStructuredTool ? (input ?? {}) : (typeof input === 'string' ? input : JSON.stringify(input ?? ''));
+    const result = await match.invoke(arg as any, { signal: opts.signal, callbacks: opts.callbacks });
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+    return text.length > MAX_OBSERVATION_CHARS ? text.slice(0, MAX_OBSERVATION_CHARS) + '\n...[truncated]' : text;
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * One model call. While streaming, text is held back until it is clear whether the reply is a JSON tool
+ * request (never shown) or answer text (forwarded as it arrives, including any leading <think> block).
+ * Returns the raw reply and whether any of it was forwarded.
+ */
+async function step(opts: ReActOptions, messages: BaseMessage[]): Promise<{ raw: string; forwarded: boolean }> {
+  const config = { signal: opts.signal, callbacks: opts.callbacks };
+  if (!opts.onChunk) {
+    const response = await opts.model.invoke(messages, config);
+    return { raw: chunkText(response.content), forwarded: false };
+  }
+  let raw = '';
+  let mode: 'pending' | 'answer' | 'action' = 'pending';
+  for await (const chunk of await opts.model.stream(messages, config)) {
+    const delta = chunkText(chunk.content);
+    if (!delta) { continue; }
+    raw += delta;
+    if (mode === 'answer') {
+      opts.onChunk(delta);
+      continue;
+    }
+    if (mode === 'pending') {
+      const visible = raw.replace(/<think>[\s\S]*?(<\/think>|$)/gi, '').trimStart();
+      if (!visible) { continue; }
+      mode = visible.startsWith('{') || visible.startsWith('```') ? 'action' : 'answer';
+      if (mode === 'answer') { opts.onChunk(raw); }
+    }
+  }
+  return { raw, forwarded: mode === 'answer' };
+}
+
+/** Run the loop until the model answers without requesting a tool; resolves with the raw final answer text */
+export async function runReActLoop(opts: ReActOptions): Promise<string> {
+  const maxSteps = opts.maxSteps ?? 5;
+  const scratch = [...opts.messages];
+  const system = scratch.findIndex(m => m instanceof SystemMessage);
+  const instructions = buildReActInstructions(opts.tools);
+  if (system >= 0) {
+    scratch[system] = new SystemMessage(scratch[system].text + instructions);
+  } else {
+    scratch.unshift(new SystemMessage(instructions.trim()));
+  }
+
+  for (let i = 0; i <= maxSteps; i++) {
+    if (i === maxSteps) {
+      scratch.push(new HumanMessage('No more tool calls are available. Give your final answer now as plain text, using the observations above.'));
+    }
+    const { raw, forwarded } = await step(opts, scratch);
+    const action = parseReActAction(raw, opts.tools.map(t => t.name));
+    if ('final' in action || i === maxSteps) {
+      const answer = 'final' in action ? action.final : raw;
+      if (!forwarded && answer) { opts.onChunk?.(answer); }
+      return answer;
+    }
+    const observation = await runTool(opts, opts.tools.find(t => t.name === action.tool)!, action.input);
+    scratch.push(new AIMessage(raw), new HumanMessage(`Observation (${action.tool}):\n${observation}`));
+  }
+  return '';
+}
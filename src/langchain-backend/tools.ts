@@ -2,41 +2,48 @@ import { Tool } from '@langchain/core/tools';
 // import vectorStore from '../rag/vectorstore/vectorStoreSingleton';
 import { Document } from '@langchain/core/documents';
 import { getVectorStore } from '../rag/vectorstore/vectorStoreSingleton';
+import { redactSecrets } from '../managers/Redactor';
+import { describeChunk } from '../rag/chunking/registry';
+import { hybridSearch } from '../rag/retrieval/hybrid';
 
 // Tool to retrieve relevant context from the vector store
 export class RAGretrievalTool extends Tool {
-    private vectorStore = getVectorStore(); // Use the shared vector store instance
-
     name = 'RAG_retrieve_context';
-    description = 'Retrieves semantically relevant document chunks from the codebase based on a query.';
+    description = 'Retrieves relevant document chunks from the codebase based on a query, matching both meaning and exact identifiers or keywords.';
 
     async _call(query: string): Promise<string> {
         try {
-            // Ensure vector store is initialized
-            if (!this.vectorStore) {
+            // Looked up per call: rebuilding the index replaces the shared instance
+            let vectorStore;
+            try {
+                vectorStore = getVectorStore();
+            } catch {
                 throw new Error('Vector store not initialized. Please use other tools (retrieve_workspace_filenames, retrieve_file_content) first for searching files / codes.');
             }
 
-            const docs = await this.vectorStore.similaritySearch(query);
+            // Semantic + BM25 keyword search, fused by rank and diversified
+            const results = await hybridSearch(vectorStore, query, { k: 15 });
+            const docs = results.map(r => r.document);
 
             if (docs.length === 0) {
                 return 'No relevant context found in the workspace.';
             }
 
-            // Format results with only file paths and line ranges for logging
-            const logResults = docs.map((doc: Document) => {
-                const metadata = doc.metadata;
-                return `File: ${metadata.filePath} (Lines ${metadata.startLine}-${metadata.endLine})`;
+            // Format results with only file paths, line ranges and the rank in each search for logging
+            const logResults = results.map(({ document, ranks }) => {
+                const found = [ranks.semantic && `semantic #${ranks.semantic}`, ranks.keyword && `keyword #${ranks.keyword}`].filter(Boolean).join(', ');
+                return `File: ${describeChunk(document.metadata)} [${found}]`;
             }).join('\n');
 
             // But return the full code snippets as before
             const formattedResults = docs.map((doc: Document) => {
                 const metadata = doc.metadata;
-                return `File: ${metadata.filePath} (Lines ${metadata.startLine}-${metadata.endLine})\n\`\`\`\n${doc.pageContent}\n\`\`\`\n`;
+                return `File: ${describeChunk(metadata)}\n\`\`\`\n${doc.pageContent}\n\`\`\`\n`;
             }).join('\n');
 
             console.log(`Called TOOL retrieve_relevant_context - found ${docs.length} relevant chunks\nFiles:\n${logResults}`);
-            return `Relevant code snippets:\n${formattedResults}`;
+            // Chunks indexed before redaction existed may still hold secrets
+            return `Relevant code snippets:\n${redactSecrets(formattedResults, `tool:${this.name}`)}`;
 
         } catch (error: any) {
             console.error('Error retrieving relevant context:', error);
@@ -6,6 +6,44 @@ export interface LLMProviderOptions {
     baseUrl?: string;
     temperature?: number;
     backend?: string; // For local providers to specify backend type
+    headers?: Record<string, string>; // Extra HTTP headers (OpenAI-compatible gateways)
+    replay?: ReplayOptions;           // Replay provider only
+    endpoints?: Record<string, LocalEndpointProfile>; // Local provider only: named servers besides the default one
+}
+
+/** Name of the local endpoint formed by the provider-level backend / baseUrl / model (reserved in providers.local.endpoints) */
+export const DEFAULT_LOCAL_ENDPOINT = 'default';
+
+/** Named local server from models.json providers.local.endpoints (e.g. a second llama.cpp server for long tasks) */
+export interface LocalEndpointProfile {
+    backend?: string;        // Defaults to ollama
+    baseUrl?: string;        // Defaults to the backend's standard URL
+    defaultModel?: string;   // Model used when a task routed here names none
+    note?: string;           // optional metadata
+}
+
+export interface ReplayOptions {
+    mode: 'record' | 'replay';
+    dir: string;             // Directory holding the *.jsonl transcripts (normally .naruhodocs/recordings)
+    recording?: string;      // Transcript name without extension; record mode writes <recording>.jsonl, replay mode reads only it
+    target?: LLMProvider;    // Record mode: initialized provider whose answers are recorded
+}
+
+/**
+ * Per-session sampling / length parameters (models.json v3 task settings). Unset fields keep the provider's
+ * defaults; providers ignore fields their API has no equivalent for (e.g. stop on some gateways).
+ */
+export interface ModelParameters {
+    temperature?: number;
+    maxOutputTokens?: number;
+    topP?: number;
+    contextWindow?: number;  // History compaction budget for every provider; Ollama also receives it as num_ctx
+    stop?: string[];
+}
+
+export interface ChatSessionOptions extends ModelParameters {
+    model?: string;
+    endpoint?: string;       // Local provider only: named endpoint serving the session (default endpoint when unset)
 }
 
 export interface LLMProvider {
@@ -13,7 +51,7 @@ export interface LLMProvider {
     readonly isAvailable: boolean;
     
     initialize(options: LLMProviderOptions): Promise<void>;
-    createChatSession(systemMessage: string, options?: { temperature?: number; model?: string }): Promise<ChatSession>;
+    createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession>;
     testConnection(): Promise<boolean>;
     getUsageInfo(): Promise<UsageInfo>;
 }
@@ -35,3 +73,64 @@ export class LLMProviderError extends Error {
         this.name = 'LLMProviderError';
     }
 }
+
+/**
+ * Thrown when a request is aborted through its AbortSignal (chat Stop button, cancelled progress notification).
+ * partialText carries whatever a streaming session produced before the abort.
+ */
+export class LLMCancelledError extends Error {
+    constructor(message: string = 'Request cancelled', public readonly partialText: string = '') {
+        super(message);
+        this.name = 'LLMCancelledError';
+    }
+}
+
+/**
+ * Thrown by LLMService.requestStructured when no reply validated against the schema, repair turns included.
+ * issues are the validation problems of the last reply.
+ */
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly task: string,
+        public readonly attempts: number,
+        public readonly issues: string[],
+        public readonly lastResponse: string
+    ) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export function isCancellationError(error: unknown): boolean {
+    return error instanceof LLMCancelledError || (error as any)?.name === 'AbortError';
+}
+
+/**
+ * Map a raw error thrown while chatting (LangChain / fetch / SDK) onto an LLMProviderError code.
+ * Errors that are already classified are returned as-is; unrecognised errors yield undefined.
+ */
+export function classifyProviderError(error: unknown, provider: string): LLMProviderError | undefined {
+    if (error instanceof LLMProviderError) {
+        return error;
+    }
+    if (isCancellationError(error)) {
+        return undefined;
+    }
+    const err = error as any;
+    const message: string = String(err?.message ?? err ?? '');
+    const status: number | undefined = err?.status ?? err?.statusCode ?? err?.response?.status;
+    const code: string = String(err?.code ?? err?.cause?.code ?? '');
+    if (status === 429 || /rate.?limit|quota|resource.?exhausted|too many requests/i.test(message)) {
+        return new LLMProviderError(message, provider, 'RATE_LIMITED');
+    }
+    if (status === 401 || status === 403 || /api key not valid|invalid api key|unauthori[sz]ed|permission denied/i.test(message)) {
+        return new LLMProviderError(message, provider, 'AUTH_FAILED');
+    }
+    if (['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'].includes(code)
+        || (status !== undefined && status >= 500)
+        || /fetch failed|network|socket hang up|connection (error|refused)|timed? ?out/i.test(message)) {
+        return new LLMProviderError(message, provider, 'NETWORK_ERROR');
+    }
+    return undefined;
+}
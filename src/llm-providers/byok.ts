@@ -1,6 +1,6 @@
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo } from './base';
-import { createChat, ChatSession } from '../langchain-backend/llm';
+import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo, ChatSessionOptions } from './base';
+import { createChat, ChatSession, GEMINI_CONTEXT_WINDOW } from '../langchain-backend/llm';
 
 export class BYOKProvider implements LLMProvider {
     // NOTE: Internal provider id has migrated to 'cloud'. This class/file retains the historical name for
@@ -35,7 +35,7 @@ export class BYOKProvider implements LLMProvider {
         }
     }
 
-    async createChatSession(systemMessage: string, options?: { temperature?: number; model?: string }): Promise<ChatSession> {
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
         if (!this.apiKey) {
             throw new LLMProviderError(
                 'Provider not initialized',
@@ -48,6 +48,10 @@ export class BYOKProvider implements LLMProvider {
                 apiKey: this.apiKey,
                 model: options?.model || 'gemini-2.0-flash',
                 temperature: options?.temperature ?? 0,
+                maxOutputTokens: options?.maxOutputTokens,
+                topP: options?.topP,
+                stop: options?.stop,
+                contextWindow: options?.contextWindow ?? GEMINI_CONTEXT_WINDOW,
                 systemMessage
             });
         } catch (error: any) {
@@ -1,9 +1,14 @@
 import { ChatOllama } from '@langchain/ollama';
 import { ChatOpenAI } from '@langchain/openai';
-import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo } from './base';
-import { ChatSession, createChat } from '../langchain-backend/llm';
+import { LLMProvider, LLMProviderOptions, LLMProviderError, LLMCancelledError, UsageInfo, ChatSessionOptions, ModelParameters, DEFAULT_LOCAL_ENDPOINT } from './base';
+import { ChatSession, ChatCallOptions, CompleteOptions, JsonModeOptions, createChat, completeOnce, formatReasoning, chunkText, createUsageTracker, createWorkspaceTools, historySummarizer, ollamaJsonMode, openAIJsonSchemaMode } from '../langchain-backend/llm';
+import { compactHistory, memoryEntry, restoreHistory, withMemory } from '../langchain-backend/historyCompaction';
+import { runReActLoop } from '../langchain-backend/react';
 import { AIMessage, HumanMessage, BaseMessage, SystemMessage } from '@langchain/core/messages';
+import { StructuredToolInterface } from '@langchain/core/tools';
 import fetch from 'node-fetch';
+import { redactSecrets } from '../managers/Redactor';
+import * as vscode from 'vscode';
 
 export interface LocalBackendConfig {
     type: 'ollama' | 'lmstudio' | 'llamacpp' | 'textgen' | 'custom';
@@ -14,13 +19,104 @@ export interface LocalBackendConfig {
     modelsEndpoint?: string;
 }
 
+export const LOCAL_BACKENDS: LocalBackendConfig['type'][] = ['ollama', 'lmstudio', 'llamacpp', 'textgen', 'custom'];
+
+export const LOCAL_BACKEND_DEFAULT_URLS: Record<string, string> = {
+    ollama: 'http://localhost:11434',
+    lmstudio: 'http://localhost:1234',
+    llamacpp: 'http://localhost:8080',
+    textgen: 'http://localhost:5000',
+    custom: 'http://localhost:8080'
+};
+
+/** Endpoints and API format of a local backend; unknown backends are treated as 'custom' (OpenAI format) */
+export function localBackendConfig(backend: string, baseUrl: string, model: string): LocalBackendConfig {
+    const configs: Record<string, LocalBackendConfig> = {
+        ollama: {
+            type: 'ollama',
+            baseUrl,
+            defaultModel: model,
+            apiFormat: 'ollama',
+            healthEndpoint: '/api/tags',
+            modelsEndpoint: '/api/tags'
+        },
+        lmstudio: {
+            type: 'lmstudio',
+            baseUrl: baseUrl.endsWith('/v1') ? baseUrl : `${baseUrl}/v1`,
+            defaultModel: model,
+            apiFormat: 'openai',
+            healthEndpoint: '/models',
+            modelsEndpoint: '/models'
+        },
+        llamacpp: {
+            type: 'llamacpp',
+            baseUrl,
+            defaultModel: model,
+            apiFormat: 'llamacpp',
+            healthEndpoint: '/health',
+            modelsEndpoint: '/v1/models'
+        },
+        textgen: {
+            type: 'textgen',
+            baseUrl: baseUrl.replace(':7860', ':5000'),
+            defaultModel: model,
+            apiFormat: 'textgen',
+            healthEndpoint: '/v1/models',
+            modelsEndpoint: '/v1/models'
+        },
+        custom: {
+            type: 'custom',
+            baseUrl,
+            defaultModel: model,
+            apiFormat: 'openai',
+            healthEndpoint: '/health',
+            modelsEndpoint: '/models'
+        }
+    };
+
+    return configs[backend] || configs.custom;
+}
+
+/** Model ids from a backend's models endpoint response */
+export function parseModelList(type: LocalBackendConfig['type'], data: any): string[] {
+    switch (type) {
+        case 'ollama':
+            return data?.models?.map((m: any) => m.name) || [];
+        case 'lmstudio':
+        case 'llamacpp':
+        case 'textgen':
+            return data?.data?.map((m: any) => m.id) || [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * How local sessions reach the workspace tools: 'native' binds them to the model (LangGraph agent, same path as
+ * cloud), 'react' drives them through the JSON-protocol loop, 'probe' tries native and drops to ReAct when the
+ * server rejects tools, 'off' chats without tools.
+ */
+export type LocalToolMode = 'native' | 'react' | 'probe' | 'off';
+
+/** Context assumed for history compaction when models.json sets no contextWindow (Ollama's default num_ctx) */
+export const LOCAL_DEFAULT_CONTEXT_WINDOW = 4096;
+
+/** Health, model list and /api/show probes; /api/show runs before every agent session, so a stalled server must not block chat */
+const PROBE_TIMEOUT_MS = 3000;
+
+/** One local server: its backend config (never mutated) and the model instances created for it */
+interface LocalEndpoint {
+    config: LocalBackendConfig;
+    models: Map<string, any>; // JSON [model, parameters] -> chat model instance
+}
+
 export class LocalProvider implements LLMProvider {
     readonly name = 'Local LLM';
-    private model?: any;
-    private backendConfig?: LocalBackendConfig;
+    private endpoints: Map<string, LocalEndpoint> = new Map();
+    private toolSupport: Map<string, boolean | undefined> = new Map(); // baseUrl + model name -> native tool calling supported; undefined = unknown (probe failed)
 
     get isAvailable(): boolean {
-        return !!this.model;
+        return this.endpoints.has(DEFAULT_LOCAL_ENDPOINT);
     }
 
     async initialize(options: LLMProviderOptions): Promise<void> {
@@ -30,13 +126,15 @@ export class LocalProvider implements LLMProvider {
         
         console.log('[NaruhoDocs] LocalProvider: Initializing with:', { backend, baseUrl, modelName });
 
-        this.backendConfig = this.getBackendConfig(backend, baseUrl, modelName);
-        console.log('[NaruhoDocs] LocalProvider: Backend config:', this.backendConfig);
+        this.endpoints.clear();
+        this.toolSupport.clear();
+        const backendConfig = this.getBackendConfig(backend, baseUrl, modelName);
+        console.log('[NaruhoDocs] LocalProvider: Backend config:', backendConfig);
 
         try {
             // Test connection first
             console.log('[NaruhoDocs] LocalProvider: Testing connection...');
-            if (!(await this.testConnection())) {
+            if (!(await this.probeHealth(backendConfig))) {
                 console.error('[NaruhoDocs] LocalProvider: Connection test failed');
                 throw new Error('Connection test failed');
             }
@@ -44,7 +142,9 @@ export class LocalProvider implements LLMProvider {
 
             // Create model based on backend type
             console.log('[NaruhoDocs] LocalProvider: Creating model for backend...');
-            this.model = this.createModelForBackend(this.backendConfig, options);
+            const endpoint: LocalEndpoint = { config: backendConfig, models: new Map() };
+            this.getModel(endpoint, modelName, { temperature: options.temperature });
+            this.endpoints.set(DEFAULT_LOCAL_ENDPOINT, endpoint);
             console.log('[NaruhoDocs] LocalProvider: Model created successfully');
 
         } catch (error) {
@@ -54,64 +154,30 @@ export class LocalProvider implements LLMProvider {
                 'NETWORK_ERROR'
             );
         }
-    }
 
-    private getBackendConfig(backend: string, baseUrl: string, model: string): LocalBackendConfig {
-        const configs: Record<string, LocalBackendConfig> = {
-            ollama: {
-                type: 'ollama',
-                baseUrl,
-                defaultModel: model,
-                apiFormat: 'ollama',
-                healthEndpoint: '/api/tags',
-                modelsEndpoint: '/api/tags'
-            },
-            lmstudio: {
-                type: 'lmstudio',
-                baseUrl: baseUrl.endsWith('/v1') ? baseUrl : `${baseUrl}/v1`,
-                defaultModel: model,
-                apiFormat: 'openai',
-                healthEndpoint: '/models',
-                modelsEndpoint: '/models'
-            },
-            llamacpp: {
-                type: 'llamacpp',
-                baseUrl,
-                defaultModel: model,
-                apiFormat: 'llamacpp',
-                healthEndpoint: '/health',
-                modelsEndpoint: '/v1/models'
-            },
-            textgen: {
-                type: 'textgen',
-                baseUrl: baseUrl.replace(':7860', ':5000'),
-                defaultModel: model,
-                apiFormat: 'textgen',
-                healthEndpoint: '/v1/models',
-                modelsEndpoint: '/v1/models'
-            },
-            custom: {
-                type: 'custom',
-                baseUrl,
-                defaultModel: model,
-                apiFormat: 'openai',
-                healthEndpoint: '/health',
-                modelsEndpoint: '/models'
+        // Named endpoints are optional: an unreachable one only fails the tasks routed to it
+        for (const [name, profile] of Object.entries(options.endpoints || {})) {
+            if (name === DEFAULT_LOCAL_ENDPOINT) { continue; }
+            const profileBackend = profile.backend || 'ollama';
+            const config = this.getBackendConfig(profileBackend, profile.baseUrl || this.getDefaultUrl(profileBackend), profile.defaultModel || this.getDefaultModel(profileBackend));
+            this.endpoints.set(name, { config, models: new Map() });
+            if (!(await this.probeHealth(config))) {
+                console.warn(`[NaruhoDocs] LocalProvider: endpoint '${name}' (${profileBackend} at ${config.baseUrl}) is not reachable yet`);
             }
-        };
+        }
+    }
+
+    /** Names of the configured endpoints, default first */
+    getEndpointNames(): string[] {
+        return [...this.endpoints.keys()];
+    }
 
-        return configs[backend] || configs.custom;
+    private getBackendConfig(backend: string, baseUrl: string, model: string): LocalBackendConfig {
+        return localBackendConfig(backend, baseUrl, model);
     }
 
     private getDefaultUrl(backend: string): string {
-        const defaultUrls: Record<string, string> = {
-            ollama: 'http://localhost:11434',
-            lmstudio: 'http://localhost:1234',
-            llamacpp: 'http://localhost:8080',
-            textgen: 'http://localhost:5000',
-            custom: 'http://localhost:8080'
-        };
-        return defaultUrls[backend] || defaultUrls.custom;
+        return LOCAL_BACKEND_DEFAULT_URLS[backend] || LOCAL_BACKEND_DEFAULT_URLS.custom;
     }
 
     private getDefaultModel(backend: string): string {
@@ -125,13 +191,30 @@ export class LocalProvider implements LLMProvider {
         return defaultModels[backend] || defaultModels.custom;
     }
 
-    private createModelForBackend(config: LocalBackendConfig, options: LLMProviderOptions): any {
+    /** Model instance for an endpoint, created once per model name + parameter set */
+    private getModel(endpoint: LocalEndpoint, modelName: string, params: ModelParameters): any {
+        const key = JSON.stringify([modelName, params]);
+        let model = endpoint.models.get(key);
+        if (!model) {
+            model = this.createModelForBackend(endpoint.config, modelName, params);
+            endpoint.models.set(key, model);
+        }
+        return model;
+    }
+
+    private createModelForBackend(config: LocalBackendConfig, modelName: string, params: ModelParameters): any {
+        // OpenAI-style servers size the context at model load time, so contextWindow only applies to Ollama
+        const openAIParams = { temperature: params.temperature ?? 0, maxTokens: params.maxOutputTokens, topP: params.topP, stop: params.stop };
         switch (config.apiFormat) {
             case 'ollama':
                 return new ChatOllama({
                     baseUrl: config.baseUrl,
-                    model: config.defaultModel,
-                    temperature: options.temperature || 0,
+                    model: modelName,
+                    temperature: params.temperature ?? 0,
+                    numPredict: params.maxOutputTokens,
+                    topP: params.topP,
+                    numCtx: params.contextWindow,
+                    stop: params.stop,
                 });
 
             case 'openai':
@@ -141,8 +224,8 @@ export class LocalProvider implements LLMProvider {
                     configuration: {
                         baseURL: config.baseUrl,
                     },
-                    modelName: config.defaultModel,
-                    temperature: options.temperature || 0,
+                    modelName,
+                    ...openAIParams,
                 });
 
             case 'llamacpp':
@@ -152,8 +235,8 @@ export class LocalProvider implements LLMProvider {
                     configuration: {
                         baseURL: `${config.baseUrl}/v1`,
                     },
-                    modelName: config.defaultModel,
-                    temperature: options.temperature || 0,
+                    modelName,
+                    ...openAIParams,
                 });
 
             case 'textgen':
@@ -163,8 +246,8 @@ export class LocalProvider implements LLMProvider {
                     configuration: {
                         baseURL: `${config.baseUrl}/v1`,
                     },
-                    modelName: config.defaultModel,
-                    temperature: options.temperature || 0,
+                    modelName,
+                    ...openAIParams,
                 });
 
             default:
@@ -172,176 +255,293 @@ export class LocalProvider implements LLMProvider {
         }
     }
 
-    async createChatSession(systemMessage: string, options?: { temperature?: number; model?: string }): Promise<ChatSession> {
-        if (!this.model || !this.backendConfig) {
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
+        if (!this.isAvailable) {
             throw new LLMProviderError(
                 'Provider not initialized',
                 this.name,
                 'MODEL_ERROR'
             );
         }
-        // Apply model override (if provided) by updating backend config and recreating model
-        if (options?.model && this.backendConfig.defaultModel !== options.model) {
-            try {
-                this.backendConfig.defaultModel = options.model;
-                this.model = this.createModelForBackend(this.backendConfig, { temperature: options.temperature });
-            } catch (e) {
-                console.warn('[LocalProvider] Failed to apply model override:', e);
+        const endpointName = options?.endpoint || DEFAULT_LOCAL_ENDPOINT;
+        const endpoint = this.endpoints.get(endpointName);
+        if (!endpoint) {
+            throw new LLMProviderError(
+                `Unknown local endpoint '${endpointName}'. Define it under providers.local.endpoints in models.json.`,
+                this.name,
+                'MODEL_ERROR'
+            );
+        }
+
+        // Model overrides and per-task parameters select a cached instance; the endpoint's config stays untouched
+        const { model: modelOverride, endpoint: _endpoint, ...params } = options || {};
+        const modelName = modelOverride || endpoint.config.defaultModel;
+        const model = this.getModel(endpoint, modelName, params);
+        const mode = await this.resolveToolMode(endpoint.config, modelName);
+        const contextWindow = params.contextWindow ?? LOCAL_DEFAULT_CONTEXT_WINDOW;
+        const jsonMode = localJsonMode(endpoint.config);
+        const createReAct = () => this.createLocalChatSession(systemMessage, model, contextWindow, jsonMode, createWorkspaceTools(model));
+        switch (mode) {
+            case 'native':
+                return createChat({ chatModel: model, systemMessage, contextWindow, jsonMode });
+            case 'probe':
+                return this.withReActFallback(createChat({ chatModel: model, systemMessage, contextWindow, jsonMode }), createReAct, endpoint.config, modelName);
+            case 'react':
+                return createReAct();
+            default:
+                // Plain chat session without tools
+                return this.createLocalChatSession(systemMessage, model, contextWindow, jsonMode);
+        }
+    }
+
+    /** naruhodocs.llm.localToolCalling, with 'auto' resolved from the model's reported capabilities */
+    private async resolveToolMode(config: LocalBackendConfig, modelName: string): Promise<LocalToolMode> {
+        const setting = vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.localToolCalling', 'auto');
+        if (setting === 'native' || setting === 'react' || setting === 'off') {
+            return setting;
+        }
+        const supported = await this.supportsNativeTools(config, modelName);
+        if (supported === undefined) {
+            return 'probe';
+        }
+        return supported ? 'native' : 'react';
+    }
+
+    /**
+     * Ollama lists model capabilities (incl. "tools") via /api/show; other backends cannot tell, so undefined.
+     * Failed or timed-out probes are cached as undefined too, until the provider is re-initialized.
+     */
+    private async supportsNativeTools(config: LocalBackendConfig, modelName: string): Promise<boolean | undefined> {
+        const key = `${config.baseUrl}|${modelName}`;
+        if (this.toolSupport.has(key) || config.type !== 'ollama') { return this.toolSupport.get(key); }
+        let supported: boolean | undefined;
+        try {
+            const response = await fetch(`${config.baseUrl}/api/show`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: modelName, name: modelName }),
+                signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+            });
+            if (response.ok) {
+                const data = await response.json() as any;
+                // older Ollama: capabilities not reported
+                supported = Array.isArray(data?.capabilities) ? data.capabilities.includes('tools') : undefined;
             }
+        } catch {
+            supported = undefined;
         }
+        this.toolSupport.set(key, supported);
+        return supported;
+    }
 
-        // Use simplified chat session for local models to avoid agent/tool binding issues
-        return this.createLocalChatSession(systemMessage, options);
+    /**
+     * Session that starts on native tool calling and permanently switches to the ReAct loop (keeping history)
+     * the first time the server rejects the tools parameter.
+     */
+    private withReActFallback(native: ChatSession, createReAct: () => ChatSession, config: LocalBackendConfig, modelName: string): ChatSession {
+        let active = native;
+        const run = async <T>(call: (session: ChatSession) => Promise<T>): Promise<T> => {
+            if (active !== native) {
+                return call(active);
+            }
+            const before = native.getHistory().slice();
+            try {
+                return await call(native);
+            } catch (error) {
+                if (!isToolsUnsupportedError(error)) {
+                    throw error;
+                }
+                console.warn(`[NaruhoDocs] LocalProvider: ${modelName} rejected native tools, switching to ReAct prompting`);
+                this.toolSupport.set(`${config.baseUrl}|${modelName}`, false);
+                active = createReAct();
+                active.setHistory(before);
+                return call(active);
+            }
+        };
+        return {
+            chat: (userMessage, options) => run(session => session.chat(userMessage, options)),
+            chatStream: (userMessage, onChunk, options) => run(session => session.chatStream!(userMessage, onChunk, options)),
+            getLastUsage: () => active.getLastUsage?.(),
+            getMemory: () => active.getMemory?.() ?? '',
+            complete: (messages, options) => active.complete!(messages, options),
+            reset: () => active.reset(),
+            getHistory: () => active.getHistory(),
+            setHistory: historyArr => active.setHistory(historyArr),
+            setCustomSystemMessage: msg => active.setCustomSystemMessage(msg)
+        };
     }
 
-    private createLocalChatSession(systemMessage: string, options?: { temperature?: number }): ChatSession {
-        const maxHistory = 40;
+    /** tools: when given, turns run through the prompt-based ReAct loop instead of a single model call */
+    private createLocalChatSession(systemMessage: string, model: any, contextWindow: number, jsonMode?: JsonModeOptions, tools?: StructuredToolInterface[]): ChatSession {
+        systemMessage = redactSecrets(systemMessage, 'system_message');
         let history: BaseMessage[] = [];
-        const model = this.model; // Capture model reference
+        let memory = '';
+        const usage = createUsageTracker();
 
         if (systemMessage) {
             history.push(new SystemMessage(systemMessage));
         }
 
-        function prune() {
-            if (history.length > maxHistory) {
-                // Keep system message at the start, prune from the middle
-                const systemMsg = history.find(msg => msg instanceof SystemMessage);
-                const otherMsgs = history.filter(msg => !(msg instanceof SystemMessage));
-                history = systemMsg ? [systemMsg, ...otherMsgs.slice(-maxHistory + 1)] : otherMsgs.slice(-maxHistory);
-            }
+        // Small local context windows overflow quickly: older turns are folded into memory instead of dropped
+        async function compact(signal?: AbortSignal) {
+            const result = await compactHistory(history, memory, {
+                contextWindow,
+                summarize: historySummarizer(model, contextWindow, () => [usage.handler]),
+                signal
+            });
+            history = result.history;
+            memory = result.memory;
         }
 
         return {
-            async chat(userMessage: string): Promise<string> {
+            async chat(userMessage: string, options?: ChatCallOptions): Promise<string> {
+                const before = { history: history.slice(), memory };
+                usage.reset();
                 try {
                     history.push(new HumanMessage(userMessage));
-                    prune();
-
-                    // Use the model directly without agents
-                    const response = await model.invoke(history);
+                    await compact(options?.signal);
 
                     let aiText = '';
-                    
-                    if (typeof response.content === 'string') {
-                        aiText = response.content;
-                    } else if (Array.isArray(response.content)) {
-                        aiText = response.content.map((c: any) =>
-                            typeof c === 'string' ? c : JSON.stringify(c)
-                        ).join(' ');
+
+                    if (tools) {
+                        aiText = await runReActLoop({ model, messages: withMemory(history, memory), tools, signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])] });
                     } else {
-                        aiText = JSON.stringify(response.content);
+                        // Use the model directly without agents
+                        const response = await model.invoke(withMemory(history, memory), { signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])] });
+
+                        if (typeof response.content === 'string') {
+                            aiText = response.content;
+                        } else if (Array.isArray(response.content)) {
+                            aiText = response.content.map((c: any) =>
+                                typeof c === 'string' ? c : JSON.stringify(c)
+                            ).join(' ');
+                        } else {
+                            aiText = JSON.stringify(response.content);
+                        }
                     }
 
-                    // Extract all <think> blocks (reasoning) before storing final answer
-                    const thinkBlocks: string[] = [];
-                    aiText = aiText.replace(/<think>([\s\S]*?)<\/think>/gi, (_m, inner) => {
-                        const cleaned = String(inner).trim();
-                        if (cleaned) { thinkBlocks.push(cleaned); }
-                        return ''; // remove from visible answer
-                    }).trim();
-
-                    // Build collapsible reasoning section if any think blocks were present
-                    const vscode = require('vscode');
-                    const showReasoning = vscode.workspace.getConfiguration('naruhodocs').get('llm.showReasoning', true) as boolean;
-                    if (thinkBlocks.length && showReasoning) {
-                        const joined = thinkBlocks.join('\n---\n');
-                        // Replace literal \n with actual newlines for proper formatting
-                        const normalized = joined.replace(/\\n/g, '\n');
-                        // Escape HTML entities to avoid accidental rendering inside code fence
-                        const escaped = normalized
-                            .replace(/&/g, '&amp;')
-                            .replace(/</g, '&lt;')
-                            .replace(/>/g, '&gt;');
-                        const reasoningSection = `\n\n<details class="ai-reasoning">\n<summary>Show reasoning</summary>\n\n\`\`\`text\n${escaped}\n\`\`\`\n\n</details>\n\n`;
-                        aiText = aiText + reasoningSection;
-                    }
+                    aiText = formatReasoning(aiText);
 
                     const aiMessage = new AIMessage(aiText);
                     history.push(aiMessage);
-                    prune();
 
                     return aiText;
                 } catch (error) {
+                    if (options?.signal?.aborted) {
+                        ({ history, memory } = before); // cancelled turn leaves no trace in history
+                        throw new LLMCancelledError();
+                    }
+                    throw new Error(`Local LLM error: ${error}`);
+                }
+            },
+
+            async chatStream(userMessage: string, onChunk: (chunk: string) => void, options?: ChatCallOptions): Promise<string> {
+                const before = { history: history.slice(), memory };
+                let streamed = '';
+                const forward = (delta: string) => { streamed += delta; onChunk(delta); };
+                usage.reset();
+                try {
+                    history.push(new HumanMessage(userMessage));
+                    await compact(options?.signal);
+
+                    let answer: string;
+                    if (tools) {
+                        answer = await runReActLoop({ model, messages: withMemory(history, memory), tools, signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])], onChunk: forward });
+                    } else {
+                        const stream = await model.stream(withMemory(history, memory), { signal: options?.signal, callbacks: [usage.handler, ...(options?.callbacks ?? [])] });
+                        for await (const chunk of stream) {
+                            const delta = chunkText(chunk.content);
+                            if (!delta) { continue; }
+                            forward(delta);
+                        }
+                        answer = streamed;
+                    }
+
+                    const aiText = formatReasoning(answer);
+                    history.push(new AIMessage(aiText));
+
+                    return aiText;
+                } catch (error) {
+                    if (options?.signal?.aborted) {
+                        ({ history, memory } = before);
+                        throw new LLMCancelledError(undefined, streamed);
+                    }
                     throw new Error(`Local LLM error: ${error}`);
                 }
             },
 
+            async complete(messages: BaseMessage[], options?: CompleteOptions): Promise<string> {
+                usage.reset();
+                const system = history.filter(msg => msg instanceof SystemMessage).slice(0, 1);
+                return completeOnce(model, [...system, ...messages], jsonMode, options, [usage.handler]);
+            },
+
+            getLastUsage() {
+                return usage.get();
+            },
+
+            getMemory() {
+                return memory;
+            },
+
             reset() {
                 history = [];
+                memory = '';
                 if (systemMessage) {
                     history.push(new SystemMessage(systemMessage));
                 }
             },
 
             getHistory() {
-                return history.filter(msg => !(msg instanceof SystemMessage));
+                const turns = history.filter(msg => !(msg instanceof SystemMessage));
+                return memory ? [memoryEntry(memory), ...turns] : turns;
             },
 
             setHistory(historyArr: BaseMessage[]) {
-                history = [];
-                if (systemMessage) {
-                    history.push(new SystemMessage(systemMessage));
-                }
-                for (const msg of historyArr) {
-                    const type = (msg as any).type;
-                    const text = (msg as any).text;
-                    if (type === 'human') { 
-                        history.push(new HumanMessage(text)); 
-                    }
-                    if (type === 'ai') { 
-                        history.push(new AIMessage(text)); 
-                    }
-                }
+                // Saved threads and failover copies may predate redaction
+                const restored = restoreHistory(historyArr, text => redactSecrets(text, 'history'));
+                history = systemMessage ? [new SystemMessage(systemMessage), ...restored.turns] : restored.turns;
+                memory = restored.memory;
             },
 
             setCustomSystemMessage(msg: string) {
                 history = history.filter(m => !(m instanceof SystemMessage));
-                history.unshift(new SystemMessage(msg));
+                history.unshift(new SystemMessage(redactSecrets(msg, 'system_message')));
             }
         };
     }
 
-    async testConnection(): Promise<boolean> {
-        if (!this.backendConfig) {
-            return false;
-        }
+    async testConnection(endpoint: string = DEFAULT_LOCAL_ENDPOINT): Promise<boolean> {
+        const config = this.endpoints.get(endpoint)?.config;
+        return config ? this.probeHealth(config) : false;
+    }
 
+    private async probeHealth(config: LocalBackendConfig): Promise<boolean> {
         try {
-            const healthUrl = `${this.backendConfig.baseUrl}${this.backendConfig.healthEndpoint}`;
-            const response = await fetch(healthUrl);
+            const healthUrl = `${config.baseUrl}${config.healthEndpoint}`;
+            const response = await fetch(healthUrl, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
             return response.ok;
         } catch (error) {
             return false;
         }
     }
 
-    async getAvailableModels(): Promise<string[]> {
-        if (!this.backendConfig) {
+    async getAvailableModels(endpoint: string = DEFAULT_LOCAL_ENDPOINT): Promise<string[]> {
+        const config = this.endpoints.get(endpoint)?.config;
+        if (!config) {
             return [];
         }
 
         try {
-            const modelsUrl = `${this.backendConfig.baseUrl}${this.backendConfig.modelsEndpoint}`;
-            const response = await fetch(modelsUrl);
+            const modelsUrl = `${config.baseUrl}${config.modelsEndpoint}`;
+            const response = await fetch(modelsUrl, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
             
             if (!response.ok) {
                 return [];
             }
 
             const data = await response.json() as any;
-
-            // Parse models based on backend type
-            switch (this.backendConfig.type) {
-                case 'ollama':
-                    return data.models?.map((m: any) => m.name) || [];
-                case 'lmstudio':
-                case 'llamacpp':
-                case 'textgen':
-                    return data.data?.map((m: any) => m.id) || [];
-                default:
-                    return [];
-            }
+            return parseModelList(config.type, data);
         } catch (error) {
             return [];
         }
@@ -355,7 +555,30 @@ export class LocalProvider implements LLMProvider {
         };
     }
 
-    getBackendInfo(): LocalBackendConfig | undefined {
-        return this.backendConfig;
+    getBackendInfo(endpoint: string = DEFAULT_LOCAL_ENDPOINT): LocalBackendConfig | undefined {
+        return this.endpoints.get(endpoint)?.config;
     }
 }
+
+/**
+ * Native JSON output per backend: Ollama takes a JSON schema as format; OpenAI-format servers (LM Studio, custom)
+ * and llama.cpp take response_format json_schema. Text Generation WebUI has no equivalent, so replies there are
+ * only validated.
+ */
+function localJsonMode(config: LocalBackendConfig): JsonModeOptions | undefined {
+    switch (config.apiFormat) {
+        case 'ollama':
+            return ollamaJsonMode;
+        case 'openai':
+        case 'llamacpp':
+            return openAIJsonSchemaMode;
+        default:
+            return undefined;
+    }
+}
+
+// Ollama: "<model> does not support tools"; llama.cpp: "tools param requires --jinja flag"; others vary
+function isToolsUnsupportedError(error: unknown): boolean {
+    const message = String((error as any)?.message ?? error ?? '');
+    return /does not support tools|tools? (?:are |is )?not supported|unsupported.*tools?|tools param requires/i.test(message);
+}
@@ -1,19 +1,28 @@
 import * as vscode from 'vscode';
-import { LLMProvider, LLMProviderError } from './base';
+import * as path from 'path';
+import { LLMProvider, LLMProviderError, LLMProviderOptions, ChatSessionOptions } from './base';
 import { BYOKProvider } from './byok';
 import { LocalProvider } from './local';
+import { OpenAICompatibleProvider, DEFAULT_OPENAI_COMPATIBLE_BASE_URL, DEFAULT_OPENAI_COMPATIBLE_MODEL } from './openaiCompatible';
+import { ReplayProvider } from './replay';
 import { ChatSession } from '../langchain-backend/llm';
 import { ModelConfigManager } from '../managers/ModelConfigManager';
+import { ApiKeyStore, ApiKeyId, API_KEYS } from '../managers/ApiKeyStore';
 
 export class LLMProviderManager {
     private currentProvider?: LLMProvider;
+    private currentProviderType?: string;
     private readonly providers: Map<string, LLMProvider> = new Map();
     private modelConfigManager?: ModelConfigManager; // optional injection – lets us honor models.json at provider init time
+    private apiKeyStore?: ApiKeyStore;               // optional injection – API keys from SecretStorage
 
     constructor() {
-    // Removed deprecated 'ootb' provider. Providers: 'cloud' (formerly 'byok') and 'local'.
+    // Removed deprecated 'ootb' provider. Providers: 'cloud' (formerly 'byok'), 'local', 'openai' (OpenAI-compatible gateways)
+    // and 'replay' (record/replay transcripts for offline tests).
     this.providers.set('cloud', new BYOKProvider());
         this.providers.set('local', new LocalProvider());
+        this.providers.set('openai', new OpenAICompatibleProvider());
+        this.providers.set('replay', new ReplayProvider());
     }
 
     /** Inject active ModelConfigManager so we can source local backend/model from models.json */
@@ -21,6 +30,19 @@ export class LLMProviderManager {
         this.modelConfigManager = mgr;
     }
 
+    public setApiKeyStore(store: ApiKeyStore) {
+        this.apiKeyStore = store;
+    }
+
+    /** Key from the injected secret store; without one (tests) the legacy settings are read */
+    public async getApiKey(id: ApiKeyId): Promise<string | undefined> {
+        if (this.apiKeyStore) {
+            return this.apiKeyStore.get(id);
+        }
+        const config = vscode.workspace.getConfiguration('naruhodocs');
+        return API_KEYS[id].legacySettings.map(setting => config.get<string>(setting)).find(Boolean) || undefined;
+    }
+
     async initializeFromConfig(): Promise<void> {
         // Add a small delay to ensure configuration is fully loaded (helps with packaged extensions)
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -29,7 +51,7 @@ export class LLMProviderManager {
         let providerType = config.get<string>('llm.provider', 'cloud');
         // Migration: map legacy identifiers to current ones
         if (providerType === 'ootb') {
-            const apiKey = config.get<string>('llm.apiKey') || config.get<string>('geminiApiKey') || '';
+            const apiKey = await this.getApiKey('llm.apiKey');
             providerType = apiKey ? 'cloud' : 'local';
             try { await config.update('llm.provider', providerType, vscode.ConfigurationTarget.Global); } catch { /* ignore */ }
             console.log('[NaruhoDocs] Migrated legacy provider "ootb" ->', providerType);
@@ -48,58 +70,7 @@ export class LLMProviderManager {
         console.log('[NaruhoDocs] LLMProviderManager: Found provider:', provider.name);
 
         try {
-            const options: any = {
-                apiKey: config.get<string>('llm.apiKey'),
-                temperature: 0
-            };
-
-            if (providerType === 'local') {
-                // precedence: models.json (if active) -> settings -> hardcoded fallback
-                let usedSource: string[] = [];
-                if (this.modelConfigManager?.isActive()) {
-                    const entry = this.modelConfigManager.getProviderEntry('local');
-                    if (entry) {
-                        if (entry.backend) { options.backend = entry.backend; usedSource.push('file-backend'); }
-                        if (entry.baseUrl) { options.baseUrl = entry.baseUrl; usedSource.push('file-baseUrl'); }
-                        if (entry.defaultModel) { options.model = entry.defaultModel; usedSource.push('file-defaultModel'); }
-                    }
-                    // If no explicit defaultModel in entry, resolve via task-based resolver for chat
-                    if (!options.model) {
-                        const resolved = this.modelConfigManager.resolveModel('local', 'chat', undefined, 'gemma3:1b');
-                        options.model = resolved.model; usedSource.push('file-resolve:' + resolved.trace.join('+'));
-                    }
-                }
-                if (!options.backend) {
-                    options.backend = config.get<string>('llm.localBackend', 'ollama'); usedSource.push('setting-backend');
-                }
-                if (!options.baseUrl) {
-                    options.baseUrl = config.get<string>('llm.localUrl'); if (options.baseUrl) { usedSource.push('setting-baseUrl'); }
-                }
-                if (!options.model) {
-                    const modelSetting = config.get<string>('llm.localModel');
-                    if (modelSetting) { options.model = modelSetting; usedSource.push('setting-model'); }
-                }
-                if (!options.model) { options.model = 'gemma3:1b'; usedSource.push('hardcoded-fallback'); }
-                if (!options.baseUrl) { options.baseUrl = 'http://localhost:11434'; usedSource.push('hardcoded-baseUrl'); }
-                console.log('[NaruhoDocs] Local provider init model resolution path:', usedSource.join(' > '));
-            } else {
-                // Non-local providers keep existing settings path
-                options.model = config.get<string>('llm.localModel'); // still supply optional for compatibility
-            }
-
-            console.log('[NaruhoDocs] LLMProviderManager: Initializing provider with options:', { 
-                ...options, 
-                apiKey: options.apiKey ? '[REDACTED]' : undefined 
-            });
-
-            // Validate configuration before attempting initialization
-            if (providerType === 'local' && !options.baseUrl) {
-                throw new Error('Local LLM provider requires baseUrl to be configured (after resolution)');
-            }
-            if (providerType === 'cloud' && !options.apiKey) {
-                throw new Error('Cloud provider requires API key to be configured');
-            }
-
+            const options = await this.attachReplayTarget(await this.resolveProviderOptions(providerType));
             await provider.initialize(options);
             console.log('[NaruhoDocs] LLMProviderManager: Provider initialized successfully');
 
@@ -111,15 +82,29 @@ export class LLMProviderManager {
                         const models: string[] = await local.getAvailableModels();
                         const requested = options.model;
                         if (requested && models.length && !models.includes(requested)) {
-                            vscode.window.showWarningMessage(`Local model '${requested}' not found in available models (${models.slice(0,10).join(', ')}). Pull or adjust models.json.`);
+                            vscode.window.showWarningMessage(`Local model '${requested}' not found in available models (${models.slice(0,10).join(', ')}). Pull or adjust models.json.`, 'Manage Local Models')
+                                .then(action => { if (action) { vscode.commands.executeCommand('naruhodocs.manageLocalModels'); } });
                         }
                     }
                 } catch {/* ignore */}
             }
 
             this.currentProvider = provider; // Silent success (status bar will reflect provider)
+            this.currentProviderType = providerType;
             // Removed toast notification for provider initialization.
         } catch (error) {
+            if (error instanceof LLMProviderError && LLMProviderManager.isFailoverCode(error.code)) {
+                // Walk the models.json fallback chain before surfacing the error
+                for (const fallbackType of this.getFallbackChain(providerType)) {
+                    const fallback = await this.getOrInitializeProvider(fallbackType);
+                    if (fallback) {
+                        this.currentProvider = fallback;
+                        this.currentProviderType = fallbackType;
+                        vscode.window.showWarningMessage(`${provider.name} unavailable (${error.message}). Using ${fallback.name} from the models.json fallback chain.`);
+                        return;
+                    }
+                }
+            }
             if (error instanceof LLMProviderError) {
                 this.handleProviderError(error, providerType);
             } else {
@@ -128,7 +113,177 @@ export class LLMProviderManager {
         }
     }
 
-    async createChatSession(systemMessage: string, options?: { temperature?: number; model?: string }): Promise<ChatSession> {
+    /**
+     * Ordered fallback provider ids from models.json, excluding the given provider and unknown ids.
+     */
+    getFallbackChain(exclude?: string): string[] {
+        const chain = this.modelConfigManager?.isActive() ? this.modelConfigManager.getFallbackChain() : [];
+        return chain.filter(id => id !== exclude && this.providers.has(id));
+    }
+
+    /**
+     * Return an initialized provider of the given type, initializing it on demand without touching
+     * the current provider. Failures are logged and yield undefined so callers can try the next entry.
+     */
+    async getOrInitializeProvider(providerType: string): Promise<LLMProvider | undefined> {
+        const provider = this.providers.get(providerType);
+        if (!provider) {
+            return undefined;
+        }
+        if (provider.isAvailable) {
+            return provider;
+        }
+        try {
+            await provider.initialize(await this.attachReplayTarget(await this.resolveProviderOptions(providerType)));
+            console.log('[NaruhoDocs] LLMProviderManager: Fallback provider initialized:', provider.name);
+            return provider;
+        } catch (error) {
+            console.warn(`[NaruhoDocs] LLMProviderManager: Fallback provider '${providerType}' unavailable:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Re-initialize an already running local provider from the current models.json so endpoints added, renamed or
+     * removed since activation take effect. A provider that was never initialized picks the file up on first use.
+     */
+    async reloadLocalProvider(): Promise<void> {
+        const local = this.providers.get('local');
+        if (!local?.isAvailable) {
+            return;
+        }
+        try {
+            await local.initialize(await this.resolveProviderOptions('local'));
+            console.log('[NaruhoDocs] LLMProviderManager: Local provider reloaded from models.json');
+        } catch (error) {
+            console.warn('[NaruhoDocs] LLMProviderManager: Local provider reload failed:', error);
+        }
+    }
+
+    /** Provider id ('cloud' | 'local' | 'openai' | 'replay') of a registered provider instance */
+    getProviderType(provider: LLMProvider | undefined): string | undefined {
+        if (!provider) {
+            return undefined;
+        }
+        for (const [type, candidate] of this.providers.entries()) {
+            if (candidate === provider) {
+                return type;
+            }
+        }
+        return undefined;
+    }
+
+    getCurrentProviderType(): string | undefined {
+        return this.currentProviderType;
+    }
+
+    static isFailoverCode(code: LLMProviderError['code']): boolean {
+        return code === 'NETWORK_ERROR' || code === 'RATE_LIMITED';
+    }
+
+    /** Record mode: initialize the provider being recorded (models.json replay.target, default cloud) and hand it over */
+    private async attachReplayTarget(options: LLMProviderOptions): Promise<LLMProviderOptions> {
+        if (options.replay?.mode !== 'record') {
+            return options;
+        }
+        const targetType = this.modelConfigManager?.getProviderEntry('replay')?.target || 'cloud';
+        const target = targetType === 'replay' ? undefined : await this.getOrInitializeProvider(targetType);
+        if (!target) {
+            throw new LLMProviderError(`Recording target provider '${targetType}' is unavailable`, 'Replay', 'MODEL_ERROR');
+        }
+        options.replay.target = target;
+        return options;
+    }
+
+    /** Resolve + validate initialization options for a provider type (models.json -> settings -> defaults) */
+    private async resolveProviderOptions(providerType: string): Promise<LLMProviderOptions> {
+        const config = vscode.workspace.getConfiguration('naruhodocs');
+        const options: any = {
+            apiKey: await this.getApiKey('llm.apiKey'),
+            temperature: 0
+        };
+        if (providerType === 'local') {
+            // precedence: models.json (if active) -> settings -> hardcoded fallback
+            let usedSource: string[] = [];
+            if (this.modelConfigManager?.isActive()) {
+                const entry = this.modelConfigManager.getProviderEntry('local');
+                if (entry) {
+                    if (entry.backend) { options.backend = entry.backend; usedSource.push('file-backend'); }
+                    if (entry.baseUrl) { options.baseUrl = entry.baseUrl; usedSource.push('file-baseUrl'); }
+                    if (entry.defaultModel) { options.model = entry.defaultModel; usedSource.push('file-defaultModel'); }
+                }
+                const endpoints = this.modelConfigManager.getLocalEndpoints();
+                if (Object.keys(endpoints).length) { options.endpoints = endpoints; usedSource.push('file-endpoints'); }
+                // If no explicit defaultModel in entry, resolve via task-based resolver for chat
+                if (!options.model) {
+                    const resolved = this.modelConfigManager.resolveModel('local', 'chat', undefined, 'gemma3:1b');
+                    options.model = resolved.model; usedSource.push('file-resolve:' + resolved.trace.join('+'));
+                }
+            }
+            if (!options.backend) {
+                options.backend = config.get<string>('llm.localBackend', 'ollama'); usedSource.push('setting-backend');
+            }
+            if (!options.baseUrl) {
+                options.baseUrl = config.get<string>('llm.localUrl'); if (options.baseUrl) { usedSource.push('setting-baseUrl'); }
+            }
+            if (!options.model) {
+                const modelSetting = config.get<string>('llm.localModel');
+                if (modelSetting) { options.model = modelSetting; usedSource.push('setting-model'); }
+            }
+            if (!options.model) { options.model = 'gemma3:1b'; usedSource.push('hardcoded-fallback'); }
+            if (!options.baseUrl) { options.baseUrl = 'http://localhost:11434'; usedSource.push('hardcoded-baseUrl'); }
+            console.log('[NaruhoDocs] Local provider init model resolution path:', usedSource.join(' > '));
+        } else if (providerType === 'openai') {
+            // precedence: models.json (if active) -> settings -> provider defaults
+            let usedSource: string[] = [];
+            const entry = this.modelConfigManager?.isActive() ? this.modelConfigManager.getProviderEntry('openai') : undefined;
+            if (entry?.baseUrl) { options.baseUrl = entry.baseUrl; usedSource.push('file-baseUrl'); }
+            if (entry?.defaultModel) { options.model = entry.defaultModel; usedSource.push('file-defaultModel'); }
+            if (entry?.headers) { options.headers = entry.headers; usedSource.push('file-headers'); }
+            options.apiKey = entry?.apiKey || await this.getApiKey('llm.openai.apiKey');
+            if (options.apiKey) { usedSource.push(entry?.apiKey ? 'file-apiKey' : 'secret-apiKey'); }
+            if (!options.baseUrl) { options.baseUrl = DEFAULT_OPENAI_COMPATIBLE_BASE_URL; usedSource.push('default-baseUrl'); }
+            if (!options.model) { options.model = DEFAULT_OPENAI_COMPATIBLE_MODEL; usedSource.push('default-model'); }
+            console.log('[NaruhoDocs] OpenAI-compatible provider init resolution path:', usedSource.join(' > '));
+        } else if (providerType === 'replay') {
+            // Only models.json configures replay; transcripts always live in <workspace>/.naruhodocs/recordings
+            const entry = this.modelConfigManager?.isActive() ? this.modelConfigManager.getProviderEntry('replay') : undefined;
+            const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            if (root) {
+                options.replay = {
+                    mode: entry?.mode === 'record' ? 'record' : 'replay',
+                    dir: path.join(root, '.naruhodocs', 'recordings'),
+                    recording: entry?.recording
+                };
+            }
+        } else {
+            // Non-local providers keep existing settings path
+            options.model = config.get<string>('llm.localModel'); // still supply optional for compatibility
+        }
+
+        console.log('[NaruhoDocs] LLMProviderManager: Initializing provider with options:', { 
+            ...options, 
+            apiKey: options.apiKey ? '[REDACTED]' : undefined,
+            headers: options.headers ? Object.keys(options.headers) : undefined
+        });
+
+        // Validate configuration before attempting initialization
+        if (providerType === 'local' && !options.baseUrl) {
+            throw new Error('Local LLM provider requires baseUrl to be configured (after resolution)');
+        }
+        if (providerType === 'openai' && !options.baseUrl) {
+            throw new Error('OpenAI-compatible provider requires baseUrl to be configured (after resolution)');
+        }
+        if (providerType === 'replay' && !options.replay) {
+            throw new Error('Replay provider requires an open workspace folder');
+        }
+        if (providerType === 'cloud' && !options.apiKey) {
+            throw new Error('Cloud provider requires API key to be configured');
+        }
+        return options;
+    }
+
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
         if (!this.currentProvider) {
             throw new Error('No LLM provider initialized');
         }
@@ -158,11 +313,20 @@ export class LLMProviderManager {
             case 'AUTH_FAILED':
                 if (providerType === 'cloud') {
                     vscode.window.showErrorMessage(
-                        'Invalid Cloud API key. Please check your settings.',
-                        'Open Settings'
+                        'Invalid Cloud API key.',
+                        'Set API Key'
                     ).then(selection => {
-                        if (selection === 'Open Settings') {
-                            vscode.commands.executeCommand('workbench.action.openSettings', 'naruhodocs.llm');
+                        if (selection === 'Set API Key') {
+                            vscode.commands.executeCommand('naruhodocs.setApiKey', 'llm.apiKey');
+                        }
+                    });
+                } else if (providerType === 'openai') {
+                    vscode.window.showErrorMessage(
+                        'OpenAI-compatible endpoint rejected the API key or headers. Check the stored key (NaruhoDocs: Set API Key) or models.json.',
+                        'Open Model Config'
+                    ).then(selection => {
+                        if (selection === 'Open Model Config') {
+                            vscode.commands.executeCommand('naruhodocs.openModelConfig');
                         }
                     });
                 }
@@ -190,6 +354,15 @@ export class LLMProviderManager {
                             vscode.commands.executeCommand('workbench.action.openSettings', 'naruhodocs.llm');
                         }
                     });
+                } else if (providerType === 'openai') {
+                    vscode.window.showErrorMessage(
+                        error.message + ' Check the baseUrl in models.json.',
+                        'Open Model Config'
+                    ).then(selection => {
+                        if (selection === 'Open Model Config') {
+                            vscode.commands.executeCommand('naruhodocs.openModelConfig');
+                        }
+                    });
                 }
                 break;
             default:
@@ -1,5 +1,5 @@
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo } from './base';
+import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo, ChatSessionOptions } from './base';
 import { createChat, ChatSession } from '../langchain-backend/llm';
 
 export class OOTBProvider implements LLMProvider {
@@ -19,7 +19,7 @@ export class OOTBProvider implements LLMProvider {
         // No additional initialization needed for OOTB
     }
 
-    async createChatSession(systemMessage: string, options?: { temperature?: number; model?: string }): Promise<ChatSession> {
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
         if (!this.API_KEY) {
             throw new LLMProviderError('API key unavailable. Set GOOGLE_API_KEY or switch to BYOK.', this.name, 'AUTH_FAILED');
         }
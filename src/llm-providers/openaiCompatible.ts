@@ -0,0 +1,138 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { LLMProvider, LLMProviderOptions, LLMProviderError, UsageInfo, ChatSessionOptions, ModelParameters } from './base';
+import { createChat, ChatSession, openAIJsonObjectMode } from '../langchain-backend/llm';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_COMPATIBLE_CONTEXT_WINDOW = 128_000; // gpt-4o family; set contextWindow in models.json for other models
+// An unreachable host must not hold up provider initialization or the status probe
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Generic OpenAI-compatible cloud provider (OpenAI, Azure OpenAI v1, vLLM, OpenRouter, LiteLLM style gateways).
+ * Unlike the local provider, sessions go through the shared createChat agent path so tool calling is available.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'OpenAI-Compatible';
+    private apiKey?: string;
+    private baseUrl?: string;
+    private defaultModel: string = DEFAULT_OPENAI_COMPATIBLE_MODEL;
+    private headers: Record<string, string> = {};
+    private initialized = false;
+
+    get isAvailable(): boolean {
+        return this.initialized;
+    }
+
+    async initialize(options: LLMProviderOptions): Promise<void> {
+        if (!options.baseUrl) {
+            throw new LLMProviderError(
+                'Base URL is required for OpenAI-compatible provider mode',
+                this.name,
+                'MODEL_ERROR'
+            );
+        }
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.apiKey = options.apiKey || undefined;
+        this.defaultModel = options.model || DEFAULT_OPENAI_COMPATIBLE_MODEL;
+        this.headers = { ...(options.headers || {}) };
+        this.initialized = false;
+
+        const status = await this.probe();
+        if (status === undefined) {
+            throw new LLMProviderError(
+                `Failed to connect to OpenAI-compatible endpoint at ${this.baseUrl}.`,
+                this.name,
+                'NETWORK_ERROR'
+            );
+        }
+        if (status === 401 || status === 403) {
+            throw new LLMProviderError(
+                'Invalid API key or headers for OpenAI-compatible endpoint',
+                this.name,
+                'AUTH_FAILED'
+            );
+        }
+        if (status === 429) {
+            throw new LLMProviderError(
+                'OpenAI-compatible endpoint is rate limiting requests',
+                this.name,
+                'RATE_LIMITED'
+            );
+        }
+        this.initialized = true;
+    }
+
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
+        if (!this.initialized || !this.baseUrl) {
+            throw new LLMProviderError(
+                'Provider not initialized',
+                this.name,
+                'MODEL_ERROR'
+            );
+        }
+        try {
+            return createChat({
+                chatModel: this.createModel(options?.model || this.defaultModel, options),
+                contextWindow: options?.contextWindow ?? DEFAULT_OPENAI_COMPATIBLE_CONTEXT_WINDOW,
+                jsonMode: openAIJsonObjectMode, // json_schema support varies across gateways; json_object is near universal
+                systemMessage
+            });
+        } catch (error: any) {
+            throw new LLMProviderError(
+                `Failed to create OpenAI-compatible chat session: ${error?.message || 'Unknown error'}`,
+                this.name,
+                'MODEL_ERROR'
+            );
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        if (!this.baseUrl) {
+            return false;
+        }
+        const status = await this.probe();
+        return status !== undefined && status !== 401 && status !== 403;
+    }
+
+    async getUsageInfo(): Promise<UsageInfo> {
+        return {
+            requestsToday: 0,
+            requestsRemaining: Infinity,
+            isUnlimited: true
+        };
+    }
+
+    private createModel(model: string, params?: ModelParameters): ChatOpenAI {
+        return new ChatOpenAI({
+            // The OpenAI client refuses an empty key; keyless gateways (e.g. self-hosted vLLM) ignore this value.
+            apiKey: this.apiKey || 'not-needed',
+            configuration: {
+                baseURL: this.baseUrl,
+                defaultHeaders: this.headers,
+            },
+            model,
+            temperature: params?.temperature ?? 0,
+            maxTokens: params?.maxOutputTokens,
+            topP: params?.topP,
+            stop: params?.stop,
+        });
+    }
+
+    /**
+     * Probe the models listing endpoint. Returns the HTTP status, or undefined when the endpoint is unreachable.
+     * Some gateways do not expose /models (404) – that still counts as reachable. Gives up after PROBE_TIMEOUT_MS.
+     */
+    private async probe(): Promise<number | undefined> {
+        try {
+            const headers: Record<string, string> = { ...this.headers };
+            if (this.apiKey) {
+                headers['Authorization'] = `Bearer ${this.apiKey}`;
+            }
+            const response = await fetch(`${this.baseUrl}/models`, { headers, signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+            return response.status;
+        } catch {
+            return undefined;
+        }
+    }
+}
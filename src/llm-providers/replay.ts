@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
+import { CallbackHandlerMethods } from '@langchain/core/callbacks/base';
+import { LLMProvider, LLMProviderOptions, LLMProviderError, LLMCancelledError, UsageInfo, ReplayOptions, ChatSessionOptions } from './base';
+import { ChatSession, ChatCallOptions, TokenUsage, chunkText } from '../langchain-backend/llm';
+import { redactSecrets } from '../managers/Redactor';
+
+export interface RecordedToolCall {
+    name: string;
+    input: string;
+    output: string;
+}
+
+/** One line of a .naruhodocs/recordings/*.jsonl transcript */
+export interface RecordedExchange {
+    hash: string;            // replayHash(systemMessage, prompt)
+    provider: string;        // Name of the provider that produced the answer
+    systemMessage: string;
+    prompt: string;
+    response: string;
+    toolCalls: RecordedToolCall[];
+    usage?: TokenUsage;
+    recordedAt: string;
+}
+
+const DEFAULT_RECORDING = 'session';
+const REPLAY_CHUNK_CHARS = 40;
+
+/** Lookup key of an exchange: sha256 over the system message and the user prompt */
+export function replayHash(systemMessage: string, prompt: string): string {
+    return crypto.createHash('sha256').update(JSON.stringify([systemMessage, prompt])).digest('hex');
+}
+
+/** Collects the tool runs of one turn through LangChain tool callbacks (agent tools and the local ReAct loop) */
+export function createToolRecorder() {
+    const pending = new Map<string, { name: string; input: string }>();
+    const calls: RecordedToolCall[] = [];
+    const finish = (runId: string, output: string) => {
+        const start = pending.get(runId);
+        if (!start) { return; }
+        pending.delete(runId);
+        calls.push({ ...start, output });
+    };
+    const handler: CallbackHandlerMethods = {
+        handleToolStart(tool, input, runId, _parentRunId, _tags, _metadata, runName) {
+            pending.set(runId, { name: runName ?? (tool as any)?.name ?? tool?.id?.[tool.id.length - 1] ?? 'tool', input });
+        },
+        handleToolEnd(output, runId) {
+            finish(runId, typeof output === 'string' ? output : (chunkText(output?.content) || JSON.stringify(output)));
+        },
+        handleToolError(err, runId) {
+            finish(runId, `Error: ${err?.message ?? String(err)}`);
+        }
+    };
+    return { calls, handler };
+}
+
+/**
+ * Record-and-replay provider for deterministic, offline runs.
+ * record: wraps the target provider's sessions and appends every answered prompt (with tool calls and usage) to <dir>/<recording>.jsonl.
+ * replay: serves answers from the transcripts by replayHash; repeated prompts are served in recorded order, the last answer repeating.
+ */
+export class ReplayProvider implements LLMProvider {
+    readonly name = 'Replay';
+    private options?: ReplayOptions;
+    private readonly exchanges = new Map<string, RecordedExchange[]>();
+    private readonly cursors = new Map<string, number>();
+    private writeQueue: Promise<void> = Promise.resolve();
+    private initialized = false;
+
+    get isAvailable(): boolean {
+        return this.initialized;
+    }
+
+    get mode(): ReplayOptions['mode'] | undefined {
+        return this.options?.mode;
+    }
+
+    async initialize(options: LLMProviderOptions): Promise<void> {
+        this.initialized = false;
+        const replay = options.replay;
+        if (!replay?.dir) {
+            throw new LLMProviderError('Replay provider requires a recordings directory', this.name, 'MODEL_ERROR');
+        }
+        if (replay.mode === 'record') {
+            if (!replay.target?.isAvailable) {
+                throw new LLMProviderError('Record mode requires an initialized target provider', this.name, 'MODEL_ERROR');
+            }
+            await fs.promises.mkdir(replay.dir, { recursive: true });
+        } else {
+            const loaded = await this.load(replay.dir, replay.recording);
+            if (loaded === 0) {
+                throw new LLMProviderError(
+                    `No recordings found in ${replay.dir}. Record some first with "mode": "record".`,
+                    this.name,
+                    'MODEL_ERROR'
+                );
+            }
+        }
+        this.options = replay;
+        this.initialized = true;
+    }
+
+    async createChatSession(systemMessage: string, options?: ChatSessionOptions): Promise<ChatSession> {
+        if (!this.initialized || !this.options) {
+            throw new LLMProviderError('Provider not initialized', this.name, 'MODEL_ERROR');
+        }
+        if (this.options.mode === 'record') {
+            // Model hints are resolved for the 'replay' provider id, so the target keeps its own default model
+            const inner = await this.options.target!.createChatSession(systemMessage, { ...options, model: undefined });
+            return this.createRecordingSession(inner, systemMessage);
+        }
+        return this.createReplaySession(systemMessage);
+    }
+
+    async testConnection(): Promise<boolean> {
+        if (this.options?.mode === 'record') {
+            return this.options.target!.testConnection();
+        }
+        return this.initialized;
+    }
+
+    async getUsageInfo(): Promise<UsageInfo> {
+        return {
+            requestsToday: 0,
+            requestsRemaining: Infinity,
+            isUnlimited: true
+        };
+    }
+
+    /** Path of the transcript written in record mode */
+    get recordingPath(): string | undefined {
+        return this.options ? path.join(this.options.dir, `${this.options.recording || DEFAULT_RECORDING}.jsonl`) : undefined;
+    }
+
+    /** Resolves once every recorded exchange so far has been written */
+    flush(): Promise<void> {
+        return this.writeQueue;
+    }
+
+    private async load(dir: string, recording?: string): Promise<number> {
+        this.exchanges.clear();
+        this.cursors.clear();
+        let files: string[];
+        try {
+            files = recording ? [`${recording}.jsonl`] : (await fs.promises.readdir(dir)).filter(f => f.endsWith('.jsonl')).sort();
+        } catch {
+            return 0;
+        }
+        let count = 0;
+        for (const file of files) {
+            let text: string;
+            try {
+                text = await fs.promises.readFile(path.join(dir, file), 'utf8');
+            } catch {
+                continue;
+            }
+            for (const line of text.split(/\r?\n/)) {
+                if (!line.trim()) { continue; }
+                try {
+                    const exchange = JSON.parse(line) as RecordedExchange;
+                    const hash = exchange.hash || replayHash(exchange.systemMessage, exchange.prompt);
+                    this.exchanges.set(hash, [...(this.exchanges.get(hash) || []), exchange]);
+                    count++;
+                } catch {
+                    console.warn(`[NaruhoDocs] ReplayProvider: skipping malformed line in ${file}`);
+                }
+            }
+        }
+        return count;
+    }
+
+    private next(systemMessage: string, prompt: string): RecordedExchange {
+        const hash = replayHash(systemMessage, prompt);
+        const queue = this.exchanges.get(hash);
+        if (!queue?.length) {
+            throw new LLMProviderError(
+                `No recorded response for this prompt (hash ${hash.slice(0, 12)}). Re-record with "mode": "record".`,
+                this.name,
+                'MODEL_ERROR'
+            );
+        }
+        const index = this.cursors.get(hash) ?? 0;
+        this.cursors.set(hash, index + 1);
+        return queue[Math.min(index, queue.length - 1)];
+    }
+
+    private append(exchange: RecordedExchange): Promise<void> {
+        const file = this.recordingPath!;
+        this.writeQueue = this.writeQueue
+            .then(() => fs.promises.appendFile(file, JSON.stringify(exchange) + '\n', 'utf8'))
+            .catch(error => console.warn('[NaruhoDocs] ReplayProvider: failed to write recording:', error));
+        return this.writeQueue;
+    }
+
+    private createRecordingSession(inner: ChatSession, initialSystemMessage: string): ChatSession {
+        let systemMessage = initialSystemMessage;
+        const target = this.options!.target!;
+        const record = async (prompt: string, options: ChatCallOptions | undefined, run: (options: ChatCallOptions) => Promise<string>) => {
+            const tools = createToolRecorder();
+            const response = await run({ ...options, callbacks: [...(options?.callbacks ?? []), tools.handler] });
+            await this.append({
+                hash: replayHash(systemMessage, prompt),
+                provider: target.name,
+                systemMessage,
+                prompt,
+                response,
+                toolCalls: tools.calls,
+                usage: inner.getLastUsage?.(),
+                recordedAt: new Date().toISOString()
+            });
+            return response;
+        };
+        const session: ChatSession = {
+            chat: (prompt, options) => record(prompt, options, o => inner.chat(prompt, o)),
+            getLastUsage: () => inner.getLastUsage?.(),
+            getMemory: () => inner.getMemory?.() ?? '',
+            reset: () => inner.reset(),
+            getHistory: () => inner.getHistory(),
+            setHistory: historyArr => inner.setHistory(historyArr),
+            setCustomSystemMessage: msg => { systemMessage = redactSecrets(msg, 'system_message'); inner.setCustomSystemMessage(msg); }
+        };
+        if (inner.chatStream) {
+            session.chatStream = (prompt, onChunk, options) => record(prompt, options, o => inner.chatStream!(prompt, onChunk, o));
+        }
+        return session;
+    }
+
+    private createReplaySession(initialSystemMessage: string): ChatSession {
+        let systemMessage = initialSystemMessage;
+        let history: BaseMessage[] = [];
+        let lastUsage: TokenUsage | undefined;
+        const answer = (prompt: string, options?: ChatCallOptions): string => {
+            if (options?.signal?.aborted) {
+                throw new LLMCancelledError();
+            }
+            const exchange = this.next(systemMessage, prompt);
+            history.push(new HumanMessage(prompt), new AIMessage(exchange.response));
+            lastUsage = exchange.usage;
+            return exchange.response;
+        };
+        return {
+            chat: async (prompt, options) => answer(prompt, options),
+            chatStream: async (prompt, onChunk, options) => {
+                const response = answer(prompt, options);
+                for (let i = 0; i < response.length; i += REPLAY_CHUNK_CHARS) {
+                    onChunk(response.slice(i, i + REPLAY_CHUNK_CHARS));
+                }
+                return response;
+            },
+            getLastUsage: () => lastUsage,
+            reset: () => { history = []; },
+            getHistory: () => history,
+            setHistory: historyArr => { history = [...historyArr]; },
+            // Hashed like the recording session, which stores the redacted text
+            setCustomSystemMessage: msg => { systemMessage = redactSecrets(msg, 'system_message'); }
+        };
+    }
+}
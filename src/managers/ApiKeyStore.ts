@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+
+/** API keys kept in SecretStorage; the id doubles as the setting name keys were read from before */
+export type ApiKeyId = 'llm.apiKey' | 'llm.openai.apiKey' | 'huggingface.apiKey';
+
+interface ApiKeyInfo {
+    label: string;
+    legacySettings: string[];  // naruhodocs.* settings migrated into the secret, first non-empty value wins
+    hint?: string;             // Appended to the input box prompt
+}
+
+export const API_KEYS: Record<ApiKeyId, ApiKeyInfo> = {
+    'llm.apiKey': { label: 'Cloud provider (Gemini)', legacySettings: ['llm.apiKey', 'geminiApiKey'] },
+    'llm.openai.apiKey': { label: 'OpenAI-compatible provider', legacySettings: ['llm.openai.apiKey'], hint: 'Leave empty if the endpoint needs none.' },
+    'huggingface.apiKey': { label: 'HuggingFace embeddings', legacySettings: ['huggingface.apiKey'] }
+};
+
+const SECRET_PREFIX = 'naruhodocs.';
+
+/** Reads naruhodocs.* settings; injectable so tests can run without a workspace */
+export type SettingsAccessor = () => vscode.WorkspaceConfiguration;
+
+interface KeyPickItem extends vscode.QuickPickItem {
+    id: ApiKeyId;
+}
+
+/**
+ * API keys in VS Code SecretStorage instead of settings.json (which gets synced and committed). Keys still found in
+ * the settings are moved into the secret store and cleared from every settings scope, once at activation and again
+ * whenever someone types a key into the settings.
+ */
+export class ApiKeyStore {
+    private migration: Promise<ApiKeyId[]> | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<ApiKeyId>();
+    private readonly secretListener: vscode.Disposable;
+    /** Fired when a key is set, changed or cleared, from this window or another one */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private readonly secrets: vscode.SecretStorage,
+        private readonly settings: SettingsAccessor = () => vscode.workspace.getConfiguration('naruhodocs')
+    ) {
+        this.secretListener = secrets.onDidChange(e => {
+            const id = e.key.startsWith(SECRET_PREFIX) ? e.key.slice(SECRET_PREFIX.length) : '';
+            if (id in API_KEYS) {
+                this.changeEmitter.fire(id as ApiKeyId);
+            }
+        });
+    }
+
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.changeEmitter,
+            this.secretListener,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                const touched = Object.values(API_KEYS).some(info => info.legacySettings.some(s => e.affectsConfiguration(`naruhodocs.${s}`)));
+                if (touched) {
+                    this.migrateFromSettings().catch(err => console.warn('[NaruhoDocs] API key migration failed:', err));
+                }
+            }),
+            vscode.commands.registerCommand('naruhodocs.setApiKey', (id?: ApiKeyId) => this.promptAndSet(id).catch(e =>
+                vscode.window.showErrorMessage('Set API Key: ' + (e instanceof Error ? e.message : String(e))))),
+            vscode.commands.registerCommand('naruhodocs.clearApiKey', (id?: ApiKeyId) => this.promptAndClear(id).catch(e =>
+                vscode.window.showErrorMessage('Clear API Key: ' + (e instanceof Error ? e.message : String(e)))))
+        );
+        this.migrateFromSettings().catch(err => console.warn('[NaruhoDocs] API key migration failed:', err));
+    }
+
+    /** The stored key, or undefined. Waits for a running settings migration so early readers see migrated keys. */
+    public async get(id: ApiKeyId): Promise<string | undefined> {
+        await this.migration?.catch(() => undefined);
+        try {
+            return (await this.secrets.get(SECRET_PREFIX + id)) || undefined;
+        } catch (e) {
+            // No usable keychain (e.g. headless Linux without a secret service): fall back to whatever the settings hold
+            console.warn(`[NaruhoDocs] Secret storage unavailable, reading ${id} from settings:`, e);
+            return this.settingsValue(id);
+        }
+    }
+
+    public async set(id: ApiKeyId, value: string): Promise<void> {
+        const trimmed = value.trim();
+        if (!trimmed) {
+            return this.clear(id);
+        }
+        await this.secrets.store(SECRET_PREFIX + id, trimmed);
+    }
+
+    public async clear(id: ApiKeyId): Promise<void> {
+        await this.secrets.delete(SECRET_PREFIX + id);
+    }
+
+    /**
+     * Move keys found in the legacy settings into the secret store and clear those settings in every scope they are
+     * set in. A settings value replaces the stored secret: it is either the pre-migration key or one just typed into
+     * the settings. Runs are serialized; returns the ids that were migrated.
+     */
+    public migrateFromSettings(): Promise<ApiKeyId[]> {
+        const run = (this.migration ?? Promise.resolve([] as ApiKeyId[])).catch(() => []).then(() => this.runMigration());
+        this.migration = run;
+        return run;
+    }
+
+    private async runMigration(): Promise<ApiKeyId[]> {
+        const config = this.settings();
+        const migrated: ApiKeyId[] = [];
+        for (const id of Object.keys(API_KEYS) as ApiKeyId[]) {
+            const value = this.settingsValue(id, config);
+            if (!value) {
+                continue;
+            }
+            await this.secrets.store(SECRET_PREFIX + id, value);
+            migrated.push(id);
+            for (const setting of API_KEYS[id].legacySettings) {
+                const inspected = config.inspect<string>(setting);
+                const scopes: [unknown, vscode.ConfigurationTarget][] = [
+                    [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+                    [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+                    [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+                ];
+                for (const [scopeValue, target] of scopes) {
+                    if (scopeValue !== undefined) {
+                        await config.update(setting, undefined, target);
+                    }
+                }
+            }
+        }
+        if (migrated.length) {
+            console.log('[NaruhoDocs] Moved API keys from settings to secret storage:', migrated.join(', '));
+        }
+        return migrated;
+    }
+
+    private settingsValue(id: ApiKeyId, config: vscode.WorkspaceConfiguration = this.settings()): string | undefined {
+        for (const setting of API_KEYS[id].legacySettings) {
+            const value = config.get<string>(setting)?.trim();
+            if (value) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    private async pickKey(placeHolder: string): Promise<ApiKeyId | undefined> {
+        const items: KeyPickItem[] = [];
+        for (const id of Object.keys(API_KEYS) as ApiKeyId[]) {
+            items.push({ id, label: API_KEYS[id].label, description: (await this.get(id)) ? 'set' : 'not set' });
+        }
+        return (await vscode.window.showQuickPick(items, { placeHolder }))?.id;
+    }
+
+    /** "Set API Key" command; id preselects the key (e.g. from the provider picker) */
+    public async promptAndSet(id?: ApiKeyId): Promise<boolean> {
+        const target = id ?? await this.pickKey('Select the API key to set');
+        if (!target) {
+            return false;
+        }
+        const value = await vscode.window.showInputBox({
+            prompt: [`API key for ${API_KEYS[target].label}, stored in the system keychain rather than settings.`, API_KEYS[target].hint].filter(Boolean).join(' '),
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (!value?.trim()) {
+            return false;
+        }
+        await this.set(target, value);
+        vscode.window.showInformationMessage(`NaruhoDocs: API key for ${API_KEYS[target].label} saved.`);
+        return true;
+    }
+
+    /** "Clear API Key" command */
+    public async promptAndClear(id?: ApiKeyId): Promise<void> {
+        const target = id ?? await this.pickKey('Select the API key to remove');
+        if (!target) {
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(`Remove the stored API key for ${API_KEYS[target].label}?`, { modal: true }, 'Remove');
+        if (confirm !== 'Remove') {
+            return;
+        }
+        await this.clear(target);
+        vscode.window.showInformationMessage(`NaruhoDocs: API key for ${API_KEYS[target].label} removed.`);
+    }
+}
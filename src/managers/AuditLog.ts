@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { RecordedToolCall } from '../llm-providers/replay';
+import { TokenUsage } from '../langchain-backend/llm';
+import { SettingsAccessor } from './ApiKeyStore';
+
+/** One line of .naruhodocs/logs/exchanges*.jsonl: everything that went to the model and came back, untruncated */
+export interface AuditRecord {
+    id: string;
+    ts: string;                   // ISO time the request was dispatched
+    durationMs: number;
+    task: string;
+    sessionId?: string;
+    provider: string;             // Provider that answered (after failover) or failed
+    model: string;
+    systemMessage: string;
+    history: Array<{ role: string; content: string }>;  // Session history before the prompt
+    prompt: string;
+    toolCalls: RecordedToolCall[];
+    response?: string;
+    error?: { code: string; message: string };
+    usage?: TokenUsage;
+    meta?: Record<string, unknown>;
+}
+
+interface ExchangePickItem extends vscode.QuickPickItem {
+    record: AuditRecord;
+}
+
+const LOG_FILE = 'exchanges';
+const ROTATED_FILES = 4;          // exchanges.1.jsonl (newest) .. exchanges.4.jsonl are kept next to the live file
+const DEFAULT_MAX_SIZE_MB = 5;
+
+function defaultLogDir(): string | undefined {
+    const ws = vscode.workspace.workspaceFolders?.[0];
+    return ws ? path.join(ws.uri.fsPath, '.naruhodocs', 'logs') : undefined;
+}
+
+/** Code fence longer than any backtick run inside text, so logged markdown cannot close it early */
+function fence(text: string, lang: string = ''): string {
+    const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const ticks = '`'.repeat(Math.max(3, longest + 1));
+    return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+/** Markdown rendering of one record for the "Open Exchange" command */
+export function formatExchange(record: AuditRecord): string {
+    const lines: string[] = [
+        `# ${record.task} exchange`,
+        '',
+        '| | |',
+        '|---|---|',
+        `| Time | ${record.ts} |`,
+        `| Duration | ${record.durationMs} ms |`,
+        `| Provider | ${record.provider} |`,
+        `| Model | ${record.model} |`,
+        `| Session | ${record.sessionId ?? 'n/a'} |`
+    ];
+    if (record.usage) {
+        lines.push(`| Tokens | in ${record.usage.inputTokens} · out ${record.usage.outputTokens} · tool calls ${record.usage.toolCallTokens} |`);
+    }
+    lines.push(`| Id | ${record.id} |`, '');
+    if (record.error) {
+        lines.push(`## Error: ${record.error.code}`, '', fence(record.error.message), '');
+    }
+    lines.push('## System message', '', fence(record.systemMessage), '');
+    lines.push(`## History (${record.history.length} messages)`, '');
+    for (const message of record.history) {
+        lines.push(`### ${message.role}`, '', fence(message.content), '');
+    }
+    lines.push('## Prompt', '', fence(record.prompt), '');
+    if (record.toolCalls.length) {
+        lines.push(`## Tool calls (${record.toolCalls.length})`, '');
+        record.toolCalls.forEach((call, i) => {
+            lines.push(`### ${i + 1}. ${call.name}`, '', 'Input:', '', fence(call.input), '', 'Result:', '', fence(call.output), '');
+        });
+    }
+    if (record.response !== undefined) {
+        lines.push('## Response', '', fence(record.response), '');
+    }
+    if (record.meta && Object.keys(record.meta).length) {
+        lines.push('## Meta', '', fence(JSON.stringify(record.meta, null, 2), 'json'), '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Opt-in (naruhodocs.logging.auditLog) JSONL audit log of every LLM exchange under .naruhodocs/logs. Unlike the
+ * verbose output channel nothing is truncated, so a bad answer can be traced back to the exact context the model
+ * saw. The live file is rotated once it would exceed naruhodocs.logging.auditLogMaxSizeMB; the oldest rotation
+ * beyond ROTATED_FILES is deleted.
+ */
+export class ExchangeAuditLog {
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly settings: SettingsAccessor = () => vscode.workspace.getConfiguration('naruhodocs'),
+        private readonly logDir: () => string | undefined = defaultLogDir
+    ) {}
+
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('naruhodocs.openExchange', (id?: string) => this.openExchange(id).catch(e =>
+                vscode.window.showErrorMessage('Open Exchange: ' + (e instanceof Error ? e.message : String(e)))))
+        );
+    }
+
+    public get enabled(): boolean {
+        return !!this.settings().get<boolean>('logging.auditLog') && !!this.logDir();
+    }
+
+    public static newId(): string {
+        return crypto.randomUUID();
+    }
+
+    /** Queue one record; writes are serialized so rotation never races an append */
+    public append(record: AuditRecord): Promise<void> {
+        const dir = this.logDir();
+        if (!dir) { return this.writeQueue; }
+        const line = JSON.stringify(record) + '\n';
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                await fs.promises.mkdir(dir, { recursive: true });
+                await this.rotateIfNeeded(dir, Buffer.byteLength(line, 'utf8'));
+                await fs.promises.appendFile(this.filePath(dir), line, 'utf8');
+            })
+            .catch(error => console.warn('[NaruhoDocs] Failed to write audit log:', error));
+        return this.writeQueue;
+    }
+
+    /** Resolves once every queued record has been written */
+    public flush(): Promise<void> {
+        return this.writeQueue;
+    }
+
+    /** Every readable record across the live and rotated files, newest first */
+    public async list(): Promise<AuditRecord[]> {
+        const dir = this.logDir();
+        if (!dir) { return []; }
+        await this.flush();
+        const records: AuditRecord[] = [];
+        for (let i = 0; i <= ROTATED_FILES; i++) {
+            let text: string;
+            try {
+                text = await fs.promises.readFile(this.filePath(dir, i), 'utf8');
+            } catch {
+                continue;
+            }
+            const lines = text.split(/\r?\n/).filter(line => line.trim());
+            for (let j = lines.length - 1; j >= 0; j--) {
+                try {
+                    records.push(JSON.parse(lines[j]) as AuditRecord);
+                } catch {
+                    console.warn(`[NaruhoDocs] Skipping malformed audit log line in ${path.basename(this.filePath(dir, i))}`);
+                }
+            }
+        }
+        return records;
+    }
+
+    /** "Open Exchange" command: pick a logged exchange (or pass its id) and open it as a markdown document */
+    public async openExchange(id?: string): Promise<void> {
+        const records = await this.list();
+        let record = id ? records.find(r => r.id === id) : undefined;
+        if (!record) {
+            if (!records.length) {
+                const hint = this.enabled ? 'No exchanges logged yet.' : 'Enable "naruhodocs.logging.auditLog" to record LLM exchanges.';
+                vscode.window.showInformationMessage(`NaruhoDocs: ${hint}`);
+                return;
+            }
+            const items: ExchangePickItem[] = records.map(r => ({
+                label: `${r.error ? '$(error) ' : ''}${r.task} · ${r.provider}/${r.model}`,
+                description: `${new Date(r.ts).toLocaleString()} · ${r.durationMs} ms`,
+                detail: r.prompt.replace(/\s+/g, ' ').slice(0, 160),
+                record: r
+            }));
+            record = (await vscode.window.showQuickPick(items, { placeHolder: 'Select an LLM exchange to open', matchOnDescription: true, matchOnDetail: true }))?.record;
+            if (!record) { return; }
+        }
+        const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatExchange(record) });
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+
+    private filePath(dir: string, rotation: number = 0): string {
+        return path.join(dir, rotation ? `${LOG_FILE}.${rotation}.jsonl` : `${LOG_FILE}.jsonl`);
+    }
+
+    private async rotateIfNeeded(dir: string, incomingBytes: number): Promise<void> {
+        const maxMb = this.settings().get<number>('logging.auditLogMaxSizeMB');
+        const maxBytes = (typeof maxMb === 'number' && maxMb > 0 ? maxMb : DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+        let size: number;
+        try {
+            size = (await fs.promises.stat(this.filePath(dir))).size;
+        } catch {
+            return; // no live file yet
+        }
+        if (size === 0 || size + incomingBytes <= maxBytes) { return; }
+        await fs.promises.rm(this.filePath(dir, ROTATED_FILES), { force: true });
+        for (let i = ROTATED_FILES - 1; i >= 1; i--) {
+            await fs.promises.rename(this.filePath(dir, i), this.filePath(dir, i + 1)).catch(() => { /* gap in the rotation */ });
+        }
+        await fs.promises.rename(this.filePath(dir), this.filePath(dir, 1));
+    }
+}
@@ -0,0 +1,410 @@
+import * as vscode from 'vscode';
+import { parseJsonTree, findNode, findProperty, JsonNode, JsonParseError } from '../utils/jsonAst';
+import { LLM_TASK_TYPES } from './LLMService';
+import { DEFAULT_LOCAL_ENDPOINT } from '../llm-providers/base';
+import { LOCAL_BACKENDS, LOCAL_BACKEND_DEFAULT_URLS, localBackendConfig, parseModelList, LocalBackendConfig } from '../llm-providers/local';
+
+/** One problem found in models.json / embeddings.json; offsets index into the file text */
+export interface ConfigIssue {
+    offset: number;
+    length: number;
+    message: string;
+    severity: 'error' | 'warning';
+    fixes?: Array<{ title: string; replacement: string }>; // replacement is raw JSON text for the issue range
+}
+
+/** Network checks used by the analyzers (injectable for tests) */
+export interface EndpointProbe {
+    /** Models served by a local backend at baseUrl; undefined when the server cannot be reached */
+    listModels(backend: string, baseUrl: string): Promise<string[] | undefined>;
+    /** True when anything answers at the URL, whatever the HTTP status */
+    isReachable(url: string): Promise<boolean>;
+}
+
+const KNOWN_PROVIDERS = ['cloud', 'local', 'openai', 'replay'];
+const EMBEDDING_TYPES = ['local', 'huggingface'];
+const EMBEDDING_ENGINES = ['ollama', 'lmstudio'];
+const EMBEDDING_DEFAULT_URLS: Record<string, string> = { ollama: 'http://localhost:11434', lmstudio: 'http://localhost:1234' };
+
+function levenshtein(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let prev = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+            prev = current;
+        }
+    }
+    return row[b.length];
+}
+
+/** Candidates that look like a typo or spelling variant of value (readFiles -> read_files, lm-studio -> lmstudio), best first */
+export function closestMatches(value: string, candidates: string[], max: number = 3): string[] {
+    const normalize = (s: string) => s.toLowerCase().replace(/[\s_.\-]/g, '');
+    const target = normalize(value);
+    return candidates
+        .map(candidate => ({ candidate, distance: normalize(candidate) === target ? 0 : levenshtein(target, normalize(candidate)) }))
+        .filter(c => c.distance <= Math.max(2, Math.floor(target.length / 3)))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, max)
+        .map(c => c.candidate);
+}
+
+/** Ollama lists untagged models as name:latest */
+export function hasModel(available: string[], model: string): boolean {
+    return available.includes(model) || (!model.includes(':') && available.includes(`${model}:latest`));
+}
+
+function stringValue(node: JsonNode | undefined): string | undefined {
+    return node?.type === 'string' ? node.value as string : undefined;
+}
+
+function replaceWith(values: string[], describe: (value: string) => string): ConfigIssue['fixes'] {
+    return values.map(value => ({ title: describe(value), replacement: JSON.stringify(value) }));
+}
+
+function keyIssue(prop: { keyOffset: number; keyLength: number }, message: string, fixes?: ConfigIssue['fixes']): ConfigIssue {
+    return { offset: prop.keyOffset, length: prop.keyLength, message, severity: 'warning', fixes };
+}
+
+function valueIssue(node: JsonNode, message: string, severity: ConfigIssue['severity'] = 'warning', fixes?: ConfigIssue['fixes']): ConfigIssue {
+    return { offset: node.offset, length: node.length, message, severity, fixes };
+}
+
+/** Parse errors and missing version / providers: the config manager ignores the whole file in these cases */
+function checkShape(text: string, file: string, version: number): { root?: JsonNode; issues: ConfigIssue[] } {
+    let root: JsonNode;
+    try {
+        root = parseJsonTree(text);
+    } catch (e) {
+        const offset = e instanceof JsonParseError ? e.offset : 0;
+        return { issues: [{ offset, length: 1, message: `${file} is not valid JSON (${(e as Error).message}); NaruhoDocs ignores it until this is fixed.`, severity: 'error' }] };
+    }
+    const issues: ConfigIssue[] = [];
+    if (root.type !== 'object') {
+        return { issues: [valueIssue(root, `${file} must be a JSON object; NaruhoDocs ignores it.`, 'error')] };
+    }
+    const versionProp = findProperty(root, 'version');
+    const accepted = file === 'models.json' ? [1, 2, 3] : [version]; // older models.json versions are migrated on load
+    if (!versionProp) {
+        issues.push({ offset: root.offset, length: 1, message: `${file} needs "version": ${version}; NaruhoDocs ignores it without one.`, severity: 'error' });
+    } else if (!accepted.includes(versionProp.value.value as number)) {
+        issues.push(valueIssue(versionProp.value, `Unsupported ${file} version; expected ${version}. NaruhoDocs ignores the file.`, 'error',
+            [{ title: `Set version to ${version}`, replacement: String(version) }]));
+    }
+    const providers = findProperty(root, 'providers');
+    if (!providers) {
+        issues.push({ offset: root.offset, length: 1, message: `${file} has no "providers" object; NaruhoDocs ignores it.`, severity: 'error' });
+    } else if (providers.value.type !== 'object') {
+        issues.push(valueIssue(providers.value, '"providers" must be an object keyed by provider id.', 'error'));
+    }
+    return { root, issues };
+}
+
+function checkProviderId(prop: { key: string; keyOffset: number; keyLength: number }, node: JsonNode | undefined, where: string): ConfigIssue | undefined {
+    const id = node ? stringValue(node) : prop.key;
+    if (id === undefined || KNOWN_PROVIDERS.includes(id)) {
+        return undefined;
+    }
+    const suggestions = id === 'byok' ? ['cloud'] : closestMatches(id, KNOWN_PROVIDERS);
+    const message = id === 'byok'
+        ? `'byok' was renamed to 'cloud'.`
+        : `Unknown provider '${id}' in ${where}. Known providers: ${KNOWN_PROVIDERS.join(', ')}.`;
+    const fixes = replaceWith(suggestions, s => `Change to '${s}'`);
+    return node ? valueIssue(node, message, 'warning', fixes) : keyIssue(prop, message, fixes);
+}
+
+function checkTaskKeys(tasks: JsonNode | undefined, where: string, issues: ConfigIssue[]) {
+    for (const prop of tasks?.properties || []) {
+        if (!(LLM_TASK_TYPES as string[]).includes(prop.key)) {
+            issues.push(keyIssue(prop, `Unknown task '${prop.key}' in ${where}; it is never used. Known tasks: ${LLM_TASK_TYPES.join(', ')}.`,
+                replaceWith(closestMatches(prop.key, LLM_TASK_TYPES), s => `Rename to '${s}'`)));
+        }
+    }
+}
+
+/** Backend name, reachability and installed models of one local server (providers.local or one of its endpoints) */
+function checkLocalServer(entry: JsonNode, models: JsonNode[], probe: EndpointProbe, issues: ConfigIssue[]): Promise<void> {
+    const backendNode = findNode(entry, ['backend']);
+    const backend = stringValue(backendNode) ?? 'ollama';
+    if (backendNode && !LOCAL_BACKENDS.includes(backend as LocalBackendConfig['type'])) {
+        issues.push(valueIssue(backendNode, `Unknown local backend '${backend}'; it is treated as 'custom'. Known backends: ${LOCAL_BACKENDS.join(', ')}.`, 'warning',
+            replaceWith(closestMatches(backend, LOCAL_BACKENDS), s => `Change to '${s}'`)));
+    }
+    const urlNode = findNode(entry, ['baseUrl']);
+    const baseUrl = stringValue(urlNode) ?? LOCAL_BACKEND_DEFAULT_URLS[backend] ?? LOCAL_BACKEND_DEFAULT_URLS.custom;
+    return probe.listModels(backend, baseUrl).then(available => {
+        if (available === undefined) {
+            if (urlNode) {
+                const fallback = LOCAL_BACKEND_DEFAULT_URLS[backend];
+                issues.push(valueIssue(urlNode, `Cannot reach the ${backend} server at ${baseUrl}. Is it running?`, 'warning',
+                    fallback && fallback !== baseUrl ? replaceWith([fallback], s => `Use the ${backend} default ${s}`) : undefined));
+            }
+            return;
+        }
+        for (const node of models) {
+            const model = node.value as string;
+            if (available.length && !hasModel(available, model)) {
+                issues.push(valueIssue(node, `Model '${model}' is not available on the local ${backend} server${backend === 'ollama' ? ` (ollama pull ${model})` : ''}.`, 'warning',
+                    replaceWith(closestMatches(model, available), s => `Use installed model '${s}'`)));
+            }
+        }
+    });
+}
+
+/**
+ * Semantic checks for .naruhodocs/models.json beyond the JSON schema: unknown provider ids and task names,
+ * unknown local backends and endpoints, unreachable base URLs and local models the server does not have.
+ */
+export async function analyzeModelsConfig(text: string, probe: EndpointProbe): Promise<ConfigIssue[]> {
+    const { root, issues } = checkShape(text, 'models.json', 3);
+    const providers = findNode(root, ['providers']);
+    if (!root || providers?.type !== 'object') {
+        return issues;
+    }
+    const network: Array<Promise<void>> = [];
+
+    for (const prop of providers.properties!) {
+        const providerIssue = checkProviderId(prop, undefined, 'providers');
+        if (providerIssue) { issues.push(providerIssue); }
+        const entry = prop.value;
+        checkTaskKeys(findNode(entry, ['tasks']), `providers.${prop.key}.tasks`, issues);
+
+        if (prop.key === 'local') {
+            const endpoints = findNode(entry, ['endpoints'])?.properties || [];
+            const names = endpoints.map(e => e.key);
+            // Task models are checked against the server of the endpoint the task is routed to
+            const modelsByEndpoint = new Map<string, JsonNode[]>([[DEFAULT_LOCAL_ENDPOINT, [findNode(entry, ['defaultModel'])].filter((n): n is JsonNode => !!stringValue(n))]]);
+            for (const endpoint of endpoints.filter(e => e.key !== DEFAULT_LOCAL_ENDPOINT)) {
+                modelsByEndpoint.set(endpoint.key, [findNode(endpoint.value, ['defaultModel'])].filter((n): n is JsonNode => !!stringValue(n)));
+            }
+            for (const task of findNode(entry, ['tasks'])?.properties || []) {
+                // v3 task entries are { model, endpoint, ...parameters }; v2 entries are bare model names
+                const modelNode = task.value.type === 'string' ? task.value : findNode(task.value, ['model']);
+                const endpointNode = findNode(task.value, ['endpoint']);
+                let endpoint = stringValue(endpointNode) ?? DEFAULT_LOCAL_ENDPOINT;
+                if (endpointNode && !modelsByEndpoint.has(endpoint)) {
+                    issues.push(valueIssue(endpointNode, `Unknown local endpoint '${endpoint}'; task '${task.key}' uses the default endpoint. Defined endpoints: ${[DEFAULT_LOCAL_ENDPOINT, ...names].join(', ')}.`, 'warning',
+                        replaceWith(closestMatches(endpoint, names), s => `Change to '${s}'`)));
+                    endpoint = DEFAULT_LOCAL_ENDPOINT;
+                }
+                if (stringValue(modelNode)) { modelsByEndpoint.get(endpoint)!.push(modelNode!); }
+            }
+            network.push(checkLocalServer(entry, modelsByEndpoint.get(DEFAULT_LOCAL_ENDPOINT)!, probe, issues));
+            for (const endpoint of endpoints) {
+                if (endpoint.key === DEFAULT_LOCAL_ENDPOINT) {
+                    issues.push(keyIssue(endpoint, `'${DEFAULT_LOCAL_ENDPOINT}' is reserved for the backend / baseUrl above; this endpoint is ignored.`));
+                    continue;
+                }
+                network.push(checkLocalServer(endpoint.value, modelsByEndpoint.get(endpoint.key)!, probe, issues));
+            }
+        } else if (prop.key === 'openai') {
+            const urlNode = findNode(entry, ['baseUrl']);
+            const baseUrl = stringValue(urlNode);
+            if (urlNode && baseUrl) {
+                network.push(probe.isReachable(`${baseUrl.replace(/\/+$/, '')}/models`).then(ok => {
+                    if (!ok) {
+                        issues.push(valueIssue(urlNode, `Cannot reach the OpenAI-compatible endpoint at ${baseUrl}.`));
+                    }
+                }));
+            }
+        } else if (prop.key === 'replay') {
+            const targetNode = findNode(entry, ['target']);
+            const targetIssue = targetNode && checkProviderId(prop, targetNode, 'providers.replay.target');
+            if (targetIssue) { issues.push(targetIssue); }
+        }
+    }
+
+    for (const item of findNode(root, ['fallback'])?.items || []) {
+        const issue = checkProviderId({ key: '', keyOffset: item.offset, keyLength: item.length }, item, 'fallback');
+        if (issue) { issues.push(issue); }
+    }
+    for (const prop of findNode(root, ['budgets', 'providers'])?.properties || []) {
+        const issue = checkProviderId(prop, undefined, 'budgets.providers');
+        if (issue) { issues.push(issue); }
+    }
+    checkTaskKeys(findNode(root, ['tasks']), 'tasks', issues);
+    checkTaskKeys(findNode(root, ['budgets', 'tasks']), 'budgets.tasks', issues);
+
+    await Promise.all(network);
+    return issues.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Semantic checks for .naruhodocs/embeddings.json: unknown provider types / engines, unreachable local
+ * servers and embedding models the server does not have.
+ */
+export async function analyzeEmbeddingsConfig(text: string, probe: EndpointProbe): Promise<ConfigIssue[]> {
+    const { root, issues } = checkShape(text, 'embeddings.json', 1);
+    const providers = findNode(root, ['providers']);
+    if (!root || providers?.type !== 'object') {
+        return issues;
+    }
+    const network: Array<Promise<void>> = [];
+
+    for (const prop of providers.properties!) {
+        const entry = prop.value;
+        const typeNode = findNode(entry, ['type']);
+        const type = stringValue(typeNode);
+        if (!typeNode || !type || !EMBEDDING_TYPES.includes(type)) {
+            const target = typeNode ?? { offset: prop.keyOffset, length: prop.keyLength, type: 'string' as const };
+            issues.push(valueIssue(target, `Embedding provider '${prop.key}' needs "type" set to one of: ${EMBEDDING_TYPES.join(', ')}.`, 'error',
+                typeNode && type ? replaceWith(closestMatches(type, EMBEDDING_TYPES), s => `Change to '${s}'`) : undefined));
+            continue;
+        }
+        if (type !== 'local') {
+            continue;
+        }
+        const engineNode = findNode(entry, ['llmEngine']);
+        const engine = stringValue(engineNode);
+        if (!engine || !EMBEDDING_ENGINES.includes(engine)) {
+            const target = engineNode ?? typeNode;
+            issues.push(valueIssue(target, `Local embedding provider '${prop.key}' needs "llmEngine" set to one of: ${EMBEDDING_ENGINES.join(', ')}.`, 'error',
+                engineNode && engine ? replaceWith(closestMatches(engine, EMBEDDING_ENGINES), s => `Change to '${s}'`) : undefined));
+            continue;
+        }
+        const urlNode = findNode(entry, ['baseUrl']);
+        const baseUrl = stringValue(urlNode) ?? EMBEDDING_DEFAULT_URLS[engine];
+        const modelNode = findNode(entry, ['model']);
+        network.push(probe.listModels(engine, baseUrl).then(available => {
+            if (available === undefined) {
+                if (urlNode) {
+                    issues.push(valueIssue(urlNode, `Cannot reach the ${engine} server at ${baseUrl}. Is it running?`, 'warning',
+                        EMBEDDING_DEFAULT_URLS[engine] !== baseUrl ? replaceWith([EMBEDDING_DEFAULT_URLS[engine]], s => `Use the ${engine} default ${s}`) : undefined));
+                }
+                return;
+            }
+            const model = stringValue(modelNode);
+            if (modelNode && model && available.length && !hasModel(available, model)) {
+                issues.push(valueIssue(modelNode, `Embedding model '${model}' is not available on the ${engine} server${engine === 'ollama' ? ` (ollama pull ${model})` : ''}.`, 'warning',
+                    replaceWith(closestMatches(model, available), s => `Use installed model '${s}'`)));
+            }
+        }));
+    }
+
+    await Promise.all(network);
+    return issues.sort((a, b) => a.offset - b.offset);
+}
+
+/** HTTP probe with a short timeout; answers are cached briefly so re-checking while typing does not hammer the servers */
+export function createHttpProbe(timeoutMs: number = 2500, cacheMs: number = 30000): EndpointProbe {
+    const cache = new Map<string, { at: number; result: Promise<any> }>();
+    const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+        const hit = cache.get(key);
+        if (hit && Date.now() - hit.at < cacheMs) {
+            return hit.result;
+        }
+        const result = load();
+        cache.set(key, { at: Date.now(), result });
+        return result;
+    };
+    const get = async (url: string) => {
+        try {
+            return await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+        } catch {
+            return undefined;
+        }
+    };
+    return {
+        listModels: (backend, baseUrl) => cached(`models:${backend}:${baseUrl}`, async () => {
+            const config = localBackendConfig(backend, baseUrl.replace(/\/+$/, ''), '');
+            const response = await get(`${config.baseUrl}${config.modelsEndpoint}`);
+            if (!response) {
+                return undefined;
+            }
+            try {
+                return response.ok ? parseModelList(config.type, await response.json()) : [];
+            } catch {
+                return [];
+            }
+        }),
+        isReachable: url => cached(`reach:${url}`, async () => !!(await get(url)))
+    };
+}
+
+/**
+ * Editor diagnostics and quick fixes for .naruhodocs/models.json and .naruhodocs/embeddings.json.
+ * Structural validation comes from the contributed JSON schemas; this adds the checks a schema cannot express.
+ */
+export class ConfigDiagnostics implements vscode.CodeActionProvider {
+    private readonly collection = vscode.languages.createDiagnosticCollection('naruhodocs-config');
+    private readonly issues = new Map<string, ConfigIssue[]>();
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(private readonly probe: EndpointProbe = createHttpProbe()) {}
+
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.collection,
+            vscode.languages.registerCodeActionsProvider({ pattern: '**/.naruhodocs/*.json' }, this, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }),
+            vscode.workspace.onDidOpenTextDocument(doc => this.schedule(doc, 0)),
+            vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document, 600)),
+            vscode.workspace.onDidCloseTextDocument(doc => {
+                this.collection.delete(doc.uri);
+                this.issues.delete(doc.uri.toString());
+            }),
+            { dispose: () => this.timers.forEach(timer => clearTimeout(timer)) }
+        );
+        vscode.workspace.textDocuments.forEach(doc => this.schedule(doc, 0));
+    }
+
+    private static kindOf(document: vscode.TextDocument): 'models' | 'embeddings' | undefined {
+        const match = /[\\/]\.naruhodocs[\\/](models|embeddings)\.json$/.exec(document.uri.fsPath);
+        return match ? match[1] as 'models' | 'embeddings' : undefined;
+    }
+
+    private schedule(document: vscode.TextDocument, delayMs: number): void {
+        if (!ConfigDiagnostics.kindOf(document)) {
+            return;
+        }
+        const key = document.uri.toString();
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.refresh(document).catch(e => console.warn('[NaruhoDocs] Config diagnostics failed:', e));
+        }, delayMs));
+    }
+
+    public async refresh(document: vscode.TextDocument): Promise<void> {
+        const kind = ConfigDiagnostics.kindOf(document);
+        if (!kind) {
+            return;
+        }
+        const version = document.version;
+        const text = document.getText();
+        const issues = kind === 'models' ? await analyzeModelsConfig(text, this.probe) : await analyzeEmbeddingsConfig(text, this.probe);
+        if (document.isClosed || document.version !== version) {
+            return; // A newer edit is already scheduled
+        }
+        this.issues.set(document.uri.toString(), issues);
+        this.collection.set(document.uri, issues.map(issue => {
+            const range = new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length));
+            const diagnostic = new vscode.Diagnostic(range, issue.message, issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'naruhodocs-config';
+            return diagnostic;
+        }));
+    }
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        const issues = this.issues.get(document.uri.toString()) || [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'naruhodocs-config' || !diagnostic.range.intersection(range)) {
+                continue;
+            }
+            // Diagnostics handed to code actions are copies, so match the stored issue by position and message
+            const issue = issues.find(i => i.message === diagnostic.message && document.offsetAt(diagnostic.range.start) === i.offset);
+            (issue?.fixes || []).forEach((fix, index) => {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, diagnostic.range, fix.replacement);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = index === 0;
+                actions.push(action);
+            });
+        }
+        return actions;
+    }
+}
@@ -7,6 +7,9 @@ export interface EmbeddingProviderConfig {
     baseUrl?: string;
     note?: string;
     llmEngine?: string;
+    batchSize?: number;   // Texts per embedding request (local engines)
+    concurrency?: number; // Embedding requests in flight at once (local engines)
+    maxRetries?: number;  // Retries on connection errors, 429 and 5xx (local engines)
 }
 
 export interface EmbeddingConfigSchemaV1 {
@@ -22,10 +25,12 @@ export class EmbeddingConfigManager {
     private config: EmbeddingConfigSchemaV1 | undefined;
     private configPath: vscode.Uri | undefined;
     private active = false;
+    private loadError: string | undefined; // why an existing file was ignored on the last load
 
     constructor(private context: vscode.ExtensionContext) {}
 
     public async load(): Promise<void> {
+        this.loadError = undefined;
         try {
             const ws = vscode.workspace.workspaceFolders?.[0];
             if (!ws) { this.active = false; return; }
@@ -40,22 +45,34 @@ export class EmbeddingConfigManager {
                 this.config = parsed as EmbeddingConfigSchemaV1;
                 this.active = true;
             } else {
+                this.loadError = 'expected "version": 1 and a "providers" object';
+                console.warn('[EmbeddingConfigManager] Ignoring embeddings.json:', this.loadError);
                 this.active = false;
             }
         } catch (e) {
             console.warn('[EmbeddingConfigManager] Failed to load embeddings.json:', e);
+            this.loadError = e instanceof Error ? e.message : String(e);
             this.active = false;
         }
     }
 
     public isActive(): boolean { return this.active; }
 
+    /** Reason the file was ignored on the last load (parse error or wrong shape); undefined when loaded or absent */
+    public getLoadError(): string | undefined { return this.loadError; }
+
     /** Resolve embedding provider by name */
     public resolveProvider(name: string): EmbeddingProviderConfig | undefined {
         if (!this.active || !this.config) { return undefined; }
         return this.config.providers[name];
     }
 
+    /** All configured embedding providers keyed by id; empty when inactive */
+    public getProviders(): Record<string, EmbeddingProviderConfig> {
+        if (!this.active || !this.config) { return {}; }
+        return { ...this.config.providers };
+    }
+
     /** Scaffold a default config file if missing */
     public async scaffoldIfMissing(): Promise<void> {
         const ws = vscode.workspace.workspaceFolders?.[0];
@@ -1,9 +1,20 @@
 import * as vscode from 'vscode';
 import { LLMProviderManager } from '../llm-providers/manager';
-import { ModelConfigManager } from './ModelConfigManager.js';
-import { ChatSession, createChat } from '../langchain-backend/llm';
+import { classifyProviderError, isCancellationError, LLMCancelledError, LLMProviderError, ModelParameters, StructuredOutputError } from '../llm-providers/base';
+import { BudgetLimit, ModelConfigManager } from './ModelConfigManager.js';
+import { ChatSession, createChat, TokenUsage } from '../langchain-backend/llm';
 import { ThreadManager } from './ThreadManager';
-import { BaseMessage } from '@langchain/core/messages';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { JSONSchema, toJsonSchema } from '@langchain/core/utils/json_schema';
+import { z } from 'zod';
+import { DEFAULT_OPENAI_COMPATIBLE_MODEL } from '../llm-providers/openaiCompatible';
+import { ResponseCache } from './ResponseCache';
+import { UsageHistory } from './UsageHistory';
+import { AuditRecord, ExchangeAuditLog } from './AuditLog';
+import { redactSecrets } from './Redactor';
+import { createToolRecorder } from '../llm-providers/replay';
+import { CallbackHandlerMethods } from '@langchain/core/callbacks/base';
+import { parseStructured, repairPrompt } from '../utils/structuredOutput';
 
 /**
  * Centralized LLM request routing layer.
@@ -16,6 +27,12 @@ export class LLMService {
     private sessionProviders: Map<string, string> = new Map();
     private sessionSystemMessages: Map<string, string> = new Map();
     private sessionModelHints: Map<string, string | undefined> = new Map();
+    // Provider id ('cloud' | 'local' | 'openai') + temperature per session so failover can rebuild an equivalent session
+    private sessionProviderTypes: Map<string, string> = new Map();
+    private sessionParameters: Map<string, ModelParameters> = new Map(); // temperature, max tokens, ... each session was created with
+    private readonly failoverEmitter = new vscode.EventEmitter<LLMFailoverEvent>();
+    /** Fired after a request was answered by a fallback provider (status bar refresh, logs) */
+    public readonly onDidFailover = this.failoverEmitter.event;
     private context!: vscode.ExtensionContext;
     private threadManager?: ThreadManager;
     // sessionModelHints stores the model name chosen at session creation time so
@@ -24,11 +41,26 @@ export class LLMService {
     private outputChannel: vscode.OutputChannel | undefined;
     private modelConfigManager: ModelConfigManager | undefined;
     private verboseLogging: boolean = false;
+    private auditLog: ExchangeAuditLog | undefined;
     // Usage tracking
     private dayStamp: string = this.currentDayStamp();
     private requestCount: number = 0;
     private estimatedInputTokens: number = 0;
     private estimatedOutputTokens: number = 0;
+    // Provider-reported usage (only requests whose provider returned usage_metadata contribute)
+    private measuredRequests: number = 0;
+    private actualInputTokens: number = 0;
+    private actualOutputTokens: number = 0;
+    private toolCallTokens: number = 0;
+    private perTaskUsage: Record<string, UsageTotals> = {};
+    private perModelUsage: Record<string, UsageTotals> = {};
+    private perProviderUsage: Record<string, UsageTotals> = {};
+    // Budget consumption per provider id / task type, checked against models.json budgets before dispatch
+    private budgetUsage: { providers: Record<string, BudgetCounter>; tasks: Record<string, BudgetCounter> } = { providers: {}, tasks: {} };
+    private budgetWarnings: Set<string> = new Set(); // scope:id:metric already warned about today
+    private cacheHits: number = 0;
+    private responseCache: ResponseCache | undefined;
+    private usageHistory: UsageHistory | undefined; // Per-request records across days, for the usage dashboard
     private perTaskCounts: Record<LLMTaskType, number> = {
         chat: 0,
         summarize: 0,
@@ -56,6 +88,23 @@ export class LLMService {
 
     public initializePersistence(context: vscode.ExtensionContext): void {
         this.context = context;
+        this.restoreStats();
+        if (context.workspaceState) {
+            this.responseCache = new ResponseCache(context.workspaceState);
+            this.usageHistory = new UsageHistory(context.workspaceState);
+        }
+    }
+
+    /** Persisted per-request usage records; undefined until initializePersistence ran */
+    public getUsageHistory(): UsageHistory | undefined {
+        return this.usageHistory;
+    }
+
+    /** Remove all cached summarize / translate / generate_doc / analyze answers; returns the number of entries dropped */
+    public async clearResponseCache(): Promise<number> {
+        const removed = await this.responseCache?.clear() ?? 0;
+        this.logEvent('response_cache_cleared', { removed });
+        return removed;
     }
 
     public setThreadManager(manager: ThreadManager): void {
@@ -64,6 +113,7 @@ export class LLMService {
 
     public async saveState(): Promise<void> {
         if (!this.context) { return; }
+        await this.persistStats();
     
         if (this.threadManager) {
             const sessions = this.threadManager.getSessions();
@@ -101,6 +151,11 @@ export class LLMService {
         this.outputChannel = ch;
     }
 
+    /** Inject the JSONL audit log; exchanges are only written while naruhodocs.logging.auditLog is on */
+    public setAuditLog(log: ExchangeAuditLog) {
+        this.auditLog = log;
+    }
+
     /** Inject model config manager (per-repo JSON) */
     public setModelConfigManager(mgr: ModelConfigManager) {
         this.modelConfigManager = mgr;
@@ -147,76 +202,75 @@ export class LLMService {
         }
     }
 
+    /**
+     * Ask for JSON matching a zod schema and get the validated value back. The call runs without tools or history;
+     * sessions with a native JSON mode (Gemini responseSchema, Ollama format, OpenAI response_format) are
+     * constrained to the schema. An invalid reply is sent back with its validation issues for up to maxRepairs
+     * corrections, after which a StructuredOutputError is thrown. Every attempt counts as a request.
+     */
+    public async requestStructured<T>(req: StructuredRequest, schema: z.ZodType<T>): Promise<T> {
+        this.rolloverIfNeeded();
+        const task = req.task || 'analyze';
+        const sessionKey = req.sessionId || `structured:${task}`;
+        // A fresh session per call: callers reuse keys with a different system message (e.g. a new instruction)
+        await this.getSession(sessionKey, req.systemMessage || 'You extract structured information and reply with JSON only.', { forceNew: true, taskType: task, temperatureOverride: req.temperatureOverride });
+        const jsonSchema = toJsonSchema(schema);
+        const prompt = `${redactSecrets(req.prompt, `prompt:${task}`)}\n\nRespond with a single JSON value matching this JSON schema, without explanations or code fences:\n${JSON.stringify(jsonSchema)}`;
+        const lookupKey = req.bypassCache ? undefined : this.responseCacheKey(sessionKey, task, prompt);
+        const hit = lookupKey ? this.responseCache?.get(lookupKey) : undefined;
+        const cached = hit !== undefined ? parseStructured(hit, schema) : undefined;
+        if (cached?.ok) {
+            this.cacheHits++;
+            this.logEvent('response_cache_hit', { task, sessionKey, structured: true });
+            return cached.value;
+        }
+
+        const messages: BaseMessage[] = [new HumanMessage(prompt)];
+        const maxRepairs = req.maxRepairs ?? DEFAULT_STRUCTURED_REPAIRS;
+        for (let attempt = 0; ; attempt++) {
+            // Failover may have replaced the session during an earlier attempt
+            const session = this.sessionCache.get(sessionKey)!;
+            const turn = messages[messages.length - 1].text;
+            const inputSize = messages.reduce((sum, m) => sum + m.text.length, 0);
+            const answer = await this.invokeTracked(session, turn, task, inputSize, { sessionId: sessionKey, structured: true, attempt }, { signal: req.signal, structured: { messages: messages.slice(), jsonSchema } });
+            const result = parseStructured(answer, schema);
+            if (result.ok) {
+                const storeKey = this.responseCacheKey(sessionKey, task, prompt);
+                if (storeKey) {
+                    this.responseCache?.set(storeKey, answer).catch(() => { /* cache is best effort */ });
+                }
+                return result.value;
+            }
+            this.logEvent('structured_output_invalid', { task, sessionKey, attempt, issues: result.issues.slice(0, 5) });
+            if (attempt >= maxRepairs) {
+                throw new StructuredOutputError(
+                    `The model did not return valid JSON for the '${task}' request after ${attempt + 1} attempt(s): ${result.issues.slice(0, 3).join('; ')}`,
+                    task, attempt + 1, result.issues, answer
+                );
+            }
+            messages.push(new AIMessage(answer), new HumanMessage(repairPrompt(result.issues)));
+        }
+    }
+
     /** Retrieve (or create) a chat session bound to a logical key */
     public async getSession(key: string, systemMessage: string, options?: { forceNew?: boolean; taskType?: LLMTaskType; temperatureOverride?: number; modelOverride?: string }): Promise<ChatSession> {
         // If session exists and not forced new, return it unless local provider model changed underneath
         const existing = this.sessionCache.get(key);
         const taskType: LLMTaskType = options?.taskType || 'chat';
         const policy = this.modelPolicy[taskType] || { temperature: 0 };
-        const temperature = options?.temperatureOverride ?? policy.temperature ?? 0;
-
-        // MODEL RESOLUTION
-        // New precedence (user configuration has priority over static policy hints):
-        // 1. Explicit override passed in options
-        // 2. Per-task setting (naruhodocs.llm.models.<task>)
-        // 3. Default model setting (naruhodocs.llm.defaultModel)
-        // 4. Policy modelHint (code-defined fallback suggestion)
-        // 5. Provider-specific fallback: if provider=local use naruhodocs.llm.localModel (or default), else gemini-2.0-flash
-        let modelHint = options?.modelOverride;
-        let modelResolutionTrace: string[] = [];
-    let providerType = 'cloud';
-        try {
-            providerType = vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud');
-        } catch { /* ignore */ }
 
-        if (modelHint) {
-            modelResolutionTrace.push('explicit-override');
-        } else if (this.modelConfigManager?.isActive()) {
-            // Use file-based resolution
-            const resolved = this.modelConfigManager.resolveModel(providerType, taskType, policy.modelHint, providerType === 'local' ? 'gemma3:1b' : 'gemini-2.0-flash');
-            modelHint = resolved.model;
-            modelResolutionTrace = ['file-active', ...resolved.trace];
-        } else {
-            // Legacy settings-based path
-            try {
-                const config = vscode.workspace.getConfiguration('naruhodocs');
-                const taskSettingMap: Record<LLMTaskType, string> = {
-                    chat: 'naruhodocs.llm.models.chat',
-                    summarize: 'naruhodocs.llm.models.summarize',
-                    read_files: 'naruhodocs.llm.models.readFiles',
-                    analyze: 'naruhodocs.llm.models.analyze',
-                    translate: 'naruhodocs.llm.models.translate',
-                    grammar_check: 'naruhodocs.llm.models.grammarCheck',
-                    generate_doc: 'naruhodocs.llm.models.generateDoc',
-                    visualization_context: 'naruhodocs.llm.models.visualizationContext'
-                };
-                const perTaskSetting = (config.get<string>(taskSettingMap[taskType] as any) || '').trim();
-                if (perTaskSetting) { modelHint = perTaskSetting; modelResolutionTrace.push('per-task-setting'); }
-                if (!modelHint) {
-                    const defaultModelSetting = (config.get<string>('naruhodocs.llm.defaultModel') || '').trim();
-                    if (defaultModelSetting) { modelHint = defaultModelSetting; modelResolutionTrace.push('default-setting'); }
-                }
-                if (!modelHint && policy.modelHint) { modelHint = policy.modelHint; modelResolutionTrace.push('policy-hint'); }
-                if (!modelHint) {
-                    if (providerType === 'local') {
-                        modelHint = (config.get<string>('llm.localModel') || config.get<string>('naruhodocs.llm.localModel') || 'gemma3:1b');
-                        modelResolutionTrace.push('local-provider-fallback');
-                    } else {
-                        modelHint = 'gemini-2.0-flash';
-                        modelResolutionTrace.push('gemini-fallback');
-                    }
-                }
-            } catch {
-                modelHint = 'unknown-model';
-                modelResolutionTrace.push('error-unknown');
-            }
-        }
+        const providerType = this.currentProviderType();
+        const resolved = this.resolveModelHint(providerType, taskType, options?.modelOverride);
+        const modelHint = resolved.model;
+        const modelResolutionTrace = resolved.trace;
+        const parameters = this.resolveParameters(providerType, taskType, options?.temperatureOverride);
+        const temperature = parameters.temperature;
+        const endpoint = this.resolveEndpoint(providerType, taskType);
 
         // If existing session and not forceNew, check if local provider model changed compared to stored hint
         if (existing && !options?.forceNew) {
             const config = vscode.workspace.getConfiguration('naruhodocs');
-            const providerType = config.get<string>('llm.provider', 'cloud');
-            if (providerType === 'local') {
+            if ((this.sessionProviderTypes.get(key) || providerType) === 'local') {
                 // Derive current effective local model using same precedence as resolution above to avoid false mismatches
                 let currentLocalModel: string | undefined;
                 if (this.modelConfigManager?.isActive()) {
@@ -240,31 +294,41 @@ export class LLMService {
             }
         }
 
+        // System messages carry document content (e.g. document threads); stored redacted so failover reuses that text
+        systemMessage = redactSecrets(systemMessage, `system_message:${taskType}`);
+
         // Prefer provider manager if initialized
         const provider = this.providerManager.getCurrentProvider?.();
         if (provider) {
             try {
-                const session = await provider.createChatSession(systemMessage, { temperature, model: modelHint });
+                const session = await provider.createChatSession(systemMessage, { ...parameters, model: modelHint, endpoint });
                 this.sessionCache.set(key, session);
                 this.sessionProviders.set(key, provider.name);
                 this.sessionSystemMessages.set(key, systemMessage);
                 this.sessionModelHints.set(key, modelHint);
-                this.logEvent('session_init', { key, provider: provider.name, model: modelHint, taskType, resolution: modelResolutionTrace });
+                this.sessionProviderTypes.set(key, this.providerManager.getProviderType?.(provider) || providerType);
+                this.sessionParameters.set(key, parameters);
+                this.logEvent('session_init', { key, provider: provider.name, model: modelHint, endpoint, taskType, parameters, resolution: modelResolutionTrace });
                 return session;
             } catch (e) {
+                // A task routed to a named local endpoint must fail visibly instead of moving to the cloud
+                if (endpoint) {
+                    throw e;
+                }
                 console.warn('[LLMService] Provider session creation failed, falling back to direct createChat:', e);
             }
         }
 
         // Fallback to direct Gemini session (legacy path)
-        const config = vscode.workspace.getConfiguration('naruhodocs');
-        const apiKeySetting = config.get<string>('geminiApiKey');
-        const session = createChat({ apiKey: apiKeySetting, systemMessage, temperature, model: modelHint });
+        const apiKey = await this.providerManager.getApiKey?.('llm.apiKey');
+        const session = createChat({ apiKey, systemMessage, ...parameters, model: modelHint });
         this.sessionCache.set(key, session);
         this.sessionProviders.set(key, 'fallback-gemini');
         this.sessionSystemMessages.set(key, systemMessage);
         this.sessionModelHints.set(key, modelHint);
-        this.logEvent('session_init', { key, provider: 'fallback-gemini', model: modelHint, taskType, resolution: modelResolutionTrace });
+        this.sessionProviderTypes.set(key, 'cloud');
+        this.sessionParameters.set(key, parameters);
+        this.logEvent('session_init', { key, provider: 'fallback-gemini', model: modelHint, taskType, temperature, resolution: modelResolutionTrace });
         return session;
     }
 
@@ -273,6 +337,17 @@ export class LLMService {
         this.sessionProviders.delete(key);
         this.sessionSystemMessages.delete(key);
         this.sessionModelHints.delete(key);
+        this.sessionProviderTypes.delete(key);
+        this.sessionParameters.delete(key);
+    }
+
+    /** Drop the cached sessions whose system message starts with one of prefixes; returns the dropped keys */
+    public clearSessionsBySystemMessage(prefixes: string[]): string[] {
+        const keys = [...this.sessionSystemMessages.entries()]
+            .filter(([, systemMessage]) => prefixes.some(prefix => prefix && systemMessage.startsWith(prefix)))
+            .map(([key]) => key);
+        keys.forEach(key => this.clearSession(key));
+        return keys;
     }
 
     public clearAllSessions() {
@@ -280,6 +355,103 @@ export class LLMService {
         this.sessionProviders.clear();
         this.sessionSystemMessages.clear();
         this.sessionModelHints.clear();
+        this.sessionProviderTypes.clear();
+        this.sessionParameters.clear();
+    }
+
+    /** Provider that actually backs a session (reflects failover), for status bar / logs */
+    public getSessionProviderInfo(key: string): { provider?: string; providerType?: string } {
+        return { provider: this.sessionProviders.get(key), providerType: this.sessionProviderTypes.get(key) };
+    }
+
+    /** Active provider id: the manager's effective provider (may be a fallback) else the configured setting */
+    private currentProviderType(): string {
+        const effective = this.providerManager.getCurrentProviderType?.();
+        if (effective) { return effective; }
+        try {
+            return vscode.workspace.getConfiguration('naruhodocs').get<string>('llm.provider', 'cloud');
+        } catch {
+            return 'cloud';
+        }
+    }
+
+    /**
+     * Sampling / length parameters for a new session. Temperature: models.json (v3 task settings) -> the caller's
+     * temperatureOverride -> modelPolicy, so a task temperature set in the file always applies. The other parameters
+     * only come from models.json; unset ones keep provider defaults.
+     */
+    private resolveParameters(providerType: string, taskType: LLMTaskType, temperatureOverride?: number): ModelParameters & { temperature: number } {
+        const file = this.modelConfigManager?.isActive() ? this.modelConfigManager.resolveParameters(providerType, taskType).params : {};
+        const temperature = file.temperature ?? temperatureOverride ?? this.modelPolicy[taskType]?.temperature ?? 0;
+        return { ...file, temperature };
+    }
+
+    /** Named local endpoint serving the task (models.json providers.local.tasks.<task>.endpoint); undefined = default */
+    private resolveEndpoint(providerType: string, taskType: LLMTaskType): string | undefined {
+        return this.modelConfigManager?.isActive() ? this.modelConfigManager.resolveEndpoint(providerType, taskType) : undefined;
+    }
+
+    /**
+     * MODEL RESOLUTION
+     * Precedence (user configuration has priority over static policy hints):
+     * 1. Explicit override passed in options
+     * 2. Per-task setting (naruhodocs.llm.models.<task>)
+     * 3. Default model setting (naruhodocs.llm.defaultModel)
+     * 4. Policy modelHint (code-defined fallback suggestion)
+     * 5. Provider-specific fallback: if provider=local use naruhodocs.llm.localModel (or default), openai uses its default model, else gemini-2.0-flash
+     */
+    private resolveModelHint(providerType: string, taskType: LLMTaskType, modelOverride?: string): { model: string; trace: string[] } {
+        const policy = this.modelPolicy[taskType] || { temperature: 0 };
+        // Policy hints are Gemini model names and would be rejected by OpenAI-compatible gateways
+        const policyModelHint = providerType === 'openai' ? undefined : policy.modelHint;
+        if (modelOverride) {
+            return { model: modelOverride, trace: ['explicit-override'] };
+        }
+        if (this.modelConfigManager?.isActive()) {
+            // Use file-based resolution
+            const ultimateFallback = providerType === 'local' ? 'gemma3:1b' : (providerType === 'openai' ? DEFAULT_OPENAI_COMPATIBLE_MODEL : 'gemini-2.0-flash');
+            const resolved = this.modelConfigManager.resolveModel(providerType, taskType, policyModelHint, ultimateFallback);
+            return { model: resolved.model, trace: ['file-active', ...resolved.trace] };
+        }
+        // Legacy settings-based path
+        let modelHint: string | undefined;
+        const trace: string[] = [];
+        try {
+            const config = vscode.workspace.getConfiguration('naruhodocs');
+            const taskSettingMap: Record<LLMTaskType, string> = {
+                chat: 'naruhodocs.llm.models.chat',
+                summarize: 'naruhodocs.llm.models.summarize',
+                read_files: 'naruhodocs.llm.models.readFiles',
+                analyze: 'naruhodocs.llm.models.analyze',
+                translate: 'naruhodocs.llm.models.translate',
+                grammar_check: 'naruhodocs.llm.models.grammarCheck',
+                generate_doc: 'naruhodocs.llm.models.generateDoc',
+                visualization_context: 'naruhodocs.llm.models.visualizationContext'
+            };
+            const perTaskSetting = (config.get<string>(taskSettingMap[taskType] as any) || '').trim();
+            if (perTaskSetting) { modelHint = perTaskSetting; trace.push('per-task-setting'); }
+            if (!modelHint) {
+                const defaultModelSetting = (config.get<string>('naruhodocs.llm.defaultModel') || '').trim();
+                if (defaultModelSetting) { modelHint = defaultModelSetting; trace.push('default-setting'); }
+            }
+            if (!modelHint && policyModelHint) { modelHint = policyModelHint; trace.push('policy-hint'); }
+            if (!modelHint) {
+                if (providerType === 'local') {
+                    modelHint = (config.get<string>('llm.localModel') || config.get<string>('naruhodocs.llm.localModel') || 'gemma3:1b');
+                    trace.push('local-provider-fallback');
+                } else if (providerType === 'openai') {
+                    modelHint = DEFAULT_OPENAI_COMPATIBLE_MODEL;
+                    trace.push('openai-default-fallback');
+                } else {
+                    modelHint = 'gemini-2.0-flash';
+                    trace.push('gemini-fallback');
+                }
+            }
+        } catch {
+            modelHint = 'unknown-model';
+            trace.push('error-unknown');
+        }
+        return { model: modelHint, trace };
     }
 
     // ---- Persistence ----
@@ -291,7 +463,7 @@ export class LLMService {
         const sessionId = req.sessionId || 'general';
         const session = await this.getSession(sessionId, req.systemMessage || 'You are a helpful assistant.', { taskType: 'chat' });
         const meta = { sessionId };
-        const answer = await this.invokeTracked(session, req.prompt, 'chat', req.prompt.length, meta);
+        const answer = await this.invokeTracked(session, req.prompt, 'chat', req.prompt.length, meta, { signal: req.signal });
         return { type: 'chat', content: answer, meta: { ...meta, provider: this.sessionProviders.get(sessionId) } };
     }
 
@@ -301,8 +473,8 @@ export class LLMService {
         const session = await this.getSession(sessionKey, systemMessage, { taskType: 'summarize' });
         const prompt = `Summarize the following content${req.format ? ' in ' + req.format + ' format' : ''}:\n\n${truncate(req.content, 12000)}\n\nRequirements: ${req.requirements?.join('; ') || 'Concise, accurate'}.`;
         const meta = { targetId: req.targetId, format: req.format, requirements: req.requirements };
-        const answer = await this.invokeTracked(session, prompt, 'summarize', req.content.length, meta);
-        return { type: 'summarize', content: answer, meta: { chars: req.content.length, provider: this.sessionProviders.get(sessionKey) } };
+        const { answer, cached } = await this.invokeCacheable(sessionKey, session, prompt, 'summarize', req.content.length, meta, req);
+        return { type: 'summarize', content: answer, meta: { chars: req.content.length, provider: this.sessionProviders.get(sessionKey), cached } };
     }
 
     private async handleReadFiles(req: ReadFilesRequest): Promise<LLMResponse> {
@@ -312,60 +484,105 @@ export class LLMService {
         const question = req.prompt || 'Provide a concise overview of the important elements in these files.';
         const composed = `${question}\n\n${joined}`;
         const meta = { fileCount: req.files.length };
-        const answer = await this.invokeTracked(session, composed, 'read_files', joined.length, meta);
+        const answer = await this.invokeTracked(session, composed, 'read_files', joined.length, meta, { signal: req.signal });
         return { type: 'read_files', content: answer, meta: { fileCount: req.files.length, provider: this.sessionProviders.get('read_files') } };
     }
 
     private async handleAnalyze(req: AnalyzeRequest): Promise<LLMResponse> {
         const systemMessage = req.systemMessage || 'You are a senior software architect performing a focused analysis.';
-        const session = await this.getSession(req.sessionId || 'analyze', systemMessage, { taskType: 'analyze' });
+        const sessionKey = req.sessionId || 'analyze';
+        const session = await this.getSession(sessionKey, systemMessage, { taskType: 'analyze' });
         const prompt = `${req.analysisGoal}\n\nContext:\n${truncate(req.context, 10000)}\n\nProvide analysis with bullet points and actionable insights.`;
         const meta = { sessionId: req.sessionId, goal: req.analysisGoal };
-        const answer = await this.invokeTracked(session, prompt, 'analyze', req.context.length, meta);
-        return { type: 'analyze', content: answer, meta: { provider: this.sessionProviders.get(req.sessionId || 'analyze') } };
+        const { answer, cached } = await this.invokeCacheable(sessionKey, session, prompt, 'analyze', req.context.length, meta, req);
+        return { type: 'analyze', content: answer, meta: { provider: this.sessionProviders.get(sessionKey), cached } };
     }
 
     private async handleTranslate(req: TranslateRequest): Promise<LLMResponse> {
         const systemMessage = req.systemMessage || 'You are a professional technical translator. Preserve code blocks and formatting.';
-        const session = await this.getSession(`translate:${req.targetLanguage}`, systemMessage, { taskType: 'translate' });
+        const sessionKey = `translate:${req.targetLanguage}`;
+        const session = await this.getSession(sessionKey, systemMessage, { taskType: 'translate' });
         const prompt = `Translate the following text to ${req.targetLanguage} while preserving meaning and structure.\n\n${truncate(req.content, 10000)}`;
         const meta = { targetLanguage: req.targetLanguage };
-        const answer = await this.invokeTracked(session, prompt, 'translate', req.content.length, meta);
-        return { type: 'translate', content: answer, meta: { targetLanguage: req.targetLanguage, provider: this.sessionProviders.get(`translate:${req.targetLanguage}`) } };
+        const { answer, cached } = await this.invokeCacheable(sessionKey, session, prompt, 'translate', req.content.length, meta, req);
+        return { type: 'translate', content: answer, meta: { targetLanguage: req.targetLanguage, provider: this.sessionProviders.get(sessionKey), cached } };
     }
 
     private async handleGrammarCheck(req: GrammarCheckRequest): Promise<LLMResponse> {
         const systemMessage = req.systemMessage || 'You are an AI data filter. Your sole purpose is to return a JSON array.';
         const session = await this.getSession(req.sessionId || 'grammar_check', systemMessage, { taskType: 'grammar_check' });
         // This handler directly uses the prompt from the request, without modification.
-        const answer = await this.invokeTracked(session, req.prompt, 'grammar_check', req.prompt.length, { sessionId: req.sessionId });
+        const answer = await this.invokeTracked(session, req.prompt, 'grammar_check', req.prompt.length, { sessionId: req.sessionId }, { signal: req.signal });
         return { type: 'grammar_check', content: answer, meta: { provider: this.sessionProviders.get(req.sessionId || 'grammar_check') } };
     }
 
     private async handleGenerateDoc(req: GenerateDocRequest): Promise<LLMResponse> {
         const systemMessage = req.systemMessage || 'You are an expert technical writer generating high-quality documentation.';
-        const session = await this.getSession(req.sessionId || 'generate_doc', systemMessage, { taskType: 'generate_doc', temperatureOverride: 0.2 });
+        const sessionKey = req.sessionId || 'generate_doc';
+        const session = await this.getSession(sessionKey, systemMessage, { taskType: 'generate_doc' });
         const prompt = `Generate documentation for: ${req.title}\nPurpose: ${req.purpose || 'General documentation'}\nTone: ${req.tone || 'professional'}\n\nSource Material:\n${truncate(req.sourceContent, 15000)}\n\nReturn well-structured markdown.`;
         const meta = { title: req.title, tone: req.tone, purpose: req.purpose };
-        const answer = await this.invokeTracked(session, prompt, 'generate_doc', req.sourceContent.length, meta);
-        return { type: 'generate_doc', content: answer, meta: { title: req.title, provider: this.sessionProviders.get(req.sessionId || 'generate_doc') } };
+        const { answer, cached } = await this.invokeCacheable(sessionKey, session, prompt, 'generate_doc', req.sourceContent.length, meta, req);
+        return { type: 'generate_doc', content: answer, meta: { title: req.title, provider: this.sessionProviders.get(sessionKey), cached } };
     }
 
     private async handleVisualizationContext(req: VisualizationContextRequest): Promise<LLMResponse> {
         const session = await this.getSession(req.sessionId || 'general', req.systemMessage || 'You are a helpful assistant with project visualization context.', { taskType: 'visualization_context' });
         const packagingPrompt = `Incorporate the following visualization context into your working memory for subsequent questions. Do not output an explanation unless asked later.\nType: ${req.contextType}\nUser Request: ${req.userPrompt}\nVisualization Summary:\n${truncate(req.botResponse, 8000)}\nRespond with: ACK`;
         const meta = { contextType: req.contextType, userPrompt: req.userPrompt };
-        const ack = await this.invokeTracked(session, packagingPrompt, 'visualization_context', req.botResponse.length, meta);
+        const ack = await this.invokeTracked(session, packagingPrompt, 'visualization_context', req.botResponse.length, meta, { signal: req.signal });
         return { type: 'visualization_context', content: ack.startsWith('ACK') ? 'ACK' : ack, meta: { provider: this.sessionProviders.get(req.sessionId || 'general') } };
     }
 
     // ---- Tracking Helpers ----
-    private async invokeTracked(session: ChatSession, prompt: string, task: LLMTaskType, inputSize?: number, meta?: Record<string, any>): Promise<string> {
+    /**
+     * invokeTracked behind the persistent response cache. Only temperature-0 sessions are cached; a hit skips
+     * dispatch, stats and budgets entirely. bypassCache skips the lookup but still stores the fresh answer.
+     */
+    private async invokeCacheable(sessionKey: string, session: ChatSession, prompt: string, task: LLMTaskType, inputSize: number, meta: Record<string, any>, req: BaseLLMRequest): Promise<{ answer: string; cached: boolean }> {
+        const lookupKey = req.bypassCache ? undefined : this.responseCacheKey(sessionKey, task, prompt);
+        const hit = lookupKey ? this.responseCache?.get(lookupKey) : undefined;
+        if (hit !== undefined) {
+            this.cacheHits++;
+            this.logEvent('response_cache_hit', { task, sessionKey, ...meta });
+            return { answer: hit, cached: true };
+        }
+        const answer = await this.invokeTracked(session, prompt, task, inputSize, meta, { signal: req.signal });
+        // Key again after the call: failover may have moved the session to another provider / model
+        const storeKey = this.responseCacheKey(sessionKey, task, prompt);
+        if (storeKey) {
+            this.responseCache?.set(storeKey, answer).catch(() => { /* cache is best effort */ });
+        }
+        return { answer, cached: false };
+    }
+
+    private responseCacheKey(sessionKey: string, task: LLMTaskType, prompt: string): string | undefined {
+        const parameters = this.sessionParameters.get(sessionKey);
+        if (!this.responseCache || (parameters?.temperature ?? 0) !== 0) { return undefined; }
+        try {
+            if (!vscode.workspace.getConfiguration('naruhodocs').get<boolean>('llm.responseCache', true)) { return undefined; }
+        } catch { /* default on */ }
+        return ResponseCache.key([
+            this.sessionProviders.get(sessionKey) || 'unknown-provider',
+            this.sessionModelHints.get(sessionKey) || 'unknown-model',
+            this.sessionSystemMessages.get(sessionKey) || '',
+            JSON.stringify(parameters || {}),
+            task,
+            prompt
+        ]);
+    }
+
+    private async invokeTracked(session: ChatSession, prompt: string, task: LLMTaskType, inputSize?: number, meta?: Record<string, any>, dispatchOptions?: DispatchOptions): Promise<string> {
+        this.rolloverIfNeeded();
+        this.enforceBudgets(session, task);
+        prompt = redactSecrets(prompt, `prompt:${task}`);
         // Capture history BEFORE sending prompt
         let historySnapshot: Array<{ role: string; content: string }> = [];
+        let rawHistory: BaseMessage[] = [];
         try {
             const hist = session.getHistory?.();
             if (hist) {
+                rawHistory = [...hist];
                 historySnapshot = hist.map((m: any) => {
                     let role: string | undefined = (m as any).type || (typeof (m as any)._getType === 'function' ? (m as any)._getType() : undefined);
                     if (!role || role === 'unknown') {
@@ -409,8 +626,29 @@ export class LLMService {
                 this.outputChannel.appendLine(`  CONTEXT_STATS totalChars=${combinedChars} estTokens~= ${this.estimateTokens('', combinedChars)} (history + prompt)`);
             }
         } catch { /* ignore logging errors */ }
+        // Audit log: tool runs are collected through an extra callback handler on the turn
+        const audit = this.auditLog?.enabled ? { startedAt: new Date().toISOString(), history: historySnapshot, tools: createToolRecorder() } : undefined;
+        if (audit) {
+            dispatchOptions = { ...dispatchOptions, callbacks: [...(dispatchOptions?.callbacks ?? []), audit.tools.handler] };
+        }
         const before = Date.now();
-        const answer = await session.chat(prompt);
+        let answer: string;
+        try {
+            answer = await this.dispatch(session, prompt, dispatchOptions);
+        } catch (error) {
+            if (isCancellationError(error)) {
+                this.logEvent('request_cancelled', { task, ...meta });
+                this.writeAudit(audit, session, task, prompt, meta, Date.now() - before, { error });
+                throw error;
+            }
+            const recovered = await this.failover(session, prompt, task, rawHistory, error, dispatchOptions);
+            if (!recovered) {
+                this.recordFailure(session, task, Date.now() - before, error);
+                this.writeAudit(audit, session, task, prompt, meta, Date.now() - before, { error });
+                throw error;
+            }
+            ({ session, answer } = recovered);
+        }
         const durationMs = Date.now() - before;
         this.requestCount++;
         this.perTaskCounts[task] = (this.perTaskCounts[task] || 0) + 1;
@@ -418,6 +656,10 @@ export class LLMService {
         const estOut = this.estimateTokens(answer);
         this.estimatedInputTokens += estIn;
         this.estimatedOutputTokens += estOut;
+        const usage = session.getLastUsage?.();
+        this.recordUsage(session, task, estIn, estOut, usage, durationMs);
+        this.writeAudit(audit, session, task, prompt, meta, durationMs, { response: answer, usage });
+        const usageLog = usage ? ` inTokens=${usage.inputTokens} outTokens=${usage.outputTokens} toolCallTokens=${usage.toolCallTokens}` : '';
         try {
             if (this.verboseLogging && this.outputChannel) {
                 // Try to locate provider by scanning sessionProviders map (reverse lookup)
@@ -445,7 +687,7 @@ export class LLMService {
                         metaLine = ' meta=' + (json.length > 240 ? json.slice(0,240)+'…' : json);
                     } catch { /* ignore */ }
                 }
-                this.outputChannel.appendLine(`[${timestamp}] task=${task} provider=${providerName} model=${modelHint || 'unknown'} durationMs=${durationMs} inTokens~= ${estIn} outTokens~= ${estOut}${metaLine}`);
+                this.outputChannel.appendLine(`[${timestamp}] task=${task} provider=${providerName} model=${modelHint || 'unknown'} durationMs=${durationMs} inTokens~= ${estIn} outTokens~= ${estOut}${usageLog}${metaLine}`);
                 this.outputChannel.appendLine(`  SYSTEM>>> ${systemSnippet.replace(/\r?\n/g, ' \u23CE ')}`);
                 if (historySnapshot.length) {
                     const recent = historySnapshot.slice(-6); // last 6 messages
@@ -463,11 +705,260 @@ export class LLMService {
         return answer;
     }
 
+    /** Append one exchange to the audit log; audit is undefined when the log is off */
+    private writeAudit(
+        audit: { startedAt: string; history: AuditRecord['history']; tools: ReturnType<typeof createToolRecorder> } | undefined,
+        session: ChatSession, task: LLMTaskType, prompt: string, meta: Record<string, any> | undefined, durationMs: number,
+        outcome: { response?: string; usage?: TokenUsage; error?: unknown }
+    ) {
+        if (!audit || !this.auditLog) { return; }
+        const sessionKey = this.sessionKeyOf(session);
+        const provider = (sessionKey && this.sessionProviders.get(sessionKey)) || 'unknown-provider';
+        const { error } = outcome;
+        const record: AuditRecord = {
+            id: ExchangeAuditLog.newId(),
+            ts: audit.startedAt,
+            durationMs,
+            task,
+            sessionId: sessionKey,
+            provider,
+            model: (sessionKey && this.sessionModelHints.get(sessionKey)) || 'unknown-model',
+            systemMessage: (sessionKey && this.sessionSystemMessages.get(sessionKey)) || '',
+            history: audit.history,
+            prompt,
+            toolCalls: audit.tools.calls,
+            response: outcome.response,
+            usage: outcome.usage,
+            meta
+        };
+        if (error !== undefined) {
+            const code = isCancellationError(error) ? 'CANCELLED' : (classifyProviderError(error, provider)?.code ?? 'UNKNOWN');
+            record.error = { code, message: error instanceof Error ? error.message : String(error) };
+        }
+        this.auditLog.append(record).catch(() => { /* append already logs write failures */ });
+    }
+
+    /**
+     * Retry a failed dispatch on the next provider of the models.json fallback chain.
+     * Only NETWORK_ERROR / RATE_LIMITED qualify. The replacement session inherits the history captured before
+     * the failed call and takes over the session key, so later requests stay on the provider that answered.
+     */
+    private async failover(session: ChatSession, prompt: string, task: LLMTaskType, history: BaseMessage[], error: unknown, dispatchOptions?: DispatchOptions): Promise<{ session: ChatSession; answer: string } | undefined> {
+        let sessionKey: string | undefined;
+        for (const [k, s] of this.sessionCache.entries()) { if (s === session) { sessionKey = k; break; } }
+        if (!sessionKey) { return undefined; }
+        const failedProvider = this.sessionProviders.get(sessionKey) || 'unknown-provider';
+        const classified = classifyProviderError(error, failedProvider);
+        if (!classified || !LLMProviderManager.isFailoverCode(classified.code)) { return undefined; }
+        const chain = this.providerManager.getFallbackChain?.(this.sessionProviderTypes.get(sessionKey)) || [];
+        const systemMessage = this.sessionSystemMessages.get(sessionKey) || 'You are a helpful assistant.';
+        const temperature = this.sessionParameters.get(sessionKey)?.temperature;
+        for (const providerType of chain) {
+            if (this.exhaustedBudget(providerType, task)) { continue; } // fallback providers honour their own budgets
+            const provider = await this.providerManager.getOrInitializeProvider(providerType);
+            if (!provider) { continue; }
+            const { model } = this.resolveModelHint(providerType, task);
+            // Keep the session's temperature (it may be an explicit override); other parameters follow the fallback provider's config
+            const parameters = { ...this.resolveParameters(providerType, task), temperature: temperature ?? 0 };
+            try {
+                const replacement = await provider.createChatSession(systemMessage, { ...parameters, model, endpoint: this.resolveEndpoint(providerType, task) });
+                replacement.setHistory(history);
+                const answer = await this.dispatch(replacement, prompt, dispatchOptions);
+                this.sessionCache.set(sessionKey, replacement);
+                this.sessionProviders.set(sessionKey, provider.name);
+                this.sessionModelHints.set(sessionKey, model);
+                this.sessionProviderTypes.set(sessionKey, providerType);
+                this.sessionParameters.set(sessionKey, parameters);
+                const event: LLMFailoverEvent = { sessionKey, task, fromProvider: failedProvider, toProvider: provider.name, model, code: classified.code, reason: classified.message };
+                this.logEvent('provider_failover', { ...event });
+                this.failoverEmitter.fire(event);
+                return { session: replacement, answer };
+            } catch (e) {
+                if (isCancellationError(e)) { throw e; }
+                this.logEvent('provider_failover_attempt_failed', { sessionKey, provider: provider.name, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Stream when the caller wants chunks and the session supports it; otherwise a plain chat call. Structured
+     * requests use the session's tool-less complete(); sessions without it (replay) get the turn as a regular chat
+     * message, where earlier attempts are already part of the history.
+     */
+    private dispatch(session: ChatSession, prompt: string, options?: DispatchOptions): Promise<string> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(new LLMCancelledError());
+        }
+        const callbacks = options?.callbacks;
+        if (options?.structured && session.complete) {
+            return session.complete(options.structured.messages, { signal, callbacks, jsonSchema: options.structured.jsonSchema });
+        }
+        if (options?.onChunk && session.chatStream) {
+            return session.chatStream(prompt, options.onChunk, { signal, callbacks });
+        }
+        return session.chat(prompt, { signal, callbacks });
+    }
+
     /** Convenience helper for ad-hoc chat style interactions when caller already knows the session id & system message */
-    public async trackedChat(options: { sessionId: string; systemMessage: string; prompt: string; task?: LLMTaskType; temperatureOverride?: number; modelOverride?: string; forceNew?: boolean }): Promise<string> {
-        const { sessionId, systemMessage, prompt, task = 'chat', temperatureOverride, modelOverride, forceNew } = options;
+    public async trackedChat(options: { sessionId: string; systemMessage: string; prompt: string; task?: LLMTaskType; temperatureOverride?: number; modelOverride?: string; forceNew?: boolean; signal?: AbortSignal }): Promise<string> {
+        const { sessionId, systemMessage, prompt, task = 'chat', temperatureOverride, modelOverride, forceNew, signal } = options;
         const session = await this.getSession(sessionId, systemMessage, { taskType: task, temperatureOverride, modelOverride, forceNew });
-        return this.invokeTracked(session, prompt, task, prompt.length, { sessionId });
+        return this.invokeTracked(session, prompt, task, prompt.length, { sessionId }, { signal });
+    }
+
+    /**
+     * Streaming counterpart of trackedChat: onChunk receives text deltas as the model produces them and the
+     * promise resolves with the final (reasoning-formatted) answer. Sessions without streaming support
+     * answer in one piece without invoking onChunk.
+     */
+    public async trackedChatStream(options: { sessionId: string; systemMessage: string; prompt: string; onChunk: (chunk: string) => void; task?: LLMTaskType; temperatureOverride?: number; modelOverride?: string; forceNew?: boolean; signal?: AbortSignal }): Promise<string> {
+        const { sessionId, systemMessage, prompt, onChunk, task = 'chat', temperatureOverride, modelOverride, forceNew, signal } = options;
+        const session = await this.getSession(sessionId, systemMessage, { taskType: task, temperatureOverride, modelOverride, forceNew });
+        return this.invokeTracked(session, prompt, task, prompt.length, { sessionId, streaming: true }, { onChunk, signal });
+    }
+
+    private sessionKeyOf(session: ChatSession): string | undefined {
+        for (const [k, s] of this.sessionCache.entries()) { if (s === session) { return k; } }
+        return undefined;
+    }
+
+    /** Add one answered request to the per task / model / provider breakdowns, the budget counters and the usage history */
+    private recordUsage(session: ChatSession, task: LLMTaskType, estIn: number, estOut: number, usage: TokenUsage | undefined, durationMs: number) {
+        const sessionKey = this.sessionKeyOf(session);
+        const model = (sessionKey && this.sessionModelHints.get(sessionKey)) || 'unknown-model';
+        const provider = (sessionKey && this.sessionProviders.get(sessionKey)) || 'unknown-provider';
+        if (usage) {
+            this.measuredRequests++;
+            this.actualInputTokens += usage.inputTokens;
+            this.actualOutputTokens += usage.outputTokens;
+            this.toolCallTokens += usage.toolCallTokens;
+        }
+        for (const [bucket, key] of [[this.perTaskUsage, task], [this.perModelUsage, model], [this.perProviderUsage, provider]] as const) {
+            const totals = bucket[key] = bucket[key] || emptyUsageTotals();
+            totals.requests++;
+            totals.estimatedInputTokens += estIn;
+            totals.estimatedOutputTokens += estOut;
+            if (usage) {
+                totals.measuredRequests++;
+                totals.inputTokens += usage.inputTokens;
+                totals.outputTokens += usage.outputTokens;
+                totals.toolCallTokens += usage.toolCallTokens;
+            }
+        }
+        const providerType = (sessionKey && this.sessionProviderTypes.get(sessionKey)) || this.currentProviderType();
+        const tokens = usage ? usage.inputTokens + usage.outputTokens : estIn + estOut;
+        for (const [bucket, key] of [[this.budgetUsage.providers, providerType], [this.budgetUsage.tasks, task]] as const) {
+            const counter = bucket[key] = bucket[key] || { requests: 0, tokens: 0 };
+            counter.requests++;
+            counter.tokens += tokens;
+        }
+        this.warnNearBudget(providerType, task);
+        this.persistStats().catch(() => { /* best effort; saveState retries on deactivate */ });
+        this.usageHistory?.add({
+            ts: Date.now(), task, provider, model, durationMs,
+            inputTokens: usage ? usage.inputTokens : estIn,
+            outputTokens: usage ? usage.outputTokens : estOut,
+            toolCallTokens: usage?.toolCallTokens ?? 0,
+            estimated: !usage,
+            success: true
+        }).catch(() => { /* best effort */ });
+    }
+
+    /** Keep a request that failed (after any failover) in the usage history so the dashboard can show error rates */
+    private recordFailure(session: ChatSession, task: LLMTaskType, durationMs: number, error: unknown) {
+        const sessionKey = this.sessionKeyOf(session);
+        const provider = (sessionKey && this.sessionProviders.get(sessionKey)) || 'unknown-provider';
+        this.usageHistory?.add({
+            ts: Date.now(), task, provider,
+            model: (sessionKey && this.sessionModelHints.get(sessionKey)) || 'unknown-model',
+            durationMs, inputTokens: 0, outputTokens: 0, toolCallTokens: 0, estimated: false,
+            success: false,
+            errorCode: classifyProviderError(error, provider)?.code ?? 'UNKNOWN'
+        }).catch(() => { /* best effort */ });
+    }
+
+    /** Limits from models.json that apply to a request for this provider id + task */
+    private budgetChecks(providerType: string, task: LLMTaskType): Array<{ scope: 'provider' | 'task'; id: string; limit: BudgetLimit; used: BudgetCounter }> {
+        const budgets = this.modelConfigManager?.getBudgets?.();
+        if (!budgets) { return []; }
+        const checks: Array<{ scope: 'provider' | 'task'; id: string; limit: BudgetLimit; used: BudgetCounter }> = [];
+        const providerLimit = budgets.providers?.[providerType];
+        if (providerLimit) { checks.push({ scope: 'provider', id: providerType, limit: providerLimit, used: this.budgetUsage.providers[providerType] || { requests: 0, tokens: 0 } }); }
+        const taskLimit = budgets.tasks?.[task];
+        if (taskLimit) { checks.push({ scope: 'task', id: task, limit: taskLimit, used: this.budgetUsage.tasks[task] || { requests: 0, tokens: 0 } }); }
+        return checks;
+    }
+
+    /** First budget that is used up for this provider id + task, if any */
+    private exhaustedBudget(providerType: string, task: LLMTaskType): { scope: string; id: string; exhausted: string } | undefined {
+        for (const { scope, id, limit, used } of this.budgetChecks(providerType, task)) {
+            if (typeof limit.requestsPerDay === 'number' && used.requests >= limit.requestsPerDay) {
+                return { scope, id, exhausted: `${used.requests}/${limit.requestsPerDay} requests` };
+            }
+            if (typeof limit.tokensPerDay === 'number' && used.tokens >= limit.tokensPerDay) {
+                return { scope, id, exhausted: `${used.tokens}/${limit.tokensPerDay} tokens` };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Reject a request before dispatch once the session's provider or the task has used up today's budget.
+     * The error is RATE_LIMITED but raised outside the dispatch path, so it never triggers provider failover.
+     */
+    private enforceBudgets(session: ChatSession, task: LLMTaskType) {
+        const sessionKey = this.sessionKeyOf(session);
+        const providerType = (sessionKey && this.sessionProviderTypes.get(sessionKey)) || this.currentProviderType();
+        const hit = this.exhaustedBudget(providerType, task);
+        if (!hit) { return; }
+        this.logEvent('budget_exceeded', { ...hit, task });
+        const providerName = (sessionKey && this.sessionProviders.get(sessionKey)) || providerType;
+        throw new LLMProviderError(`Daily ${hit.scope} budget for '${hit.id}' exhausted (${hit.exhausted}). It resets at 00:00 UTC; adjust "budgets" in .naruhodocs/models.json to raise it.`, providerName, 'RATE_LIMITED');
+    }
+
+    /** One-time (per day) warning when a budget crosses its warnAt fraction */
+    private warnNearBudget(providerType: string, task: LLMTaskType) {
+        const warnAt = this.modelConfigManager?.getBudgets?.()?.warnAt;
+        const threshold = typeof warnAt === 'number' && warnAt > 0 && warnAt <= 1 ? warnAt : 0.8;
+        for (const { scope, id, limit, used } of this.budgetChecks(providerType, task)) {
+            for (const [metric, max, value] of [['requests', limit.requestsPerDay, used.requests], ['tokens', limit.tokensPerDay, used.tokens]] as const) {
+                const warningKey = `${scope}:${id}:${metric}`;
+                if (typeof max !== 'number' || max <= 0 || value < max * threshold || this.budgetWarnings.has(warningKey)) { continue; }
+                this.budgetWarnings.add(warningKey);
+                this.logEvent('budget_warning', { scope, id, metric, used: value, limit: max });
+                vscode.window.showWarningMessage(`NaruhoDocs: ${Math.min(100, Math.round(value / max * 100))}% of today's ${scope} budget for '${id}' used (${value}/${max} ${metric}).`);
+            }
+        }
+    }
+
+    /** Persist today's counters so usage and budgets survive window reloads */
+    private async persistStats(): Promise<void> {
+        if (!this.context?.workspaceState) { return; }
+        await this.context.workspaceState.update(STATS_STATE_KEY, this.getStats());
+    }
+
+    private restoreStats() {
+        const snapshot = this.context?.workspaceState?.get<ReturnType<LLMService['getStats']>>(STATS_STATE_KEY);
+        if (!snapshot || snapshot.day !== this.currentDayStamp()) { return; } // previous day: let counts start fresh
+        this.dayStamp = snapshot.day;
+        this.requestCount = snapshot.requests || 0;
+        this.estimatedInputTokens = snapshot.estimatedInputTokens || 0;
+        this.estimatedOutputTokens = snapshot.estimatedOutputTokens || 0;
+        this.measuredRequests = snapshot.measuredRequests || 0;
+        this.actualInputTokens = snapshot.actualInputTokens || 0;
+        this.actualOutputTokens = snapshot.actualOutputTokens || 0;
+        this.toolCallTokens = snapshot.toolCallTokens || 0;
+        this.cacheHits = snapshot.cacheHits || 0;
+        this.perTaskCounts = { ...this.perTaskCounts, ...(snapshot.perTask || {}) };
+        this.perTaskUsage = cloneUsage(snapshot.perTaskUsage || {});
+        this.perModelUsage = cloneUsage(snapshot.perModel || {});
+        this.perProviderUsage = cloneUsage(snapshot.perProvider || {});
+        this.budgetUsage = {
+            providers: cloneCounters(snapshot.budgetUsage?.providers || {}),
+            tasks: cloneCounters(snapshot.budgetUsage?.tasks || {})
+        };
     }
 
     private estimateTokens(text: string, rawLen?: number): number {
@@ -483,6 +974,16 @@ export class LLMService {
             this.requestCount = 0;
             this.estimatedInputTokens = 0;
             this.estimatedOutputTokens = 0;
+            this.measuredRequests = 0;
+            this.actualInputTokens = 0;
+            this.actualOutputTokens = 0;
+            this.toolCallTokens = 0;
+            this.cacheHits = 0;
+            this.perTaskUsage = {};
+            this.perModelUsage = {};
+            this.perProviderUsage = {};
+            this.budgetUsage = { providers: {}, tasks: {} };
+            this.budgetWarnings.clear();
             (Object.keys(this.perTaskCounts) as LLMTaskType[]).forEach(k => this.perTaskCounts[k] = 0);
         }
     }
@@ -498,15 +999,32 @@ export class LLMService {
             requests: this.requestCount,
             estimatedInputTokens: this.estimatedInputTokens,
             estimatedOutputTokens: this.estimatedOutputTokens,
-            perTask: { ...this.perTaskCounts }
+            measuredRequests: this.measuredRequests,
+            actualInputTokens: this.actualInputTokens,
+            actualOutputTokens: this.actualOutputTokens,
+            toolCallTokens: this.toolCallTokens,
+            cacheHits: this.cacheHits,
+            perTask: { ...this.perTaskCounts },
+            perTaskUsage: cloneUsage(this.perTaskUsage),
+            perModel: cloneUsage(this.perModelUsage),
+            perProvider: cloneUsage(this.perProviderUsage),
+            budgetUsage: { providers: cloneCounters(this.budgetUsage.providers), tasks: cloneCounters(this.budgetUsage.tasks) }
         };
     }
 }
 
 // ---- Types ----
 export type LLMTaskType = 'chat' | 'summarize' | 'read_files' | 'analyze' | 'translate' | 'grammar_check' | 'generate_doc' | 'visualization_context';
+/** Every LLMTaskType, for validating task names read from models.json */
+export const LLM_TASK_TYPES: LLMTaskType[] = ['chat', 'summarize', 'read_files', 'analyze', 'translate', 'grammar_check', 'generate_doc', 'visualization_context'];
 
-export interface BaseLLMRequest { type: LLMTaskType; sessionId?: string; systemMessage?: string; }
+export interface BaseLLMRequest {
+    type: LLMTaskType;
+    sessionId?: string;
+    systemMessage?: string;
+    signal?: AbortSignal;
+    bypassCache?: boolean; // summarize / translate / generate_doc / analyze: ignore a cached answer and refresh it
+}
 export interface ChatRequest extends BaseLLMRequest { type: 'chat'; prompt: string; }
 export interface SummarizeRequest extends BaseLLMRequest { type: 'summarize'; content: string; format?: string; requirements?: string[]; targetId?: string; }
 export interface ReadFilesRequest extends BaseLLMRequest { type: 'read_files'; files: Array<{ path: string; content: string }>; prompt?: string; }
@@ -520,6 +1038,54 @@ export type LLMRequest = ChatRequest | SummarizeRequest | ReadFilesRequest | Ana
 
 export interface LLMResponse { type: LLMTaskType; content: string; meta?: Record<string, any>; }
 
+/** requestStructured input: routed, budgeted and cached like the task it names (default 'analyze') */
+export interface StructuredRequest extends Omit<BaseLLMRequest, 'type'> {
+    task?: LLMTaskType;
+    prompt: string;
+    maxRepairs?: number;           // Correction turns after an invalid reply (default 2)
+    temperatureOverride?: number;  // Used when models.json sets no temperature for the task
+}
+
+// Per-dispatch options threaded from request/trackedChat down to ChatSession.chat / chatStream (complete for structured requests)
+interface DispatchOptions { onChunk?: (chunk: string) => void; signal?: AbortSignal; structured?: { messages: BaseMessage[]; jsonSchema: JSONSchema }; callbacks?: CallbackHandlerMethods[]; }
+
+/** Correction turns requestStructured allows after an invalid reply */
+const DEFAULT_STRUCTURED_REPAIRS = 2;
+
+/** Daily usage for one task / model / provider. Actual token fields only cover measuredRequests. */
+export interface UsageTotals {
+    requests: number;
+    measuredRequests: number;
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+    inputTokens: number;
+    outputTokens: number;
+    toolCallTokens: number;
+}
+
+/** Requests + tokens consumed today against one budget (provider id or task type) */
+export interface BudgetCounter { requests: number; tokens: number; }
+
+const STATS_STATE_KEY = 'llmService.stats';
+
+function cloneCounters(map: Record<string, BudgetCounter>): Record<string, BudgetCounter> {
+    const copy: Record<string, BudgetCounter> = {};
+    for (const [k, v] of Object.entries(map)) { copy[k] = { requests: v.requests || 0, tokens: v.tokens || 0 }; }
+    return copy;
+}
+
+function emptyUsageTotals(): UsageTotals {
+    return { requests: 0, measuredRequests: 0, estimatedInputTokens: 0, estimatedOutputTokens: 0, inputTokens: 0, outputTokens: 0, toolCallTokens: 0 };
+}
+
+function cloneUsage(map: Record<string, UsageTotals>): Record<string, UsageTotals> {
+    const copy: Record<string, UsageTotals> = {};
+    for (const [k, v] of Object.entries(map)) { copy[k] = { ...v }; }
+    return copy;
+}
+
+export interface LLMFailoverEvent { sessionKey: string; task: LLMTaskType; fromProvider: string; toProvider: string; model: string; code: string; reason: string; }
+
 // Utility: safe truncation
 function truncate(text: string, max: number): string {
     if (text.length <= max) {
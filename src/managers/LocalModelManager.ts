@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { LLMProviderError, LLMCancelledError, LocalEndpointProfile, DEFAULT_LOCAL_ENDPOINT } from '../llm-providers/base';
+import { LOCAL_BACKEND_DEFAULT_URLS } from '../llm-providers/local';
+import { ModelConfigManager, ProviderEntryV3 } from './ModelConfigManager';
+import { EmbeddingConfigManager, EmbeddingProviderConfig } from './EmbeddingConfigManager';
+import { hasModel } from './ConfigDiagnostics';
+import { toAbortSignal } from '../utils/utils';
+
+/** One model installed on an Ollama server (GET /api/tags) */
+export interface OllamaModelInfo {
+    name: string;
+    size: number;            // bytes on disk
+    family?: string;
+    parameterSize?: string;  // e.g. "7.6B"
+    quantization?: string;   // e.g. "Q4_K_M"
+    modifiedAt?: string;
+}
+
+/** One line of Ollama's streamed pull response; completed / total are per layer (digest) */
+export interface PullProgress {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+}
+
+/** Ollama model named in models.json / embeddings.json, with where it is referenced */
+export interface ConfiguredModel {
+    model: string;
+    baseUrl: string;
+    sources: string[];       // e.g. "models.json local.tasks.analyze", "embeddings.json local"
+}
+
+const OLLAMA_DEFAULT_URL = LOCAL_BACKEND_DEFAULT_URLS.ollama;
+
+function normalizeUrl(baseUrl: string | undefined): string {
+    return (baseUrl || OLLAMA_DEFAULT_URL).replace(/\/+$/, '');
+}
+
+/** 1536 -> "1.5 KB", 4_700_000_000 -> "4.4 GB" */
+export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/** Minimal client for Ollama's model management API (/api/tags, /api/pull, /api/delete) */
+export class OllamaModelClient {
+    readonly baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = normalizeUrl(baseUrl);
+    }
+
+    async list(): Promise<OllamaModelInfo[]> {
+        const response = await this.request('/api/tags', { method: 'GET' });
+        const data = await response.json() as any;
+        return (data?.models || []).map((m: any) => ({
+            name: m.name ?? m.model,
+            size: m.size ?? 0,
+            family: m.details?.family,
+            parameterSize: m.details?.parameter_size,
+            quantization: m.details?.quantization_level,
+            modifiedAt: m.modified_at
+        }));
+    }
+
+    /** Streams the pull; resolves once Ollama reports success. Aborting the signal cancels the download. */
+    async pull(model: string, onProgress: (progress: PullProgress) => void, signal?: AbortSignal): Promise<void> {
+        const response = await this.request('/api/pull', { method: 'POST', body: JSON.stringify({ model, name: model, stream: true }), signal });
+        if (!response.body) {
+            throw new LLMProviderError(`Ollama returned no progress stream for ${model}`, 'Ollama', 'MODEL_ERROR');
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+        let succeeded = false;
+        const handle = (line: string) => {
+            if (!line.trim()) { return; }
+            const event = JSON.parse(line);
+            if (event.error) {
+                throw new LLMProviderError(`Pulling ${model} failed: ${event.error}`, 'Ollama', 'MODEL_ERROR');
+            }
+            succeeded = succeeded || event.status === 'success';
+            onProgress({ status: event.status, digest: event.digest, total: event.total, completed: event.completed });
+        };
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) { break; }
+                buffered += decoder.decode(value, { stream: true });
+                const lines = buffered.split('\n');
+                buffered = lines.pop() || '';
+                lines.forEach(handle);
+            }
+            handle(buffered);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new LLMCancelledError(`Pull of ${model} cancelled`);
+            }
+            throw error;
+        }
+        if (!succeeded) {
+            throw new LLMProviderError(`Pull of ${model} ended before Ollama reported success`, 'Ollama', 'NETWORK_ERROR');
+        }
+    }
+
+    async delete(model: string): Promise<void> {
+        await this.request('/api/delete', { method: 'DELETE', body: JSON.stringify({ model, name: model }) });
+    }
+
+    private async request(path: string, init: RequestInit): Promise<Response> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, { ...init, headers: { 'Content-Type': 'application/json' } });
+        } catch (error) {
+            if (init.signal?.aborted) {
+                throw new LLMCancelledError();
+            }
+            throw new LLMProviderError(`Cannot reach Ollama at ${this.baseUrl}. Is it running?`, 'Ollama', 'NETWORK_ERROR');
+        }
+        if (!response.ok) {
+            let detail = response.statusText;
+            try { detail = (await response.json() as any)?.error || detail; } catch { /* keep status text */ }
+            throw new LLMProviderError(`Ollama ${path} failed (${response.status}): ${detail}`, 'Ollama', 'MODEL_ERROR');
+        }
+        return response;
+    }
+}
+
+/**
+ * Ollama models referenced by the local provider entry (default server, named endpoints, task routes) and by
+ * local embedding providers, merged per server. Models on non-Ollama backends are skipped.
+ */
+export function configuredOllamaModels(local: ProviderEntryV3 | undefined, embeddings: Record<string, EmbeddingProviderConfig>): ConfiguredModel[] {
+    const found = new Map<string, ConfiguredModel>();
+    const add = (baseUrl: string | undefined, model: string | undefined, source: string) => {
+        if (!model) { return; }
+        const url = normalizeUrl(baseUrl);
+        const key = `${url}|${model}`;
+        const entry = found.get(key) || { model, baseUrl: url, sources: [] };
+        entry.sources.push(source);
+        found.set(key, entry);
+    };
+
+    if (local) {
+        const servers: Record<string, LocalEndpointProfile> = { ...(local.endpoints || {}), [DEFAULT_LOCAL_ENDPOINT]: local };
+        const isOllama = (name: string) => (servers[name]?.backend || 'ollama') === 'ollama';
+        if (isOllama(DEFAULT_LOCAL_ENDPOINT)) {
+            add(local.baseUrl, local.defaultModel, 'models.json local.defaultModel');
+        }
+        for (const [name, profile] of Object.entries(local.endpoints || {})) {
+            if (name !== DEFAULT_LOCAL_ENDPOINT && isOllama(name)) {
+                add(profile.baseUrl, profile.defaultModel, `models.json local.endpoints.${name}`);
+            }
+        }
+        for (const [task, raw] of Object.entries(local.tasks || {})) {
+            const settings = typeof raw === 'string' ? { model: raw as string, endpoint: undefined } : raw;
+            const endpoint = settings.endpoint && servers[settings.endpoint] ? settings.endpoint : DEFAULT_LOCAL_ENDPOINT;
+            if (isOllama(endpoint)) {
+                add(servers[endpoint].baseUrl, settings.model, `models.json local.tasks.${task}`);
+            }
+        }
+    }
+    for (const [id, provider] of Object.entries(embeddings)) {
+        if (provider.type === 'local' && provider.llmEngine === 'ollama') {
+            add(provider.baseUrl, provider.model, `embeddings.json ${id}`);
+        }
+    }
+    return [...found.values()];
+}
+
+type ModelPickItem = vscode.QuickPickItem & { action?: 'pull' | 'pull-other' | 'delete'; models?: string[] };
+
+/**
+ * "Manage Local Models" command: lists the models installed on an Ollama server, pulls the ones models.json /
+ * embeddings.json name but the server lacks (progress streamed from /api/pull), and deletes models on request.
+ */
+export class LocalModelManager {
+    constructor(
+        private readonly modelConfig: ModelConfigManager,
+        private readonly embeddingConfig: EmbeddingConfigManager
+    ) {}
+
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('naruhodocs.manageLocalModels', () => this.show().catch(e =>
+                vscode.window.showErrorMessage('Manage Local Models: ' + (e instanceof Error ? e.message : String(e)))))
+        );
+    }
+
+    /** Configured Ollama models; without models.json the naruhodocs.llm.local* settings stand in for the local entry */
+    public async configuredModels(): Promise<ConfiguredModel[]> {
+        await this.modelConfig.load();
+        await this.embeddingConfig.load();
+        let local = this.modelConfig.isActive() ? this.modelConfig.getProviderEntry('local') : undefined;
+        if (!this.modelConfig.isActive()) {
+            const config = vscode.workspace.getConfiguration('naruhodocs');
+            local = {
+                backend: config.get<string>('llm.localBackend', 'ollama'),
+                baseUrl: config.get<string>('llm.localUrl') || undefined,
+                defaultModel: config.get<string>('llm.localModel') || undefined
+            };
+        }
+        return configuredOllamaModels(local, this.embeddingConfig.getProviders());
+    }
+
+    public async show(): Promise<void> {
+        const configured = await this.configuredModels();
+        const servers = [...new Set(configured.map(c => c.baseUrl))];
+        if (!servers.length) { servers.push(OLLAMA_DEFAULT_URL); }
+        const baseUrl = servers.length === 1 ? servers[0] : await vscode.window.showQuickPick(servers, { placeHolder: 'Select the Ollama server to manage' });
+        if (!baseUrl) { return; }
+
+        const client = new OllamaModelClient(baseUrl);
+        const installed = await client.list();
+        const wanted = configured.filter(c => c.baseUrl === client.baseUrl);
+        const missing = wanted.filter(c => !hasModel(installed.map(m => m.name), c.model));
+        const usedBy = (name: string) => wanted.filter(c => hasModel([name], c.model)).flatMap(c => c.sources);
+
+        const items: ModelPickItem[] = [];
+        if (missing.length) {
+            items.push({ label: 'Missing (named in models.json / embeddings.json)', kind: vscode.QuickPickItemKind.Separator });
+            for (const m of missing) {
+                items.push({ label: `$(cloud-download) ${m.model}`, description: 'not installed', detail: m.sources.join(', '), action: 'pull', models: [m.model] });
+            }
+            if (missing.length > 1) {
+                items.push({ label: '$(cloud-download) Pull all missing models', action: 'pull', models: missing.map(m => m.model) });
+            }
+        }
+        items.push({ label: `Installed on ${client.baseUrl}`, kind: vscode.QuickPickItemKind.Separator });
+        for (const m of installed) {
+            const sources = usedBy(m.name);
+            items.push({
+                label: m.name,
+                description: [formatSize(m.size), m.family, m.parameterSize, m.quantization].filter(Boolean).join(' · '),
+                detail: sources.length ? `Used by ${sources.join(', ')}` : 'Unused: not referenced by models.json or embeddings.json',
+                action: 'delete',
+                models: [m.name]
+            });
+        }
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+        items.push({ label: '$(add) Pull another model…', action: 'pull-other' });
+
+        const pick = await vscode.window.showQuickPick(items, { placeHolder: `${installed.length} model(s) installed, ${missing.length} missing. Pick a missing model to pull or an installed one to delete.`, matchOnDetail: true });
+        if (!pick?.action) { return; }
+        if (pick.action === 'pull-other') {
+            const name = (await vscode.window.showInputBox({ prompt: 'Model to pull from the Ollama library', placeHolder: 'e.g. qwen3:4b' }))?.trim();
+            if (name) { await this.pullWithProgress(client, [name]); }
+        } else if (pick.action === 'pull') {
+            await this.pullWithProgress(client, pick.models!);
+        } else {
+            const name = pick.models![0];
+            const sources = usedBy(name);
+            const warning = sources.length
+                ? `${name} is used by ${sources.join(', ')}. Delete it anyway?`
+                : `Delete ${name} from ${client.baseUrl}?`;
+            if (await vscode.window.showWarningMessage(warning, { modal: true }, 'Delete') !== 'Delete') { return; }
+            await client.delete(name);
+            vscode.window.showInformationMessage(`Deleted ${name}.`);
+        }
+    }
+
+    private async pullWithProgress(client: OllamaModelClient, models: string[]): Promise<void> {
+        for (const model of models) {
+            try {
+                await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Pulling ${model}`, cancellable: true }, async (progress, token) => {
+                    // Progress is reported per layer; the bar follows the sum over the layers seen so far
+                    const layers = new Map<string, { completed: number; total: number }>();
+                    let reported = 0;
+                    await client.pull(model, p => {
+                        if (p.digest && p.total) {
+                            layers.set(p.digest, { completed: p.completed ?? 0, total: p.total });
+                        }
+                        const total = [...layers.values()].reduce((sum, l) => sum + l.total, 0);
+                        const completed = [...layers.values()].reduce((sum, l) => sum + l.completed, 0);
+                        const percent = total ? Math.floor(completed / total * 100) : 0;
+                        progress.report({
+                            message: total ? `${p.status} (${formatSize(completed)} / ${formatSize(total)})` : p.status,
+                            increment: Math.max(0, percent - reported)
+                        });
+                        reported = Math.max(reported, percent);
+                    }, toAbortSignal(token));
+                });
+                vscode.window.showInformationMessage(`Pulled ${model}.`);
+            } catch (error) {
+                if (error instanceof LLMCancelledError) {
+                    vscode.window.showInformationMessage(`Pull of ${model} cancelled.`);
+                    return;
+                }
+                throw error;
+            }
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { ModelParameters, LocalEndpointProfile, DEFAULT_LOCAL_ENDPOINT } from '../llm-providers/base';
 
 export interface ProviderTaskModelsV1 {
     defaultModel?: string;
@@ -13,13 +14,56 @@ export interface ModelsConfigSchemaV1 {
 
 export interface ProviderTaskModelsV2 extends ProviderTaskModelsV1 {
     backend?: string;       // local only
-    baseUrl?: string;       // local only
+    baseUrl?: string;       // local + openai
+    apiKey?: string;        // openai only (falls back to naruhodocs.llm.openai.apiKey)
+    headers?: Record<string, string>; // openai only – extra HTTP headers sent with every request
+    mode?: 'record' | 'replay'; // replay only – record the target's answers or serve recorded ones (default replay)
+    target?: string;        // replay only – provider id recorded in record mode (default cloud)
+    recording?: string;     // replay only – transcript name under .naruhodocs/recordings (record default 'session'; replay default all)
     note?: string;          // optional metadata
 }
 
+export interface BudgetLimit {
+    requestsPerDay?: number;
+    tokensPerDay?: number;  // provider-reported tokens (input + output), chars/4 estimate when the provider reports none
+}
+
+export interface BudgetsConfig {
+    warnAt?: number;        // fraction of a limit (0-1) that triggers a one-time warning per day, default 0.8
+    providers?: Record<string, BudgetLimit>; // keyed by provider id: cloud | local | openai
+    tasks?: Record<string, BudgetLimit>;     // keyed by LLMTaskType
+}
+
 export interface ModelsConfigSchemaV2 {
     version: 2;
     providers: Record<string, ProviderTaskModelsV2>;
+    fallback?: string[];    // ordered provider ids tried when the active provider hits NETWORK_ERROR / RATE_LIMITED
+    budgets?: BudgetsConfig; // daily limits enforced by LLMService (UTC day)
+}
+
+/** models.json v3 task entry: model plus sampling / length parameters for that task */
+export interface TaskSettingsV3 extends ModelParameters {
+    model?: string;
+    endpoint?: string;      // local only – name of a providers.local.endpoints profile serving this task
+}
+
+export interface ProviderEntryV3 extends Omit<ProviderTaskModelsV2, 'tasks'> {
+    tasks?: Record<string, TaskSettingsV3>;
+    endpoints?: Record<string, LocalEndpointProfile>; // local only – extra servers; backend/baseUrl above form the 'default' endpoint
+}
+
+export interface ModelsConfigSchemaV3 {
+    version: 3;
+    providers: Record<string, ProviderEntryV3>;
+    tasks?: Record<string, ModelParameters>; // per-task parameters for every provider (provider task entries win)
+    fallback?: string[];
+    budgets?: BudgetsConfig;
+}
+
+const PARAMETER_KEYS: Array<keyof ModelParameters> = ['temperature', 'maxOutputTokens', 'topP', 'contextWindow', 'stop'];
+
+function assignParameter<K extends keyof ModelParameters>(target: ModelParameters, source: ModelParameters, key: K): void {
+    target[key] = source[key];
 }
 
 /**
@@ -27,13 +71,17 @@ export interface ModelsConfigSchemaV2 {
  * If present, this file overrides settings-based model resolution (except explicit runtime overrides).
  */
 export class ModelConfigManager {
-    private config: ModelsConfigSchemaV2 | undefined;
+    private config: ModelsConfigSchemaV3 | undefined;
     private configPath: vscode.Uri | undefined;
     private active = false;
+    private loadError: string | undefined; // why an existing file was ignored on the last load
+    private warnedEndpoints = new Set<string>();
 
     constructor(private context: vscode.ExtensionContext) {}
 
     public async load(): Promise<void> {
+        this.loadError = undefined;
+        this.warnedEndpoints.clear();
         try {
             const ws = vscode.workspace.workspaceFolders?.[0];
             if (!ws) { this.active = false; return; }
@@ -44,7 +92,7 @@ export class ModelConfigManager {
             const buf = await vscode.workspace.fs.readFile(this.configPath);
             const text = Buffer.from(buf).toString('utf8');
             const parsed = JSON.parse(text);
-            if (parsed && parsed.version === 2 && parsed.providers) {
+            if (parsed && (parsed.version === 3 || parsed.version === 2) && parsed.providers) {
                 // Remove legacy 'ootb' provider if still present
                 if (parsed.providers.ootb) {
                     delete parsed.providers.ootb;
@@ -54,10 +102,15 @@ export class ModelConfigManager {
                     parsed.providers.cloud = parsed.providers.byok;
                     delete parsed.providers.byok;
                 }
-                this.config = parsed as ModelsConfigSchemaV2;
+                if (parsed.version === 2) {
+                    this.config = ModelConfigManager.migrateV2toV3(parsed as ModelsConfigSchemaV2);
+                    await this.write();
+                } else {
+                    this.config = parsed as ModelsConfigSchemaV3;
+                }
                 this.active = true;
             } else if (parsed && parsed.version === 1 && parsed.providers) {
-                // Migrate v1 -> v2
+                // Migrate v1 -> v2 -> v3
                 const migrated: ModelsConfigSchemaV2 = {
                     version: 2,
                     providers: {}
@@ -83,21 +136,49 @@ export class ModelConfigManager {
                         if (baseUrl) { migrated.providers.local.baseUrl = baseUrl; }
                     }
                 } catch { /* ignore */ }
-                this.config = migrated;
+                this.config = ModelConfigManager.migrateV2toV3(migrated);
                 await this.write();
                 this.active = true;
                 // Log migration via output channel (caller will log event) handled externally
             } else {
+                this.loadError = 'expected "version": 3 and a "providers" object';
+                console.warn('[ModelConfigManager] Ignoring models.json:', this.loadError);
                 this.active = false;
             }
         } catch (e) {
             console.warn('[ModelConfigManager] Failed to load models.json:', e);
+            this.loadError = e instanceof Error ? e.message : String(e);
             this.active = false;
         }
     }
 
     public isActive(): boolean { return this.active; }
 
+    /** v2 -> v3: task values become { model } objects; per-task parameters start empty */
+    public static migrateV2toV3(config: ModelsConfigSchemaV2): ModelsConfigSchemaV3 {
+        const providers: Record<string, ProviderEntryV3> = {};
+        for (const [id, entry] of Object.entries(config.providers || {})) {
+            const tasks: Record<string, TaskSettingsV3> = {};
+            for (const [task, model] of Object.entries(entry.tasks || {})) {
+                tasks[task] = typeof model === 'string' ? { model } : model;
+            }
+            providers[id] = { ...entry, tasks };
+        }
+        const migrated: ModelsConfigSchemaV3 = { version: 3, providers, tasks: {} };
+        if (config.fallback) { migrated.fallback = config.fallback; }
+        if (config.budgets) { migrated.budgets = config.budgets; }
+        return migrated;
+    }
+
+    /** Task entry of a provider; a bare model string (v2 style) is accepted as { model } */
+    private taskSettings(provider: string, task: string): TaskSettingsV3 | undefined {
+        const raw: TaskSettingsV3 | string | undefined = this.config?.providers[provider]?.tasks?.[task];
+        return typeof raw === 'string' ? { model: raw } : raw;
+    }
+
+    /** Reason the file was ignored on the last load (parse error or wrong shape); undefined when loaded or absent */
+    public getLoadError(): string | undefined { return this.loadError; }
+
     /** Resolve model for provider+task. Fallback precedence inside file scope: task -> provider default */
     public resolveModel(provider: string, task: string, policyHint?: string, ultimateFallback?: string): { model: string; trace: string[] } {
         const trace: string[] = [];
@@ -105,9 +186,16 @@ export class ModelConfigManager {
             return { model: policyHint || ultimateFallback || 'unknown-model', trace: ['inactive'] };
         }
         const providerEntry = this.config.providers[provider];
-        if (providerEntry?.tasks && providerEntry.tasks[task]) {
+        const taskModel = this.taskSettings(provider, task)?.model;
+        if (taskModel) {
             trace.push('file-task');
-            return { model: providerEntry.tasks[task], trace };
+            return { model: taskModel, trace };
+        }
+        const endpoint = this.resolveEndpoint(provider, task);
+        const endpointModel = endpoint ? providerEntry?.endpoints?.[endpoint]?.defaultModel : undefined;
+        if (endpointModel) {
+            trace.push('file-endpoint-default');
+            return { model: endpointModel, trace };
         }
         if (providerEntry?.defaultModel) {
             trace.push('file-default');
@@ -118,6 +206,59 @@ export class ModelConfigManager {
         return { model: ultimateFallback || 'unknown-model', trace };
     }
 
+    /**
+     * Named local endpoint a task is routed to (providers.local.tasks.<task>.endpoint). Undefined means the default
+     * endpoint: no routing, inactive file, or a name missing from providers.local.endpoints (warned about once per load).
+     */
+    public resolveEndpoint(provider: string, task: string): string | undefined {
+        if (!this.active || provider !== 'local') { return undefined; }
+        const name = this.taskSettings(provider, task)?.endpoint;
+        if (!name || name === DEFAULT_LOCAL_ENDPOINT) { return undefined; }
+        if (!this.config?.providers.local?.endpoints?.[name]) {
+            if (!this.warnedEndpoints.has(name)) {
+                this.warnedEndpoints.add(name);
+                console.warn(`[ModelConfigManager] Task '${task}' routes to unknown local endpoint '${name}'; using the default endpoint.`);
+            }
+            return undefined;
+        }
+        return name;
+    }
+
+    /** Named local endpoint profiles (providers.local.endpoints); empty when inactive */
+    public getLocalEndpoints(): Record<string, LocalEndpointProfile> {
+        if (!this.active) { return {}; }
+        const endpoints = { ...(this.config?.providers.local?.endpoints || {}) };
+        delete endpoints[DEFAULT_LOCAL_ENDPOINT]; // reserved for the provider-level backend / baseUrl
+        return endpoints;
+    }
+
+    /**
+     * Sampling / length parameters for provider+task. Precedence inside file scope:
+     * providers.<provider>.tasks.<task> -> tasks.<task>. Empty when inactive; trace names the sources used.
+     */
+    public resolveParameters(provider: string, task: string): { params: ModelParameters; trace: string[] } {
+        if (!this.active || !this.config) {
+            return { params: {}, trace: ['inactive'] };
+        }
+        const params: ModelParameters = {};
+        const trace: string[] = [];
+        const layers: Array<[string, ModelParameters | undefined]> = [
+            ['file-task-params', this.config.tasks?.[task]],
+            ['file-provider-task-params', this.taskSettings(provider, task)]
+        ];
+        for (const [source, layer] of layers) {
+            let used = false;
+            for (const key of PARAMETER_KEYS) {
+                if (layer?.[key] !== undefined) {
+                    assignParameter(params, layer, key);
+                    used = true;
+                }
+            }
+            if (used) { trace.push(source); }
+        }
+        return { params, trace };
+    }
+
     /** Scaffold a default config file if missing */
     public async scaffoldIfMissing(): Promise<void> {
         const ws = vscode.workspace.workspaceFolders?.[0];
@@ -129,17 +270,47 @@ export class ModelConfigManager {
     if (exists) { return; }
         // Ensure directory
         await vscode.workspace.fs.createDirectory(dir);
-        const defaultConfig: ModelsConfigSchemaV2 = {
-            version: 2,
+        const defaultConfig: ModelsConfigSchemaV3 = {
+            version: 3,
             providers: {
                 cloud: { defaultModel: 'gemini-2.0-flash', note: 'Cloud (API Key) provider. Edit per-task overrides below.' },
-                local: { defaultModel: 'qwen3:0.6b', backend: 'ollama', baseUrl: 'http://localhost:11434', tasks: {}, note: 'Local runtime provider. Ensure model pulled in Ollama/LM Studio.' }
-            }
+                local: { defaultModel: 'qwen3:0.6b', backend: 'ollama', baseUrl: 'http://localhost:11434', tasks: {}, note: 'Local runtime provider. Ensure model pulled in Ollama/LM Studio.' },
+                openai: { defaultModel: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', headers: {}, tasks: {}, note: 'OpenAI-compatible gateway (OpenAI, Azure OpenAI, vLLM, OpenRouter). API key via naruhodocs.llm.openai.apiKey or apiKey here.' }
+            },
+            tasks: {
+                analyze: { temperature: 0.1 },
+                generate_doc: { temperature: 0.2 }
+            },
+            fallback: [],
+            budgets: { warnAt: 0.8, providers: {}, tasks: {} }
         };
         await vscode.workspace.fs.writeFile(file, Buffer.from(JSON.stringify(defaultConfig, null, 2), 'utf8'));
     }
 
-    public getProviderEntry(provider: string): ProviderTaskModelsV2 | undefined {
+    /** Ordered failover chain from models.json (legacy ids normalized, duplicates removed). Empty when inactive. */
+    public getFallbackChain(): string[] {
+        if (!this.active || !Array.isArray(this.config?.fallback)) { return []; }
+        const chain: string[] = [];
+        for (const raw of this.config!.fallback!) {
+            if (typeof raw !== 'string') { continue; }
+            const id = raw.trim() === 'byok' ? 'cloud' : raw.trim();
+            if (id && !chain.includes(id)) { chain.push(id); }
+        }
+        return chain;
+    }
+
+    /** Daily budgets from models.json (legacy 'byok' provider key normalized to 'cloud'). Undefined when inactive or unset. */
+    public getBudgets(): BudgetsConfig | undefined {
+        const budgets = this.active ? this.config?.budgets : undefined;
+        if (!budgets || typeof budgets !== 'object') { return undefined; }
+        const providers: Record<string, BudgetLimit> = {};
+        for (const [id, limit] of Object.entries(budgets.providers || {})) {
+            providers[id === 'byok' ? 'cloud' : id] = limit;
+        }
+        return { warnAt: budgets.warnAt, providers, tasks: { ...(budgets.tasks || {}) } };
+    }
+
+    public getProviderEntry(provider: string): ProviderEntryV3 | undefined {
     if (!this.config) { return undefined; }
         return this.config.providers[provider];
     }
@@ -156,7 +327,7 @@ export class ModelConfigManager {
         }
         const entry = this.config.providers[provider];
         entry.tasks = entry.tasks || {};
-        entry.tasks[task] = model;
+        entry.tasks[task] = { ...this.taskSettings(provider, task), model };
         await this.write();
     }
 }
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { DEFAULT_PROMPTS, PromptDefinition, PromptId } from '../SystemMessages';
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+/** Fired after .naruhodocs/prompts changed; previous holds the templates the changed ids had before */
+export interface PromptChangeEvent {
+    ids: PromptId[];
+    previous: Partial<Record<PromptId, string>>;
+}
+
+interface PromptPickItem extends vscode.QuickPickItem {
+    id?: PromptId;
+    file?: vscode.Uri;
+}
+
+const PROMPTS_DIR = ['.naruhodocs', 'prompts'];
+
+export function isPromptId(id: string): id is PromptId {
+    return Object.prototype.hasOwnProperty.call(DEFAULT_PROMPTS, id);
+}
+
+export function promptDefinition(id: PromptId): PromptDefinition {
+    return DEFAULT_PROMPTS[id];
+}
+
+/**
+ * Fill {{name}} placeholders in one pass, so placeholders inside the inserted values (e.g. a document's own text)
+ * stay as they are. Placeholders without a value are left untouched, which keeps typos visible in the output.
+ */
+export function renderTemplate(template: string, vars: PromptVariables = {}): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => {
+        const value = vars[name];
+        return value === undefined ? match : String(value);
+    });
+}
+
+/**
+ * Prompt library keyed by id. Defaults live in SystemMessages.ts; a workspace overrides any of them with
+ * .naruhodocs/prompts/<id>.md. Overrides are read into memory so render stays synchronous, and reloaded whenever a
+ * file in that folder changes.
+ */
+export class PromptRegistry {
+    private static instance: PromptRegistry | undefined;
+    private overrides = new Map<PromptId, string>();
+    private unknownFiles: string[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<PromptChangeEvent>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public static getInstance(): PromptRegistry {
+        if (!PromptRegistry.instance) {
+            PromptRegistry.instance = new PromptRegistry();
+        }
+        return PromptRegistry.instance;
+    }
+
+    public register(context: vscode.ExtensionContext): void {
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        if (ws) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(ws, `${PROMPTS_DIR.join('/')}/*.md`));
+            const reload = () => { this.reload().catch(e => console.warn('[NaruhoDocs] Failed to reload prompts:', e)); };
+            watcher.onDidCreate(reload);
+            watcher.onDidChange(reload);
+            watcher.onDidDelete(reload);
+            context.subscriptions.push(watcher);
+            reload();
+        }
+        context.subscriptions.push(
+            this.changeEmitter,
+            vscode.commands.registerCommand('naruhodocs.showPrompts', () => this.show().catch(e =>
+                vscode.window.showErrorMessage('Show Prompts: ' + (e instanceof Error ? e.message : String(e)))))
+        );
+    }
+
+    /** The prompt with overrides applied and {{placeholders}} filled from vars */
+    public render(id: PromptId, vars: PromptVariables = {}): string {
+        return renderTemplate(this.getTemplate(id), vars);
+    }
+
+    public getTemplate(id: PromptId): string {
+        return this.overrides.get(id) ?? DEFAULT_PROMPTS[id].template;
+    }
+
+    public isOverridden(id: PromptId): boolean {
+        return this.overrides.has(id);
+    }
+
+    public getOverriddenIds(): PromptId[] {
+        return [...this.overrides.keys()];
+    }
+
+    /** Re-read .naruhodocs/prompts/*.md; files whose name is not a prompt id are reported by the command */
+    public async reload(): Promise<void> {
+        const dir = this.promptsDir();
+        const overrides = new Map<PromptId, string>();
+        const unknown: string[] = [];
+        if (dir) {
+            let entries: [string, vscode.FileType][] = [];
+            try {
+                entries = await vscode.workspace.fs.readDirectory(dir);
+            } catch { /* no prompts folder: defaults only */ }
+            for (const [name, type] of entries) {
+                if (type !== vscode.FileType.File || !name.endsWith('.md')) { continue; }
+                const id = name.slice(0, -'.md'.length);
+                if (!isPromptId(id)) { unknown.push(name); continue; }
+                const text = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dir, name))).toString('utf8');
+                // An empty file is treated as a mistake rather than a request for no system prompt
+                if (text.trim()) { overrides.set(id, text.replace(/\s+$/, '')); }
+            }
+        }
+        this.unknownFiles = unknown;
+        this.applyOverrides(overrides);
+    }
+
+    /** Swap in a new set of overrides and fire onDidChange for the ids whose template changed */
+    public applyOverrides(overrides: Map<PromptId, string>): void {
+        const previous: Partial<Record<PromptId, string>> = {};
+        const ids = (Object.keys(DEFAULT_PROMPTS) as PromptId[]).filter(id => {
+            const before = this.getTemplate(id);
+            const after = overrides.get(id) ?? DEFAULT_PROMPTS[id].template;
+            if (before === after) { return false; }
+            previous[id] = before;
+            return true;
+        });
+        this.overrides = new Map(overrides);
+        if (ids.length) {
+            this.changeEmitter.fire({ ids, previous });
+        }
+    }
+
+    /** "Show Prompts" command: every prompt id with its source; picking one opens (or creates) its override file */
+    public async show(): Promise<void> {
+        const dir = this.promptsDir();
+        const ids = Object.keys(DEFAULT_PROMPTS) as PromptId[];
+        const items: PromptPickItem[] = [];
+        const addGroup = (label: string, group: PromptId[]) => {
+            if (!group.length) { return; }
+            items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+            for (const id of group) {
+                const { description, variables } = promptDefinition(id);
+                items.push({
+                    label: id,
+                    description: this.isOverridden(id) ? `.naruhodocs/prompts/${id}.md` : 'built-in default',
+                    detail: variables?.length ? `${description} · variables: ${variables.map(v => `{{${v}}}`).join(', ')}` : description,
+                    id,
+                    file: dir && vscode.Uri.joinPath(dir, `${id}.md`)
+                });
+            }
+        };
+        addGroup('Overridden', ids.filter(id => this.isOverridden(id)));
+        addGroup('Built-in', ids.filter(id => !this.isOverridden(id)));
+        if (this.unknownFiles.length) {
+            items.push({ label: 'Ignored (not a prompt id)', kind: vscode.QuickPickItemKind.Separator });
+            for (const name of this.unknownFiles) {
+                items.push({ label: `$(warning) ${name}`, file: dir && vscode.Uri.joinPath(dir, name) });
+            }
+        }
+
+        const overridden = this.getOverriddenIds().length;
+        const pick = await vscode.window.showQuickPick(items, {
+            placeHolder: `${overridden} of ${ids.length} prompts overridden. Pick one to open its override file (created from the default when missing).`,
+            matchOnDetail: true
+        });
+        if (!pick?.file) {
+            if (pick && !dir) { vscode.window.showWarningMessage('Open a workspace folder to override prompts.'); }
+            return;
+        }
+        if (pick.id && !(await exists(pick.file))) {
+            await vscode.workspace.fs.createDirectory(dir!);
+            await vscode.workspace.fs.writeFile(pick.file, Buffer.from(DEFAULT_PROMPTS[pick.id].template + '\n', 'utf8'));
+        }
+        await vscode.window.showTextDocument(pick.file);
+    }
+
+    private promptsDir(): vscode.Uri | undefined {
+        const ws = vscode.workspace.workspaceFolders?.[0];
+        return ws ? vscode.Uri.joinPath(ws.uri, ...PROMPTS_DIR) : undefined;
+    }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Shorthand for PromptRegistry.getInstance().render */
+export function getPrompt(id: PromptId, vars?: PromptVariables): string {
+    return PromptRegistry.getInstance().render(id, vars);
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+interface CacheEntry {
+    value: string;
+    createdAt: number;
+    lastUsed: number;
+}
+
+/**
+ * Persistent (workspaceState) cache of LLM answers keyed by a content hash.
+ * Least recently used entries are evicted once maxEntries is exceeded to keep workspace storage bounded.
+ */
+export class ResponseCache {
+    private static readonly STATE_KEY = 'llmService.responseCache';
+    private entries: Record<string, CacheEntry>;
+
+    constructor(private readonly state: vscode.Memento, private readonly maxEntries: number = 100) {
+        this.entries = { ...(state.get<Record<string, CacheEntry>>(ResponseCache.STATE_KEY) || {}) };
+    }
+
+    /** sha256 over the ordered key parts (provider, model, system message, task, prompt) */
+    public static key(parts: string[]): string {
+        return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+    }
+
+    public get(key: string): string | undefined {
+        const entry = this.entries[key];
+        if (!entry) { return undefined; }
+        entry.lastUsed = Date.now();
+        return entry.value;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        const now = Date.now();
+        this.entries[key] = { value, createdAt: now, lastUsed: now };
+        const keys = Object.keys(this.entries);
+        if (keys.length > this.maxEntries) {
+            keys.sort((a, b) => this.entries[a].lastUsed - this.entries[b].lastUsed)
+                .slice(0, keys.length - this.maxEntries)
+                .forEach(k => delete this.entries[k]);
+        }
+        await this.state.update(ResponseCache.STATE_KEY, this.entries);
+    }
+
+    /** Drop every cached answer; returns how many were removed */
+    public async clear(): Promise<number> {
+        const removed = Object.keys(this.entries).length;
+        this.entries = {};
+        await this.state.update(ResponseCache.STATE_KEY, undefined);
+        return removed;
+    }
+
+    public get size(): number {
+        return Object.keys(this.entries).length;
+    }
+}
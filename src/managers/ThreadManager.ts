@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { createChat, ChatSession } from '../langchain-backend/llm';
-import { SystemMessages } from '../SystemMessages';
+import { getPrompt } from './PromptRegistry';
 import { LLMProviderManager } from '../llm-providers/manager';
 import { LLMService } from './LLMService';
 import { OutputLogger } from '../utils/OutputLogger';
@@ -56,7 +56,7 @@ export class ThreadManager {
         await this.llmManager?.initializeFromConfig();
         const generalThreadId = 'naruhodocs-general-thread';
         const generalThreadTitle = 'General Purpose';
-        const sysMessage = SystemMessages.GENERAL_PURPOSE;
+        const sysMessage = getPrompt('general');
         this.systemMessages.set(generalThreadId, sysMessage);
         const savedHistory = this.context.workspaceState.get<any[]>(`thread-history-${generalThreadId}`);
         const applyHistory = (session: ChatSession) => {
@@ -109,7 +109,7 @@ export class ThreadManager {
             // Already exists – nothing to do
             return Promise.resolve();
         }
-        const sysMessage = SystemMessages.DOCUMENT_SPECIFIC_DEVELOPER(title, initialContext);
+        const sysMessage = getPrompt('document-developer', { title, context: initialContext });
         const savedHistory = this.context.workspaceState.get<any[]>(`thread-history-${sessionId}`);
         this.systemMessages.set(sessionId, sysMessage);
         const applyHistory = (session: ChatSession) => {
@@ -275,7 +275,7 @@ export class ThreadManager {
         const preservedTitle = this.threadTitles.get(generalId);
         this.sessions = new Map();
         this.threadTitles = new Map();
-        this.systemMessages = new Map([[generalId, SystemMessages.GENERAL_PURPOSE]]);
+        this.systemMessages = new Map([[generalId, getPrompt('general')]]);
         if (preservedSession && preservedTitle) {
             this.sessions.set(generalId, preservedSession);
             this.threadTitles.set(generalId, preservedTitle);
@@ -310,18 +310,18 @@ export class ThreadManager {
         if (this.sessions.has(generalId)) {
             // Ensure canonical title & system message mapping
             this.threadTitles.set(generalId, 'General Purpose');
-            this.systemMessages.set(generalId, SystemMessages.GENERAL_PURPOSE);
+            this.systemMessages.set(generalId, getPrompt('general'));
             const sess = this.sessions.get(generalId);
             if (sess && sess.getHistory().length === 0 && Array.isArray(savedGeneral) && savedGeneral.length > 0) {
                 try { sess.setHistory(savedGeneral as any); } catch { /* ignore */ }
             }
         } else if (Array.isArray(savedGeneral) && savedGeneral.length > 0) {
             // Edge case: general thread history exists but session not created yet (e.g., provider init late). Create fallback session now.
-            const fallbackSession = createChat({ apiKey: this.apiKey, maxHistoryMessages: 40, systemMessage: SystemMessages.GENERAL_PURPOSE });
+            const fallbackSession = createChat({ apiKey: this.apiKey, maxHistoryMessages: 40, systemMessage: getPrompt('general') });
             try { fallbackSession.setHistory(savedGeneral as any); } catch { /* ignore */ }
             this.sessions.set(generalId, fallbackSession);
             this.threadTitles.set(generalId, 'General Purpose');
-            this.systemMessages.set(generalId, SystemMessages.GENERAL_PURPOSE);
+            this.systemMessages.set(generalId, getPrompt('general'));
         }
         this.onThreadListChange?.();
     }
@@ -424,7 +424,7 @@ export class ThreadManager {
                     if (role === 'assistant' || role === 'bot') { role = 'ai'; }
                     return { type: role, text };
                 });
-                const sys = this.systemMessages.get(sessionId) || SystemMessages.GENERAL_PURPOSE;
+                const sys = this.systemMessages.get(sessionId) || getPrompt('general');
                 const newSession = await llmService.getSession(sessionId, sys, { taskType: 'chat', forceNew: true });
                 newSession.setHistory(history as any);
                 this.sessions.set(sessionId, newSession);
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+
+/** One dispatched LLM request as kept in the usage history */
+export interface UsageRecord {
+    ts: number;               // Completion time (ms since epoch)
+    task: string;
+    provider: string;
+    model: string;
+    durationMs: number;
+    inputTokens: number;
+    outputTokens: number;
+    toolCallTokens: number;
+    estimated: boolean;       // Token counts are the chars/4 estimate because the provider reported no usage
+    success: boolean;
+    errorCode?: string;       // LLMProviderError code of a failed request
+}
+
+/** Requests, errors, latency and tokens for one task / model over the selected range */
+export interface UsageBreakdownRow {
+    key: string;
+    requests: number;
+    errors: number;
+    errorRate: number;        // errors / requests, 0..1
+    p50Ms: number;            // Latency percentiles over successful requests
+    p95Ms: number;
+    inputTokens: number;      // Provider-reported tokens only
+    outputTokens: number;
+    estimatedInputTokens: number;   // chars/4 estimates of requests without reported usage, kept apart for cost reporting
+    estimatedOutputTokens: number;
+}
+
+export interface UsageDayRow {
+    day: string;              // YYYY-MM-DD (UTC, like the daily stats and budgets)
+    requests: number;
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+}
+
+export interface UsageSummary {
+    days: number;
+    from: string;
+    to: string;
+    totals: UsageBreakdownRow;
+    daily: UsageDayRow[];     // Every day of the range, oldest first, including days without requests
+    perTask: UsageBreakdownRow[];
+    perModel: UsageBreakdownRow[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function utcDay(ts: number): string {
+    return new Date(ts).toISOString().slice(0, 10);
+}
+
+/** Nearest-rank percentile (p in 0..100); 0 for an empty list */
+export function percentile(values: number[], p: number): number {
+    if (!values.length) { return 0; }
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = Math.ceil(p / 100 * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+type TokenTotals = Pick<UsageDayRow, 'inputTokens' | 'outputTokens' | 'estimatedInputTokens' | 'estimatedOutputTokens'>;
+
+/** Add the tokens of a record to the reported or the estimated totals */
+function addTokens(totals: TokenTotals, record: UsageRecord): void {
+    if (record.estimated) {
+        totals.estimatedInputTokens += record.inputTokens;
+        totals.estimatedOutputTokens += record.outputTokens;
+    } else {
+        totals.inputTokens += record.inputTokens;
+        totals.outputTokens += record.outputTokens;
+    }
+}
+
+function breakdown(key: string, records: UsageRecord[]): UsageBreakdownRow {
+    const errors = records.filter(r => !r.success).length;
+    const latencies = records.filter(r => r.success).map(r => r.durationMs);
+    const row: UsageBreakdownRow = {
+        key,
+        requests: records.length,
+        errors,
+        errorRate: records.length ? errors / records.length : 0,
+        p50Ms: percentile(latencies, 50),
+        p95Ms: percentile(latencies, 95),
+        inputTokens: 0,
+        outputTokens: 0,
+        estimatedInputTokens: 0,
+        estimatedOutputTokens: 0
+    };
+    records.forEach(r => addTokens(row, r));
+    return row;
+}
+
+function groupBy(records: UsageRecord[], keyOf: (r: UsageRecord) => string): UsageBreakdownRow[] {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const group = groups.get(key);
+        if (group) { group.push(record); } else { groups.set(key, [record]); }
+    }
+    return [...groups.entries()].map(([key, group]) => breakdown(key, group)).sort((a, b) => b.requests - a.requests);
+}
+
+/** Records of the last `days` UTC days (today included) */
+export function recordsInRange(records: UsageRecord[], days: number, now: number = Date.now()): UsageRecord[] {
+    const since = Date.parse(utcDay(now - (days - 1) * DAY_MS));
+    return records.filter(r => r.ts >= since && r.ts <= now);
+}
+
+/** Daily trend plus per task / per model breakdowns for the last `days` UTC days */
+export function summarizeUsage(records: UsageRecord[], days: number, now: number = Date.now()): UsageSummary {
+    const inRange = recordsInRange(records, days, now);
+    const daily: UsageDayRow[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        daily.push({ day: utcDay(now - i * DAY_MS), requests: 0, errors: 0, inputTokens: 0, outputTokens: 0, estimatedInputTokens: 0, estimatedOutputTokens: 0 });
+    }
+    const byDay = new Map(daily.map(row => [row.day, row]));
+    for (const record of inRange) {
+        const row = byDay.get(utcDay(record.ts));
+        if (!row) { continue; }
+        row.requests++;
+        if (!record.success) { row.errors++; }
+        addTokens(row, record);
+    }
+    return {
+        days,
+        from: daily[0].day,
+        to: daily[daily.length - 1].day,
+        totals: breakdown('total', inRange),
+        daily,
+        perTask: groupBy(inRange, r => r.task),
+        perModel: groupBy(inRange, r => `${r.model} (${r.provider})`)
+    };
+}
+
+const CSV_COLUMNS = ['timestamp', 'task', 'provider', 'model', 'durationMs', 'inputTokens', 'outputTokens', 'toolCallTokens', 'estimated', 'success', 'errorCode'] as const;
+
+function csvField(value: string | number | boolean | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV, one row per record, for cost reporting in a spreadsheet */
+export function usageToCsv(records: UsageRecord[]): string {
+    const rows = records.map(r => [
+        new Date(r.ts).toISOString(), r.task, r.provider, r.model, r.durationMs, r.inputTokens, r.outputTokens,
+        r.toolCallTokens, r.estimated, r.success, r.errorCode
+    ].map(csvField).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Per-request usage records persisted in workspaceState, so the usage dashboard can show trends across days while
+ * getStats only covers today. Records older than retentionDays are pruned, and the oldest ones are dropped once
+ * maxRecords is exceeded to keep workspace storage bounded.
+ */
+export class UsageHistory {
+    private static readonly STATE_KEY = 'llmService.usageHistory';
+    private records: UsageRecord[];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    /** Fired after a record was added or the history was cleared */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly state: vscode.Memento, private readonly retentionDays: number = 90, private readonly maxRecords: number = 5000) {
+        this.records = [...(state.get<UsageRecord[]>(UsageHistory.STATE_KEY) || [])];
+        this.prune();
+    }
+
+    public async add(record: UsageRecord): Promise<void> {
+        this.records.push(record);
+        this.prune(record.ts);
+        this.changeEmitter.fire();
+        await this.state.update(UsageHistory.STATE_KEY, this.records);
+    }
+
+    /** Records oldest first; with `days`, only those of the last `days` UTC days */
+    public getRecords(days?: number): UsageRecord[] {
+        return days ? recordsInRange(this.records, days) : [...this.records];
+    }
+
+    /** Drop the whole history; returns how many records were removed */
+    public async clear(): Promise<number> {
+        const removed = this.records.length;
+        this.records = [];
+        await this.state.update(UsageHistory.STATE_KEY, undefined);
+        this.changeEmitter.fire();
+        return removed;
+    }
+
+    public get size(): number {
+        return this.records.length;
+    }
+
+    private prune(now: number = Date.now()) {
+        const cutoff = now - this.retentionDays * DAY_MS;
+        this.records = this.records.filter(r => r.ts >= cutoff).slice(-this.maxRecords);
+    }
+}
@@ -0,0 +1,70 @@
+import { estimateTokens } from '../../langchain-backend/historyCompaction';
+
+/** One piece of a file as it goes into the index; line numbers are 1-based and inclusive */
+export interface Chunk {
+  content: string;
+  startLine: number;
+  endLine: number;
+  symbols?: string[];      // Declarations in the chunk, e.g. ['ThreadManager.saveThreadHistory']
+  headingPath?: string[];  // Markdown heading breadcrumb, outermost first
+}
+
+/**
+ * Splits the content of one kind of file. version is part of the stored file hash, so bumping it re-chunks
+ * files that were indexed with an older version.
+ */
+export interface Chunker {
+  readonly id: string;
+  readonly version: number;
+  supports(filePath: string): boolean;
+  chunk(content: string, filePath: string): Chunk[];
+}
+
+export const MAX_CHUNK_TOKENS = 512;
+export const OVERLAP_TOKENS = 64;
+// Units smaller than this are packed with their neighbours instead of becoming a chunk of their own
+export const MIN_CHUNK_TOKENS = 200;
+
+/** A structural unit (section, declaration) covering lines[start..end] (0-based, inclusive) */
+export interface ChunkUnit {
+  start: number;
+  end: number;
+  symbols?: string[];
+  headingPath?: string[];
+}
+
+export function unitTokens(lines: string[], unit: ChunkUnit): number {
+  let tokens = 0;
+  for (let i = unit.start; i <= unit.end; i++) { tokens += estimateTokens(lines[i]) + 1; }
+  return tokens;
+}
+
+export function toChunk(lines: string[], unit: ChunkUnit): Chunk {
+  const chunk: Chunk = { content: lines.slice(unit.start, unit.end + 1).join('\n'), startLine: unit.start + 1, endLine: unit.end + 1 };
+  if (unit.symbols?.length) { chunk.symbols = unit.symbols; }
+  if (unit.headingPath?.length) { chunk.headingPath = unit.headingPath; }
+  return chunk;
+}
+
+/**
+ * Merge consecutive small units while the result stays within MAX_CHUNK_TOKENS and canMerge allows it. The merged
+ * unit keeps the first unit's heading path and collects every symbol.
+ */
+export function packUnits(lines: string[], units: ChunkUnit[], canMerge: (current: ChunkUnit, next: ChunkUnit) => boolean = () => true): ChunkUnit[] {
+  const packed: ChunkUnit[] = [];
+  let current: ChunkUnit | undefined;
+  let currentTokens = 0;
+  for (const unit of units) {
+    const tokens = unitTokens(lines, unit);
+    if (current && currentTokens < MIN_CHUNK_TOKENS && currentTokens + tokens <= MAX_CHUNK_TOKENS && canMerge(current, unit)) {
+      current.end = unit.end;
+      current.symbols = [...(current.symbols ?? []), ...(unit.symbols ?? [])];
+      currentTokens += tokens;
+      continue;
+    }
+    current = { ...unit, symbols: unit.symbols ? [...unit.symbols] : undefined };
+    currentTokens = tokens;
+    packed.push(current);
+  }
+  return packed;
+}
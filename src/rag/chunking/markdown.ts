@@ -0,0 +1,68 @@
+import { Chunk, Chunker, ChunkUnit, MAX_CHUNK_TOKENS, packUnits, toChunk, unitTokens } from './base';
+import { windowChunks } from './window';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Splits Markdown by heading; each section carries the breadcrumb of headings above it */
+export class MarkdownChunker implements Chunker {
+  readonly id = 'markdown';
+  readonly version = 1;
+
+  supports(filePath: string): boolean {
+    return /\.(md|markdown|mdx)$/i.test(filePath);
+  }
+
+  chunk(content: string): Chunk[] {
+    const lines = content.split('\n');
+    const units: ChunkUnit[] = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let current: ChunkUnit = { start: 0, end: lines.length - 1, headingPath: [] };
+    let fence: string | undefined;
+    const startSection = (line: number, level: number, title: string) => {
+      while (stack.length && stack[stack.length - 1].level >= level) { stack.pop(); }
+      stack.push({ level, title });
+      if (line > current.start) {
+        units.push({ ...current, end: line - 1 });
+      }
+      current = { start: line, end: lines.length - 1, headingPath: stack.map(h => h.title) };
+    };
+
+    // YAML front matter stays with the preamble
+    let i = 0;
+    if (lines[0]?.trim() === '---') {
+      const close = lines.findIndex((l, n) => n > 0 && /^(---|\.\.\.)\s*$/.test(l));
+      i = close > 0 ? close + 1 : 0;
+    }
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      const fenceMatch = FENCE.exec(line);
+      if (fence) {
+        if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) { fence = undefined; }
+        continue;
+      }
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        continue;
+      }
+      const atx = ATX_HEADING.exec(line);
+      if (atx) {
+        startSection(i, atx[1].length, atx[2].trim());
+        continue;
+      }
+      // "Title" followed by === or --- (a --- after a blank line is a thematic break, not a heading)
+      const setext = i + 1 < lines.length ? SETEXT_UNDERLINE.exec(lines[i + 1]) : null;
+      if (setext && line.trim() && !ATX_HEADING.test(line)) {
+        startSection(i, setext[1][0] === '=' ? 1 : 2, line.trim());
+        i++;
+      }
+    }
+    units.push(current);
+
+    // Tiny sections fold into the section they belong to (e.g. a heading followed directly by its subsections)
+    const packed = packUnits(lines, units.filter(u => lines.slice(u.start, u.end + 1).some(l => l.trim())), (parent, next) =>
+      (parent.headingPath ?? []).every((title, i) => next.headingPath?.[i] === title));
+    return packed.flatMap(unit => unitTokens(lines, unit) > MAX_CHUNK_TOKENS ? windowChunks(lines, unit) : [toChunk(lines, unit)]);
+  }
+}
@@ -0,0 +1,77 @@
+import { Document } from '@langchain/core/documents';
+import { Chunk, Chunker } from './base';
+import { MarkdownChunker } from './markdown';
+import { TypeScriptChunker } from './typescript';
+import { WindowChunker } from './window';
+
+/**
+ * Picks the chunker for a file: the most recently registered one whose supports() accepts the path, otherwise the
+ * token-bounded window. A structural chunker that throws falls back to the window for that file.
+ */
+export class ChunkerRegistry {
+  private static instance: ChunkerRegistry | undefined;
+  private readonly chunkers: Chunker[] = [];
+
+  public static getInstance(): ChunkerRegistry {
+    if (!ChunkerRegistry.instance) {
+      ChunkerRegistry.instance = new ChunkerRegistry();
+      ChunkerRegistry.instance.register(new MarkdownChunker());
+      ChunkerRegistry.instance.register(new TypeScriptChunker());
+    }
+    return ChunkerRegistry.instance;
+  }
+
+  constructor(private readonly fallback: Chunker = new WindowChunker()) {}
+
+  public register(chunker: Chunker): void {
+    this.chunkers.unshift(chunker);
+  }
+
+  public resolve(filePath: string): Chunker {
+    return this.chunkers.find(c => c.supports(filePath)) ?? this.fallback;
+  }
+
+  /** Identity of the chunking applied to filePath; stored with the file hash so a chunker upgrade re-indexes */
+  public versionFor(filePath: string): string {
+    const chunker = this.resolve(filePath);
+    return `${chunker.id}@${chunker.version}`;
+  }
+
+  /** Chunk a file into index documents; metadata carries line range, symbols / heading path and the chunker id */
+  public chunk(filePath: string, content: string): Document[] {
+    let chunker = this.resolve(filePath);
+    let chunks: Chunk[];
+    try {
+      chunks = chunker.chunk(content, filePath);
+    } catch (e) {
+      console.warn(`[NaruhoDocs] ${chunker.id} chunker failed for ${filePath}, using the window chunker:`, e);
+      chunker = this.fallback;
+      chunks = chunker.chunk(content, filePath);
+    }
+    return chunks.filter(c => c.content.trim()).map((c, i) => new Document({
+      pageContent: c.content,
+      metadata: {
+        filePath,
+        chunkId: `${filePath}-chunk-${i}`,
+        startLine: c.startLine,
+        endLine: c.endLine,
+        chunker: chunker.id,
+        ...(c.symbols?.length ? { symbols: c.symbols } : {}),
+        ...(c.headingPath?.length ? { headingPath: c.headingPath } : {}),
+        lastUpdated: Date.now()
+      }
+    }));
+  }
+}
+
+/** Where a chunk came from, for tool output and logs: "src/a.ts (Lines 3-40) · ThreadManager.save" */
+export function describeChunk(metadata: Record<string, any>): string {
+  let label = `${metadata.filePath} (Lines ${metadata.startLine}-${metadata.endLine})`;
+  if (Array.isArray(metadata.headingPath) && metadata.headingPath.length) {
+    label += ` · ${metadata.headingPath.join(' > ')}`;
+  }
+  if (Array.isArray(metadata.symbols) && metadata.symbols.length) {
+    label += ` · ${metadata.symbols.join(', ')}`;
+  }
+  return label;
+}
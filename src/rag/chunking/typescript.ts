@@ -0,0 +1,103 @@
+import type * as TS from 'typescript';
+import { Chunk, Chunker, ChunkUnit, MAX_CHUNK_TOKENS, packUnits, toChunk, unitTokens } from './base';
+import { windowChunks } from './window';
+
+let tsModule: typeof TS | undefined;
+// Loaded on first use: the compiler is large and only needed while indexing, so esbuild.js keeps it out of the bundle
+function typescript(): typeof TS {
+  return tsModule ??= require('typescript') as typeof TS;
+}
+
+function scriptKind(ts: typeof TS, filePath: string): TS.ScriptKind {
+  const ext = filePath.toLowerCase().match(/\.[^.]+$/)?.[0];
+  switch (ext) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js': case '.mjs': case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+function declarationNames(ts: typeof TS, node: TS.Node, sourceFile: TS.SourceFile): string[] {
+  if (ts.isVariableStatement(node)) {
+    return node.declarationList.declarations.map(d => d.name.getText(sourceFile));
+  }
+  if (ts.isExportAssignment(node)) {
+    return ['default'];
+  }
+  if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)
+    || ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) {
+    return [node.name ? node.name.getText(sourceFile) : 'default'];
+  }
+  return []; // imports, re-exports, top-level statements
+}
+
+/**
+ * Splits TypeScript / JavaScript on top-level declarations using the compiler's parser, so a function or class is
+ * not cut in half. Leading comments and JSDoc stay with their declaration. A class larger than MAX_CHUNK_TOKENS is
+ * split between members (symbols like 'ThreadManager.saveThreadHistory'); anything else that large falls back to
+ * overlapping windows that keep the declaration's symbols.
+ */
+export class TypeScriptChunker implements Chunker {
+  readonly id = 'typescript';
+  readonly version = 1;
+
+  supports(filePath: string): boolean {
+    return /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i.test(filePath) && !/\.d\.ts$/i.test(filePath);
+  }
+
+  chunk(content: string, filePath: string): Chunk[] {
+    const ts = typescript();
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(ts, filePath));
+    const lines = content.split('\n');
+    const units = this.unitsFor(ts, sourceFile, sourceFile.statements, 0, lines.length - 1, name => name);
+    return packUnits(lines, units).flatMap(unit => {
+      if (unitTokens(lines, unit) <= MAX_CHUNK_TOKENS) { return [toChunk(lines, unit)]; }
+      const className = unit.symbols?.length === 1 ? unit.symbols[0] : undefined;
+      const node = sourceFile.statements.find((s): s is TS.ClassDeclaration => ts.isClassDeclaration(s) && s.name?.text === className);
+      if (className && node?.members.length) {
+        const members = this.unitsFor(ts, sourceFile, node.members, unit.start, unit.end, name => `${className}.${name}`);
+        // The class header joins the first member, so that chunk also names the class
+        members[0].symbols = [className, ...(members[0].symbols ?? [])];
+        return packUnits(lines, members).flatMap(m => unitTokens(lines, m) > MAX_CHUNK_TOKENS ? windowChunks(lines, m) : [toChunk(lines, m)]);
+      }
+      return windowChunks(lines, unit);
+    });
+  }
+
+  /** One unit per node, from its leading comments to the line before the next node; the first starts at start */
+  private unitsFor(ts: typeof TS, sourceFile: TS.SourceFile, nodes: readonly TS.Node[], start: number, end: number, qualify: (name: string) => string): ChunkUnit[] {
+    const units: ChunkUnit[] = [];
+    let lastLine = -1;
+    for (const node of nodes) {
+      const line = Math.max(start, this.startLine(ts, sourceFile, node));
+      const symbols = (ts.isClassElement(node) ? this.memberNames(ts, node, sourceFile) : declarationNames(ts, node, sourceFile)).map(qualify);
+      const last = units[units.length - 1];
+      if (last && line <= lastLine) {
+        // Several statements on one line share a unit
+        last.symbols = [...(last.symbols ?? []), ...symbols];
+        continue;
+      }
+      if (last) { last.end = line - 1; }
+      units.push({ start: units.length ? line : start, end, symbols });
+      lastLine = line;
+    }
+    if (!units.length) {
+      units.push({ start, end });
+    }
+    return units;
+  }
+
+  private memberNames(ts: typeof TS, node: TS.ClassElement, sourceFile: TS.SourceFile): string[] {
+    if (!node.name) {
+      return ts.isConstructorDeclaration(node) ? ['constructor'] : [];
+    }
+    return [node.name.getText(sourceFile)];
+  }
+
+  private startLine(ts: typeof TS, sourceFile: TS.SourceFile, node: TS.Node): number {
+    const comments = ts.getLeadingCommentRanges(sourceFile.text, node.pos);
+    const pos = comments?.length ? comments[0].pos : node.getStart(sourceFile);
+    return sourceFile.getLineAndCharacterOfPosition(pos).line;
+  }
+}
@@ -0,0 +1,59 @@
+import { estimateTokens } from '../../langchain-backend/historyCompaction';
+import { Chunk, Chunker, ChunkUnit, MAX_CHUNK_TOKENS, OVERLAP_TOKENS, toChunk } from './base';
+
+/**
+ * Split lines[unit.start..unit.end] into windows of at most maxTokens that repeat the last overlapTokens of the
+ * previous window. Windows break between lines; a single line longer than maxTokens (minified code, data) is cut
+ * into pieces that all report that line.
+ */
+export function windowChunks(lines: string[], unit: ChunkUnit, maxTokens: number = MAX_CHUNK_TOKENS, overlapTokens: number = OVERLAP_TOKENS): Chunk[] {
+  const chunks: Chunk[] = [];
+  let start = unit.start;
+  while (start <= unit.end) {
+    const firstTokens = estimateTokens(lines[start]) + 1;
+    if (firstTokens > maxTokens) {
+      const size = maxTokens * 4;
+      for (let offset = 0; offset < lines[start].length; offset += size) {
+        chunks.push({ ...toChunk(lines, { ...unit, start, end: start }), content: lines[start].slice(offset, offset + size) });
+      }
+      start++;
+      continue;
+    }
+    let end = start;
+    let tokens = firstTokens;
+    while (end + 1 <= unit.end) {
+      const next = estimateTokens(lines[end + 1]) + 1;
+      if (tokens + next > maxTokens) { break; }
+      tokens += next;
+      end++;
+    }
+    chunks.push(toChunk(lines, { ...unit, start, end }));
+    if (end >= unit.end) { break; }
+    // Step back over the tail of this window, but always move forward
+    let next = end + 1;
+    let overlap = 0;
+    while (next - 1 > start && overlap + estimateTokens(lines[next - 1]) + 1 <= overlapTokens) {
+      overlap += estimateTokens(lines[next - 1]) + 1;
+      next--;
+    }
+    start = next;
+  }
+  return chunks;
+}
+
+/** Fallback for every file without a structural chunker */
+export class WindowChunker implements Chunker {
+  readonly id = 'window';
+  readonly version = 1;
+
+  constructor(private readonly maxTokens: number = MAX_CHUNK_TOKENS, private readonly overlapTokens: number = OVERLAP_TOKENS) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  chunk(content: string): Chunk[] {
+    const lines = content.split('\n');
+    return windowChunks(lines, { start: 0, end: lines.length - 1 }, this.maxTokens, this.overlapTokens);
+  }
+}
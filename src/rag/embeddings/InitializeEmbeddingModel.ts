@@ -4,17 +4,19 @@ import { OllamaEmbeddings } from "./ollama";
 import { HuggingFaceEmbeddings } from "./huggingfaceCloud";
 import { Embeddings } from "@langchain/core/embeddings";
 import { LMStudioEmbeddings } from "./lmStudio";
+import { ApiKeyStore } from "../../managers/ApiKeyStore";
 
 // initialize embedding model based on config
-export async function initializeEmbeddingModel(embeddingConfig: EmbeddingProviderConfig | undefined): Promise<Embeddings> {
+export async function initializeEmbeddingModel(embeddingConfig: EmbeddingProviderConfig | undefined, apiKeys: ApiKeyStore): Promise<Embeddings> {
   let embeddings;
   if (embeddingConfig?.type === 'local') {
+    const batchOptions = { batchSize: embeddingConfig.batchSize, concurrency: embeddingConfig.concurrency, maxRetries: embeddingConfig.maxRetries };
     switch (embeddingConfig?.llmEngine) {
       case 'ollama':
-        embeddings = new OllamaEmbeddings(embeddingConfig?.model ?? 'snowflake-arctic-embed:33m', embeddingConfig?.baseUrl ?? 'http://localhost:11434');
+        embeddings = new OllamaEmbeddings(embeddingConfig?.model ?? 'snowflake-arctic-embed:33m', embeddingConfig?.baseUrl ?? 'http://localhost:11434', batchOptions);
         break;
       case 'lmstudio':
-        embeddings = new LMStudioEmbeddings(embeddingConfig?.model ?? 'all-MiniLM-L6-v2', embeddingConfig?.baseUrl ?? 'http://localhost:1234');
+        embeddings = new LMStudioEmbeddings(embeddingConfig?.model ?? 'all-MiniLM-L6-v2', embeddingConfig?.baseUrl ?? 'http://localhost:1234', batchOptions);
         break;
       default:
         const action = await vscode.window.showErrorMessage(
@@ -27,16 +29,16 @@ export async function initializeEmbeddingModel(embeddingConfig: EmbeddingProvide
         throw new Error(`Unsupported local embedding engine: ${embeddingConfig?.llmEngine}. Supported engines are 'ollama' and 'lmstudio'. Please check your configuration in embeddings.json.`);
     }
   } else if (embeddingConfig?.type === 'huggingface') {
-    const hfApiKey = vscode.workspace.getConfiguration('naruhodocs').get<string>('huggingface.apiKey', '');
-    if (hfApiKey === '') {
+    const hfApiKey = await apiKeys.get('huggingface.apiKey');
+    if (!hfApiKey) {
       const action = await vscode.window.showErrorMessage(
-        'HuggingFace API key for RAG database embedding is not set. Please configure it in settings.',
-        'Open NaruhoDocs Settings'
+        'HuggingFace API key for RAG database embedding is not set.',
+        'Set API Key'
       );
-      if (action === 'Open NaruhoDocs Settings') {
-        await vscode.commands.executeCommand('workbench.action.openSettings', 'naruhodocs');
+      if (action === 'Set API Key') {
+        await vscode.commands.executeCommand('naruhodocs.setApiKey', 'huggingface.apiKey');
       }
-      throw new Error('HuggingFace API key for RAG database embedding is not set. Please configure it in settings.');
+      throw new Error('HuggingFace API key for RAG database embedding is not set. Run "NaruhoDocs: Set API Key" to store it.');
     }
     embeddings = new HuggingFaceEmbeddings(hfApiKey, embeddingConfig?.model ?? 'sentence-transformers/all-MiniLM-L6-v2');
   } else {
@@ -49,4 +51,14 @@ export async function initializeEmbeddingModel(embeddingConfig: EmbeddingProvide
     throw new Error('Unsupported or missing embedding configuration. Please check your settings or embeddings.json file.');
   }
   return embeddings;
-}
\ No newline at end of file
+}
+
+// identity of the model initializeEmbeddingModel would create; the persistent index is dropped when it changes
+export function embeddingModelId(embeddingConfig: EmbeddingProviderConfig | undefined): string {
+  if (embeddingConfig?.type === 'local') {
+    const engine = embeddingConfig.llmEngine ?? 'unknown';
+    const model = embeddingConfig.model ?? (engine === 'lmstudio' ? 'all-MiniLM-L6-v2' : 'snowflake-arctic-embed:33m');
+    return `local/${engine}/${model}`;
+  }
+  return `${embeddingConfig?.type ?? 'unknown'}/${embeddingConfig?.model ?? 'sentence-transformers/all-MiniLM-L6-v2'}`;
+}
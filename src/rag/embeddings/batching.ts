@@ -0,0 +1,123 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import * as vscode from 'vscode';
+
+/** Batching knobs, settable per provider in embeddings.json */
+export interface EmbeddingBatchOptions {
+  batchSize?: number;     // Texts per request (default 32)
+  concurrency?: number;   // Requests in flight at once (default 4)
+  maxRetries?: number;    // Retries of a failed request on transient errors (default 3)
+  retryDelayMs?: number;  // First backoff delay, doubled per retry with jitter (default 500)
+}
+
+export interface EmbeddingProgress {
+  done: number;   // Texts embedded so far in this embedDocuments call
+  total: number;
+}
+
+/** Failed embedding request; retryable for network errors, 408, 429 and 5xx */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryable: boolean = false, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+
+  static fromResponse(message: string, response: Response): EmbeddingRequestError {
+    const status = response.status;
+    const retryAfter = Number(response.headers?.get?.('retry-after'));
+    return new EmbeddingRequestError(message, status, status === 408 || status === 429 || status >= 500,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+}
+
+const MAX_BACKOFF_MS = 10000;
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof EmbeddingRequestError) { return error.retryable; }
+  // fetch rejects with a TypeError when the connection fails or is reset
+  return error instanceof TypeError;
+}
+
+/**
+ * Base for HTTP embedding providers that accept several texts per request. embedDocuments splits the texts into
+ * batchSize requests, keeps up to concurrency of them in flight, retries transient failures with exponential
+ * backoff, and fires onDidProgress after each batch. Subclasses implement embedBatch and say how a final failure is
+ * shown to the user.
+ */
+export abstract class BatchedEmbeddings extends Embeddings {
+  private readonly progressEmitter = new vscode.EventEmitter<EmbeddingProgress>();
+  public readonly onDidProgress = this.progressEmitter.event;
+  protected readonly batchOptions: Required<EmbeddingBatchOptions>;
+
+  constructor(options: EmbeddingBatchOptions = {}) {
+    super({});
+    const positive = (value: number | undefined, fallback: number) => typeof value === 'number' && value >= 1 ? Math.floor(value) : fallback;
+    this.batchOptions = {
+      batchSize: positive(options.batchSize, 32),
+      concurrency: positive(options.concurrency, 4),
+      maxRetries: typeof options.maxRetries === 'number' && options.maxRetries >= 0 ? Math.floor(options.maxRetries) : 3,
+      retryDelayMs: typeof options.retryDelayMs === 'number' && options.retryDelayMs >= 0 ? options.retryDelayMs : 500
+    };
+  }
+
+  /** One request embedding every text, results in input order */
+  protected abstract embedBatch(texts: string[]): Promise<number[][]>;
+
+  /** Tell the user about a request that failed for good (once per embedQuery / embedDocuments call) */
+  protected abstract reportFailure(error: unknown): void;
+
+  async embedQuery(text: string): Promise<number[]> {
+    try {
+      return (await this.withRetry(() => this.embedBatch([text])))[0];
+    } catch (error) {
+      this.reportFailure(error);
+      throw error;
+    }
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    if (!documents.length) { return []; }
+    const { batchSize, concurrency } = this.batchOptions;
+    const batches: string[][] = [];
+    for (let i = 0; i < documents.length; i += batchSize) {
+      batches.push(documents.slice(i, i + batchSize));
+    }
+    const results: number[][][] = new Array(batches.length);
+    let next = 0;
+    let done = 0;
+    let failed = false;
+    const worker = async () => {
+      while (!failed && next < batches.length) {
+        const index = next++;
+        try {
+          results[index] = await this.withRetry(() => this.embedBatch(batches[index]));
+        } catch (error) {
+          failed = true; // Other workers finish their current request and stop
+          throw error;
+        }
+        done += batches[index].length;
+        this.progressEmitter.fire({ done, total: documents.length });
+      }
+    };
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+    } catch (error) {
+      this.reportFailure(error);
+      throw error;
+    }
+    return results.flat();
+  }
+
+  private async withRetry(request: () => Promise<number[][]>): Promise<number[][]> {
+    const { maxRetries, retryDelayMs } = this.batchOptions;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) { throw error; }
+        const backoff = Math.min(MAX_BACKOFF_MS, retryDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+        const delay = error instanceof EmbeddingRequestError && error.retryAfterMs ? Math.min(MAX_BACKOFF_MS, error.retryAfterMs) : backoff;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -1,14 +1,14 @@
-import { Embeddings } from '@langchain/core/embeddings';
 import * as vscode from 'vscode';
+import { BatchedEmbeddings, EmbeddingBatchOptions, EmbeddingRequestError } from './batching';
 
-export class LMStudioEmbeddings extends Embeddings {
+export class LMStudioEmbeddings extends BatchedEmbeddings {
   private readonly EMBEDDING_DIMENSION = 384; // Adjust based on the model used
 
   private LM_STUDIO_URL: string;
   private MODEL: string;
 
-  constructor(model: string, url: string) {
-    super({});
+  constructor(model: string, url: string, batchOptions?: EmbeddingBatchOptions) {
+    super(batchOptions);
     this.MODEL = model;
     if (!url || url.trim() === '') {
       url = 'http://localhost:1234'; // Default LM Studio server URL
@@ -16,51 +16,44 @@ export class LMStudioEmbeddings extends Embeddings {
     this.LM_STUDIO_URL = url;
   }
 
-  async embedQuery(text: string): Promise<number[]> {
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
     const url = `${this.LM_STUDIO_URL}/v1/embeddings`;
     const body = {
       model: this.MODEL,
-      input: text // Updated field name to 'input' as required by the server
+      input: texts // OpenAI-style endpoint, accepts an array and returns one entry per input
     };
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      });
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error(`Please make sure that the LM Studio server is running and the model '${this.MODEL}' is installed. 
-            If you are running the server at localhost, you might want to check whether you start your server in LM Studio\'s Developer tab (https://lmstudio.ai/docs/app/api).`);
-        } else {
-          throw new Error(`LM Studio embedding request failed: ${response.status} ${response.statusText}`);
-        }
-      }
-      const data = await response.json();
-      if (!data.data[0].embedding) {
-        throw new Error('LM Studio response missing embedding');
-      }
-      return data.data[0].embedding;
-    } catch (error) {
-      if (error instanceof TypeError && error.message.includes('fetch failed')) {
-        vscode.window.showErrorMessage('Failed to connect to LM Studio server. Please ensure the server is running and accessible. If you are running the server at localhost, you might want to check whether you start your server in LM Studio\'s Developer tab (https://lmstudio.ai/docs/app/api).');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw EmbeddingRequestError.fromResponse(`Please make sure that the LM Studio server is running and the model '${this.MODEL}' is installed. 
+          If you are running the server at localhost, you might want to check whether you start your server in LM Studio\'s Developer tab (https://lmstudio.ai/docs/app/api).`, response);
       } else {
-        vscode.window.showErrorMessage(`Error during LM Studio embedding request: ${error}`);
+        throw EmbeddingRequestError.fromResponse(`LM Studio embedding request failed: ${response.status} ${response.statusText}`, response);
       }
-      throw error;
     }
+    const data = await response.json();
+    const entries: Array<{ index?: number; embedding?: number[] }> = Array.isArray(data.data) ? data.data : [];
+    const embeddings: number[][] = new Array(texts.length);
+    entries.forEach((entry, i) => { embeddings[entry.index ?? i] = entry.embedding!; });
+    if (entries.length !== texts.length || [...embeddings].some(e => !e)) {
+      throw new Error('LM Studio response missing embedding');
+    }
+    return embeddings;
   }
 
-  async embedDocuments(documents: string[]): Promise<number[][]> {
-    // LM Studio API does not natively support batch, so embed one by one
-    const results: number[][] = [];
-    for (const doc of documents) {
-      results.push(await this.embedQuery(doc));
+  protected reportFailure(error: unknown): void {
+    if (error instanceof TypeError && error.message.includes('fetch failed')) {
+      vscode.window.showErrorMessage('Failed to connect to LM Studio server. Please ensure the server is running and accessible. If you are running the server at localhost, you might want to check whether you start your server in LM Studio\'s Developer tab (https://lmstudio.ai/docs/app/api).');
+    } else {
+      vscode.window.showErrorMessage(`Error during LM Studio embedding request: ${error}`);
     }
-    return results;
   }
 
   dimension(): number {
     return this.EMBEDDING_DIMENSION;
   }
-}
\ No newline at end of file
+}
@@ -1,14 +1,15 @@
-import { Embeddings } from '@langchain/core/embeddings';
 import * as vscode from 'vscode';
+import { BatchedEmbeddings, EmbeddingBatchOptions, EmbeddingRequestError } from './batching';
 
-export class OllamaEmbeddings extends Embeddings {
+export class OllamaEmbeddings extends BatchedEmbeddings {
   private readonly EMBEDDING_DIMENSION = 384; // Adjust based on the model used
 
   private OLLAMA_URL: string;
   private MODEL: string;
+  private legacyApi = false; // Servers older than 0.3.4 only have /api/embeddings, one prompt per request
 
-  constructor(model: string, url: string) {
-    super({});
+  constructor(model: string, url: string, batchOptions?: EmbeddingBatchOptions) {
+    super(batchOptions);
     this.MODEL = model;
     if(!url || url.trim() === '') {
       url = 'http://localhost:11434';
@@ -16,25 +17,55 @@ export class OllamaEmbeddings extends Embeddings {
     this.OLLAMA_URL = url;
   }
 
-  async embedQuery(text: string): Promise<number[]> {
-    const url = `${this.OLLAMA_URL}/api/embeddings`;
-    const body = {
-      model: this.MODEL,
-      prompt: text
-    };
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body)
-    });
-    if (!response.ok) {
-      if (response.status === 404) {
-        vscode.window.showErrorMessage(`Please make sure that the Ollama server is running and the model '${this.MODEL}' is installed. `);
-        throw new Error(`Please make sure that the Ollama server is running and the model '${this.MODEL}' is installed. `);
-      } else {
-        vscode.window.showErrorMessage(`Ollama embedding request failed: ${response.status} ${response.statusText}`);
-        throw new Error(`Ollama embedding request failed: ${response.status} ${response.statusText}`);
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!this.legacyApi) {
+      const response = await this.post('/api/embed', { model: this.MODEL, input: texts });
+      if (response.ok) {
+        const data = await response.json();
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+          throw new Error('Ollama response missing embeddings');
+        }
+        return data.embeddings;
+      }
+      if (response.status !== 404 || !await this.supportsLegacyApi()) {
+        throw this.requestError(response);
       }
+      this.legacyApi = true;
+    }
+    // One prompt per request; sent in turn so a batch stays within the concurrency limit
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      embeddings.push(await this.embedLegacy(text));
+    }
+    return embeddings;
+  }
+
+  protected reportFailure(error: unknown): void {
+    if (error instanceof TypeError) {
+      vscode.window.showErrorMessage(`Failed to connect to the Ollama server at ${this.OLLAMA_URL}. Please ensure the server is running and accessible.`);
+    } else {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : `Ollama embedding request failed: ${error}`);
+    }
+  }
+
+  dimension(): number {
+    return this.EMBEDDING_DIMENSION;
+  }
+
+  // /api/embed also answers 404 for a missing model, so only fall back when the old endpoint works
+  private async supportsLegacyApi(): Promise<boolean> {
+    try {
+      const response = await this.post('/api/embeddings', { model: this.MODEL, prompt: '' });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private async embedLegacy(text: string): Promise<number[]> {
+    const response = await this.post('/api/embeddings', { model: this.MODEL, prompt: text });
+    if (!response.ok) {
+      throw this.requestError(response);
     }
     const data = await response.json();
     if (!data.embedding) {
@@ -43,16 +74,18 @@ export class OllamaEmbeddings extends Embeddings {
     return data.embedding;
   }
 
-  async embedDocuments(documents: string[]): Promise<number[][]> {
-    // Ollama API does not natively support batch, so embed one by one
-    const results: number[][] = [];
-    for (const doc of documents) {
-      results.push(await this.embedQuery(doc));
-    }
-    return results;
+  private post(path: string, body: object): Promise<Response> {
+    return fetch(`${this.OLLAMA_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
   }
 
-  dimension(): number {
-    return this.EMBEDDING_DIMENSION;
+  private requestError(response: Response): EmbeddingRequestError {
+    if (response.status === 404) {
+      return EmbeddingRequestError.fromResponse(`Please make sure that the Ollama server is running and the model '${this.MODEL}' is installed. `, response);
+    }
+    return EmbeddingRequestError.fromResponse(`Ollama embedding request failed: ${response.status} ${response.statusText}`, response);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+// Okapi BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedChunk {
+  filePath: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Identifier-aware tokens: words are lowercased, and compound identifiers are kept whole and also split into their
+ * camelCase / snake_case parts, so 'ThreadManager.saveThreadHistory' matches the exact identifier strongly and
+ * 'thread history' still matches it weakly.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_$]+/gu) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1) { tokens.push(lower); }
+    const parts = word.split(/_+|\$|(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u).filter(p => p.length > 1);
+    if (parts.length > 1) {
+      tokens.push(...parts.map(p => p.toLowerCase()));
+    }
+  }
+  return tokens;
+}
+
+/** In-memory BM25 index over chunks, kept by the vector stores next to their embeddings */
+export class KeywordIndex {
+  private readonly chunks = new Map<string, IndexedChunk>();
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly fileChunks = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  add(id: string, filePath: string, text: string): void {
+    this.remove(id);
+    const terms = new Map<string, number>();
+    const tokens = tokenize(text);
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+    this.chunks.set(id, { filePath, terms, length: tokens.length });
+    this.totalLength += tokens.length;
+    for (const term of terms.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) { this.postings.set(term, ids = new Set()); }
+      ids.add(id);
+    }
+    let ids = this.fileChunks.get(filePath);
+    if (!ids) { this.fileChunks.set(filePath, ids = new Set()); }
+    ids.add(id);
+  }
+
+  remove(id: string): void {
+    const chunk = this.chunks.get(id);
+    if (!chunk) { return; }
+    this.chunks.delete(id);
+    this.totalLength -= chunk.length;
+    for (const term of chunk.terms.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && !ids.size) { this.postings.delete(term); }
+    }
+    const fileIds = this.fileChunks.get(chunk.filePath);
+    fileIds?.delete(id);
+    if (fileIds && !fileIds.size) { this.fileChunks.delete(chunk.filePath); }
+  }
+
+  removeFile(filePath: string): void {
+    for (const id of [...(this.fileChunks.get(filePath) ?? [])]) {
+      this.remove(id);
+    }
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.postings.clear();
+    this.fileChunks.clear();
+    this.totalLength = 0;
+  }
+
+  /** Chunk ids by descending BM25 score; chunks sharing no term with the query are not returned */
+  search(query: string, k: number): Array<{ id: string; score: number }> {
+    const n = this.chunks.size;
+    if (!n) { return []; }
+    const avgLength = this.totalLength / n || 1;
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const ids = this.postings.get(term);
+      if (!ids) { continue; }
+      const idf = Math.log(1 + (n - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        const chunk = this.chunks.get(id)!;
+        const tf = chunk.terms.get(term)!;
+        const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / avgLength));
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
+
+/** What gets indexed for a chunk: its text plus the symbol names and heading breadcrumb from the chunker */
+export function keywordText(pageContent: string, metadata: Record<string, any>): string {
+  const extra = [...(Array.isArray(metadata.symbols) ? metadata.symbols : []), ...(Array.isArray(metadata.headingPath) ? metadata.headingPath : [])];
+  return extra.length ? `${extra.join('\n')}\n${pageContent}` : pageContent;
+}
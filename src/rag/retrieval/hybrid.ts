@@ -0,0 +1,68 @@
+import { cosineSimilarity, ScoredChunk, WorkspaceVectorStore } from '../vectorstore/base';
+
+export interface HybridSearchOptions {
+  k?: number;            // Chunks returned
+  candidates?: number;   // Chunks taken from each search before fusion
+  rrfK?: number;         // Reciprocal rank fusion constant; larger flattens the advantage of top ranks
+  lambda?: number;       // MMR trade-off: 1 = relevance only, 0 = diversity only
+}
+
+export interface FusedChunk extends ScoredChunk {
+  ranks: { semantic?: number; keyword?: number };  // 1-based rank in each list the chunk appeared in
+}
+
+/**
+ * Reciprocal rank fusion: score(d) = sum over lists of 1 / (rrfK + rank). Only ranks matter, so BM25 and cosine
+ * scores need no common scale.
+ */
+export function reciprocalRankFusion(lists: Record<'semantic' | 'keyword', ScoredChunk[]>, rrfK: number = 60): FusedChunk[] {
+  const fused = new Map<string, FusedChunk>();
+  for (const [name, list] of Object.entries(lists) as Array<['semantic' | 'keyword', ScoredChunk[]]>) {
+    list.forEach((chunk, i) => {
+      const entry = fused.get(chunk.id) ?? { ...chunk, score: 0, ranks: {} };
+      entry.score += 1 / (rrfK + i + 1);
+      entry.ranks[name] = i + 1;
+      fused.set(chunk.id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the candidate with the best
+ * lambda * relevance - (1 - lambda) * (highest cosine similarity to an already picked chunk).
+ * Relevance is the candidate's score scaled to [0, 1], so near-duplicates of a picked chunk drop down the list.
+ */
+export function maximalMarginalRelevance<T extends ScoredChunk>(candidates: T[], k: number, lambda: number = 0.7): T[] {
+  if (!candidates.length) { return []; }
+  const top = Math.max(...candidates.map(c => c.score)) || 1;
+  const remaining = [...candidates];
+  const picked: T[] = [];
+  while (picked.length < k && remaining.length) {
+    let best = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = picked.length ? Math.max(...picked.map(p => cosineSimilarity(candidate.embedding, p.embedding))) : 0;
+      const value = lambda * (candidate.score / top) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        best = i;
+      }
+    });
+    picked.push(remaining.splice(best, 1)[0]);
+  }
+  return picked;
+}
+
+/**
+ * Semantic and BM25 search over the same store, merged with reciprocal rank fusion and diversified with MMR. Exact
+ * identifiers that a small embedding model misses still surface through the keyword list.
+ */
+export async function hybridSearch(store: WorkspaceVectorStore, query: string, options: HybridSearchOptions = {}): Promise<FusedChunk[]> {
+  const k = options.k ?? 15;
+  const candidates = options.candidates ?? k * 3;
+  const semantic = await store.searchVectors(query, candidates);
+  const keyword = store.keywordSearch(query, candidates);
+  const fused = reciprocalRankFusion({ semantic, keyword }, options.rrfK);
+  return maximalMarginalRelevance(fused, k, options.lambda);
+}
@@ -0,0 +1,55 @@
+import { Document } from "@langchain/core/documents";
+
+/** A chunk returned by one of the searches; id is stable within the store so result lists can be fused */
+export interface ScoredChunk {
+  id: string;
+  document: Document;
+  score: number;
+  embedding: ArrayLike<number>;
+}
+
+/** One file's chunks for replaceFiles */
+export interface FileChunks {
+  filePath: string;
+  hash: string;
+  documents: Document[];
+}
+
+/**
+ * Surface shared by the workspace vector stores (in-memory and SQLite-backed).
+ * Chunks are grouped by the file they came from (metadata.filePath) so a file can be re-indexed on its own,
+ * and each file remembers the content hash it was indexed at. Every store keeps a BM25 keyword index of the
+ * same chunks next to the embeddings.
+ */
+export interface WorkspaceVectorStore {
+  addDocuments(documents: Document[]): Promise<void>;
+  similaritySearch(query: string, k?: number): Promise<Document[]>;
+  /** Top k chunks by cosine similarity to the query, with their embeddings */
+  searchVectors(query: string, k: number): Promise<ScoredChunk[]>;
+  /** Top k chunks by BM25 score; no embedding call */
+  keywordSearch(query: string, k: number): ScoredChunk[];
+  count(): number;
+  /** Content hash the file was last indexed at, undefined when it is not indexed */
+  getFileHash(filePath: string): string | undefined;
+  getIndexedFiles(): string[];
+  /** Replace every chunk of filePath with documents (embedded here) and record its hash */
+  replaceFile(filePath: string, hash: string, documents: Document[]): Promise<void>;
+  /** replaceFile for several files with one embedDocuments call, so small files share embedding batches */
+  replaceFiles(files: FileChunks[]): Promise<void>;
+  removeFile(filePath: string): Promise<void>;
+  /** Drop every chunk and file hash */
+  clear(): Promise<void>;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
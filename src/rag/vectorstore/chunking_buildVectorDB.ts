@@ -1,63 +1,128 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 // import vectorStore from './vectorStoreSingleton';
 import { Document } from '@langchain/core/documents';
-import { LocalMemoryVectorStore } from './memory';
-
-//to build the database from workspace files
-export async function buildVectorDB(vectorStore: LocalMemoryVectorStore) {
-  // Use the shared vector store instance
-  const docs: Document[] = [];
-  const files = await vscode.workspace.findFiles('**/*', '{**/node_modules/**,**/.next/**,**/.vercel/**}');
-  const notAllowedExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.svg', '.ico', '.exe', '.dll', '.bin', '.class', '.jar', '.war', '.zip', '.tar', '.gz', '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.pdf', '.naruhodocs', '.map', '.vsix', '.min.js'];
-  const notAllowedFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
-  for (const file of files) {
-    const fileName = file.fsPath.split(/[/\\]/).pop()?.toLowerCase() || '';
-    if (notAllowedExtensions.some(ext => file.fsPath.endsWith(ext))) { continue; }
-    if (notAllowedFiles.includes(fileName)) { continue; }
-    try {
-      const content = (await vscode.workspace.fs.readFile(file)).toString();
-      // Skip empty or whitespace-only files
-      if (!content || content.trim().length === 0 || content.trim() === '{}') {
-        continue;
-      }
-
-      // Simple chunking: split content into line-based chunks
-      const lines = content.split('\n');
-      const chunkSize = 150; // Number of lines per chunk
-      for (let i = 0; i < lines.length; i += chunkSize) {
-        const chunk = lines.slice(i, i + chunkSize).join('\n');
-        docs.push(new Document({
-          pageContent: chunk,
-          metadata: {
-            filePath: file.fsPath,
-            chunkId: `${file.fsPath}-chunk-${Math.floor(i / chunkSize)}`,
-            startLine: i + 1,
-            endLine: Math.min(i + chunkSize, lines.length),
-            lastUpdated: Date.now()
-          }
-        }));
-      }
-
-      // Add whole file as single chunk
-      // docs.push(new Document({
-      //   pageContent: content,
-      //   metadata: {
-      //     filePath: file.fsPath,
-      //     chunkId: file.fsPath,
-      //     startLine: 1,
-      //     endLine: content.split('\n').length,
-      //     lastUpdated: Date.now()
-      //   }
-      // }));
-    } catch (e) {
-      console.warn('Failed to read file for vector DB:', file.fsPath, e);
+import { ChunkerRegistry } from '../chunking/registry';
+import { FileChunks, WorkspaceVectorStore } from './base';
+import { redactSecrets } from '../../managers/Redactor';
+
+export interface BuildVectorDBResult {
+  indexed: number;   // files (re-)embedded
+  unchanged: number; // files skipped because their hash matched the stored one
+  removed: number;   // files dropped from the index because they no longer exist
+  chunks: number;    // chunks in the store afterwards
+}
+
+/** Hash of the content that gets chunked (after redaction), compared against the stored one to skip re-embedding */
+export function contentHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** Index documents for one file, split by the chunker registered for its type */
+export function chunkFile(filePath: string, content: string): Document[] {
+  return ChunkerRegistry.getInstance().chunk(filePath, content);
+}
+
+export type IndexFileOutcome = 'indexed' | 'unchanged' | 'skipped';
+
+// Chunks collected across files before one replaceFiles call during a full scan; the provider splits them into batches
+const FULL_SCAN_GROUP_CHUNKS = 256;
+
+// Dependency and build output folders, VCS internals, and the extension's own logs (rewritten on every LLM call)
+export const INDEX_EXCLUDE_GLOB = '{**/node_modules/**,**/.next/**,**/.vercel/**,**/.git/**,**/.naruhodocs/logs/**}';
+const EXCLUDED_DIRS = ['node_modules', '.next', '.vercel', '.git'];
+const notAllowedExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.svg', '.ico', '.exe', '.dll', '.bin', '.class', '.jar', '.war', '.zip', '.tar', '.gz', '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.pdf', '.naruhodocs', '.map', '.vsix', '.min.js'];
+const notAllowedFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+/** Same rules as the full scan, for paths reported by file system events */
+export function isIndexable(fsPath: string): boolean {
+  const segments = fsPath.split(/[/\\]/);
+  const fileName = segments[segments.length - 1]?.toLowerCase() || '';
+  if (segments.some(s => EXCLUDED_DIRS.includes(s))) { return false; }
+  if (segments.some((s, i) => s === '.naruhodocs' && segments[i + 1] === 'logs')) { return false; }
+  if (notAllowedExtensions.some(ext => fsPath.endsWith(ext))) { return false; }
+  return !notAllowedFiles.includes(fileName);
+}
+
+/**
+ * Re-chunk and re-embed one file unless its content hash matches the stored one. A file that became empty is
+ * dropped from the index. Read errors skip the file; embedding errors propagate, the provider is down or
+ * misconfigured and retrying every file would not help.
+ */
+export async function indexFile(vectorStore: WorkspaceVectorStore, file: vscode.Uri): Promise<IndexFileOutcome> {
+  const { outcome, chunks } = await prepareFile(vectorStore, file);
+  if (chunks) {
+    await vectorStore.replaceFiles([chunks]);
+  }
+  return outcome;
+}
+
+// Read, redact and chunk a file; chunks is set when the file has to be (re-)embedded
+async function prepareFile(vectorStore: WorkspaceVectorStore, file: vscode.Uri): Promise<{ outcome: IndexFileOutcome; chunks?: FileChunks }> {
+  let content: string;
+  try {
+    // Chunks go to the embedding provider and later back into prompts, so secrets are replaced before indexing
+    content = redactSecrets((await vscode.workspace.fs.readFile(file)).toString(), `index:${vscode.workspace.asRelativePath(file)}`);
+  } catch (e) {
+    console.warn('Failed to read file for vector DB:', file.fsPath, e);
+    return { outcome: 'skipped' };
+  }
+  // Skip empty or whitespace-only files
+  if (!content || content.trim().length === 0 || content.trim() === '{}') {
+    if (vectorStore.getFileHash(file.fsPath) !== undefined) {
+      await vectorStore.removeFile(file.fsPath);
+    }
+    return { outcome: 'skipped' };
+  }
+  // A new chunker version changes the hash too, so upgraded files are re-chunked
+  const hash = `${ChunkerRegistry.getInstance().versionFor(file.fsPath)}:${contentHash(content)}`;
+  if (vectorStore.getFileHash(file.fsPath) === hash) {
+    return { outcome: 'unchanged' };
+  }
+  return { outcome: 'indexed', chunks: { filePath: file.fsPath, hash, documents: chunkFile(file.fsPath, content) } };
+}
+
+//to build the database from workspace files; files whose content hash is already in the store are not re-embedded.
+//isCancelled is checked before each file: a cancelled scan stops there and leaves deleted files for the next scan
+export async function buildVectorDB(vectorStore: WorkspaceVectorStore, onProgress?: (done: number, total: number) => void, isCancelled?: () => boolean): Promise<BuildVectorDBResult> {
+  const result: BuildVectorDBResult = { indexed: 0, unchanged: 0, removed: 0, chunks: 0 };
+  const files = (await vscode.workspace.findFiles('**/*', INDEX_EXCLUDE_GLOB)).filter(file => isIndexable(file.fsPath));
+  // Changed files are embedded in groups so small files fill the provider's batches
+  let pending: FileChunks[] = [];
+  let pendingChunks = 0;
+  for (let i = 0; i < files.length; i++) {
+    if (isCancelled?.()) {
+      return result;
+    }
+    onProgress?.(i, files.length);
+    const { outcome, chunks } = await prepareFile(vectorStore, files[i]);
+    if (outcome !== 'skipped') {
+      result[outcome]++;
+    }
+    if (chunks) {
+      pending.push(chunks);
+      pendingChunks += chunks.documents.length;
+    }
+    if (pending.length && (pendingChunks >= FULL_SCAN_GROUP_CHUNKS || i === files.length - 1)) {
+      await vectorStore.replaceFiles(pending);
+      pending = [];
+      pendingChunks = 0;
+    }
+  }
+  // Deleted (or now excluded) since the index was written
+  const present = new Set(files.map(file => file.fsPath));
+  for (const filePath of vectorStore.getIndexedFiles()) {
+    if (!present.has(filePath)) {
+      await vectorStore.removeFile(filePath);
+      result.removed++;
     }
   }
-  if (docs.length > 0) {
-    await vectorStore.addDocuments(docs);
-    vscode.window.showInformationMessage(`NaruhoDocs: Vector DB built with ${docs.length} files.`);
-    console.log(vectorStore.similaritySearch('NaruhoDocs: Vector DB built! '));
+  result.chunks = vectorStore.count();
+  if (result.chunks > 0) {
+    const reused = result.unchanged ? `, ${result.unchanged} unchanged` : '';
+    vscode.window.showInformationMessage(`NaruhoDocs: Vector DB ready with ${result.chunks} chunks (${result.indexed} files indexed${reused}).`);
   } else {
     vscode.window.showWarningMessage('NaruhoDocs: No files found for vector DB.');
   }
-}
\ No newline at end of file
+  return result;
+}
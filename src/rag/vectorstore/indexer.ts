@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WorkspaceVectorStore } from './base';
+import { EmbeddingProgress } from '../embeddings/batching';
+import { buildVectorDB, BuildVectorDBResult, INDEX_EXCLUDE_GLOB, indexFile, isIndexable } from './chunking_buildVectorDB';
+
+type PendingChange = { uri: vscode.Uri; change: 'upsert' | 'delete' };
+
+const DEFAULT_DEBOUNCE_MS = 1500;
+
+/**
+ * Keeps the vector index in sync with the workspace. fullScan indexes every new or changed file once; after that
+ * create / change / delete / rename events are collected for debounceMs (a save burst or a branch switch becomes one
+ * batch) and only the affected files are re-chunked and re-embedded, by content hash. Deleted files and folders
+ * lose their chunks. Scans and batches run one at a time; progress and the index size show in the status bar.
+ */
+export class WorkspaceIndexer implements vscode.Disposable {
+  private readonly pending = new Map<string, PendingChange>();
+  private timer: NodeJS.Timeout | undefined;
+  private work: Promise<unknown> = Promise.resolve();
+  private statusItem: vscode.StatusBarItem | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+  private lastError: string | undefined;
+  private disposed = false;
+
+  constructor(private readonly store: WorkspaceVectorStore, private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS) {}
+
+  /** Start watching the workspace and show the status bar item */
+  public register(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    this.statusItem.command = 'naruhodocs.rebuildVectorDB';
+    this.disposables.push(
+      watcher,
+      this.statusItem,
+      watcher.onDidCreate(uri => this.enqueue(uri, 'upsert')),
+      watcher.onDidChange(uri => this.enqueue(uri, 'upsert')),
+      watcher.onDidDelete(uri => this.enqueue(uri, 'delete')),
+      // The watcher reports renames as delete + create too; explicit events cover folders moved inside the editor
+      vscode.workspace.onDidRenameFiles(e => e.files.forEach(({ oldUri, newUri }) => {
+        this.enqueue(oldUri, 'delete');
+        this.enqueue(newUri, 'upsert');
+      }))
+    );
+    this.updateStatus();
+  }
+
+  /** Index every new or changed workspace file and drop files that no longer exist */
+  public fullScan(): Promise<BuildVectorDBResult> {
+    return this.schedule(() => buildVectorDB(this.store, (done, total) => this.showProgress(done, total), () => this.disposed));
+  }
+
+  /** Show chunk-level progress of the embedding provider while a scan or batch waits on it */
+  public trackEmbeddingProgress(onDidProgress: vscode.Event<EmbeddingProgress>): void {
+    this.disposables.push(onDidProgress(({ done, total }) => {
+      if (!this.statusItem || done >= total) { return; }
+      this.statusItem.text = `$(sync~spin) Embedding ${done}/${total}`;
+      this.statusItem.tooltip = 'NaruhoDocs: embedding chunks for the RAG vector index';
+      this.statusItem.show();
+    }));
+  }
+
+  /** Queue a file system change; the latest change per path wins */
+  public enqueue(uri: vscode.Uri, change: 'upsert' | 'delete'): void {
+    if (this.disposed || (change === 'upsert' && !isIndexable(uri.fsPath))) { return; }
+    this.pending.set(uri.fsPath, { uri, change });
+    if (this.timer) { clearTimeout(this.timer); }
+    this.timer = setTimeout(() => { void this.flush(); }, this.debounceMs);
+  }
+
+  /** Process queued changes now instead of waiting for the debounce; resolves when they are in the index */
+  public flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+    if (!batch.length) { return this.work.then(() => undefined); }
+    return this.schedule(() => this.process(batch));
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    if (this.timer) { clearTimeout(this.timer); }
+    this.pending.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables.length = 0;
+    this.statusItem = undefined;
+  }
+
+  /** Dispose, then wait until a running scan or batch has stopped writing to the store so it can be closed */
+  public async stop(): Promise<void> {
+    this.dispose();
+    await this.work;
+  }
+
+  private schedule<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.work.then(task);
+    this.work = run.then(() => this.updateStatus(), error => {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.updateStatus();
+    });
+    return run;
+  }
+
+  private async process(batch: PendingChange[]): Promise<void> {
+    this.lastError = undefined;
+    for (let i = 0; i < batch.length; i++) {
+      if (this.disposed) { return; }
+      this.showProgress(i, batch.length);
+      const { uri, change } = batch[i];
+      try {
+        if (change === 'delete') {
+          await this.removePath(uri.fsPath);
+        } else {
+          await this.upsert(uri);
+        }
+      } catch (error) {
+        // The file keeps its previous chunks (or none); its next change retries
+        this.lastError = error instanceof Error ? error.message : String(error);
+        console.warn('[NaruhoDocs] Failed to update the vector index for', uri.fsPath, error);
+      }
+    }
+  }
+
+  private async upsert(uri: vscode.Uri): Promise<void> {
+    let stat: vscode.FileStat;
+    try {
+      stat = await vscode.workspace.fs.stat(uri);
+    } catch {
+      await this.removePath(uri.fsPath); // Gone again before the batch ran
+      return;
+    }
+    if (stat.type & vscode.FileType.Directory) {
+      // A folder created or moved in: its files get no events of their own
+      const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*'), INDEX_EXCLUDE_GLOB);
+      for (const file of files.filter(f => isIndexable(f.fsPath))) {
+        await indexFile(this.store, file);
+      }
+      return;
+    }
+    await indexFile(this.store, uri);
+  }
+
+  /** Remove a file, or every indexed file below a deleted folder */
+  private async removePath(fsPath: string): Promise<void> {
+    const prefix = fsPath.endsWith(path.sep) ? fsPath : fsPath + path.sep;
+    for (const filePath of this.store.getIndexedFiles()) {
+      if (filePath === fsPath || filePath.startsWith(prefix)) {
+        await this.store.removeFile(filePath);
+      }
+    }
+  }
+
+  private showProgress(done: number, total: number): void {
+    if (!this.statusItem) { return; }
+    this.statusItem.text = `$(sync~spin) Indexing ${done}/${total}`;
+    this.statusItem.tooltip = 'NaruhoDocs: updating the RAG vector index';
+    this.statusItem.show();
+  }
+
+  private updateStatus(): void {
+    if (!this.statusItem) { return; }
+    const files = this.store.getIndexedFiles().length;
+    if (this.lastError) {
+      this.statusItem.text = '$(warning) RAG index';
+      this.statusItem.tooltip = `NaruhoDocs: indexing failed (${this.lastError}). ${files} files indexed. Click to rebuild.`;
+    } else {
+      this.statusItem.text = `$(database) RAG ${this.store.count()}`;
+      this.statusItem.tooltip = `NaruhoDocs: ${this.store.count()} chunks from ${files} files indexed. Click to rebuild.`;
+    }
+    this.statusItem.show();
+  }
+}
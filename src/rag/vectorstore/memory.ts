@@ -2,10 +2,16 @@
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
 import { Document } from "@langchain/core/documents";
 import { Embeddings } from "@langchain/core/embeddings";
+import { cosineSimilarity, FileChunks, ScoredChunk, WorkspaceVectorStore } from "./base";
+import { KeywordIndex, keywordText } from "../retrieval/bm25";
 
-export class LocalMemoryVectorStore {
+// Fallback when there is no workspace storage (or SQLite cannot load): nothing survives a reload
+export class LocalMemoryVectorStore implements WorkspaceVectorStore {
   private store: MemoryVectorStore;
   private embeddingsProvider: Embeddings;
+  private fileHashes = new Map<string, string>();
+  private keywords = new KeywordIndex();
+  private nextId = 0;
 
   constructor(embeddingsProvider: Embeddings) {
     this.embeddingsProvider = embeddingsProvider;
@@ -13,14 +19,86 @@ export class LocalMemoryVectorStore {
   }
 
   async addDocuments(documents: Document[]): Promise<void> {
-    await this.store.addDocuments(documents);
+    const withIds = this.withIds(documents);
+    await this.store.addDocuments(withIds);
+    this.indexKeywords(withIds);
   }
 
   async similaritySearch(query: string, k: number = 15): Promise<Document[]> {
     return this.store.similaritySearch(query, k);
   }
 
+  async searchVectors(query: string, k: number): Promise<ScoredChunk[]> {
+    if (!this.store.memoryVectors.length) { return []; }
+    const queryVector = await this.embeddingsProvider.embedQuery(query);
+    return this.store.memoryVectors
+      .map(v => ({ v, score: cosineSimilarity(queryVector, v.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ v, score }) => ({ id: v.metadata.chunkId, document: new Document({ pageContent: v.content, metadata: v.metadata }), score, embedding: v.embedding }));
+  }
+
+  keywordSearch(query: string, k: number): ScoredChunk[] {
+    const hits = this.keywords.search(query, k);
+    if (!hits.length) { return []; }
+    const byId = new Map(this.store.memoryVectors.map(v => [v.metadata.chunkId as string, v]));
+    return hits.flatMap(({ id, score }) => {
+      const v = byId.get(id);
+      return v ? [{ id, document: new Document({ pageContent: v.content, metadata: v.metadata }), score, embedding: v.embedding }] : [];
+    });
+  }
+
   count(): number {
     return this.store.memoryVectors.length;
   }
+
+  getFileHash(filePath: string): string | undefined {
+    return this.fileHashes.get(filePath);
+  }
+
+  getIndexedFiles(): string[] {
+    return [...this.fileHashes.keys()];
+  }
+
+  async replaceFile(filePath: string, hash: string, documents: Document[]): Promise<void> {
+    await this.replaceFiles([{ filePath, hash, documents }]);
+  }
+
+  async replaceFiles(files: FileChunks[]): Promise<void> {
+    // Embed first so a failing provider leaves the previous chunks in place
+    const documents = files.flatMap(f => f.documents);
+    const vectors = documents.length ? await this.embeddingsProvider.embedDocuments(documents.map(d => d.pageContent)) : [];
+    const paths = new Set(files.map(f => f.filePath));
+    this.store.memoryVectors = this.store.memoryVectors.filter(v => !paths.has(v.metadata.filePath));
+    paths.forEach(filePath => this.keywords.removeFile(filePath));
+    if (documents.length) {
+      const withIds = this.withIds(documents);
+      await this.store.addVectors(vectors, withIds);
+      this.indexKeywords(withIds);
+    }
+    files.forEach(f => this.fileHashes.set(f.filePath, f.hash));
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    this.store.memoryVectors = this.store.memoryVectors.filter(v => v.metadata.filePath !== filePath);
+    this.keywords.removeFile(filePath);
+    this.fileHashes.delete(filePath);
+  }
+
+  async clear(): Promise<void> {
+    this.store.memoryVectors = [];
+    this.keywords.clear();
+    this.fileHashes.clear();
+  }
+
+  // Chunks from the chunker registry carry a unique chunkId; others get one so both searches can refer to them
+  private withIds(documents: Document[]): Document[] {
+    return documents.map(d => d.metadata?.chunkId ? d : new Document({ pageContent: d.pageContent, metadata: { ...d.metadata, chunkId: `chunk-${++this.nextId}` } }));
+  }
+
+  private indexKeywords(documents: Document[]): void {
+    for (const d of documents) {
+      this.keywords.add(d.metadata.chunkId, String(d.metadata.filePath ?? ''), keywordText(d.pageContent, d.metadata));
+    }
+  }
 }
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database } from 'sqlite3';
+import { Document } from "@langchain/core/documents";
+import { Embeddings } from "@langchain/core/embeddings";
+import { FileChunks, ScoredChunk, WorkspaceVectorStore } from "./base";
+import { KeywordIndex, keywordText } from "../retrieval/bm25";
+
+// Bump when the table layout changes; an index with another version is dropped and rebuilt
+const SCHEMA_VERSION = '1';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS files (path TEXT PRIMARY KEY, hash TEXT NOT NULL, indexed_at INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS chunks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    metadata TEXT NOT NULL,
+    embedding BLOB NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chunks_file_path ON chunks (file_path);
+`;
+
+interface StoredChunk {
+  id: number;
+  filePath: string;
+  content: string;
+  metadata: Record<string, any>;
+  vector: Float32Array;
+  norm: number;
+}
+
+function toBlob(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy: the blob's byteOffset is not guaranteed to be 4-byte aligned
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+function norm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) { sum += vector[i] * vector[i]; }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Vector index persisted in a SQLite file under the extension's workspace storage, so a window reload loads the
+ * previous index instead of re-embedding the workspace. Stores chunks with their embeddings, the content hash of
+ * every indexed file, and the identity of the embedding model; opening the index with another model drops it.
+ * Vectors are kept in memory as well and searched by cosine similarity, the database is only written to. The BM25
+ * keyword index is rebuilt from the stored chunks on open.
+ */
+export class SqliteVectorStore implements WorkspaceVectorStore {
+  private chunks: StoredChunk[] = [];
+  private fileHashes = new Map<string, string>();
+  private keywords = new KeywordIndex();
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** Why an existing index was discarded on open ('model' | 'schema'), undefined when it was reused or new */
+  public resetReason: 'model' | 'schema' | undefined;
+
+  private constructor(private readonly db: Database, private readonly embeddings: Embeddings, public readonly modelId: string) {}
+
+  /** Open (or create) the index at dbPath; throws when the sqlite3 native module cannot be loaded */
+  static async open(dbPath: string, embeddings: Embeddings, modelId: string): Promise<SqliteVectorStore> {
+    // Loaded lazily so a missing native binary only disables persistence instead of breaking activation
+    const sqlite3: typeof import('sqlite3') = require('sqlite3');
+    await fs.promises.mkdir(path.dirname(dbPath), { recursive: true });
+    const db = await new Promise<Database>((resolve, reject) => {
+      const opened: Database = new sqlite3.Database(dbPath, err => err ? reject(err) : resolve(opened));
+    });
+    const store = new SqliteVectorStore(db, embeddings, modelId);
+    try {
+      await store.load();
+    } catch (e) {
+      await store.close().catch(() => undefined);
+      throw e;
+    }
+    return store;
+  }
+
+  async addDocuments(documents: Document[]): Promise<void> {
+    if (!documents.length) { return; }
+    const vectors = await this.embeddings.embedDocuments(documents.map(d => d.pageContent));
+    await this.serialize(async () => {
+      await this.run('BEGIN');
+      try {
+        const added = await this.insertChunks(documents, vectors);
+        await this.run('COMMIT');
+        this.chunks.push(...added);
+        this.indexKeywords(added);
+      } catch (e) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw e;
+      }
+    });
+  }
+
+  async similaritySearch(query: string, k: number = 15): Promise<Document[]> {
+    return (await this.searchVectors(query, k)).map(r => r.document);
+  }
+
+  async searchVectors(query: string, k: number): Promise<ScoredChunk[]> {
+    if (!this.chunks.length) { return []; }
+    const queryVector = await this.embeddings.embedQuery(query);
+    const queryNorm = norm(queryVector) || 1;
+    const scored = this.chunks.map(chunk => {
+      let dot = 0;
+      const length = Math.min(chunk.vector.length, queryVector.length);
+      for (let i = 0; i < length; i++) { dot += chunk.vector[i] * queryVector[i]; }
+      return { chunk, score: dot / ((chunk.norm || 1) * queryNorm) };
+    });
+    scored.sort((a, b) => b.score - a.score);
+    return scored.slice(0, k).map(({ chunk, score }) => this.toScored(chunk, score));
+  }
+
+  keywordSearch(query: string, k: number): ScoredChunk[] {
+    const hits = this.keywords.search(query, k);
+    if (!hits.length) { return []; }
+    const byId = new Map(this.chunks.map(c => [String(c.id), c]));
+    return hits.flatMap(({ id, score }) => {
+      const chunk = byId.get(id);
+      return chunk ? [this.toScored(chunk, score)] : [];
+    });
+  }
+
+  count(): number {
+    return this.chunks.length;
+  }
+
+  getFileHash(filePath: string): string | undefined {
+    return this.fileHashes.get(filePath);
+  }
+
+  getIndexedFiles(): string[] {
+    return [...this.fileHashes.keys()];
+  }
+
+  async replaceFile(filePath: string, hash: string, documents: Document[]): Promise<void> {
+    await this.replaceFiles([{ filePath, hash, documents }]);
+  }
+
+  async replaceFiles(files: FileChunks[]): Promise<void> {
+    // Embed outside the transaction; a failing provider leaves the previous chunks in place
+    const documents = files.flatMap(f => f.documents);
+    const vectors = documents.length ? await this.embeddings.embedDocuments(documents.map(d => d.pageContent)) : [];
+    await this.serialize(async () => {
+      await this.run('BEGIN');
+      try {
+        const added: StoredChunk[] = [];
+        let offset = 0;
+        for (const file of files) {
+          await this.run('DELETE FROM chunks WHERE file_path = ?', [file.filePath]);
+          added.push(...await this.insertChunks(file.documents, vectors.slice(offset, offset + file.documents.length), file.filePath));
+          offset += file.documents.length;
+          await this.run('INSERT OR REPLACE INTO files (path, hash, indexed_at) VALUES (?, ?, ?)', [file.filePath, file.hash, Date.now()]);
+        }
+        await this.run('COMMIT');
+        const paths = new Set(files.map(f => f.filePath));
+        this.chunks = this.chunks.filter(c => !paths.has(c.filePath)).concat(added);
+        paths.forEach(filePath => this.keywords.removeFile(filePath));
+        this.indexKeywords(added);
+        files.forEach(f => this.fileHashes.set(f.filePath, f.hash));
+      } catch (e) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw e;
+      }
+    });
+  }
+
+  async removeFile(filePath: string): Promise<void> {
+    await this.serialize(async () => {
+      await this.run('BEGIN');
+      try {
+        await this.run('DELETE FROM chunks WHERE file_path = ?', [filePath]);
+        await this.run('DELETE FROM files WHERE path = ?', [filePath]);
+        await this.run('COMMIT');
+      } catch (e) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw e;
+      }
+      this.chunks = this.chunks.filter(c => c.filePath !== filePath);
+      this.keywords.removeFile(filePath);
+      this.fileHashes.delete(filePath);
+    });
+  }
+
+  /** Drop every chunk and file hash (the embedding model identity is kept) */
+  async clear(): Promise<void> {
+    await this.serialize(async () => {
+      await this.run('DELETE FROM chunks');
+      await this.run('DELETE FROM files');
+      this.chunks = [];
+      this.keywords.clear();
+      this.fileHashes.clear();
+    });
+  }
+
+  close(): Promise<void> {
+    return this.writeQueue.then(() => new Promise<void>((resolve, reject) => this.db.close(err => err ? reject(err) : resolve())));
+  }
+
+  private async load(): Promise<void> {
+    await this.exec('PRAGMA journal_mode = WAL;' + SCHEMA);
+    const meta = new Map((await this.all<{ key: string; value: string }>('SELECT key, value FROM meta')).map(r => [r.key, r.value]));
+    const storedModel = meta.get('embeddingModel');
+    const storedSchema = meta.get('schemaVersion');
+    if (storedSchema !== undefined && storedSchema !== SCHEMA_VERSION) {
+      this.resetReason = 'schema';
+    } else if (storedModel !== undefined && storedModel !== this.modelId) {
+      this.resetReason = 'model';
+    }
+    if (this.resetReason) {
+      // Vectors from another model (or layout) are not comparable with new ones
+      await this.exec('DROP TABLE IF EXISTS chunks; DROP TABLE IF EXISTS files;' + SCHEMA);
+    }
+    await this.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?), (?, ?)', ['schemaVersion', SCHEMA_VERSION, 'embeddingModel', this.modelId]);
+
+    for (const row of await this.all<{ path: string; hash: string }>('SELECT path, hash FROM files')) {
+      this.fileHashes.set(row.path, row.hash);
+    }
+    const rows = await this.all<{ id: number; file_path: string; content: string; metadata: string; embedding: Buffer }>(
+      'SELECT id, file_path, content, metadata, embedding FROM chunks ORDER BY id'
+    );
+    this.chunks = rows.map(row => {
+      const vector = fromBlob(row.embedding);
+      return { id: row.id, filePath: row.file_path, content: row.content, metadata: JSON.parse(row.metadata), vector, norm: norm(vector) };
+    });
+    this.indexKeywords(this.chunks);
+  }
+
+  private indexKeywords(chunks: StoredChunk[]): void {
+    for (const chunk of chunks) {
+      this.keywords.add(String(chunk.id), chunk.filePath, keywordText(chunk.content, chunk.metadata));
+    }
+  }
+
+  private toScored(chunk: StoredChunk, score: number): ScoredChunk {
+    return { id: String(chunk.id), document: new Document({ pageContent: chunk.content, metadata: { ...chunk.metadata } }), score, embedding: chunk.vector };
+  }
+
+  private async insertChunks(documents: Document[], vectors: number[][], filePath?: string): Promise<StoredChunk[]> {
+    const added: StoredChunk[] = [];
+    for (let i = 0; i < documents.length; i++) {
+      const doc = documents[i];
+      const chunkPath = filePath ?? String(doc.metadata?.filePath ?? '');
+      const metadata = { ...doc.metadata };
+      const id = await this.insert('INSERT INTO chunks (file_path, content, metadata, embedding) VALUES (?, ?, ?, ?)',
+        [chunkPath, doc.pageContent, JSON.stringify(metadata), toBlob(vectors[i])]);
+      const vector = new Float32Array(vectors[i]);
+      added.push({ id, filePath: chunkPath, content: doc.pageContent, metadata, vector, norm: norm(vector) });
+    }
+    return added;
+  }
+
+  /** Transactions must not interleave on the single connection */
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private exec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) => this.db.exec(sql, err => err ? reject(err) : resolve()));
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    return new Promise((resolve, reject) => this.db.run(sql, params, err => err ? reject(err) : resolve()));
+  }
+
+  private insert(sql: string, params: unknown[]): Promise<number> {
+    return new Promise((resolve, reject) => this.db.run(sql, params, function (err) { return err ? reject(err) : resolve(this.lastID); }));
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => this.db.all(sql, params, (err, rows) => err ? reject(err) : resolve(rows as T[])));
+  }
+}
@@ -1,14 +1,40 @@
+import * as path from 'path';
 import { LocalMemoryVectorStore } from './memory';
+import { SqliteVectorStore } from './sqlite';
+import { WorkspaceVectorStore } from './base';
 import { Embeddings } from '@langchain/core/embeddings';
 
-let vectorStore: LocalMemoryVectorStore;
-export function initializeVectorStore(embeddings: Embeddings) {
-    vectorStore = new LocalMemoryVectorStore(embeddings);
+export interface VectorStoreOptions {
+    storageDir?: string;   // Extension workspace storage; without it the index lives in memory only
+    modelId: string;       // Embedding model identity, see embeddingModelId
 }
 
-export function getVectorStore(): LocalMemoryVectorStore {
+let vectorStore: WorkspaceVectorStore;
+
+/**
+ * Open the persistent index under storageDir/rag/vectors.sqlite. Falls back to an in-memory store when there is no
+ * workspace storage or the sqlite3 native module cannot be loaded; the returned warning says why.
+ */
+export async function initializeVectorStore(embeddings: Embeddings, options: VectorStoreOptions): Promise<string | undefined> {
+    if (vectorStore instanceof SqliteVectorStore) {
+        await vectorStore.close().catch(() => undefined);
+    }
+    if (!options.storageDir) {
+        vectorStore = new LocalMemoryVectorStore(embeddings);
+        return undefined;
+    }
+    try {
+        vectorStore = await SqliteVectorStore.open(path.join(options.storageDir, 'rag', 'vectors.sqlite'), embeddings, options.modelId);
+        return undefined;
+    } catch (e) {
+        vectorStore = new LocalMemoryVectorStore(embeddings);
+        return 'Persistent vector index unavailable, the workspace will be re-indexed on every reload: ' + (e instanceof Error ? e.message : String(e));
+    }
+}
+
+export function getVectorStore(): WorkspaceVectorStore {
     if (!vectorStore) {
         throw new Error('Vector store not initialized');
     }
     return vectorStore;
-}
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ApiKeyStore, ApiKeyId } from '../managers/ApiKeyStore';
+
+/** SecretStorage kept in memory */
+class MemorySecrets implements vscode.SecretStorage {
+    readonly values = new Map<string, string>();
+    private readonly emitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+    readonly onDidChange = this.emitter.event;
+    async get(key: string) { return this.values.get(key); }
+    async store(key: string, value: string) { this.values.set(key, value); this.emitter.fire({ key }); }
+    async delete(key: string) { this.values.delete(key); this.emitter.fire({ key }); }
+    async keys() { return [...this.values.keys()]; }
+}
+
+/** naruhodocs.* settings with per-scope values, recording updates */
+function fakeSettings(scoped: Record<string, { globalValue?: string; workspaceValue?: string }>) {
+    const updates: Array<[string, unknown, vscode.ConfigurationTarget]> = [];
+    const config = {
+        get: (key: string) => scoped[key]?.workspaceValue ?? scoped[key]?.globalValue,
+        inspect: (key: string) => scoped[key] ? { key, ...scoped[key] } : undefined,
+        update: async (key: string, value: unknown, target: vscode.ConfigurationTarget) => {
+            updates.push([key, value, target]);
+            const entry = scoped[key];
+            if (entry && target === vscode.ConfigurationTarget.Global) { delete entry.globalValue; }
+            if (entry && target === vscode.ConfigurationTarget.Workspace) { delete entry.workspaceValue; }
+        }
+    } as unknown as vscode.WorkspaceConfiguration;
+    return { accessor: () => config, updates };
+}
+
+suite('API Key Store Tests', () => {
+    test('Keys in settings move to secret storage and are cleared from every scope', async () => {
+        const secrets = new MemorySecrets();
+        const settings = fakeSettings({
+            'geminiApiKey': { globalValue: 'legacy-gemini' },
+            'huggingface.apiKey': { globalValue: 'hf-global', workspaceValue: 'hf-workspace' }
+        });
+        const store = new ApiKeyStore(secrets, settings.accessor);
+        const changed: ApiKeyId[] = [];
+        store.onDidChange(id => changed.push(id));
+
+        assert.deepStrictEqual(await store.migrateFromSettings(), ['llm.apiKey', 'huggingface.apiKey']);
+        assert.strictEqual(await store.get('llm.apiKey'), 'legacy-gemini');
+        assert.strictEqual(await store.get('huggingface.apiKey'), 'hf-workspace', 'the effective (workspace) value wins');
+        assert.strictEqual(await store.get('llm.openai.apiKey'), undefined);
+        assert.deepStrictEqual(settings.updates.map(([key, value, target]) => [key, value, target]), [
+            ['geminiApiKey', undefined, vscode.ConfigurationTarget.Global],
+            ['huggingface.apiKey', undefined, vscode.ConfigurationTarget.Global],
+            ['huggingface.apiKey', undefined, vscode.ConfigurationTarget.Workspace]
+        ]);
+        assert.deepStrictEqual(changed, ['llm.apiKey', 'huggingface.apiKey']);
+        assert.deepStrictEqual(await store.migrateFromSettings(), [], 'nothing left to migrate');
+    });
+
+    test('set trims, an empty value clears, and foreign secrets are ignored', async () => {
+        const secrets = new MemorySecrets();
+        const store = new ApiKeyStore(secrets, fakeSettings({}).accessor);
+        const changed: ApiKeyId[] = [];
+        store.onDidChange(id => changed.push(id));
+
+        await store.set('llm.openai.apiKey', '  sk-test \n');
+        assert.strictEqual(secrets.values.get('naruhodocs.llm.openai.apiKey'), 'sk-test');
+        await store.set('llm.openai.apiKey', ' ');
+        assert.strictEqual(await store.get('llm.openai.apiKey'), undefined);
+        await secrets.store('other.extension.token', 'x');
+        assert.deepStrictEqual(changed, ['llm.openai.apiKey', 'llm.openai.apiKey']);
+    });
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AuditRecord, ExchangeAuditLog, formatExchange } from '../managers/AuditLog';
+import { LLMService } from '../managers/LLMService';
+import { LLMProviderManager } from '../llm-providers/manager';
+import { LLMProviderError } from '../llm-providers/base';
+
+function settings(values: Record<string, unknown>) {
+    return () => ({ get: (key: string) => values[key] }) as unknown as vscode.WorkspaceConfiguration;
+}
+
+function record(id: string, overrides: Partial<AuditRecord> = {}): AuditRecord {
+    return {
+        id, ts: '2025-03-10T12:00:00.000Z', durationMs: 120, task: 'chat', provider: 'mock', model: 'mock-model',
+        systemMessage: 'You are helpful.', history: [], prompt: 'Hello', toolCalls: [], response: 'Hi',
+        ...overrides
+    };
+}
+
+/** Provider whose sessions answer with a fixed reply, or fail when the prompt says so */
+class AuditProviderManager extends LLMProviderManager {
+    private provider = {
+        name: 'mock', isAvailable: true,
+        createChatSession: async () => {
+            let history: any[] = [];
+            return {
+                chat: async (prompt: string) => {
+                    if (prompt === 'fail') { throw new LLMProviderError('bad request', 'mock', 'MODEL_ERROR'); }
+                    history.push({ type: 'human', content: prompt }, { type: 'ai', content: 'answer' });
+                    return 'answer';
+                },
+                reset: () => { history = []; },
+                getHistory: () => history,
+                setHistory: (h: any[]) => { history = h; },
+                setCustomSystemMessage: () => { /* noop */ }
+            };
+        }
+    };
+    constructor() { super(); (this as any).currentProvider = this.provider; }
+    getCurrentProvider() { return this.provider as any; }
+}
+
+suite('Audit Log Tests', () => {
+    let dir: string;
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'naruhodocs-audit-'));
+        (LLMService as any).instance = undefined;
+    });
+    teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    test('The live file rotates by size and the oldest rotation is dropped', async () => {
+        const log = new ExchangeAuditLog(settings({ 'logging.auditLog': true, 'logging.auditLogMaxSizeMB': 0.0005 }), () => dir);
+        const big = 'x'.repeat(400); // one record per file at a ~524 byte limit
+        for (let i = 1; i <= 7; i++) {
+            await log.append(record(`r${i}`, { prompt: big }));
+        }
+        assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['exchanges.1.jsonl', 'exchanges.2.jsonl', 'exchanges.3.jsonl', 'exchanges.4.jsonl', 'exchanges.jsonl']);
+        assert.deepStrictEqual((await log.list()).map(r => r.id), ['r7', 'r6', 'r5', 'r4', 'r3']);
+    });
+
+    test('formatExchange renders every section and fences content containing backticks', () => {
+        const text = formatExchange(record('r1', {
+            history: [{ role: 'human', content: 'earlier' }],
+            toolCalls: [{ name: 'readFile', input: '{"path":"README.md"}', output: '```md\n# Title\n```' }],
+            error: { code: 'NETWORK_ERROR', message: 'timeout' },
+            response: undefined
+        }));
+        for (const heading of ['## Error: NETWORK_ERROR', '## System message', '## History (1 messages)', '## Prompt', '## Tool calls (1)', '### 1. readFile']) {
+            assert.ok(text.includes(heading), heading);
+        }
+        assert.ok(text.includes('````\n```md\n# Title\n```\n````'), 'tool output is wrapped in a longer fence');
+        assert.ok(!text.includes('## Response'));
+    });
+
+    test('LLMService writes answered and failed exchanges only while enabled', async () => {
+        const values: Record<string, unknown> = { 'logging.auditLog': true };
+        const log = new ExchangeAuditLog(settings(values), () => dir);
+        const service = LLMService.getOrCreate(new AuditProviderManager());
+        service.setAuditLog(log);
+
+        await service.trackedChat({ sessionId: 'audit', systemMessage: 'Audit system', prompt: 'first' });
+        await service.trackedChat({ sessionId: 'audit', systemMessage: 'Audit system', prompt: 'second' });
+        await assert.rejects(service.trackedChat({ sessionId: 'audit', systemMessage: 'Audit system', prompt: 'fail' }));
+        values['logging.auditLog'] = false;
+        await service.trackedChat({ sessionId: 'audit', systemMessage: 'Audit system', prompt: 'not logged' });
+
+        const records = await log.list();
+        assert.strictEqual(records.length, 3);
+        const [failed, second, first] = records;
+        assert.strictEqual(first.systemMessage, 'Audit system');
+        assert.deepStrictEqual([first.prompt, first.response, first.history.length], ['first', 'answer', 0]);
+        assert.deepStrictEqual(second.history, [{ role: 'human', content: 'first' }, { role: 'ai', content: 'answer' }]);
+        assert.deepStrictEqual(failed.error, { code: 'MODEL_ERROR', message: 'bad request' });
+        assert.strictEqual(failed.response, undefined);
+    });
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { MarkdownChunker } from '../rag/chunking/markdown';
+import { TypeScriptChunker } from '../rag/chunking/typescript';
+import { WindowChunker } from '../rag/chunking/window';
+import { ChunkerRegistry, describeChunk } from '../rag/chunking/registry';
+import { Chunker } from '../rag/chunking/base';
+
+/** Enough prose to keep a section above the packing threshold */
+function paragraph(words: number): string {
+    return Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+}
+
+suite('Chunking Tests', () => {
+    test('Markdown is split by heading with the breadcrumb, ignoring # inside code fences', () => {
+        const doc = [
+            '# Guide',                 // 1
+            paragraph(150),
+            '## Install',              // 3
+            paragraph(150),
+            '```bash',
+            '# not a heading',
+            '```',
+            '### From source',         // 8
+            paragraph(150),
+            'Usage',                   // 10
+            '=====',
+            paragraph(150)
+        ].join('\n');
+        const chunks = new MarkdownChunker().chunk(doc);
+        assert.deepStrictEqual(chunks.map(c => [c.startLine, c.endLine, c.headingPath]), [
+            [1, 2, ['Guide']],
+            [3, 7, ['Guide', 'Install']],
+            [8, 9, ['Guide', 'Install', 'From source']],
+            [10, 12, ['Usage']]
+        ]);
+    });
+
+    test('Small markdown sections fold into their parent only', () => {
+        const doc = ['# API', '## get', 'Returns one.', '## list', 'Returns all.', '# Other', paragraph(10)].join('\n');
+        const chunks = new MarkdownChunker().chunk(doc);
+        assert.deepStrictEqual(chunks.map(c => [c.startLine, c.endLine, c.headingPath]), [[1, 5, ['API']], [6, 7, ['Other']]]);
+    });
+
+    test('TypeScript is split on top-level declarations with their comments and symbol names', () => {
+        const body = Array.from({ length: 20 }, (_, i) => `  const value${i} = compute(${i}, 'some padding text');`).join('\n');
+        const source = [
+            "import * as fs from 'fs';",                  // 1
+            '',
+            '/** Reads things */',
+            'export function readThing(): void {',
+            body,
+            '}',
+            '',
+            '// Alias and a constant on one line',         // 27
+            'export type Id = string; export const MAX = 3;',
+            'export interface Options {',
+            Array.from({ length: 20 }, (_, i) => `  value${i}: number; // some padding text`).join('\n'),
+            '}'
+        ].join('\n');
+        const chunks = new TypeScriptChunker().chunk(source, '/ws/a.ts');
+        assert.deepStrictEqual(chunks.map(c => [c.startLine, c.symbols]), [
+            [1, ['readThing']],
+            [27, ['Id', 'MAX', 'Options']]
+        ]);
+        assert.ok(chunks[0].content.includes('/** Reads things */'));
+        assert.ok(chunks[0].content.trimEnd().endsWith('}'));
+    });
+
+    test('A large class is split between members', () => {
+        const method = (name: string) => [`  /** ${name} docs */`, `  ${name}(): void {`, ...Array.from({ length: 20 }, (_, i) => `    this.log('${name} step ${i} with some padding text');`), '  }'];
+        const source = ['export class ThreadManager {', '  private threads = new Map();', ...method('saveThreadHistory'), ...method('loadThreadHistory'), '}'].join('\n');
+        const chunks = new TypeScriptChunker().chunk(source, '/ws/threads.ts');
+        assert.deepStrictEqual(chunks.map(c => c.symbols), [
+            ['ThreadManager', 'ThreadManager.threads', 'ThreadManager.saveThreadHistory'],
+            ['ThreadManager.loadThreadHistory']
+        ]);
+        assert.strictEqual(chunks[1].content.split('\n')[0], '  /** loadThreadHistory docs */');
+        assert.strictEqual(chunks[1].endLine, source.split('\n').length);
+    });
+
+    test('The window chunker overlaps and stays within its token budget', () => {
+        const lines = Array.from({ length: 100 }, (_, i) => `line ${String(i + 1).padStart(3, '0')} ${'x'.repeat(30)}`); // ~11 tokens each
+        const chunks = new WindowChunker(100, 20).chunk(lines.join('\n'));
+        assert.ok(chunks.length > 1);
+        for (const c of chunks) {
+            assert.ok(c.content.length / 4 <= 100, `${c.startLine}-${c.endLine} exceeds the budget`);
+        }
+        for (let i = 1; i < chunks.length; i++) {
+            assert.ok(chunks[i].startLine <= chunks[i - 1].endLine && chunks[i].startLine > chunks[i - 1].startLine, 'windows overlap and advance');
+        }
+        assert.strictEqual(chunks[chunks.length - 1].endLine, 100);
+    });
+
+    test('The registry picks chunkers by path, falls back on errors and labels chunks', () => {
+        const registry = ChunkerRegistry.getInstance();
+        assert.strictEqual(registry.resolve('/ws/README.md').id, 'markdown');
+        assert.strictEqual(registry.resolve('/ws/src/app.tsx').id, 'typescript');
+        assert.strictEqual(registry.resolve('/ws/types.d.ts').id, 'window');
+        assert.strictEqual(registry.resolve('/ws/main.py').id, 'window');
+
+        const custom = new ChunkerRegistry();
+        const broken: Chunker = { id: 'broken', version: 1, supports: p => p.endsWith('.rs'), chunk: () => { throw new Error('boom'); } };
+        custom.register(broken);
+        const [doc] = custom.chunk('/ws/main.rs', 'fn main() {}');
+        assert.deepStrictEqual([doc.metadata.chunker, doc.metadata.startLine, doc.metadata.endLine], ['window', 1, 1]);
+
+        assert.strictEqual(describeChunk({ filePath: 'docs/a.md', startLine: 3, endLine: 9, headingPath: ['Guide', 'Install'] }), 'docs/a.md (Lines 3-9) · Guide > Install');
+        assert.strictEqual(describeChunk({ filePath: 'src/t.ts', startLine: 1, endLine: 40, symbols: ['ThreadManager.saveThreadHistory'] }), 'src/t.ts (Lines 1-40) · ThreadManager.saveThreadHistory');
+    });
+});
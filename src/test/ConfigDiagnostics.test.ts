@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { analyzeModelsConfig, analyzeEmbeddingsConfig, closestMatches, EndpointProbe, ConfigIssue } from '../managers/ConfigDiagnostics';
+import { parseJsonTree, findNode } from '../utils/jsonAst';
+
+/** Ollama on the default port serving two models; everything else is unreachable */
+const probe: EndpointProbe = {
+    listModels: async (_backend, baseUrl) => baseUrl === 'http://localhost:11434' ? ['gemma3:1b', 'qwen3:0.6b', 'nomic-embed-text:latest'] : undefined,
+    isReachable: async url => url.startsWith('https://api.openai.com')
+};
+
+function at(text: string, issue: ConfigIssue): string {
+    return text.slice(issue.offset, issue.offset + issue.length);
+}
+
+suite('Config Diagnostics Tests', () => {
+    test('parseJsonTree keeps offsets of keys and values', () => {
+        const text = '{ "a": { "b": [1, "x"] } }';
+        const root = parseJsonTree(text);
+        const b = findNode(root, ['a', 'b'])!;
+        assert.strictEqual(text.slice(b.offset, b.offset + b.length), '[1, "x"]');
+        assert.strictEqual(b.items![1].value, 'x');
+        assert.throws(() => parseJsonTree('{ "a": }'), /Unexpected token/);
+    });
+
+    test('closestMatches suggests spelling variants', () => {
+        assert.deepStrictEqual(closestMatches('readFiles', ['chat', 'read_files', 'translate']), ['read_files']);
+        assert.deepStrictEqual(closestMatches('lm-studio', ['ollama', 'lmstudio']), ['lmstudio']);
+        assert.deepStrictEqual(closestMatches('completely-different', ['chat']), []);
+    });
+
+    test('models.json: unknown tasks, backends and providers get quick fixes', async () => {
+        const text = JSON.stringify({
+            version: 3,
+            providers: {
+                local: { backend: 'lm-studio', baseUrl: 'http://localhost:11434', defaultModel: 'gemma3:1b', tasks: { readFiles: { model: 'qwen3:0.6b' } } },
+                byok: { defaultModel: 'gemini-2.0-flash' }
+            },
+            tasks: { generateDoc: { temperature: 0.2 } },
+            fallback: ['lokal'],
+            budgets: { tasks: { summarise: { requestsPerDay: 10 } } }
+        }, null, 2);
+        const issues = await analyzeModelsConfig(text, probe);
+        const byText = new Map(issues.map(i => [at(text, i), i]));
+        assert.deepStrictEqual(byText.get('"readFiles"')?.fixes?.[0].replacement, '"read_files"');
+        assert.deepStrictEqual(byText.get('"lm-studio"')?.fixes?.[0].replacement, '"lmstudio"');
+        assert.deepStrictEqual(byText.get('"byok"')?.fixes?.[0].replacement, '"cloud"');
+        assert.deepStrictEqual(byText.get('"lokal"')?.fixes?.[0].replacement, '"local"');
+        assert.deepStrictEqual(byText.get('"summarise"')?.fixes?.[0].replacement, '"summarize"');
+        assert.deepStrictEqual(byText.get('"generateDoc"')?.fixes?.[0].replacement, '"generate_doc"');
+        assert.strictEqual(issues.length, 6);
+    });
+
+    test('models.json: unreachable base URLs and missing local models', async () => {
+        const text = JSON.stringify({
+            version: 2,
+            providers: {
+                local: { backend: 'ollama', baseUrl: 'http://localhost:11434', defaultModel: 'gemma3:1b', tasks: { chat: { model: 'gemma3:4b', temperature: 0.3 }, summarize: 'qwen3:0.6b' } },
+                openai: { baseUrl: 'http://gateway.invalid/v1' }
+            }
+        }, null, 2);
+        const issues = await analyzeModelsConfig(text, probe);
+        assert.deepStrictEqual(issues.map(i => at(text, i)), ['"gemma3:4b"', '"http://gateway.invalid/v1"']);
+        assert.strictEqual(issues[0].fixes?.[0].replacement, '"gemma3:1b"');
+
+        const offline = JSON.stringify({ version: 2, providers: { local: { backend: 'ollama', baseUrl: 'http://localhost:1234', defaultModel: 'gemma3:1b' } } });
+        const [unreachable] = await analyzeModelsConfig(offline, probe);
+        assert.match(unreachable.message, /Cannot reach the ollama server/);
+        assert.strictEqual(unreachable.fixes?.[0].replacement, '"http://localhost:11434"');
+    });
+
+    test('models.json: local endpoints are probed separately and task routes must exist', async () => {
+        const text = JSON.stringify({
+            version: 3,
+            providers: {
+                local: {
+                    backend: 'ollama', baseUrl: 'http://localhost:11434', defaultModel: 'qwen3:0.6b',
+                    endpoints: { docs: { backend: 'llamacpp', baseUrl: 'http://gpu-box:8080', defaultModel: 'qwen2.5-14b' } },
+                    tasks: { chat: { model: 'gemma3:1b' }, generate_doc: { endpoint: 'docs', model: 'qwen2.5-32b' }, analyze: { endpoint: 'doc' } }
+                }
+            }
+        }, null, 2);
+        const issues = await analyzeModelsConfig(text, probe);
+        // Models on the unreachable docs server are not checked against the Ollama model list
+        assert.deepStrictEqual(issues.map(i => at(text, i)), ['"http://gpu-box:8080"', '"doc"']);
+        assert.match(issues[0].message, /Cannot reach the llamacpp server/);
+        assert.strictEqual(issues[1].fixes?.[0].replacement, '"docs"');
+    });
+
+    test('Files the config managers would ignore are reported as errors', async () => {
+        const [syntax] = await analyzeModelsConfig('{ "version": 2, ', probe);
+        assert.strictEqual(syntax.severity, 'error');
+        assert.match(syntax.message, /not valid JSON/);
+        const [version] = await analyzeModelsConfig('{ "version": 4, "providers": {} }', probe);
+        assert.strictEqual(version.fixes?.[0].replacement, '3');
+        const [providers] = await analyzeEmbeddingsConfig('{ "version": 1 }', probe);
+        assert.match(providers.message, /no "providers" object/);
+    });
+
+    test('embeddings.json: engines and embedding models', async () => {
+        const text = JSON.stringify({
+            version: 1,
+            providers: {
+                local: { name: 'Local', type: 'local', llmEngine: 'olama', model: 'x' },
+                other: { name: 'Ollama', type: 'local', llmEngine: 'ollama', baseUrl: 'http://localhost:11434', model: 'nomic-embed-text' },
+                missing: { name: 'Missing', type: 'local', llmEngine: 'ollama', model: 'snowflake-arctic-embed:33m' },
+                hf: { name: 'huggingface', type: 'hugingface' }
+            }
+        }, null, 2);
+        const issues = await analyzeEmbeddingsConfig(text, probe);
+        assert.deepStrictEqual(issues.map(i => at(text, i)), ['"olama"', '"snowflake-arctic-embed:33m"', '"hugingface"']);
+        assert.strictEqual(issues[0].fixes?.[0].replacement, '"ollama"');
+        assert.strictEqual(issues[2].fixes?.[0].replacement, '"huggingface"');
+    });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingProgress, EmbeddingRequestError } from '../rag/embeddings/batching';
+import { LMStudioEmbeddings } from '../rag/embeddings/lmStudio';
+import { OllamaEmbeddings } from '../rag/embeddings/ollama';
+import { LocalMemoryVectorStore } from '../rag/vectorstore/memory';
+
+type Call = { url: string; body: any };
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers });
+}
+
+// Embedding of a text: its length, so results can be matched back to inputs
+function vector(text: string): number[] {
+    return [text.length, 1];
+}
+
+suite('Embedding Batching Tests', () => {
+    const originalFetch = globalThis.fetch;
+    let calls: Call[];
+
+    function mockFetch(handler: (call: Call, index: number) => Response | Promise<Response>): void {
+        calls = [];
+        globalThis.fetch = (async (url: string, init: RequestInit) => {
+            const call = { url: String(url), body: JSON.parse(String(init.body)) };
+            calls.push(call);
+            return handler(call, calls.length - 1);
+        }) as typeof fetch;
+    }
+
+    function ollamaHandler(call: Call): Response {
+        return json(200, { embeddings: (call.body.input as string[]).map(vector) });
+    }
+
+    teardown(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    test('Ollama sends batchSize texts per /api/embed request and keeps input order', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        mockFetch(async call => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            // Later batches answer first
+            await new Promise(resolve => setTimeout(resolve, 20 - calls.indexOf(call) * 4));
+            inFlight--;
+            return ollamaHandler(call);
+        });
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { batchSize: 3, concurrency: 2 });
+        const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee', 'ffffff', 'ggggggg'];
+        const result = await embeddings.embedDocuments(texts);
+
+        assert.deepStrictEqual(result, texts.map(vector));
+        assert.deepStrictEqual(calls.map(c => c.body.input.length), [3, 3, 1]);
+        assert.ok(calls.every(c => c.url === 'http://ollama/api/embed' && c.body.model === 'm'));
+        assert.strictEqual(maxInFlight, 2);
+    });
+
+    test('transient failures are retried, the request is sent again', async () => {
+        mockFetch((call, i) => {
+            if (i === 0) { return json(503, { error: 'loading model' }); }
+            if (i === 1) { return json(429, { error: 'busy' }); }
+            return ollamaHandler(call);
+        });
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { retryDelayMs: 1 });
+        assert.deepStrictEqual(await embeddings.embedDocuments(['x', 'yy']), [vector('x'), vector('yy')]);
+        assert.strictEqual(calls.length, 3);
+        assert.deepStrictEqual(calls[2].body.input, ['x', 'yy']);
+    });
+
+    test('retries stop after maxRetries and the last error is thrown', async () => {
+        mockFetch(() => json(500, {}));
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { maxRetries: 2, retryDelayMs: 1 });
+        await assert.rejects(embeddings.embedQuery('x'), (e: unknown) => e instanceof EmbeddingRequestError && e.status === 500);
+        assert.strictEqual(calls.length, 3);
+    });
+
+    test('a missing model is not retried', async () => {
+        mockFetch(() => json(404, { error: "model 'm' not found" }));
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { retryDelayMs: 1 });
+        await assert.rejects(embeddings.embedDocuments(['x']), /model 'm' is installed/);
+        // /api/embed, then the probe of the legacy endpoint
+        assert.deepStrictEqual(calls.map(c => c.url), ['http://ollama/api/embed', 'http://ollama/api/embeddings']);
+    });
+
+    test('Ollama falls back to /api/embeddings on servers without /api/embed', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        mockFetch(async call => {
+            if (call.url.endsWith('/api/embed')) { return json(404, {}); }
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 2));
+            inFlight--;
+            return json(200, { embedding: vector(call.body.prompt) });
+        });
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { concurrency: 2 });
+        assert.deepStrictEqual(await embeddings.embedDocuments(['x', 'yy']), [vector('x'), vector('yy')]);
+        assert.strictEqual(maxInFlight, 1, 'one batch, so its prompts are sent one after another');
+        const callsAfterProbe = calls.length;
+        assert.deepStrictEqual(await embeddings.embedQuery('zzz'), vector('zzz'));
+        assert.deepStrictEqual(calls.slice(callsAfterProbe).map(c => c.url), ['http://ollama/api/embeddings']);
+    });
+
+    test('LM Studio sends an input array and orders results by index', async () => {
+        mockFetch(call => json(200, {
+            data: (call.body.input as string[]).map((text, index) => ({ index, embedding: vector(text) })).reverse()
+        }));
+        const embeddings = new LMStudioEmbeddings('m', 'http://lms', { batchSize: 2 });
+        const texts = ['a', 'bb', 'ccc'];
+        assert.deepStrictEqual(await embeddings.embedDocuments(texts), texts.map(vector));
+        assert.deepStrictEqual(calls.map(c => c.body.input), [['a', 'bb'], ['ccc']]);
+        assert.ok(calls.every(c => c.url === 'http://lms/v1/embeddings'));
+    });
+
+    test('progress fires after each batch', async () => {
+        mockFetch(ollamaHandler);
+        const embeddings = new OllamaEmbeddings('m', 'http://ollama', { batchSize: 2, concurrency: 1 });
+        const progress: EmbeddingProgress[] = [];
+        embeddings.onDidProgress(p => progress.push(p));
+        await embeddings.embedDocuments(['a', 'b', 'c', 'd', 'e']);
+        assert.deepStrictEqual(progress, [{ done: 2, total: 5 }, { done: 4, total: 5 }, { done: 5, total: 5 }]);
+    });
+
+    test('replaceFiles embeds the chunks of several files together', async () => {
+        mockFetch(ollamaHandler);
+        const store = new LocalMemoryVectorStore(new OllamaEmbeddings('m', 'http://ollama'));
+        const doc = (filePath: string, text: string) => new Document({ pageContent: text, metadata: { filePath } });
+        await store.replaceFiles([
+            { filePath: '/ws/a.md', hash: 'h1', documents: [doc('/ws/a.md', 'alpha'), doc('/ws/a.md', 'beta')] },
+            { filePath: '/ws/b.md', hash: 'h2', documents: [doc('/ws/b.md', 'gamma')] }
+        ]);
+        assert.strictEqual(calls.length, 1);
+        assert.deepStrictEqual(calls[0].body.input, ['alpha', 'beta', 'gamma']);
+        assert.strictEqual(store.count(), 3);
+        assert.strictEqual(store.getFileHash('/ws/b.md'), 'h2');
+    });
+});
@@ -2,7 +2,6 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { ThreadManager } from '../managers/ThreadManager';
 import { LLMProviderManager } from '../llm-providers/manager';
-import { SystemMessages } from '../SystemMessages';
 
 // Lightweight in-memory ExtensionContext mock for workspaceState/globalState
 class MemoryMemento implements vscode.Memento {
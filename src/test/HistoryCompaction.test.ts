@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { AIMessage, HumanMessage, SystemMessage, BaseMessage } from '@langchain/core/messages';
+import { compactHistory, createModelSummarizer, memoryEntry, withMemory, estimateTokens } from '../langchain-backend/historyCompaction';
+import { createChat } from '../langchain-backend/llm';
+
+/** System message plus n question/answer pairs of ~100 tokens each */
+function conversation(pairs: number): BaseMessage[] {
+    const history: BaseMessage[] = [new SystemMessage('You are a documentation assistant.')];
+    for (let i = 0; i < pairs; i++) {
+        history.push(new HumanMessage(`Question ${i}: ` + 'q'.repeat(400)), new AIMessage(`Answer ${i}: ` + 'a'.repeat(400)));
+    }
+    return history;
+}
+
+suite('History Compaction Tests', () => {
+    test('History within the context window is left alone', async () => {
+        const history = conversation(3);
+        const result = await compactHistory(history, '', { contextWindow: 4096 });
+        assert.strictEqual(result.history, history);
+        assert.strictEqual(result.dropped, 0);
+    });
+
+    test('Older turns are summarized into memory; the system message and newest turns survive', async () => {
+        const history = [...conversation(20), new HumanMessage('What about the latest question?')];
+        const calls: BaseMessage[][] = [];
+        const result = await compactHistory(history, 'earlier facts', {
+            contextWindow: 2048,
+            summarize: async (memory, dropped) => { calls.push(dropped); return `${memory}; ${dropped.length} turns summarized`; }
+        });
+        assert.ok(result.history[0] instanceof SystemMessage, 'system message kept first');
+        assert.ok(result.history[1] instanceof HumanMessage, 'verbatim part starts on a user turn');
+        assert.strictEqual(result.history[result.history.length - 1].text, 'What about the latest question?');
+        assert.strictEqual(calls.length, 1);
+        assert.strictEqual(result.dropped, calls[0].length);
+        assert.strictEqual(result.history.length + result.dropped, history.length);
+        assert.strictEqual(result.memory, `earlier facts; ${result.dropped} turns summarized`);
+        const tokens = result.history.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+        assert.ok(tokens < 1536 * 0.6, `compacted below the target, got ${tokens}`);
+
+        const sent = withMemory(result.history, result.memory);
+        assert.strictEqual(sent.filter(m => m instanceof SystemMessage).length, 1);
+        assert.match(sent[0].text, /^You are a documentation assistant\.\n\nConversation memory[^\n]*\nearlier facts;/);
+    });
+
+    test('Failed summaries fall back to excerpts and maxMessages caps verbatim turns', async () => {
+        const result = await compactHistory(conversation(10), '', {
+            contextWindow: 1_000_000,
+            maxMessages: 8,
+            summarize: async () => { throw new Error('model offline'); }
+        });
+        assert.strictEqual(result.history.length, 1 + 4);
+        assert.match(result.memory, /^- User: Question 0: q+…\n- Assistant: Answer 0:/);
+        assert.ok(!result.memory.includes('Question 8'));
+    });
+
+    test('Model summarizer merges the existing memory and strips reasoning', async () => {
+        const model = new FakeListChatModel({ responses: ['<think>condense</think>- User asked about the parser'] });
+        const summarize = createModelSummarizer(model, 1000);
+        const summary = await summarize('- Project uses TypeScript', [new HumanMessage('How does the parser work?'), new AIMessage('It tokenizes first.')]);
+        assert.strictEqual(summary, '- User asked about the parser');
+    });
+
+    test('Conversation memory travels through getHistory and setHistory', () => {
+        const saved = [
+            { type: 'system', text: memoryEntry('- User asked about the parser').text },
+            { type: 'human', text: 'And the lexer?' },
+            { type: 'ai', text: 'It runs first.' }
+        ];
+        const restored = createChat({ chatModel: new FakeListChatModel({ responses: [] }), systemMessage: 'Sys' });
+        restored.setHistory(saved as any);
+        assert.strictEqual(restored.getMemory!(), '- User asked about the parser');
+
+        // Failover hands over message instances instead of serialized entries
+        const replacement = createChat({ chatModel: new FakeListChatModel({ responses: [] }), systemMessage: 'Sys' });
+        replacement.setHistory(restored.getHistory());
+        assert.strictEqual(replacement.getMemory!(), '- User asked about the parser');
+        assert.deepStrictEqual(replacement.getHistory().map(m => m.text), saved.map(m => m.text));
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { KeywordIndex, tokenize } from '../rag/retrieval/bm25';
+import { hybridSearch, maximalMarginalRelevance, reciprocalRankFusion } from '../rag/retrieval/hybrid';
+import { ScoredChunk } from '../rag/vectorstore/base';
+import { LocalMemoryVectorStore } from '../rag/vectorstore/memory';
+
+function chunk(id: string, score: number, embedding: number[] = [1, 0]): ScoredChunk {
+    return { id, score, embedding, document: new Document({ pageContent: id, metadata: { chunkId: id } }) };
+}
+
+/** Embeds by a handful of topic words only, like a small model that knows nothing about identifiers */
+class TopicEmbeddings extends Embeddings {
+    private readonly topics = ['thread', 'history', 'save', 'chat', 'render'];
+    constructor() { super({}); }
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+        return texts.map(t => this.vector(t));
+    }
+    async embedQuery(text: string): Promise<number[]> {
+        return this.vector(text);
+    }
+    private vector(text: string): number[] {
+        const lower = text.toLowerCase();
+        return this.topics.map(topic => (lower.match(new RegExp(`\\b${topic}\\b`, 'g')) || []).length + 0.01);
+    }
+}
+
+suite('Hybrid Retrieval Tests', () => {
+    test('tokenize keeps identifiers whole and splits their parts', () => {
+        assert.deepStrictEqual(tokenize('ThreadManager.saveThreadHistory(id)'), [
+            'threadmanager', 'thread', 'manager', 'savethreadhistory', 'save', 'thread', 'history', 'id'
+        ]);
+        assert.deepStrictEqual(tokenize('MAX_RETRY_COUNT = 3'), ['max_retry_count', 'max', 'retry', 'count']);
+    });
+
+    test('BM25 ranks exact identifier matches first and forgets removed files', () => {
+        const index = new KeywordIndex();
+        index.add('a', '/ws/a.ts', 'class ThreadManager { saveThreadHistory() {} }');
+        index.add('b', '/ws/b.md', 'Each thread keeps a history of messages. The thread view saves it.');
+        index.add('c', '/ws/c.ts', 'function render() {}');
+        const hits = index.search('ThreadManager.saveThreadHistory', 5);
+        assert.deepStrictEqual(hits.map(h => h.id), ['a', 'b']);
+        index.removeFile('/ws/a.ts');
+        assert.deepStrictEqual(index.search('ThreadManager.saveThreadHistory', 5).map(h => h.id), ['b']);
+        assert.strictEqual(index.size, 2);
+    });
+
+    test('Reciprocal rank fusion rewards chunks found by both searches', () => {
+        const fused = reciprocalRankFusion({
+            semantic: [chunk('x', 0.9), chunk('both', 0.8)],
+            keyword: [chunk('y', 12), chunk('both', 10)]
+        });
+        assert.strictEqual(fused[0].id, 'both');
+        assert.deepStrictEqual(fused[0].ranks, { semantic: 2, keyword: 2 });
+        assert.deepStrictEqual(fused.map(c => c.id).sort(), ['both', 'x', 'y']);
+    });
+
+    test('MMR keeps a near-duplicate from crowding out a distinct chunk', () => {
+        const candidates = [chunk('a', 1.0, [1, 0]), chunk('a-copy', 0.95, [0.99, 0.01]), chunk('b', 0.8, [0, 1])];
+        assert.deepStrictEqual(maximalMarginalRelevance(candidates, 2, 0.7).map(c => c.id), ['a', 'b']);
+        assert.deepStrictEqual(maximalMarginalRelevance(candidates, 2, 1).map(c => c.id), ['a', 'a-copy'], 'lambda 1 is plain relevance order');
+    });
+
+    test('hybridSearch surfaces an exact identifier the embedding model misses over near-duplicate prose', async () => {
+        const store = new LocalMemoryVectorStore(new TopicEmbeddings());
+        const doc = (filePath: string, text: string) => new Document({ pageContent: text, metadata: { filePath, chunkId: filePath, startLine: 1, endLine: 1 } });
+        await store.replaceFile('/ws/notes.md', 'h1', [doc('/ws/notes.md', 'How to save thread history: the thread history is saved when you save the chat.')]);
+        await store.replaceFile('/ws/notes2.md', 'h2', [doc('/ws/notes2.md', 'Save thread history: thread history is saved when you save a chat thread.')]);
+        await store.replaceFile('/ws/ThreadManager.ts', 'h3', [doc('/ws/ThreadManager.ts', 'export class ThreadManager {\n  saveThreadHistory(id: string) { render(id); }\n}')]);
+        const query = 'ThreadManager.saveThreadHistory';
+
+        const semanticOnly = await store.searchVectors(query, 2);
+        assert.deepStrictEqual(semanticOnly.map(r => r.id).sort(), ['/ws/notes.md', '/ws/notes2.md']);
+        const results = await hybridSearch(store, query, { k: 2 });
+        assert.ok(results.some(r => r.id === '/ws/ThreadManager.ts'), 'keyword match is in the top 2');
+        assert.ok(!(results.some(r => r.id === '/ws/notes.md') && results.some(r => r.id === '/ws/notes2.md')), 'near-duplicates do not take both slots');
+        assert.strictEqual(results.find(r => r.id === '/ws/ThreadManager.ts')?.ranks.keyword, 1);
+    });
+});
@@ -2,6 +2,8 @@ import * as assert from 'assert';
 import { LLMService } from '../managers/LLMService';
 import { LLMProviderManager } from '../llm-providers/manager';
 import { ChatSession } from '../langchain-backend/llm';
+import { LLMCancelledError, LLMProviderError, StructuredOutputError } from '../llm-providers/base';
+import { z } from 'zod';
 
 // Lightweight mock provider + manager
 class MockChatSession implements ChatSession {
@@ -13,6 +15,12 @@ class MockChatSession implements ChatSession {
         this.history.push({ role: 'ai', content: reply });
         return reply;
     }
+    async chatStream(userMessage: string, onChunk: (chunk: string) => void): Promise<string> {
+        const reply = await this.chat(userMessage);
+        for (const part of reply.match(/.{1,5}/g) || []) { onChunk(part); }
+        return reply;
+    }
+    getLastUsage() { return { inputTokens: 40, outputTokens: 10, toolCallTokens: 2, totalTokens: 50 }; }
     reset(): void { this.history = []; }
     getHistory(): any[] { return this.history; }
     setHistory(h: any[]): void { this.history = h; }
@@ -27,6 +35,30 @@ class MockProviderManager extends LLMProviderManager {
     getCurrentProvider(){ return this.mock; }
 }
 
+// Primary provider whose sessions always fail with the given error; fallback chain resolves to a healthy mock
+class FailingChatSession extends MockChatSession {
+    constructor(private error: Error) { super('failing'); }
+    async chat(userMessage: string): Promise<string> {
+        this.getHistory().push({ role: 'user', content: userMessage });
+        throw this.error;
+    }
+}
+
+class FailoverProviderManager extends LLMProviderManager {
+    readonly fallback = Object.assign(new MockProvider(), { name: 'mock-fallback' }) as any;
+    private primary: any;
+    constructor(error: Error) {
+        super();
+        this.primary = Object.assign(new MockProvider(), { name: 'mock-primary', createChatSession: async () => new FailingChatSession(error) });
+        (this as any).currentProvider = this.primary;
+    }
+    getCurrentProvider(){ return this.primary; }
+    getCurrentProviderType(){ return 'cloud'; }
+    getProviderType(p: any){ return p === this.primary ? 'cloud' : 'local'; }
+    getFallbackChain(exclude?: string){ return ['cloud', 'local'].filter(id => id !== exclude); }
+    async getOrInitializeProvider(type: string){ return type === 'local' ? this.fallback : undefined; }
+}
+
 suite('LLMService Tests', () => {
     setup(() => {
         // Reset singleton between tests for isolation
@@ -40,6 +72,46 @@ suite('LLMService Tests', () => {
         assert.strictEqual(s1, s2, 'Expected same session instance to be reused');
     });
 
+    test('models.json task parameters are applied when the session is created', async () => {
+        const mgr = new MockProviderManager();
+        const created: any[] = [];
+        const provider = mgr.getCurrentProvider();
+        provider.createChatSession = async (systemMessage: string, options: any) => { created.push(options); return new MockChatSession(systemMessage); };
+        const service = LLMService.getOrCreate(mgr);
+        service.setModelConfigManager({
+            isActive: () => true,
+            getBudgets: () => undefined,
+            resolveModel: () => ({ model: 'qwen3:4b', trace: ['file-task'] }),
+            resolveParameters: (_provider: string, task: string) => ({ params: task === 'analyze' ? { temperature: 0.3, maxOutputTokens: 512, stop: ['END'] } : {}, trace: [] }),
+            resolveEndpoint: (_provider: string, task: string) => task === 'generate_doc' ? 'docs' : undefined
+        } as any);
+        await service.getSession('analyze-key', 'Sys', { taskType: 'analyze' });
+        await service.getSession('override-key', 'Sys', { taskType: 'analyze', temperatureOverride: 0 });
+        await service.getSession('doc-key', 'Sys', { taskType: 'generate_doc' });
+        await service.getSession('chat-key', 'Sys', { taskType: 'chat', temperatureOverride: 0.8 });
+        assert.deepStrictEqual(created[0], { temperature: 0.3, maxOutputTokens: 512, stop: ['END'], model: 'qwen3:4b', endpoint: undefined });
+        assert.strictEqual(created[1].temperature, 0.3, 'models.json task temperature wins over a caller override');
+        assert.strictEqual(created[2].temperature, 0.2, 'modelPolicy temperature applies when models.json sets none');
+        assert.strictEqual(created[2].endpoint, 'docs', 'task routed to its named local endpoint');
+        assert.strictEqual(created[3].temperature, 0.8, 'caller override applies when models.json sets no temperature');
+    });
+
+    test('Tasks routed to a missing local endpoint fail instead of falling back to the cloud', async () => {
+        const mgr = new MockProviderManager();
+        mgr.getCurrentProvider().createChatSession = async () => {
+            throw new LLMProviderError(`Unknown local endpoint 'docs'. Define it under providers.local.endpoints in models.json.`, 'Local LLM', 'MODEL_ERROR');
+        };
+        const service = LLMService.getOrCreate(mgr);
+        service.setModelConfigManager({
+            isActive: () => true,
+            getBudgets: () => undefined,
+            resolveModel: () => ({ model: 'qwen3:4b', trace: ['file-task'] }),
+            resolveParameters: () => ({ params: {}, trace: [] }),
+            resolveEndpoint: () => 'docs'
+        } as any);
+        await assert.rejects(service.getSession('doc-key', 'Sys', { taskType: 'generate_doc' }), /Unknown local endpoint 'docs'/);
+    });
+
     test('Different keys create different sessions', async () => {
         const mgr = new MockProviderManager();
         const service = LLMService.getOrCreate(mgr);
@@ -74,6 +146,22 @@ suite('LLMService Tests', () => {
         assert.ok(stats.perTask.chat === 2, 'Per-task chat count should be 2');
     });
 
+    test('Provider-reported usage is tracked per task, model and provider', async () => {
+        const mgr = new MockProviderManager();
+        const service = LLMService.getOrCreate(mgr);
+        await service.request({ type: 'chat', prompt: 'Hello there' });
+        await service.request({ type: 'summarize', content: 'Some document text' });
+        const stats = service.getStats();
+        assert.strictEqual(stats.measuredRequests, 2);
+        assert.strictEqual(stats.actualInputTokens, 80);
+        assert.strictEqual(stats.actualOutputTokens, 20);
+        assert.strictEqual(stats.toolCallTokens, 4);
+        assert.strictEqual(stats.perTaskUsage.chat.inputTokens, 40);
+        assert.strictEqual(stats.perTaskUsage.summarize.requests, 1);
+        assert.strictEqual(stats.perProvider.mock.outputTokens, 20);
+        assert.strictEqual(Object.values(stats.perModel).reduce((n, u) => n + u.requests, 0), 2);
+    });
+
     test('Persistence save state does not throw', async () => {
         const mgr = new MockProviderManager();
         const service = LLMService.getOrCreate(mgr);
@@ -85,6 +173,62 @@ suite('LLMService Tests', () => {
         assert.ok(memory['llmService.stats'], 'Expected stats key to be saved');
     });
 
+    test('Budgets reject requests once the daily limit is used up', async () => {
+        const mgr = new MockProviderManager();
+        const service = LLMService.getOrCreate(mgr);
+        service.setModelConfigManager({ isActive: () => false, getBudgets: () => ({ providers: { cloud: { requestsPerDay: 5 } }, tasks: { summarize: { requestsPerDay: 1 } } }) } as any);
+        await service.request({ type: 'summarize', content: 'First document' });
+        await assert.rejects(
+            service.request({ type: 'summarize', content: 'Second document' }),
+            (e: any) => e instanceof LLMProviderError && e.code === 'RATE_LIMITED' && /task budget for 'summarize'/.test(e.message)
+        );
+        const answer = await service.request({ type: 'chat', prompt: 'Other tasks still work' });
+        assert.ok(answer.content.startsWith('MOCK_RESPONSE'));
+        assert.deepStrictEqual(service.getStats().budgetUsage.tasks.summarize, { requests: 1, tokens: 50 });
+    });
+
+    test('Counts are restored from workspaceState on the same day', async () => {
+        const memory: Record<string, any> = {};
+        const context: any = { workspaceState: { update: async (k: string, v: any) => { memory[k] = v; }, get: (k: string) => memory[k] } };
+        const first = LLMService.getOrCreate(new MockProviderManager());
+        first.initializePersistence(context);
+        await first.request({ type: 'chat', prompt: 'Count me' });
+        await first.saveState();
+        (LLMService as any).instance = undefined;
+        const second = LLMService.getOrCreate(new MockProviderManager());
+        second.initializePersistence(context);
+        assert.strictEqual(second.getStats().requests, 1);
+        assert.strictEqual(second.getStats().budgetUsage.providers.cloud.requests, 1);
+    });
+
+    test('Identical summarize requests are served from the response cache', async () => {
+        const memory: Record<string, any> = {};
+        const context: any = { workspaceState: { update: async (k: string, v: any) => { memory[k] = v; }, get: (k: string) => memory[k] } };
+        const service = LLMService.getOrCreate(new MockProviderManager());
+        service.initializePersistence(context);
+        const first = await service.request({ type: 'summarize', content: 'Unchanged document', targetId: 'doc1' });
+        const second = await service.request({ type: 'summarize', content: 'Unchanged document', targetId: 'doc1' });
+        assert.strictEqual(second.content, first.content);
+        assert.strictEqual(second.meta?.cached, true);
+        assert.strictEqual(service.getStats().requests, 1, 'Cache hit should not reach the provider');
+        const bypassed = await service.request({ type: 'summarize', content: 'Unchanged document', targetId: 'doc1', bypassCache: true });
+        assert.strictEqual(bypassed.meta?.cached, false);
+        assert.strictEqual(service.getStats().requests, 2);
+        assert.strictEqual(await service.clearResponseCache(), 1);
+        const afterClear = await service.request({ type: 'summarize', content: 'Unchanged document', targetId: 'doc1' });
+        assert.strictEqual(afterClear.meta?.cached, false);
+    });
+
+    test('Chat requests are never cached', async () => {
+        const memory: Record<string, any> = {};
+        const context: any = { workspaceState: { update: async (k: string, v: any) => { memory[k] = v; }, get: (k: string) => memory[k] } };
+        const service = LLMService.getOrCreate(new MockProviderManager());
+        service.initializePersistence(context);
+        await service.request({ type: 'chat', prompt: 'Same question' });
+        await service.request({ type: 'chat', prompt: 'Same question' });
+        assert.strictEqual(service.getStats().requests, 2);
+    });
+
     test('History survives provider change via reinitializeSessions', async () => {
         // This test simulates: user chats, provider sessions cleared, sessions recreated with preserved history.
         const mgr = new MockProviderManager();
@@ -104,4 +248,92 @@ suite('LLMService Tests', () => {
         const histAfter = session2.getHistory();
         assert.strictEqual(histAfter.length, histBefore.length, 'History length should match after rehydration');
     });
+
+    test('Network failure fails over to next provider and keeps history', async () => {
+        const mgr = new FailoverProviderManager(new Error('fetch failed'));
+        const service = LLMService.getOrCreate(mgr);
+        const events: any[] = [];
+        const sub = service.onDidFailover(e => events.push(e));
+        const session = await service.getSession('thread-failover', 'Sys');
+        session.setHistory([{ role: 'user', content: 'earlier' }] as any);
+        const answer = await service.trackedChat({ sessionId: 'thread-failover', systemMessage: 'Sys', prompt: 'Hello again' });
+        sub.dispose();
+        assert.ok(answer.startsWith('MOCK_RESPONSE'), 'Fallback provider should answer');
+        assert.deepStrictEqual(service.getSessionProviderInfo('thread-failover'), { provider: 'mock-fallback', providerType: 'local' });
+        const replacement = await service.getSession('thread-failover', 'Sys');
+        assert.notStrictEqual(replacement, session, 'Session should be replaced by fallback session');
+        assert.strictEqual(replacement.getHistory().length, 3, 'Prior history plus the new exchange');
+        assert.strictEqual(events.length, 1);
+        assert.strictEqual(events[0].code, 'NETWORK_ERROR');
+        assert.strictEqual(events[0].fromProvider, 'mock-primary');
+    });
+
+    test('Unclassified errors are not retried on fallback providers', async () => {
+        const mgr = new FailoverProviderManager(new Error('Model produced invalid output'));
+        const service = LLMService.getOrCreate(mgr);
+        await assert.rejects(service.request({ type: 'chat', prompt: 'Hi', sessionId: 'no-failover' }), /invalid output/);
+        assert.strictEqual(service.getSessionProviderInfo('no-failover').provider, 'mock-primary');
+    });
+
+    test('trackedChatStream forwards chunks and returns the final answer', async () => {
+        const mgr = new MockProviderManager();
+        const service = LLMService.getOrCreate(mgr);
+        const chunks: string[] = [];
+        const answer = await service.trackedChatStream({ sessionId: 'stream1', systemMessage: 'Sys', prompt: 'Stream this please', onChunk: c => chunks.push(c) });
+        assert.ok(chunks.length > 1, 'Expected multiple chunks');
+        assert.strictEqual(chunks.join(''), answer);
+        assert.strictEqual(service.getStats().perTask.chat, 1, 'Streamed turn should be tracked like chat');
+    });
+
+    test('requestStructured validates replies and repairs invalid ones', async () => {
+        const mgr = new MockProviderManager();
+        const calls: Array<{ messages: any[]; options: any }> = [];
+        const replies = ['Sure! {"name": "parser", "files": "parser.ts"}', '```json\n{"name": "parser", "files": ["parser.ts"]}\n```'];
+        mgr.getCurrentProvider().createChatSession = async (systemMessage: string) => Object.assign(new MockChatSession(systemMessage), {
+            complete: async (messages: any[], options: any) => { calls.push({ messages, options }); return replies[calls.length - 1] ?? 'no json'; }
+        });
+        const service = LLMService.getOrCreate(mgr);
+        const schema = z.object({ name: z.string(), files: z.array(z.string()) });
+        const value = await service.requestStructured({ prompt: 'Describe the parser' }, schema);
+        assert.deepStrictEqual(value, { name: 'parser', files: ['parser.ts'] });
+        assert.strictEqual(calls.length, 2);
+        assert.strictEqual(calls[0].options.jsonSchema.properties.files.type, 'array', 'schema offered to the native JSON mode');
+        assert.deepStrictEqual(calls[1].messages.map(m => m.getType()), ['human', 'ai', 'human']);
+        assert.match(calls[1].messages[2].text, /files: Expected array, received string/);
+        assert.strictEqual(service.getStats().perTask.analyze, 2, 'each attempt is a tracked request');
+        assert.strictEqual((await service.getSession('structured:analyze', 'Sys')).getHistory().length, 0, 'session history untouched');
+
+        await assert.rejects(
+            service.requestStructured({ prompt: 'Again', maxRepairs: 1 }, schema),
+            (e: any) => e instanceof StructuredOutputError && e.attempts === 2 && e.lastResponse === 'no json' && /no valid JSON/.test(e.issues[0])
+        );
+    });
+
+    test('requestStructured uses the system message of each call', async () => {
+        const mgr = new MockProviderManager();
+        const systemMessages: string[] = [];
+        mgr.getCurrentProvider().createChatSession = async (systemMessage: string) => {
+            systemMessages.push(systemMessage);
+            return Object.assign(new MockChatSession(systemMessage), { complete: async () => '{"files": ["a.md"]}' });
+        };
+        const service = LLMService.getOrCreate(mgr);
+        const schema = z.object({ files: z.array(z.string()) });
+        await service.requestStructured({ prompt: 'Pick files', sessionId: 'read_files', systemMessage: 'Instruction: README' }, schema);
+        await service.requestStructured({ prompt: 'Pick files', sessionId: 'read_files', systemMessage: 'Instruction: CONTRIBUTING' }, schema);
+        assert.deepStrictEqual(systemMessages, ['Instruction: README', 'Instruction: CONTRIBUTING']);
+        assert.strictEqual(service.getStats().perTask.analyze, 2, 'each call reaches the model');
+    });
+
+    test('Aborted signal rejects with LLMCancelledError and is not counted', async () => {
+        const mgr = new MockProviderManager();
+        const service = LLMService.getOrCreate(mgr);
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(
+            service.request({ type: 'chat', prompt: 'Never sent', sessionId: 'cancelled', signal: controller.signal }),
+            (e: any) => e instanceof LLMCancelledError
+        );
+        assert.strictEqual(service.getStats().requests, 0, 'Cancelled requests should not be counted');
+        assert.strictEqual((await service.getSession('cancelled', 'Sys')).getHistory().length, 0, 'History should be untouched');
+    });
 });
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OllamaModelClient, PullProgress, configuredOllamaModels, formatSize } from '../managers/LocalModelManager';
+import { LLMProviderError } from '../llm-providers/base';
+
+/** Stand-in for the parts of the Ollama API the model manager uses */
+function startOllamaStandIn(): Promise<{ server: http.Server; baseUrl: string; models: any[] }> {
+    const models: any[] = [
+        { name: 'qwen3:0.6b', size: 522_653_767, details: { family: 'qwen3', parameter_size: '751.63M', quantization_level: 'Q4_K_M' } },
+        { name: 'nomic-embed-text:latest', size: 274_302_450, details: { family: 'nomic-bert', parameter_size: '137M', quantization_level: 'F16' } }
+    ];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const json = body ? JSON.parse(body) : {};
+            if (req.method === 'GET' && req.url === '/api/tags') {
+                res.end(JSON.stringify({ models }));
+            } else if (req.method === 'POST' && req.url === '/api/pull') {
+                if (json.model === 'no-such-model') {
+                    res.end(JSON.stringify({ status: 'pulling manifest' }) + '\n' + JSON.stringify({ error: 'pull model manifest: file does not exist' }) + '\n');
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                const lines = [
+                    { status: 'pulling manifest' },
+                    { status: 'pulling aaa', digest: 'sha256:aaa', total: 1000, completed: 500 },
+                    { status: 'pulling aaa', digest: 'sha256:aaa', total: 1000, completed: 1000 },
+                    { status: 'verifying sha256 digest' },
+                    { status: 'success' }
+                ];
+                // Split a line across writes to exercise buffering
+                const text = lines.map(l => JSON.stringify(l)).join('\n') + '\n';
+                res.write(text.slice(0, 50));
+                setTimeout(() => {
+                    res.end(text.slice(50));
+                    models.push({ name: json.model, size: 1000, details: {} });
+                }, 5);
+            } else if (req.method === 'DELETE' && req.url === '/api/delete') {
+                const index = models.findIndex(m => m.name === json.model);
+                if (index < 0) {
+                    res.writeHead(404);
+                    res.end(JSON.stringify({ error: `model '${json.model}' not found` }));
+                    return;
+                }
+                models.splice(index, 1);
+                res.end();
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        resolve({ server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, models });
+    }));
+}
+
+suite('Local Model Manager Tests', () => {
+    let standIn: { server: http.Server; baseUrl: string; models: any[] };
+
+    setup(async () => {
+        standIn = await startOllamaStandIn();
+    });
+
+    teardown(done => {
+        standIn.server.close(() => done());
+    });
+
+    test('Lists installed models with size and family, deletes them', async () => {
+        const client = new OllamaModelClient(standIn.baseUrl + '/');
+        const models = await client.list();
+        assert.deepStrictEqual(models.map(m => [m.name, m.family, m.parameterSize]), [['qwen3:0.6b', 'qwen3', '751.63M'], ['nomic-embed-text:latest', 'nomic-bert', '137M']]);
+        assert.strictEqual(formatSize(models[0].size), '498.4 MB');
+
+        await client.delete('qwen3:0.6b');
+        assert.deepStrictEqual((await client.list()).map(m => m.name), ['nomic-embed-text:latest']);
+        await assert.rejects(client.delete('qwen3:0.6b'), (e: any) => e instanceof LLMProviderError && /not found/.test(e.message));
+    });
+
+    test('Pull streams progress until success and reports errors from the stream', async () => {
+        const client = new OllamaModelClient(standIn.baseUrl);
+        const events: PullProgress[] = [];
+        await client.pull('gemma3:1b', p => events.push(p));
+        assert.deepStrictEqual(events.map(e => e.status), ['pulling manifest', 'pulling aaa', 'pulling aaa', 'verifying sha256 digest', 'success']);
+        assert.strictEqual(events[2].completed, 1000);
+        assert.ok((await client.list()).some(m => m.name === 'gemma3:1b'));
+
+        await assert.rejects(client.pull('no-such-model', () => { /* ignore */ }), /file does not exist/);
+        await assert.rejects(new OllamaModelClient('http://127.0.0.1:1').list(), (e: any) => e.code === 'NETWORK_ERROR');
+    });
+
+    test('Configured models are collected per Ollama server with their sources', () => {
+        const models = configuredOllamaModels({
+            backend: 'ollama',
+            defaultModel: 'qwen3:0.6b',
+            endpoints: {
+                gpu: { backend: 'ollama', baseUrl: 'http://gpu-box:11434/', defaultModel: 'qwen3:14b' },
+                docs: { backend: 'llamacpp', baseUrl: 'http://localhost:8080', defaultModel: 'qwen2.5-14b' }
+            },
+            tasks: { chat: { model: 'qwen3:0.6b' }, analyze: { endpoint: 'gpu', model: 'qwen3:32b' }, generate_doc: { endpoint: 'docs', model: 'big' } }
+        }, {
+            local: { name: 'Local', type: 'local', llmEngine: 'ollama', model: 'nomic-embed-text' },
+            hf: { name: 'HF', type: 'huggingface', model: 'sentence-transformers/all-MiniLM-L6-v2' }
+        });
+        assert.deepStrictEqual(models, [
+            { model: 'qwen3:0.6b', baseUrl: 'http://localhost:11434', sources: ['models.json local.defaultModel', 'models.json local.tasks.chat'] },
+            { model: 'qwen3:14b', baseUrl: 'http://gpu-box:11434', sources: ['models.json local.endpoints.gpu'] },
+            { model: 'qwen3:32b', baseUrl: 'http://gpu-box:11434', sources: ['models.json local.tasks.analyze'] },
+            { model: 'nomic-embed-text', baseUrl: 'http://localhost:11434', sources: ['embeddings.json local'] }
+        ]);
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { ModelConfigManager, ModelsConfigSchemaV3 } from '../managers/ModelConfigManager';
+
+function managerWith(config: ModelsConfigSchemaV3): ModelConfigManager {
+    const mgr = new ModelConfigManager({} as any);
+    (mgr as any).config = config;
+    (mgr as any).active = true;
+    return mgr;
+}
+
+suite('ModelConfigManager Tests', () => {
+    test('v2 task models migrate to v3 task settings', () => {
+        const migrated = ModelConfigManager.migrateV2toV3({
+            version: 2,
+            providers: { local: { defaultModel: 'gemma3:1b', backend: 'ollama', tasks: { analyze: 'qwen3:4b' } } },
+            fallback: ['cloud']
+        });
+        assert.strictEqual(migrated.version, 3);
+        assert.deepStrictEqual(migrated.providers.local.tasks, { analyze: { model: 'qwen3:4b' } });
+        assert.strictEqual(migrated.providers.local.backend, 'ollama');
+        assert.deepStrictEqual(migrated.fallback, ['cloud']);
+        assert.deepStrictEqual(migrated.tasks, {});
+    });
+
+    test('Provider task settings override shared task parameters', () => {
+        const mgr = managerWith({
+            version: 3,
+            providers: {
+                local: { defaultModel: 'gemma3:1b', tasks: { analyze: { model: 'qwen3:4b', temperature: 0.3, contextWindow: 16384 } } }
+            },
+            tasks: { analyze: { temperature: 0.1, maxOutputTokens: 2048, stop: ['</answer>'] } }
+        });
+        assert.deepStrictEqual(mgr.resolveParameters('local', 'analyze'), {
+            params: { temperature: 0.3, maxOutputTokens: 2048, stop: ['</answer>'], contextWindow: 16384 },
+            trace: ['file-task-params', 'file-provider-task-params']
+        });
+        assert.deepStrictEqual(mgr.resolveParameters('cloud', 'analyze').params, { temperature: 0.1, maxOutputTokens: 2048, stop: ['</answer>'] });
+        assert.deepStrictEqual(mgr.resolveParameters('cloud', 'chat'), { params: {}, trace: [] });
+        assert.strictEqual(mgr.resolveModel('local', 'analyze').model, 'qwen3:4b');
+        assert.strictEqual(mgr.resolveModel('local', 'chat').model, 'gemma3:1b');
+    });
+
+    test('Local tasks route to named endpoints', () => {
+        const mgr = managerWith({
+            version: 3,
+            providers: {
+                local: {
+                    backend: 'ollama', baseUrl: 'http://localhost:11434', defaultModel: 'qwen3:0.6b',
+                    endpoints: { docs: { backend: 'llamacpp', baseUrl: 'http://gpu-box:8080', defaultModel: 'qwen2.5-14b' } },
+                    tasks: { generate_doc: { endpoint: 'docs' }, analyze: { endpoint: 'docs', model: 'qwen2.5-32b' }, translate: { endpoint: 'missing' } }
+                },
+                openai: { tasks: { generate_doc: { endpoint: 'docs' } } }
+            }
+        });
+        assert.strictEqual(mgr.resolveEndpoint('local', 'generate_doc'), 'docs');
+        assert.deepStrictEqual(mgr.resolveModel('local', 'generate_doc'), { model: 'qwen2.5-14b', trace: ['file-endpoint-default'] });
+        assert.strictEqual(mgr.resolveModel('local', 'analyze').model, 'qwen2.5-32b');
+        assert.strictEqual(mgr.resolveEndpoint('local', 'chat'), undefined);
+        assert.strictEqual(mgr.resolveEndpoint('local', 'translate'), undefined);
+        assert.strictEqual(mgr.resolveModel('local', 'translate').model, 'qwen3:0.6b');
+        assert.strictEqual(mgr.resolveEndpoint('openai', 'generate_doc'), undefined);
+        assert.deepStrictEqual(Object.keys(mgr.getLocalEndpoints()), ['docs']);
+    });
+});
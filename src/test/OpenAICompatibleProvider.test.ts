@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../llm-providers/openaiCompatible';
+import { LLMCancelledError, LLMProviderError } from '../llm-providers/base';
+
+// Minimal stand-in for an OpenAI-compatible gateway: /models + /chat/completions
+function startMockServer(opts: { requireKey?: string; reply: string }) {
+    const seen: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: any }> = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            const body = raw ? JSON.parse(raw) : undefined;
+            seen.push({ method: req.method, url: req.url, headers: req.headers, body });
+            if (opts.requireKey && req.headers['authorization'] !== `Bearer ${opts.requireKey}`) {
+                res.writeHead(401, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: { message: 'bad key' } }));
+                return;
+            }
+            if (body?.stream) {
+                // Server-sent events: one chunk per word, then [DONE]
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                const words = opts.reply.split(/(?<= )/);
+                words.forEach((word, i) => {
+                    const delta = i === 0 ? { role: 'assistant', content: word } : { content: word };
+                    res.write(`data: ${JSON.stringify({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', created: 0, model: body.model, choices: [{ index: 0, delta, finish_reason: null }] })}\n\n`);
+                });
+                res.write(`data: ${JSON.stringify({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', created: 0, model: body.model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`);
+                if (body.stream_options?.include_usage) {
+                    res.write(`data: ${JSON.stringify({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', created: 0, model: body.model, choices: [], usage: { prompt_tokens: 7, completion_tokens: words.length, total_tokens: 7 + words.length } })}\n\n`);
+                }
+                res.end('data: [DONE]\n\n');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            if (req.url?.endsWith('/models')) {
+                res.end(JSON.stringify({ object: 'list', data: [{ id: 'mock-model', object: 'model' }] }));
+                return;
+            }
+            res.end(JSON.stringify({
+                id: 'chatcmpl-mock',
+                object: 'chat.completion',
+                created: Math.floor(Date.now() / 1000),
+                model: body?.model,
+                choices: [{ index: 0, message: { role: 'assistant', content: opts.reply }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 }
+            }));
+        });
+    });
+    return new Promise<{ baseUrl: string; seen: typeof seen; close: () => void }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const port = (server.address() as AddressInfo).port;
+            resolve({ baseUrl: `http://127.0.0.1:${port}/v1`, seen, close: () => server.close() });
+        });
+    });
+}
+
+suite('OpenAICompatibleProvider Tests', () => {
+    test('Chat goes through the gateway with model, key and extra headers', async () => {
+        const mock = await startMockServer({ requireKey: 'sk-test', reply: 'Hello from gateway' });
+        try {
+            const provider = new OpenAICompatibleProvider();
+            await provider.initialize({ baseUrl: mock.baseUrl, apiKey: 'sk-test', model: 'mock-model', headers: { 'X-Team': 'docs' } });
+            assert.ok(provider.isAvailable, 'Provider should be available after initialize');
+            const session = await provider.createChatSession('You are a test assistant.');
+            const answer = await session.chat('ping');
+            assert.strictEqual(answer, 'Hello from gateway');
+            const completion = mock.seen.find(r => r.url?.endsWith('/chat/completions'));
+            assert.ok(completion, 'Expected a chat completion request');
+            assert.strictEqual(completion!.body.model, 'mock-model');
+            assert.strictEqual(completion!.headers['x-team'], 'docs');
+            assert.ok(Array.isArray(completion!.body.tools) && completion!.body.tools.length > 0, 'Expected agent tools to be bound');
+            assert.deepStrictEqual(session.getLastUsage!(), { inputTokens: 5, outputTokens: 3, toolCallTokens: 0, totalTokens: 8 });
+        } finally {
+            mock.close();
+        }
+    });
+
+    test('chatStream delivers the answer in chunks', async () => {
+        const mock = await startMockServer({ reply: 'Streaming answer from the gateway' });
+        try {
+            const provider = new OpenAICompatibleProvider();
+            await provider.initialize({ baseUrl: mock.baseUrl, model: 'mock-model' });
+            const session = await provider.createChatSession('You are a test assistant.');
+            const chunks: string[] = [];
+            const answer = await session.chatStream!('ping', c => chunks.push(c));
+            assert.strictEqual(answer, 'Streaming answer from the gateway');
+            assert.ok(chunks.length > 1, 'Expected multiple streamed chunks');
+            assert.strictEqual(chunks.join(''), answer);
+            assert.strictEqual(session.getHistory().length, 2, 'Streamed exchange should be stored in history');
+            assert.strictEqual(session.getLastUsage!()?.inputTokens, 7, 'Usage from the final stream chunk should be recorded');
+        } finally {
+            mock.close();
+        }
+    });
+
+    test('Aborting chatStream keeps partial text and rolls back history', async () => {
+        const mock = await startMockServer({ reply: 'An answer that will be cut short' });
+        try {
+            const provider = new OpenAICompatibleProvider();
+            await provider.initialize({ baseUrl: mock.baseUrl, model: 'mock-model' });
+            const session = await provider.createChatSession('You are a test assistant.');
+            const controller = new AbortController();
+            await assert.rejects(
+                session.chatStream!('ping', () => controller.abort(), { signal: controller.signal }),
+                (e: any) => e instanceof LLMCancelledError && e.partialText.length > 0
+            );
+            assert.strictEqual(session.getHistory().length, 0, 'Cancelled turn should not be stored in history');
+        } finally {
+            mock.close();
+        }
+    });
+
+    test('Rejected key surfaces AUTH_FAILED', async () => {
+        const mock = await startMockServer({ requireKey: 'sk-right', reply: 'unused' });
+        try {
+            const provider = new OpenAICompatibleProvider();
+            await assert.rejects(
+                provider.initialize({ baseUrl: mock.baseUrl, apiKey: 'sk-wrong' }),
+                (e: any) => e instanceof LLMProviderError && e.code === 'AUTH_FAILED'
+            );
+            assert.strictEqual(provider.isAvailable, false);
+        } finally {
+            mock.close();
+        }
+    });
+
+    test('Unreachable endpoint surfaces NETWORK_ERROR', async () => {
+        const provider = new OpenAICompatibleProvider();
+        await assert.rejects(
+            provider.initialize({ baseUrl: 'http://127.0.0.1:9/v1' }),
+            (e: any) => e instanceof LLMProviderError && e.code === 'NETWORK_ERROR'
+        );
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { PromptRegistry, PromptChangeEvent, renderTemplate, promptDefinition } from '../managers/PromptRegistry';
+import { DEFAULT_PROMPTS, PromptId } from '../SystemMessages';
+
+suite('Prompt Registry Tests', () => {
+    test('renderTemplate fills placeholders once and keeps unknown ones', () => {
+        assert.strictEqual(renderTemplate('Doc {{ title }}:\n{{context}}', { title: 'README', context: 'Uses {{title}} syntax' }), 'Doc README:\nUses {{title}} syntax');
+        assert.strictEqual(renderTemplate('Hello {{nmae}}', { name: 'x' }), 'Hello {{nmae}}');
+    });
+
+    test('Every declared variable appears in its default template', () => {
+        for (const id of Object.keys(DEFAULT_PROMPTS) as PromptId[]) {
+            for (const variable of promptDefinition(id).variables ?? []) {
+                assert.ok(DEFAULT_PROMPTS[id].template.includes(`{{${variable}}}`), `${id} uses {{${variable}}}`);
+            }
+        }
+    });
+
+    test('Overrides replace defaults and report the previous template of changed ids', () => {
+        const registry = new PromptRegistry();
+        const events: PromptChangeEvent[] = [];
+        registry.onDidChange(e => events.push(e));
+
+        registry.applyOverrides(new Map([['doc-drift', 'House style drift report.'], ['document-beginner', 'Explain {{title}} simply.']]));
+        assert.strictEqual(registry.render('doc-drift'), 'House style drift report.');
+        assert.strictEqual(registry.render('document-beginner', { title: 'guide.md', context: 'ignored' }), 'Explain guide.md simply.');
+        assert.deepStrictEqual(registry.getOverriddenIds(), ['doc-drift', 'document-beginner']);
+        assert.deepStrictEqual(events[0].ids, ['document-beginner', 'doc-drift']);
+        assert.strictEqual(events[0].previous['doc-drift'], DEFAULT_PROMPTS['doc-drift'].template);
+
+        registry.applyOverrides(new Map([['doc-drift', 'House style drift report.']]));
+        assert.deepStrictEqual(events[1].ids, ['document-beginner'], 'unchanged overrides do not fire');
+        assert.strictEqual(registry.isOverridden('document-beginner'), false);
+        registry.applyOverrides(new Map([['doc-drift', 'House style drift report.']]));
+        assert.strictEqual(events.length, 2);
+    });
+});
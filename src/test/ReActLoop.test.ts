@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { parseReActAction, runReActLoop } from '../langchain-backend/react';
+
+function lookupTool(calls: string[]) {
+    return tool(async ({ filePath }) => { calls.push(filePath); return `contents of ${filePath}`; }, {
+        name: 'retrieveFileContent',
+        description: 'Retrieve the content of a specific file.',
+        schema: z.object({ filePath: z.string().describe('Path of the file') })
+    });
+}
+
+suite('ReAct Loop Tests', () => {
+    test('parseReActAction recognises tool requests only for known tools', () => {
+        const names = ['retrieveFileContent'];
+        assert.deepStrictEqual(parseReActAction('{"tool": "retrieveFileContent", "input": {"filePath": "README.md"}}', names), { tool: 'retrieveFileContent', input: { filePath: 'README.md' } });
+        assert.deepStrictEqual(parseReActAction('<think>need the readme</think>\n```json\n{"action": "retrieveFileContent", "action_input": {"filePath": "a.ts"}}\n```', names), { tool: 'retrieveFileContent', input: { filePath: 'a.ts' } });
+        assert.deepStrictEqual(parseReActAction('{"tool": "final_answer", "input": "Done"}', names), { final: 'Done' });
+        // JSON answers for other tasks (e.g. analyzers) must pass through untouched
+        assert.deepStrictEqual(parseReActAction('{"name": "MyProject", "components": []}', names), { final: '{"name": "MyProject", "components": []}' });
+        assert.deepStrictEqual(parseReActAction('The project is a VS Code extension.', names), { final: 'The project is a VS Code extension.' });
+    });
+
+    test('Loop runs the requested tool and returns the final answer', async () => {
+        const calls: string[] = [];
+        const model = new FakeListChatModel({ responses: ['{"tool": "retrieveFileContent", "input": {"filePath": "README.md"}}', 'The README describes NaruhoDocs.'] });
+        const answer = await runReActLoop({ model, tools: [lookupTool(calls)], messages: [new SystemMessage('You are helpful.'), new HumanMessage('What is this project?')] });
+        assert.strictEqual(answer, 'The README describes NaruhoDocs.');
+        assert.deepStrictEqual(calls, ['README.md']);
+    });
+
+    test('Streaming forwards only the answer, never the tool request', async () => {
+        const calls: string[] = [];
+        const model = new FakeListChatModel({ responses: ['{"tool": "retrieveFileContent", "input": {"filePath": "package.json"}}', 'Version 1.0.0.'] });
+        const chunks: string[] = [];
+        const answer = await runReActLoop({ model, tools: [lookupTool(calls)], messages: [new HumanMessage('Which version?')], onChunk: c => chunks.push(c) });
+        assert.strictEqual(answer, 'Version 1.0.0.');
+        assert.strictEqual(chunks.join(''), 'Version 1.0.0.');
+        assert.deepStrictEqual(calls, ['package.json']);
+    });
+
+    test('Step budget forces a final answer', async () => {
+        const calls: string[] = [];
+        const request = '{"tool": "retrieveFileContent", "input": {"filePath": "x"}}';
+        const model = new FakeListChatModel({ responses: [request, request, 'Best effort answer.'] });
+        const answer = await runReActLoop({ model, tools: [lookupTool(calls)], messages: [new HumanMessage('Loop?')], maxSteps: 2 });
+        assert.strictEqual(answer, 'Best effort answer.');
+        assert.strictEqual(calls.length, 2);
+    });
+});
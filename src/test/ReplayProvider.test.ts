@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { HumanMessage, SystemMessage, BaseMessage } from '@langchain/core/messages';
+import { tool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { LLMProvider, LLMProviderError } from '../llm-providers/base';
+import { ReplayProvider, RecordedExchange, replayHash } from '../llm-providers/replay';
+import { ChatSession } from '../langchain-backend/llm';
+import { runReActLoop } from '../langchain-backend/react';
+
+/** Target provider whose sessions answer through the ReAct loop, so tool runs go through real LangChain callbacks */
+function scriptedProvider(responses: string[]): LLMProvider {
+    const readFile = tool(async ({ filePath }) => `contents of ${filePath}`, {
+        name: 'retrieveFileContent',
+        description: 'Retrieve the content of a specific file.',
+        schema: z.object({ filePath: z.string() })
+    });
+    return {
+        name: 'Scripted',
+        isAvailable: true,
+        initialize: async () => { /* always ready */ },
+        createChatSession: async (systemMessage: string): Promise<ChatSession> => {
+            const model = new FakeListChatModel({ responses });
+            let history: BaseMessage[] = [];
+            return {
+                chat: async (prompt, options) => {
+                    const answer = await runReActLoop({ model, tools: [readFile], messages: [new SystemMessage(systemMessage), new HumanMessage(prompt)], callbacks: options?.callbacks });
+                    history.push(new HumanMessage(prompt));
+                    return answer;
+                },
+                getLastUsage: () => ({ inputTokens: 12, outputTokens: 5, toolCallTokens: 0, totalTokens: 17 }),
+                reset: () => { history = []; },
+                getHistory: () => history,
+                setHistory: h => { history = h; },
+                setCustomSystemMessage: () => { /* unused */ }
+            };
+        },
+        testConnection: async () => true,
+        getUsageInfo: async () => ({ requestsToday: 0, requestsRemaining: Infinity, isUnlimited: true })
+    };
+}
+
+suite('Replay Provider Tests', () => {
+    let dir: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'naruhodocs-replay-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('Record mode writes the exchange with tool calls and usage', async () => {
+        const recorder = new ReplayProvider();
+        const target = scriptedProvider(['{"tool": "retrieveFileContent", "input": {"filePath": "README.md"}}', 'It documents NaruhoDocs.']);
+        await recorder.initialize({ replay: { mode: 'record', dir, recording: 'docs', target } });
+        const session = await recorder.createChatSession('You are helpful.');
+        assert.strictEqual(await session.chat('What is this project?'), 'It documents NaruhoDocs.');
+        await recorder.flush();
+
+        const lines = fs.readFileSync(path.join(dir, 'docs.jsonl'), 'utf8').trim().split('\n');
+        assert.strictEqual(lines.length, 1);
+        const exchange = JSON.parse(lines[0]) as RecordedExchange;
+        assert.strictEqual(exchange.hash, replayHash('You are helpful.', 'What is this project?'));
+        assert.strictEqual(exchange.provider, 'Scripted');
+        assert.deepStrictEqual(exchange.toolCalls.map(c => [c.name, c.output]), [['retrieveFileContent', 'contents of README.md']]);
+        assert.strictEqual(exchange.usage?.totalTokens, 17);
+    });
+
+    test('Replay mode serves recordings by prompt hash in recorded order', async () => {
+        const recorder = new ReplayProvider();
+        await recorder.initialize({ replay: { mode: 'record', dir, target: scriptedProvider(['First.', 'Second.']) } });
+        const recording = await recorder.createChatSession('sys');
+        await recording.chat('Again?');
+        await recording.chat('Again?');
+        await recorder.flush();
+
+        const replayer = new ReplayProvider();
+        await replayer.initialize({ replay: { mode: 'replay', dir } });
+        const session = await replayer.createChatSession('sys');
+        assert.strictEqual(await session.chat('Again?'), 'First.');
+        const chunks: string[] = [];
+        assert.strictEqual(await session.chatStream!('Again?', c => chunks.push(c)), 'Second.');
+        assert.strictEqual(chunks.join(''), 'Second.');
+        // The last recorded answer repeats once the queue is used up
+        assert.strictEqual(await session.chat('Again?'), 'Second.');
+        assert.strictEqual(session.getLastUsage?.()?.totalTokens, 17);
+        assert.strictEqual(session.getHistory().length, 6);
+    });
+
+    test('Unrecorded prompts and empty directories fail with MODEL_ERROR', async () => {
+        await assert.rejects(new ReplayProvider().initialize({ replay: { mode: 'replay', dir } }),
+            (e: any) => e instanceof LLMProviderError && e.code === 'MODEL_ERROR');
+
+        const exchange: RecordedExchange = { hash: replayHash('sys', 'known'), provider: 'Scripted', systemMessage: 'sys', prompt: 'known', response: 'yes', toolCalls: [], recordedAt: new Date().toISOString() };
+        fs.writeFileSync(path.join(dir, 'manual.jsonl'), JSON.stringify(exchange) + '\n');
+        const replayer = new ReplayProvider();
+        await replayer.initialize({ replay: { mode: 'replay', dir } });
+        const session = await replayer.createChatSession('sys');
+        assert.strictEqual(await session.chat('known'), 'yes');
+        await assert.rejects(session.chat('unknown'), (e: any) => e instanceof LLMProviderError && e.code === 'MODEL_ERROR');
+        // A different system message is a different prompt
+        await assert.rejects((await replayer.createChatSession('other')).chat('known'), /No recorded response/);
+    });
+});
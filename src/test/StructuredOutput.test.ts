@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { z } from 'zod';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { HumanMessage } from '@langchain/core/messages';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { extractJsonText, parseStructured, repairPrompt } from '../utils/structuredOutput';
+import { completeOnce, geminiJsonMode, ollamaJsonMode } from '../langchain-backend/llm';
+
+/** Fake model that records the call options of each invocation */
+class RecordingModel extends FakeListChatModel {
+    readonly seen: any[] = [];
+    async _generate(messages: any, options: any, runManager?: any) {
+        this.seen.push(options);
+        return super._generate(messages, options, runManager);
+    }
+}
+
+suite('Structured Output Tests', () => {
+    test('extractJsonText skips prose, fences, reasoning and unbalanced brackets', () => {
+        assert.strictEqual(extractJsonText('Here you go:\n```json\n{"a": [1, 2]}\n```\nAnything else?'), '{"a": [1, 2]}');
+        assert.strictEqual(extractJsonText('<think>maybe {"draft": true}</think>[{"x": "}"}]'), '[{"x": "}"}]');
+        assert.strictEqual(extractJsonText('Options [a] and [b], answer: {"ok": true}'), '{"ok": true}');
+        assert.strictEqual(extractJsonText('{"truncated": [1, 2'), undefined);
+    });
+
+    test('parseStructured reports schema issues by path', () => {
+        const schema = z.object({ items: z.array(z.object({ name: z.string() })) });
+        assert.deepStrictEqual(parseStructured('{"items": [{"name": "a"}]}', schema), { ok: true, value: { items: [{ name: 'a' }] } });
+        const invalid = parseStructured('{"items": [{"name": 3}]}', schema);
+        assert.deepStrictEqual(invalid, { ok: false, issues: ['items.0.name: Expected string, received number'] });
+        assert.match(repairPrompt(invalid.ok ? [] : invalid.issues), /- items\.0\.name: Expected string/);
+        assert.deepStrictEqual(parseStructured('  ', schema), { ok: false, issues: ['The reply was empty.'] });
+    });
+
+    test('completeOnce passes native JSON mode options and strips reasoning', async () => {
+        const schema = toJsonSchema(z.object({ name: z.string().default('x') }));
+        const model = new RecordingModel({ responses: ['<think>hmm</think>{"name": "a"}', 'plain'] });
+        assert.strictEqual(await completeOnce(model, [new HumanMessage('Name?')], ollamaJsonMode, { jsonSchema: schema }), '{"name": "a"}');
+        assert.strictEqual(model.seen[0].format, schema);
+        await completeOnce(model, [new HumanMessage('Name?')], ollamaJsonMode);
+        assert.strictEqual(model.seen[1].format, undefined, 'no JSON mode without a schema');
+
+        const gemini = geminiJsonMode(schema).responseSchema as any;
+        assert.deepStrictEqual(gemini, { type: 'object', properties: { name: { type: 'string' } } });
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { UsageHistory, UsageRecord, percentile, summarizeUsage, usageToCsv } from '../managers/UsageHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-03-10T12:00:00Z');
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+    return {
+        ts: NOW, task: 'chat', provider: 'gemini', model: 'gemini-2.0-flash', durationMs: 100,
+        inputTokens: 10, outputTokens: 5, toolCallTokens: 0, estimated: false, success: true,
+        ...overrides
+    };
+}
+
+/** workspaceState kept in memory */
+function memento(initial: Record<string, unknown> = {}): vscode.Memento {
+    const values = new Map(Object.entries(initial));
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, fallback?: unknown) => values.has(key) ? values.get(key) : fallback,
+        update: async (key: string, value: unknown) => { if (value === undefined) { values.delete(key); } else { values.set(key, value); } }
+    } as vscode.Memento;
+}
+
+suite('Usage History Tests', () => {
+    test('percentile uses the nearest rank', () => {
+        const values = [500, 100, 300, 200, 400, 600, 700, 800, 900, 1000];
+        assert.strictEqual(percentile(values, 50), 500);
+        assert.strictEqual(percentile(values, 95), 1000);
+        assert.strictEqual(percentile([42], 95), 42);
+        assert.strictEqual(percentile([], 50), 0);
+    });
+
+    test('summarizeUsage groups by UTC day, task and model and ignores failures for latency', () => {
+        const records = [
+            record({ ts: NOW - 10 * DAY }),                                   // outside a 7 day range
+            record({ ts: NOW - 2 * DAY, durationMs: 200 }),
+            record({ ts: NOW - 2 * DAY, task: 'summarize', model: 'llama3', provider: 'ollama', durationMs: 400 }),
+            record({ ts: NOW, durationMs: 300, inputTokens: 40, outputTokens: 20, estimated: true }),
+            record({ ts: NOW, success: false, durationMs: 30000, inputTokens: 0, outputTokens: 0, errorCode: 'NETWORK_ERROR' })
+        ];
+        const summary = summarizeUsage(records, 7, NOW);
+        assert.strictEqual(summary.from, '2025-03-04');
+        assert.strictEqual(summary.to, '2025-03-10');
+        assert.strictEqual(summary.daily.length, 7);
+        assert.deepStrictEqual(summary.daily.map(d => d.requests), [0, 0, 0, 0, 2, 0, 2]);
+        assert.strictEqual(summary.daily[6].errors, 1);
+        assert.strictEqual(summary.totals.requests, 4);
+        assert.strictEqual(summary.totals.errorRate, 0.25);
+        assert.deepStrictEqual([summary.totals.inputTokens, summary.totals.outputTokens], [20, 10], 'reported tokens only');
+        assert.deepStrictEqual([summary.totals.estimatedInputTokens, summary.totals.estimatedOutputTokens], [40, 20]);
+        assert.deepStrictEqual([summary.daily[6].inputTokens, summary.daily[6].estimatedInputTokens], [0, 40]);
+
+        const chat = summary.perTask.find(r => r.key === 'chat')!;
+        assert.deepStrictEqual([chat.requests, chat.errors, chat.p50Ms, chat.p95Ms], [3, 1, 200, 300]);
+        assert.deepStrictEqual(summary.perModel.map(r => r.key), ['gemini-2.0-flash (gemini)', 'llama3 (ollama)']);
+    });
+
+    test('usageToCsv quotes fields with separators', () => {
+        const csv = usageToCsv([record({ model: 'my,"model"', errorCode: undefined })]);
+        const [header, row] = csv.trim().split('\r\n');
+        assert.strictEqual(header, 'timestamp,task,provider,model,durationMs,inputTokens,outputTokens,toolCallTokens,estimated,success,errorCode');
+        assert.strictEqual(row, '2025-03-10T12:00:00.000Z,chat,gemini,"my,""model""",100,10,5,0,false,true,');
+    });
+
+    test('History persists records and prunes by age and count', async () => {
+        const state = memento({ 'llmService.usageHistory': [record({ ts: Date.now() - 100 * DAY }), record({ ts: Date.now() - DAY })] });
+        const history = new UsageHistory(state, 90, 2);
+        assert.strictEqual(history.size, 1, 'records past the retention window are dropped on load');
+
+        await history.add(record({ ts: Date.now(), task: 'translate' }));
+        await history.add(record({ ts: Date.now(), task: 'summarize' }));
+        assert.deepStrictEqual(history.getRecords().map(r => r.task), ['translate', 'summarize']);
+        assert.strictEqual(new UsageHistory(state).size, 2, 'reloaded from workspaceState');
+
+        assert.strictEqual(await history.clear(), 2);
+        assert.strictEqual(new UsageHistory(state).size, 0);
+    });
+});
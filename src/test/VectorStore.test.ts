@@ -0,0 +1,170 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Document } from '@langchain/core/documents';
+import { Embeddings } from '@langchain/core/embeddings';
+import { LocalMemoryVectorStore } from '../rag/vectorstore/memory';
+import { SqliteVectorStore } from '../rag/vectorstore/sqlite';
+import { WorkspaceVectorStore } from '../rag/vectorstore/base';
+import { chunkFile, contentHash, isIndexable } from '../rag/vectorstore/chunking_buildVectorDB';
+import { WorkspaceIndexer } from '../rag/vectorstore/indexer';
+
+/** Letter-frequency vectors: deterministic, and texts sharing words end up close */
+class LetterEmbeddings extends Embeddings {
+    public embedded = 0;
+    constructor() { super({}); }
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+        this.embedded += texts.length;
+        return texts.map(t => this.vector(t));
+    }
+    async embedQuery(text: string): Promise<number[]> {
+        return this.vector(text);
+    }
+    private vector(text: string): number[] {
+        const v = new Array(26).fill(0);
+        for (const ch of text.toLowerCase()) {
+            const i = ch.charCodeAt(0) - 97;
+            if (i >= 0 && i < 26) { v[i]++; }
+        }
+        return v;
+    }
+}
+
+async function exerciseFileOperations(store: WorkspaceVectorStore) {
+    await store.replaceFile('/ws/a.md', 'h1', chunkFile('/ws/a.md', 'apples and apricots'));
+    await store.replaceFile('/ws/b.md', 'h2', chunkFile('/ws/b.md', 'zebra zoo'));
+    assert.strictEqual(store.count(), 2);
+    assert.deepStrictEqual(store.getIndexedFiles().sort(), ['/ws/a.md', '/ws/b.md']);
+
+    await store.replaceFile('/ws/a.md', 'h3', chunkFile('/ws/a.md', 'bananas'));
+    assert.strictEqual(store.count(), 2, 'old chunks of a.md are replaced');
+    assert.strictEqual(store.getFileHash('/ws/a.md'), 'h3');
+    const [top] = await store.similaritySearch('banana', 1);
+    assert.strictEqual(top.pageContent, 'bananas');
+    assert.strictEqual(top.metadata.filePath, '/ws/a.md');
+
+    assert.deepStrictEqual(store.keywordSearch('apricots', 5), [], 'replaced chunks leave the keyword index');
+    assert.strictEqual(store.keywordSearch('zebra', 5)[0].document.pageContent, 'zebra zoo');
+
+    await store.removeFile('/ws/b.md');
+    assert.strictEqual(store.count(), 1);
+    assert.strictEqual(store.getFileHash('/ws/b.md'), undefined);
+    assert.deepStrictEqual(store.keywordSearch('zebra', 5), []);
+}
+
+suite('Vector Store Tests', () => {
+    let dir: string;
+    setup(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'naruhodocs-vectors-')); });
+    teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    test('contentHash is stable and sensitive to any change', () => {
+        const content = Array.from({ length: 320 }, (_, i) => `line ${i + 1}`).join('\n');
+        assert.strictEqual(contentHash(content), contentHash(content));
+        assert.notStrictEqual(contentHash(content), contentHash(content + '\n'));
+    });
+
+    test('In-memory store replaces and removes chunks per file', async () => {
+        await exerciseFileOperations(new LocalMemoryVectorStore(new LetterEmbeddings()));
+    });
+
+    test('SQLite store replaces and removes chunks per file', async () => {
+        const store = await SqliteVectorStore.open(path.join(dir, 'rag', 'vectors.sqlite'), new LetterEmbeddings(), 'letters/v1');
+        await exerciseFileOperations(store);
+        await store.close();
+    });
+
+    test('SQLite store reloads without re-embedding and resets when the embedding model changes', async () => {
+        const dbPath = path.join(dir, 'vectors.sqlite');
+        const first = await SqliteVectorStore.open(dbPath, new LetterEmbeddings(), 'letters/v1');
+        await first.replaceFile('/ws/a.md', 'h1', [new Document({ pageContent: 'apples', metadata: { filePath: '/ws/a.md', startLine: 1, endLine: 1 } })]);
+        await first.close();
+
+        const embeddings = new LetterEmbeddings();
+        const reopened = await SqliteVectorStore.open(dbPath, embeddings, 'letters/v1');
+        assert.strictEqual(reopened.resetReason, undefined);
+        assert.strictEqual(reopened.getFileHash('/ws/a.md'), 'h1');
+        const [doc] = await reopened.similaritySearch('apple', 1);
+        assert.deepStrictEqual([doc.pageContent, doc.metadata.startLine], ['apples', 1]);
+        assert.strictEqual(reopened.keywordSearch('apples', 1).length, 1, 'keyword index is rebuilt on open');
+        assert.strictEqual(embeddings.embedded, 0, 'stored vectors are reused');
+        await reopened.close();
+
+        const otherModel = await SqliteVectorStore.open(dbPath, new LetterEmbeddings(), 'letters/v2');
+        assert.strictEqual(otherModel.resetReason, 'model');
+        assert.deepStrictEqual([otherModel.count(), otherModel.getIndexedFiles()], [0, []]);
+        await otherModel.close();
+    });
+
+    test('isIndexable applies the full-scan exclusions to event paths', () => {
+        assert.ok(isIndexable('/ws/src/app.ts'));
+        for (const excluded of ['/ws/node_modules/x/index.js', '/ws/.git/HEAD', '/ws/.naruhodocs/logs/exchanges.jsonl', '/ws/logo.png', '/ws/package-lock.json', '/ws/dist/app.min.js']) {
+            assert.ok(!isIndexable(excluded), excluded);
+        }
+    });
+
+    test('Indexer coalesces events, re-embeds only changed files and drops deleted files and folders', async () => {
+        const embeddings = new LetterEmbeddings();
+        const store = new LocalMemoryVectorStore(embeddings);
+        const indexer = new WorkspaceIndexer(store, 60_000);
+        const file = (rel: string) => path.join(dir, rel);
+        fs.mkdirSync(file('docs'));
+        fs.writeFileSync(file('a.md'), 'apples');
+        fs.writeFileSync(file('docs/b.md'), 'bananas');
+        fs.writeFileSync(file('docs/c.md'), 'cherries');
+
+        indexer.enqueue(vscode.Uri.file(file('a.md')), 'upsert');
+        indexer.enqueue(vscode.Uri.file(file('a.md')), 'upsert');
+        indexer.enqueue(vscode.Uri.file(file('docs/b.md')), 'upsert');
+        indexer.enqueue(vscode.Uri.file(file('docs/c.md')), 'upsert');
+        indexer.enqueue(vscode.Uri.file(file('node_modules/x.js')), 'upsert');
+        await indexer.flush();
+        assert.strictEqual(embeddings.embedded, 3, 'one embedding per file despite repeated events');
+        assert.deepStrictEqual(store.getIndexedFiles().sort(), [file('a.md'), file('docs/b.md'), file('docs/c.md')]);
+
+        indexer.enqueue(vscode.Uri.file(file('a.md')), 'upsert'); // saved without changes
+        await indexer.flush();
+        assert.strictEqual(embeddings.embedded, 3);
+        fs.writeFileSync(file('a.md'), 'apricots');
+        indexer.enqueue(vscode.Uri.file(file('a.md')), 'upsert');
+        await indexer.flush();
+        assert.strictEqual(embeddings.embedded, 4);
+        assert.strictEqual((await store.similaritySearch('apricot', 1))[0].pageContent, 'apricots');
+
+        fs.rmSync(file('docs'), { recursive: true });
+        indexer.enqueue(vscode.Uri.file(file('docs')), 'delete');
+        await indexer.flush();
+        assert.deepStrictEqual(store.getIndexedFiles(), [file('a.md')]);
+        indexer.dispose();
+    });
+
+    test('Indexer processes queued changes once the debounce elapses', async () => {
+        const store = new LocalMemoryVectorStore(new LetterEmbeddings());
+        const indexer = new WorkspaceIndexer(store, 20);
+        fs.writeFileSync(path.join(dir, 'a.md'), 'apples');
+        indexer.enqueue(vscode.Uri.file(path.join(dir, 'a.md')), 'upsert');
+        assert.strictEqual(store.count(), 0);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await indexer.flush();
+        assert.strictEqual(store.count(), 1);
+        indexer.dispose();
+    });
+
+    test('Indexer stop waits for the running batch and skips the rest', async () => {
+        const embeddings = new LetterEmbeddings();
+        const store = new LocalMemoryVectorStore(embeddings);
+        const indexer = new WorkspaceIndexer(store, 60_000);
+        for (const name of ['a.md', 'b.md', 'c.md']) {
+            fs.writeFileSync(path.join(dir, name), name);
+            indexer.enqueue(vscode.Uri.file(path.join(dir, name)), 'upsert');
+        }
+        const flushed = indexer.flush();
+        await indexer.stop();
+        await flushed;
+        assert.ok(store.getIndexedFiles().length < 3, 'files after the stop are not indexed');
+        const indexed = store.count();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.strictEqual(store.count(), indexed, 'nothing is written once stop resolved');
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Minimal JSON parser that keeps source offsets, so diagnostics can point at the exact key or value
+ * in a config file. Accepts strict JSON only (same as JSON.parse).
+ */
+export interface JsonNode {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+    offset: number;
+    length: number;
+    value?: string | number | boolean | null; // Scalars only
+    properties?: JsonProperty[];              // Objects
+    items?: JsonNode[];                       // Arrays
+}
+
+export interface JsonProperty {
+    key: string;
+    keyOffset: number;
+    keyLength: number; // Including quotes
+    value: JsonNode;
+}
+
+export class JsonParseError extends Error {
+    constructor(message: string, public readonly offset: number) {
+        super(message);
+        this.name = 'JsonParseError';
+    }
+}
+
+export function parseJsonTree(text: string): JsonNode {
+    let pos = 0;
+
+    const fail = (message: string): never => { throw new JsonParseError(message, Math.min(pos, text.length)); };
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) { pos++; }
+    };
+    const expect = (ch: string) => {
+        if (text[pos] !== ch) { fail(`Expected '${ch}'`); }
+        pos++;
+    };
+
+    const parseString = (): JsonNode => {
+        const start = pos;
+        expect('"');
+        while (pos < text.length && text[pos] !== '"') {
+            pos += text[pos] === '\\' ? 2 : 1;
+        }
+        expect('"');
+        let value: string;
+        try {
+            value = JSON.parse(text.slice(start, pos));
+        } catch {
+            pos = start;
+            return fail('Invalid string');
+        }
+        return { type: 'string', offset: start, length: pos - start, value };
+    };
+
+    const parseValue = (): JsonNode => {
+        skipWhitespace();
+        const start = pos;
+        const ch = text[pos];
+        if (ch === '{') {
+            pos++;
+            const properties: JsonProperty[] = [];
+            skipWhitespace();
+            if (text[pos] === '}') {
+                pos++;
+            } else {
+                for (;;) {
+                    skipWhitespace();
+                    const key = parseString();
+                    skipWhitespace();
+                    expect(':');
+                    properties.push({ key: key.value as string, keyOffset: key.offset, keyLength: key.length, value: parseValue() });
+                    skipWhitespace();
+                    if (text[pos] === ',') { pos++; continue; }
+                    expect('}');
+                    break;
+                }
+            }
+            return { type: 'object', offset: start, length: pos - start, properties };
+        }
+        if (ch === '[') {
+            pos++;
+            const items: JsonNode[] = [];
+            skipWhitespace();
+            if (text[pos] === ']') {
+                pos++;
+            } else {
+                for (;;) {
+                    items.push(parseValue());
+                    skipWhitespace();
+                    if (text[pos] === ',') { pos++; continue; }
+                    expect(']');
+                    break;
+                }
+            }
+            return { type: 'array', offset: start, length: pos - start, items };
+        }
+        if (ch === '"') {
+            return parseString();
+        }
+        const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(text.slice(pos));
+        if (!literal) {
+            return fail('Unexpected token');
+        }
+        pos += literal[0].length;
+        const raw = literal[0];
+        if (raw === 'null') { return { type: 'null', offset: start, length: raw.length, value: null }; }
+        if (raw === 'true' || raw === 'false') { return { type: 'boolean', offset: start, length: raw.length, value: raw === 'true' }; }
+        return { type: 'number', offset: start, length: raw.length, value: Number(raw) };
+    };
+
+    const root = parseValue();
+    skipWhitespace();
+    if (pos < text.length) {
+        fail('Unexpected content after JSON value');
+    }
+    return root;
+}
+
+/** Property of an object node by key */
+export function findProperty(node: JsonNode | undefined, key: string): JsonProperty | undefined {
+    return node?.properties?.find(p => p.key === key);
+}
+
+/** Node at a property path, e.g. ['providers', 'local', 'baseUrl'] */
+export function findNode(root: JsonNode | undefined, path: string[]): JsonNode | undefined {
+    let node = root;
+    for (const key of path) {
+        node = findProperty(node, key)?.value;
+        if (!node) { return undefined; }
+    }
+    return node;
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+export type StructuredParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+const MAX_JSON_CANDIDATES = 20;
+
+/** End index (exclusive) of the balanced JSON object / array starting at start, or -1 when it never closes */
+function balancedEnd(text: string, start: number): number {
+    const stack: string[] = [];
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') { i++; }
+            else if (ch === '"') { inString = false; }
+            continue;
+        }
+        if (ch === '"') { inString = true; }
+        else if (ch === '{') { stack.push('}'); }
+        else if (ch === '[') { stack.push(']'); }
+        else if (ch === '}' || ch === ']') {
+            if (stack.pop() !== ch) { return -1; }
+            if (!stack.length) { return i + 1; }
+        }
+    }
+    return -1;
+}
+
+/**
+ * Locate the JSON value in a model reply. Reasoning (<think> blocks, the collapsible section added by
+ * formatReasoning) is dropped first; then the first balanced {...} or [...] that parses wins, so prose or code
+ * fences around the JSON do not matter. Returns undefined when the reply holds no JSON.
+ */
+export function extractJsonText(text: string): string | undefined {
+    const cleaned = text
+        .replace(/<think>[\s\S]*?<\/think>/gi, '')
+        .replace(/<details class="ai-reasoning">[\s\S]*?<\/details>/gi, '')
+        .trim();
+    let candidates = 0;
+    for (let start = 0; start < cleaned.length && candidates < MAX_JSON_CANDIDATES; start++) {
+        const ch = cleaned[start];
+        if (ch !== '{' && ch !== '[') { continue; }
+        candidates++;
+        const end = balancedEnd(cleaned, start);
+        if (end < 0) { continue; }
+        const candidate = cleaned.slice(start, end);
+        try {
+            JSON.parse(candidate);
+            return candidate;
+        } catch { /* try the next opening bracket */ }
+    }
+    return undefined;
+}
+
+/** Parse a model reply and validate it against schema; issues are phrased for the repair prompt */
+export function parseStructured<T>(text: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+    const json = extractJsonText(text);
+    if (json === undefined) {
+        return { ok: false, issues: [text.trim() ? 'The reply contains no valid JSON value.' : 'The reply was empty.'] };
+    }
+    const result = schema.safeParse(JSON.parse(json));
+    if (result.success) {
+        return { ok: true, value: result.data };
+    }
+    return { ok: false, issues: result.error.issues.map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`) };
+}
+
+/** Follow-up turn sent after an invalid reply */
+export function repairPrompt(issues: string[]): string {
+    const listed = issues.slice(0, 10).map(issue => `- ${issue}`).join('\n');
+    const more = issues.length > 10 ? `\n- …and ${issues.length - 10} more` : '';
+    return `Your previous reply does not match the required JSON schema:\n${listed}${more}\n\nReply again with only the corrected JSON value.`;
+}
@@ -1,3 +1,5 @@
+import * as vscode from 'vscode';
+
 /**
  * Utility function to generate a nonce.
  * A nonce is a random string used for security purposes.
@@ -10,3 +12,17 @@ export function getNonce(): string {
     }
     return text;
 }
+
+/**
+ * Bridge a VS Code CancellationToken (e.g. from a cancellable withProgress) to an AbortSignal
+ * understood by LLMService and LangChain.
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    } else {
+        token.onCancellationRequested(() => controller.abort());
+    }
+    return controller.signal;
+}